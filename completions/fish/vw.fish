@@ -174,35 +174,54 @@ function __vw_hook_names
   command git rev-parse --is-inside-work-tree >/dev/null 2>/dev/null; or return 0
   set -l repo_root (command git rev-parse --show-toplevel 2>/dev/null); or return 0
   if test -d "$repo_root/.vde/worktree/hooks"
-    command ls -1 "$repo_root/.vde/worktree/hooks" 2>/dev/null | string match -r '^(pre|post)-' | sort -u
+    command ls -1 "$repo_root/.vde/worktree/hooks" 2>/dev/null | string match -r '^(pre|post)-' | string replace -r '\.(mjs|js|mts|ts|d)$' '' | sort -u
   end
 end
 
-set -l __vw_commands init list status path new switch mv del gone adopt get extract absorb unabsorb use exec invoke copy link lock unlock cd completion help
+function __vw_trash_branches
+  command git rev-parse --is-inside-work-tree >/dev/null 2>/dev/null; or return 0
+  set -l vw_bin (__vw_current_bin)
+  test -n "$vw_bin"; or return 0
+  command $vw_bin trash list 2>/dev/null | string split -f2 \t | sort -u
+end
+
+set -l __vw_commands init list status path log doctor new switch pool mv del gone restore trash adopt get extract absorb unabsorb use restack pr push sync exec invoke copy link setup lock unlock with-lock cd tui completion help
 
 for __vw_bin in vw vde-worktree
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a init -d "Initialize directories, hooks, and managed exclude entries"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a list -d "List worktrees with status metadata"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a status -d "Show a single worktree status"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a path -d "Print absolute worktree path for branch"
+  complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a log -d "Show the operation journal of write commands"
+  complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a doctor -d "Check vw setup and repository state for problems"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a new -d "Create branch + worktree under .worktree"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a switch -d "Idempotent branch entrypoint"
+  complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a pool -d "Manage spare worktree pool"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a mv -d "Rename current non-primary worktree branch"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a del -d "Delete worktree + branch with safety checks"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a gone -d "Bulk cleanup by safety-filtered candidate selection"
+  complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a restore -d "Recreate a deleted branch and worktree from trash"
+  complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a trash -d "List or purge trash entries"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a adopt -d "Move unmanaged non-primary worktrees into managed worktree root"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a get -d "Fetch remote branch and attach worktree"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a extract -d "Extract current primary branch into .worktree"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a absorb -d "Bring non-primary worktree changes into primary worktree"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a unabsorb -d "Push primary worktree changes into non-primary worktree"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a use -d "Checkout target branch in primary worktree"
+  complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a restack -d "Rebase stacked child worktrees onto their parents"
+  complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a pr -d "Show, create, or open the pull request for a branch"
+  complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a push -d "Push worktree branches with upstream setup"
+  complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a sync -d "Fetch base remote and rebase or merge worktrees onto base"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a exec -d "Run command in target branch worktree"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a invoke -d "Manually run hook script"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a copy -d "Copy repo-root files/dirs to target worktree"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a link -d "Create symlink from target worktree to repo-root file"
+  complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a setup -d "Apply config setup to a worktree"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a lock -d "Create or update lock metadata"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a unlock -d "Remove lock metadata"
+  complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a with-lock -d "Run command while holding worktree lock"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a cd -d "Interactive fzf picker"
+  complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a tui -d "Full-screen worktree dashboard"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a completion -d "Print or install shell completion scripts"
   complete -c $__vw_bin -f -n "not __fish_seen_subcommand_from $__vw_commands" -a help -d "Show help"
 
@@ -211,6 +230,7 @@ for __vw_bin in vw vde-worktree
   complete -c $__vw_bin -l no-hooks -d "Disable hooks for this run (requires --allow-unsafe)"
   complete -c $__vw_bin -l no-gh -d "Disable GitHub CLI based PR status checks for this run"
   complete -c $__vw_bin -l full-path -d "Disable list table path truncation"
+  complete -c $__vw_bin -l refresh -d "Bypass the snapshot cache for list/cd"
   complete -c $__vw_bin -l allow-unsafe -d "Explicit unsafe override in non-TTY mode"
   complete -c $__vw_bin -l strict-post-hooks -d "Fail when post hooks fail"
   complete -c $__vw_bin -l hook-timeout-ms -r -d "Override hook timeout"
@@ -221,26 +241,58 @@ for __vw_bin in vw vde-worktree
   complete -c $__vw_bin -n "__fish_seen_subcommand_from status" -a "(__vw_worktree_candidates_with_meta)"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from path" -a "(__vw_worktree_candidates_with_meta)"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from switch" -a "(__vw_worktree_candidates_with_meta)"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from pool; and not __fish_seen_subcommand_from fill clear" -a "fill clear"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from del" -a "(__vw_worktree_candidates_with_meta)"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from list" -l full-path -d "Disable list table path truncation"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from get" -a "(__vw_remote_branches)"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from restore" -a "(__vw_trash_branches)"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from trash; and not __fish_seen_subcommand_from list purge" -a "list purge"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from trash; and __fish_seen_subcommand_from purge" -a "(__vw_trash_branches)"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from trash" -l all -d "Purge every trash entry"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from absorb" -a "(__vw_worktree_candidates_with_meta)"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from unabsorb" -a "(__vw_worktree_candidates_with_meta)"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from use" -a "(__vw_use_candidates_with_meta)"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from restack" -a "(__vw_worktree_candidates_with_meta)"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from pr" -a "(__vw_worktree_candidates_with_meta)"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from push" -a "(__vw_worktree_candidates_with_meta)"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from sync" -a "(__vw_worktree_candidates_with_meta)"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from exec" -a "(__vw_worktree_candidates_with_meta)"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from invoke" -a "(__vw_hook_names)"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from invoke" -a list -d "List hooks that would run"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from setup" -a "(__vw_worktree_candidates_with_meta)"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from lock" -a "(__vw_worktree_candidates_with_meta)"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from lock; and not __fish_seen_subcommand_from renew" -a renew -d "Extend lock expiry"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from unlock" -a "(__vw_worktree_candidates_with_meta)"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from with-lock" -a "(__vw_worktree_candidates_with_meta)"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from help" -a "$__vw_commands"
 
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from list status" -l where -r -d "Filter expression"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from list status log" -l branch -r -d "Branch glob filter"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from log" -l since -r -d "Duration (30m, 12h, 7d, 2w) or date"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from doctor" -l repair -d "Repair problems that can be fixed safely"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from list status" -l merged -d "Only merged worktrees"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from list status" -l no-merged -d "Only unmerged worktrees"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from list status" -l pr -r -a "none open merged closed_unmerged unknown" -d "PR status filter"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from list status" -l owner -r -d "Lock owner filter"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from list status" -l sort -r -a "branch path updatedAt dirty locked merged pr ahead behind" -d "Sort key (prefix - for descending)"
+
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from new switch pool" -l from -r -d "Start point ref"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from pool" -l size -r -d "Number of spare worktrees"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from new switch pool" -l base -r -a "(__vw_worktree_candidates_with_meta)" -d "Parent branch"
+
   complete -c $__vw_bin -n "__fish_seen_subcommand_from del" -l force-dirty -d "Allow dirty worktree for del"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from del" -l allow-unpushed -d "Allow unpushed commits for del"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from del" -l force-unmerged -d "Allow unmerged worktree for del"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from del" -l force-locked -d "Allow deleting locked worktree"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from del" -l force -d "Enable all del force flags"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from del" -l pick -d "Pick worktrees to delete with fzf"
 
   complete -c $__vw_bin -n "__fish_seen_subcommand_from gone" -l apply -d "Apply deletion"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from gone" -l dry-run -d "Dry-run mode"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from gone" -l pick -d "Pick candidates to delete with fzf"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from gone" -l include-closed -d "Include closed unmerged PRs"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from gone" -l upstream-gone -d "Include branches whose upstream was deleted"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from gone" -l stale -r -d "Include branches inactive for N days"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from adopt" -l apply -d "Apply worktree moves"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from adopt" -l dry-run -d "Dry-run mode"
 
@@ -262,15 +314,45 @@ for __vw_bin in vw vde-worktree
   complete -c $__vw_bin -n "__fish_seen_subcommand_from use" -l allow-shared -d "Allow checkout when branch is attached by another worktree"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from use" -l allow-unsafe -d "Allow unsafe behavior in non-TTY mode"
 
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from restack" -l dry-run -d "Show restack plan without rebasing"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from restack" -l force-locked -d "Allow restacking locked worktree"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from push" -l all -d "Push every worktree branch"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from push" -l force-locked -d "Allow pushing locked worktree"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from push" -l force-base -d "Allow pushing the base branch"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from sync" -l all -d "Sync every worktree"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from sync" -l rebase -d "Rebase onto base branch (default)"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from sync" -l merge -d "Merge base branch instead of rebasing"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from pr" -l create -d "Push branch and create pull request"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from pr" -l web -d "Open pull request in browser"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from pr" -l view -d "Show pull request"
+
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from exec" -l all -d "Run in every worktree"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from exec" -l filter -r -a "dirty clean merged unmerged locked unlocked owner= branch= pr=" -d "Worktree filter"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from exec" -l concurrency -r -d "Maximum parallel children"
+
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from copy link" -l glob -r -d "Untracked files by glob"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from copy link" -l ignored -d "Every gitignored untracked file"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from copy link" -l exclude -r -d "Exclude files by glob"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from copy link" -l max-size -r -d "Skip files larger than size"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from copy link" -l dry-run -d "List selected paths without changes"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from copy" -l strategy -r -a "auto reflink hardlink copy" -d "Copy strategy"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from link" -l no-fallback -d "Disable copy fallback when symlink fails"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from lock" -l owner -r -d "Lock owner"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from lock" -l reason -r -d "Lock reason"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from lock" -l ttl -r -d "Lock expiry duration (90s, 30m, 12h, 7d)"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from lock" -l heartbeat -d "Renew the lock until interrupted"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from lock with-lock" -l wait -r -d "Wait for lock held by another owner"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from with-lock" -l owner -r -d "Lock owner"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from with-lock" -l reason -r -d "Lock reason"
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from with-lock" -l ttl -r -d "Lock expiry duration (90s, 30m, 12h, 7d)"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from unlock" -l owner -r -d "Unlock owner"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from unlock" -l force -d "Force unlock"
 
   complete -c $__vw_bin -n "__fish_seen_subcommand_from cd" -l prompt -r -d "Custom fzf prompt"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from cd" -l fzf-arg -r -d "Extra argument passed to fzf"
 
+  complete -c $__vw_bin -n "__fish_seen_subcommand_from tui" -l interval-ms -r -d "Refresh interval"
+
   complete -c $__vw_bin -n "__fish_seen_subcommand_from completion" -a "zsh fish" -d "Shell name"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from completion" -l install -d "Install completion file"
   complete -c $__vw_bin -n "__fish_seen_subcommand_from completion" -l path -r -d "Install destination file path"
@@ -0,0 +1,103 @@
+import { realpath, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { execa } from "execa"
+import { afterEach, describe, expect, it } from "vitest"
+import { createCli } from "../cli/index"
+import { cleanupRepoFixtures, createRepoFixture } from "../test-utils/repo-fixture"
+import {
+  CliError,
+  listWorktrees,
+  createWorktree,
+  deleteWorktree,
+  lockWorktree,
+  switchWorktree,
+  unlockWorktree,
+} from "./index"
+
+const runGit = async (cwd: string, args: readonly string[]): Promise<void> => {
+  await execa("git", [...args], { cwd })
+}
+
+const createInitializedRepo = async (): Promise<string> => {
+  const repoRoot = await createRepoFixture({
+    prefix: "vde-worktree-api-",
+    setup: async (root) => {
+      await runGit(root, ["init", "-b", "main"])
+      await runGit(root, ["config", "user.name", "test-user"])
+      await runGit(root, ["config", "user.email", "test@example.com"])
+      await writeFile(join(root, "README.md"), "# test\n", "utf8")
+      await runGit(root, ["add", "."])
+      await runGit(root, ["commit", "-m", "initial"])
+    },
+  })
+  const resolvedRoot = await realpath(repoRoot)
+  expect(await createCli({ cwd: resolvedRoot, stdout: () => undefined }).run(["init"])).toBe(0)
+  return resolvedRoot
+}
+
+afterEach(cleanupRepoFixtures)
+
+describe("programmatic api", () => {
+  it("creates, switches, snapshots, and deletes worktrees in-process", async () => {
+    const repoRoot = await createInitializedRepo()
+
+    const created = await createWorktree({ cwd: repoRoot, branch: "feature/api", gh: false })
+    expect(created).toEqual({
+      repoRoot,
+      status: "created",
+      branch: "feature/api",
+      path: join(repoRoot, ".worktree", "feature", "api"),
+    })
+
+    const switched = await switchWorktree({ cwd: repoRoot, branch: "feature/api", gh: false })
+    expect(switched.status).toBe("existing")
+    expect(switched.path).toBe(created.path)
+
+    const snapshot = await listWorktrees({ cwd: repoRoot, gh: false })
+    expect(snapshot.repoRoot).toBe(repoRoot)
+    expect(snapshot.baseBranch).toBe("main")
+    expect(snapshot.worktrees.map((worktree) => worktree.branch)).toEqual(["main", "feature/api"])
+
+    await expect(deleteWorktree({ cwd: repoRoot, branch: "feature/api", gh: false })).rejects.toMatchObject({
+      code: "UNMERGED_WORKTREE",
+    })
+    const deleted = await deleteWorktree({
+      cwd: repoRoot,
+      branch: "feature/api",
+      gh: false,
+      forceUnmerged: true,
+      allowUnpushed: true,
+      allowUnsafe: true,
+    })
+    expect(deleted).toEqual({
+      repoRoot,
+      status: "deleted",
+      branch: "feature/api",
+      path: created.path,
+    })
+  })
+
+  it("throws CliError with error code and enforces lock safety", async () => {
+    const repoRoot = await createInitializedRepo()
+    await createWorktree({ cwd: repoRoot, branch: "feature/locked", gh: false })
+
+    const locked = await lockWorktree({ cwd: repoRoot, branch: "feature/locked", owner: "agent", reason: "busy" })
+    expect(locked.locked).toEqual({ value: true, reason: "busy", owner: "agent", expiresAt: null, heartbeat: false })
+
+    const error = await deleteWorktree({ cwd: repoRoot, branch: "feature/locked", gh: false }).catch(
+      (caught: unknown) => caught,
+    )
+    expect(error).toBeInstanceOf(CliError)
+    expect((error as CliError).code).toBe("LOCKED_WORKTREE")
+
+    await expect(
+      deleteWorktree({ cwd: repoRoot, branch: "feature/locked", forceLocked: true, gh: false }),
+    ).rejects.toMatchObject({ code: "UNSAFE_FLAG_REQUIRED" })
+
+    await expect(unlockWorktree({ cwd: repoRoot, branch: "feature/locked", owner: "other" })).rejects.toMatchObject({
+      code: "LOCK_CONFLICT",
+    })
+    const unlocked = await unlockWorktree({ cwd: repoRoot, branch: "feature/locked", owner: "agent" })
+    expect(unlocked.locked).toEqual({ value: false, reason: null })
+  })
+})
@@ -0,0 +1,304 @@
+import { createCli } from "../cli/index"
+import { EXIT_CODE } from "../core/constants"
+import { type CliError, createCliError } from "../core/errors"
+import type { WorktreeSnapshot, WorktreeStatus } from "../core/worktree-state"
+
+export { CliError, type ErrorCode } from "../core/errors"
+export type { HookModule, HookModuleContext, HookModuleExecResult } from "../core/hook-modules"
+export type {
+  WorktreeLockState,
+  WorktreeMergedState,
+  WorktreePrState,
+  WorktreeSnapshot,
+  WorktreeStatus,
+  WorktreeUpstreamState,
+} from "../core/worktree-state"
+
+export type WorktreeApiOptions = {
+  readonly cwd?: string
+  readonly hooks?: boolean
+  readonly gh?: boolean
+  readonly strictPostHooks?: boolean
+  readonly hookTimeoutMs?: number
+  readonly lockTimeoutMs?: number
+  readonly allowUnsafe?: boolean
+  readonly stderr?: (line: string) => void
+}
+
+export type WorktreeResult<TStatus extends string> = {
+  readonly repoRoot: string
+  readonly status: TStatus
+  readonly branch: string
+  readonly path: string
+}
+
+export type CreateWorktreeResult = WorktreeResult<"created">
+export type SwitchWorktreeResult = WorktreeResult<"created" | "existing">
+export type DeleteWorktreeResult = WorktreeResult<"deleted">
+
+export type DeleteWorktreeForceOptions = {
+  readonly forceDirty?: boolean
+  readonly allowUnpushed?: boolean
+  readonly forceUnmerged?: boolean
+  readonly forceLocked?: boolean
+  readonly force?: boolean
+}
+
+export type WorktreeLockResult = {
+  readonly repoRoot: string
+  readonly branch: string
+  readonly locked: {
+    readonly value: boolean
+    readonly reason: string | null
+    readonly owner?: string
+    readonly expiresAt?: string | null
+    readonly heartbeat?: boolean
+  }
+}
+
+type JsonPayload = Record<string, unknown> & {
+  readonly repoRoot: string
+  readonly status: string
+}
+
+const toGlobalArgs = (options: WorktreeApiOptions): string[] => {
+  return [
+    ...(options.hooks === false ? ["--no-hooks"] : []),
+    ...(options.gh === false ? ["--no-gh"] : []),
+    ...(options.strictPostHooks === true ? ["--strict-post-hooks"] : []),
+    ...(options.hookTimeoutMs !== undefined ? ["--hook-timeout-ms", String(options.hookTimeoutMs)] : []),
+    ...(options.lockTimeoutMs !== undefined ? ["--lock-timeout-ms", String(options.lockTimeoutMs)] : []),
+    ...(options.allowUnsafe === true ? ["--allow-unsafe"] : []),
+  ]
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return value !== null && typeof value === "object" && Array.isArray(value) !== true
+}
+
+const isStringOrNull = (value: unknown): value is string | null => {
+  return value === null || typeof value === "string"
+}
+
+const parseJsonPayload = (raw: string): JsonPayload | null => {
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!isRecord(parsed) || typeof parsed.repoRoot !== "string" || typeof parsed.status !== "string") {
+      return null
+    }
+    return parsed as JsonPayload
+  } catch {
+    return null
+  }
+}
+
+const createUnexpectedPayloadError = ({
+  command,
+  payload,
+}: {
+  readonly command: string
+  readonly payload: unknown
+}): CliError => {
+  return createCliError("INTERNAL_ERROR", {
+    message: `Unexpected result from ${command}`,
+    details: { output: payload },
+  })
+}
+
+const runJsonCommand = async ({
+  args,
+  options,
+}: {
+  readonly args: readonly string[]
+  readonly options: WorktreeApiOptions
+}): Promise<JsonPayload> => {
+  const lines: string[] = []
+  const cli = createCli({
+    cwd: options.cwd,
+    stdout: (line) => lines.push(line),
+    stderr: options.stderr ?? ((): void => undefined),
+    isInteractive: () => false,
+    throwOnError: true,
+  })
+  const exitCode = await cli.run([...args, "--json", ...toGlobalArgs(options)])
+  const raw = lines.at(-1) ?? ""
+  const payload = parseJsonPayload(raw)
+  if (exitCode !== EXIT_CODE.OK || payload === null) {
+    throw createCliError("INTERNAL_ERROR", {
+      message: `Unexpected result from ${args[0] ?? "command"}`,
+      details: { exitCode, output: raw },
+    })
+  }
+  return payload
+}
+
+const toWorktreeResult = <TStatus extends string>({
+  command,
+  payload,
+  statuses,
+}: {
+  readonly command: string
+  readonly payload: JsonPayload
+  readonly statuses: readonly TStatus[]
+}): WorktreeResult<TStatus> => {
+  const { repoRoot, status, branch, path } = payload
+  const matchedStatus = statuses.find((candidate) => candidate === status)
+  if (matchedStatus === undefined || typeof branch !== "string" || typeof path !== "string") {
+    throw createUnexpectedPayloadError({ command, payload })
+  }
+  return { repoRoot, status: matchedStatus, branch, path }
+}
+
+const isLockedState = (value: unknown): value is WorktreeLockResult["locked"] => {
+  return (
+    isRecord(value) &&
+    typeof value.value === "boolean" &&
+    isStringOrNull(value.reason) &&
+    (value.owner === undefined || typeof value.owner === "string") &&
+    (value.expiresAt === undefined || isStringOrNull(value.expiresAt)) &&
+    (value.heartbeat === undefined || typeof value.heartbeat === "boolean")
+  )
+}
+
+const toWorktreeLockResult = ({
+  command,
+  branch,
+  payload,
+}: {
+  readonly command: string
+  readonly branch: string
+  readonly payload: JsonPayload
+}): WorktreeLockResult => {
+  if (!isLockedState(payload.locked)) {
+    throw createUnexpectedPayloadError({ command, payload })
+  }
+  return { repoRoot: payload.repoRoot, branch, locked: payload.locked }
+}
+
+const isWorktreeStatus = (value: unknown): value is WorktreeStatus => {
+  return (
+    isRecord(value) &&
+    isStringOrNull(value.branch) &&
+    typeof value.path === "string" &&
+    typeof value.head === "string" &&
+    isStringOrNull(value.parent) &&
+    typeof value.dirty === "boolean" &&
+    isRecord(value.locked) &&
+    isRecord(value.merged) &&
+    isRecord(value.pr) &&
+    isRecord(value.upstream)
+  )
+}
+
+export type WorktreeStartPointOptions = {
+  readonly from?: string
+  readonly base?: string
+}
+
+const toStartPointArgs = ({ from, base }: WorktreeStartPointOptions): string[] => {
+  return [...(from !== undefined ? ["--from", from] : []), ...(base !== undefined ? ["--base", base] : [])]
+}
+
+export const createWorktree = async ({
+  branch,
+  from,
+  base,
+  ...options
+}: WorktreeApiOptions &
+  WorktreeStartPointOptions & { readonly branch?: string } = {}): Promise<CreateWorktreeResult> => {
+  const payload = await runJsonCommand({
+    args: ["new", ...(branch !== undefined ? [branch] : []), ...toStartPointArgs({ from, base })],
+    options,
+  })
+  return toWorktreeResult({ command: "new", payload, statuses: ["created"] })
+}
+
+export const switchWorktree = async ({
+  branch,
+  from,
+  base,
+  ...options
+}: WorktreeApiOptions & WorktreeStartPointOptions & { readonly branch: string }): Promise<SwitchWorktreeResult> => {
+  const payload = await runJsonCommand({ args: ["switch", branch, ...toStartPointArgs({ from, base })], options })
+  return toWorktreeResult({ command: "switch", payload, statuses: ["created", "existing"] })
+}
+
+export const deleteWorktree = async ({
+  branch,
+  forceDirty,
+  allowUnpushed,
+  forceUnmerged,
+  forceLocked,
+  force,
+  ...options
+}: WorktreeApiOptions & DeleteWorktreeForceOptions & { readonly branch: string }): Promise<DeleteWorktreeResult> => {
+  const payload = await runJsonCommand({
+    args: [
+      "del",
+      branch,
+      ...(forceDirty === true ? ["--force-dirty"] : []),
+      ...(allowUnpushed === true ? ["--allow-unpushed"] : []),
+      ...(forceUnmerged === true ? ["--force-unmerged"] : []),
+      ...(forceLocked === true ? ["--force-locked"] : []),
+      ...(force === true ? ["--force"] : []),
+    ],
+    options,
+  })
+  return toWorktreeResult({ command: "del", payload, statuses: ["deleted"] })
+}
+
+export const listWorktrees = async (options: WorktreeApiOptions = {}): Promise<WorktreeSnapshot> => {
+  const payload = await runJsonCommand({ args: ["list"], options })
+  const { repoRoot, baseBranch, worktrees } = payload
+  if (!isStringOrNull(baseBranch) || !Array.isArray(worktrees) || !worktrees.every(isWorktreeStatus)) {
+    throw createUnexpectedPayloadError({ command: "list", payload })
+  }
+  return { repoRoot, baseBranch, worktrees }
+}
+
+export const lockWorktree = async ({
+  branch,
+  owner,
+  reason,
+  ttl,
+  ...options
+}: WorktreeApiOptions & {
+  readonly branch: string
+  readonly owner?: string
+  readonly reason?: string
+  readonly ttl?: string
+}): Promise<WorktreeLockResult> => {
+  const payload = await runJsonCommand({
+    args: [
+      "lock",
+      branch,
+      ...(owner !== undefined ? ["--owner", owner] : []),
+      ...(reason !== undefined ? ["--reason", reason] : []),
+      ...(ttl !== undefined ? ["--ttl", ttl] : []),
+    ],
+    options,
+  })
+  return toWorktreeLockResult({ command: "lock", branch, payload })
+}
+
+export const unlockWorktree = async ({
+  branch,
+  owner,
+  force,
+  ...options
+}: WorktreeApiOptions & {
+  readonly branch: string
+  readonly owner?: string
+  readonly force?: boolean
+}): Promise<WorktreeLockResult> => {
+  const payload = await runJsonCommand({
+    args: [
+      "unlock",
+      branch,
+      ...(owner !== undefined ? ["--owner", owner] : []),
+      ...(force === true ? ["--force"] : []),
+    ],
+    options,
+  })
+  return toWorktreeLockResult({ command: "unlock", branch, payload })
+}
@@ -1,5 +1,11 @@
 import { describe, expect, it } from "vitest"
-import { createEarlyRepoCommandHandlers, createMiscCommandHandlers, dispatchCommandHandler } from "./handler-groups"
+import {
+  createEarlyRepoCommandHandlers,
+  createMiscCommandHandlers,
+  createRemoteCommandHandlers,
+  createWriteMutationHandlers,
+  dispatchCommandHandler,
+} from "./handler-groups"
 
 describe("handler-groups", () => {
   it("dispatches matching command handler", async () => {
@@ -8,6 +14,8 @@ describe("handler-groups", () => {
       listHandler: async () => 20,
       statusHandler: async () => 30,
       pathHandler: async () => 40,
+      logHandler: async () => 50,
+      doctorHandler: async () => 60,
     })
 
     const exitCode = await dispatchCommandHandler({
@@ -24,6 +32,8 @@ describe("handler-groups", () => {
       listHandler: async () => 20,
       statusHandler: async () => 30,
       pathHandler: async () => 40,
+      logHandler: async () => 50,
+      doctorHandler: async () => 60,
     })
 
     const exitCode = await dispatchCommandHandler({
@@ -40,11 +50,46 @@ describe("handler-groups", () => {
       invokeHandler: async () => 1,
       copyHandler: async () => 1,
       linkHandler: async () => 1,
+      setupHandler: async () => 1,
       lockHandler: async () => 1,
       unlockHandler: async () => 1,
+      withLockHandler: async () => 1,
       cdHandler: async () => 1,
+      tuiHandler: async () => 1,
     })
 
-    expect([...handlers.keys()]).toEqual(["exec", "invoke", "copy", "link", "lock", "unlock", "cd"])
+    expect([...handlers.keys()]).toEqual([
+      "exec",
+      "invoke",
+      "copy",
+      "link",
+      "setup",
+      "lock",
+      "unlock",
+      "with-lock",
+      "cd",
+      "tui",
+    ])
+  })
+
+  it("creates write mutation handlers including restore and trash", () => {
+    const handlers = createWriteMutationHandlers({
+      mvHandler: async () => 1,
+      delHandler: async () => 1,
+      restoreHandler: async () => 1,
+      trashHandler: async () => 1,
+    })
+
+    expect([...handlers.keys()]).toEqual(["mv", "del", "restore", "trash"])
+  })
+
+  it("creates remote handlers for pr, push, and sync", () => {
+    const handlers = createRemoteCommandHandlers({
+      prHandler: async () => 1,
+      pushHandler: async () => 1,
+      syncHandler: async () => 1,
+    })
+
+    expect([...handlers.keys()]).toEqual(["pr", "push", "sync"])
   })
 })
@@ -25,43 +25,58 @@ export const createEarlyRepoCommandHandlers = ({
   listHandler,
   statusHandler,
   pathHandler,
+  logHandler,
+  doctorHandler,
 }: {
   readonly initHandler: CommandHandler
   readonly listHandler: CommandHandler
   readonly statusHandler: CommandHandler
   readonly pathHandler: CommandHandler
+  readonly logHandler: CommandHandler
+  readonly doctorHandler: CommandHandler
 }): CommandHandlerMap => {
   return createHandlerMap([
     ["init", initHandler],
     ["list", listHandler],
     ["status", statusHandler],
     ["path", pathHandler],
+    ["log", logHandler],
+    ["doctor", doctorHandler],
   ])
 }
 
 export const createWriteCommandHandlers = ({
   newHandler,
   switchHandler,
+  poolHandler,
 }: {
   readonly newHandler: CommandHandler
   readonly switchHandler: CommandHandler
+  readonly poolHandler: CommandHandler
 }): CommandHandlerMap => {
   return createHandlerMap([
     ["new", newHandler],
     ["switch", switchHandler],
+    ["pool", poolHandler],
   ])
 }
 
 export const createWriteMutationHandlers = ({
   mvHandler,
   delHandler,
+  restoreHandler,
+  trashHandler,
 }: {
   readonly mvHandler: CommandHandler
   readonly delHandler: CommandHandler
+  readonly restoreHandler: CommandHandler
+  readonly trashHandler: CommandHandler
 }): CommandHandlerMap => {
   return createHandlerMap([
     ["mv", mvHandler],
     ["del", delHandler],
+    ["restore", restoreHandler],
+    ["trash", trashHandler],
   ])
 }
 
@@ -88,15 +103,34 @@ export const createSynchronizationHandlers = ({
   absorbHandler,
   unabsorbHandler,
   useHandler,
+  restackHandler,
 }: {
   readonly absorbHandler: CommandHandler
   readonly unabsorbHandler: CommandHandler
   readonly useHandler: CommandHandler
+  readonly restackHandler: CommandHandler
 }): CommandHandlerMap => {
   return createHandlerMap([
     ["absorb", absorbHandler],
     ["unabsorb", unabsorbHandler],
     ["use", useHandler],
+    ["restack", restackHandler],
+  ])
+}
+
+export const createRemoteCommandHandlers = ({
+  prHandler,
+  pushHandler,
+  syncHandler,
+}: {
+  readonly prHandler: CommandHandler
+  readonly pushHandler: CommandHandler
+  readonly syncHandler: CommandHandler
+}): CommandHandlerMap => {
+  return createHandlerMap([
+    ["pr", prHandler],
+    ["push", pushHandler],
+    ["sync", syncHandler],
   ])
 }
 
@@ -105,25 +139,34 @@ export const createMiscCommandHandlers = ({
   invokeHandler,
   copyHandler,
   linkHandler,
+  setupHandler,
   lockHandler,
   unlockHandler,
+  withLockHandler,
   cdHandler,
+  tuiHandler,
 }: {
   readonly execHandler: CommandHandler
   readonly invokeHandler: CommandHandler
   readonly copyHandler: CommandHandler
   readonly linkHandler: CommandHandler
+  readonly setupHandler: CommandHandler
   readonly lockHandler: CommandHandler
   readonly unlockHandler: CommandHandler
+  readonly withLockHandler: CommandHandler
   readonly cdHandler: CommandHandler
+  readonly tuiHandler: CommandHandler
 }): CommandHandlerMap => {
   return createHandlerMap([
     ["exec", execHandler],
     ["invoke", invokeHandler],
     ["copy", copyHandler],
     ["link", linkHandler],
+    ["setup", setupHandler],
     ["lock", lockHandler],
     ["unlock", unlockHandler],
+    ["with-lock", withLockHandler],
     ["cd", cdHandler],
+    ["tui", tuiHandler],
   ])
 }
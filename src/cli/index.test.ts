@@ -1,12 +1,17 @@
-import { access, chmod, lstat, mkdtemp, mkdir, readFile, realpath, rm, writeFile } from "node:fs/promises"
-import { homedir, tmpdir } from "node:os"
+import { access, chmod, lstat, mkdtemp, mkdir, readdir, readFile, realpath, rm, writeFile } from "node:fs/promises"
+import { homedir, hostname, tmpdir } from "node:os"
 import { join } from "node:path"
 import { execa } from "execa"
 import stringWidth from "string-width"
-import { afterEach, describe, expect, it, vi } from "vitest"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
 import { branchToWorktreeId } from "../core/paths"
 import { FzfDependencyError } from "../integrations/fzf"
-import type { SelectPathWithFzfInput, SelectPathWithFzfResult } from "../integrations/fzf"
+import type {
+  SelectPathsWithFzfInput,
+  SelectPathsWithFzfResult,
+  SelectPathWithFzfInput,
+  SelectPathWithFzfResult,
+} from "../integrations/fzf"
 import { createCli } from "./index"
 
 const runGit = async (cwd: string, args: readonly string[]): Promise<string> => {
@@ -54,15 +59,19 @@ describe("createCli", () => {
   const tempDirs = new Set<string>()
   const envBackup = new Map<string, string | undefined>()
 
+  beforeEach(async () => {
+    const xdgConfigHome = await mkdtemp(join(tmpdir(), "vde-worktree-xdg-"))
+    tempDirs.add(xdgConfigHome)
+    envBackup.set("XDG_CONFIG_HOME", process.env.XDG_CONFIG_HOME)
+    process.env.XDG_CONFIG_HOME = xdgConfigHome
+  })
+
   afterEach(async () => {
-    for (const key of ["WT_WORKTREE_PATH", "PATH"]) {
-      if (envBackup.has(key)) {
-        const value = envBackup.get(key)
-        if (value === undefined) {
-          delete process.env[key]
-        } else {
-          process.env[key] = value
-        }
+    for (const [key, value] of envBackup.entries()) {
+      if (value === undefined) {
+        delete process.env[key]
+      } else {
+        process.env[key] = value
       }
     }
     envBackup.clear()
@@ -357,6 +366,193 @@ describe("createCli", () => {
     expect(payload.worktree.path).toBe(repoRoot)
   })
 
+  it("new --base/--from sets start point and parent branch used for merged state", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const cli = createCli({ cwd: repoRoot, stdout: (line) => stdout.push(line), stderr: () => {} })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["new", "feature/parent", "--no-gh"])).toBe(0)
+    const parentPath = join(repoRoot, ".worktree", "feature", "parent")
+    await writeFile(join(parentPath, "parent.txt"), "parent\n", "utf8")
+    await runGit(parentPath, ["add", "parent.txt"])
+    await runGit(parentPath, ["commit", "-m", "parent work"])
+
+    stdout.length = 0
+    expect(await cli.run(["new", "feature/child", "--base", "feature/parent", "--json", "--no-gh"])).toBe(0)
+    const created = JSON.parse(expectSingleStdoutLine(stdout)) as Record<string, unknown>
+    expect(created.startPoint).toBe("feature/parent")
+    expect(created.parentBranch).toBe("feature/parent")
+    const childPath = join(repoRoot, ".worktree", "feature", "child")
+    expect((await runGit(childPath, ["rev-parse", "HEAD"])).trim()).toBe(
+      (await runGit(repoRoot, ["rev-parse", "feature/parent"])).trim(),
+    )
+
+    await writeFile(join(childPath, "child.txt"), "child\n", "utf8")
+    await runGit(childPath, ["add", "child.txt"])
+    await runGit(childPath, ["commit", "-m", "child work"])
+    await runGit(parentPath, ["merge", "--ff-only", "feature/child"])
+
+    stdout.length = 0
+    expect(await cli.run(["list", "--json", "--no-gh"])).toBe(0)
+    const listed = JSON.parse(expectSingleStdoutLine(stdout)) as {
+      worktrees: Array<{ branch: string | null; merged: { byAncestry: boolean | null; overall: boolean | null } }>
+    }
+    const child = listed.worktrees.find((worktree) => worktree.branch === "feature/child")
+    expect(child?.merged.byAncestry).toBe(true)
+    expect(child?.merged.overall).toBe(true)
+
+    const lifecycle = JSON.parse(
+      await readFile(
+        join(repoRoot, ".vde", "worktree", "state", "branches", `${branchToWorktreeId("feature/child")}.json`),
+        "utf8",
+      ),
+    ) as Record<string, unknown>
+    expect(lifecycle.parentBranch).toBe("feature/parent")
+    expect(lifecycle.baseBranch).toBe("main")
+
+    await runGit(repoRoot, ["tag", "v1"])
+    stdout.length = 0
+    expect(await cli.run(["switch", "feature/tagged", "--from", "v1", "--json"])).toBe(0)
+    expect(await cli.run(["switch", "feature/tagged", "--from", "feature/parent"])).toBe(3)
+    await runGit(repoRoot, ["branch", "feature/no-worktree"])
+    expect(await cli.run(["switch", "feature/no-worktree", "--from", "feature/parent"])).toBe(3)
+    expect(await cli.run(["new", "feature/bad", "--from", "no-such-ref"])).toBe(3)
+  })
+
+  it("restack rebases stacked worktrees in order, re-parents onto base after merge, and stops on conflict", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const cli = createCli({ cwd: repoRoot, stdout: (line) => stdout.push(line), stderr: () => {} })
+    const commitFile = async (cwd: string, file: string, content: string): Promise<void> => {
+      await writeFile(join(cwd, file), content, "utf8")
+      await runGit(cwd, ["add", file])
+      await runGit(cwd, ["commit", "-m", `update ${file}`])
+    }
+    const isAncestor = async (ancestor: string, descendant: string): Promise<boolean> => {
+      const result = await execa("git", ["merge-base", "--is-ancestor", ancestor, descendant], {
+        cwd: repoRoot,
+        reject: false,
+      })
+      return result.exitCode === 0
+    }
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["new", "feature/parent", "--no-gh"])).toBe(0)
+    const parentPath = join(repoRoot, ".worktree", "feature", "parent")
+    await commitFile(parentPath, "parent.txt", "parent\n")
+    expect(await cli.run(["new", "feature/child", "--base", "feature/parent", "--no-gh"])).toBe(0)
+    const childPath = join(repoRoot, ".worktree", "feature", "child")
+    await commitFile(childPath, "child.txt", "child\n")
+    expect(await cli.run(["new", "feature/grandchild", "--base", "feature/child", "--no-gh"])).toBe(0)
+    const grandchildPath = join(repoRoot, ".worktree", "feature", "grandchild")
+    await commitFile(grandchildPath, "grandchild.txt", "grandchild\n")
+    await commitFile(parentPath, "parent.txt", "parent v2\n")
+
+    stdout.length = 0
+    expect(await cli.run(["restack", "feature/parent", "--json", "--no-gh"])).toBe(0)
+    const restacked = JSON.parse(expectSingleStdoutLine(stdout)) as Record<string, unknown>
+    expect(restacked.restacked).toEqual([
+      { branch: "feature/child", onto: "feature/parent", status: "rebased" },
+      { branch: "feature/grandchild", onto: "feature/child", status: "rebased" },
+    ])
+    expect(await isAncestor("feature/parent", "feature/child")).toBe(true)
+    expect(await isAncestor("feature/child", "feature/grandchild")).toBe(true)
+
+    stdout.length = 0
+    expect(await cli.run(["list", "--no-gh"])).toBe(0)
+    const listed = stdout.join("\n")
+    expect(listed).toContain("└─ feature/child")
+    expect(listed).toContain("  └─ feature/grandchild")
+    expect(listed.indexOf("feature/parent")).toBeLessThan(listed.indexOf("└─ feature/child"))
+
+    await runGit(repoRoot, ["merge", "--ff-only", "feature/parent"])
+    stdout.length = 0
+    expect(await cli.run(["restack", "feature/child", "--json", "--no-gh"])).toBe(0)
+    const reparented = JSON.parse(expectSingleStdoutLine(stdout)) as Record<string, unknown>
+    expect(reparented.restacked).toEqual([
+      { branch: "feature/child", onto: "main", status: "up-to-date" },
+      { branch: "feature/grandchild", onto: "feature/child", status: "up-to-date" },
+    ])
+    const lifecycle = JSON.parse(
+      await readFile(
+        join(repoRoot, ".vde", "worktree", "state", "branches", `${branchToWorktreeId("feature/child")}.json`),
+        "utf8",
+      ),
+    ) as Record<string, unknown>
+    expect(lifecycle.parentBranch).toBeNull()
+
+    await commitFile(childPath, "grandchild.txt", "conflicting\n")
+    const grandchildHead = (await runGit(grandchildPath, ["rev-parse", "HEAD"])).trim()
+    stdout.length = 0
+    expect(await cli.run(["restack", "feature/child", "--json", "--no-gh"])).toBe(20)
+    const conflict = JSON.parse(expectSingleStdoutLine(stdout)) as Record<string, unknown>
+    expect(conflict.code).toBe("REBASE_CONFLICT")
+    expect(conflict.details).toMatchObject({ branch: "feature/grandchild", onto: "feature/child", pending: [] })
+    expect((await runGit(grandchildPath, ["rev-parse", "HEAD"])).trim()).toBe(grandchildHead)
+    expect((await runGit(grandchildPath, ["status", "--porcelain"])).trim()).toBe("")
+  })
+
+  it("list and status filter and sort worktrees with query flags", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const stderr: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+      stderr: (line) => stderr.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feat/agent"])).toBe(0)
+    expect(await cli.run(["switch", "feat/human"])).toBe(0)
+    expect(await cli.run(["switch", "fix/other"])).toBe(0)
+    expect(await cli.run(["lock", "feat/agent", "--owner", "codex"])).toBe(0)
+    await writeFile(join(repoRoot, ".worktree", "feat", "agent", "dirty.txt"), "dirty\n", "utf8")
+    await writeFile(join(repoRoot, ".worktree", "feat", "human", "dirty.txt"), "dirty\n", "utf8")
+
+    const listBranches = async (args: string[]): Promise<Array<string | null>> => {
+      stdout.length = 0
+      expect(await cli.run(["list", "--json", "--no-gh", ...args])).toBe(0)
+      const payload = JSON.parse(expectSingleStdoutLine(stdout)) as { worktrees: Array<{ branch: string | null }> }
+      return payload.worktrees.map((worktree) => worktree.branch)
+    }
+
+    expect(await listBranches(["--where", "dirty && !locked"])).toEqual(["feat/human"])
+    expect(await listBranches(["--where", "dirty", "--owner", "codex"])).toEqual(["feat/agent"])
+    expect(await listBranches(["--branch", "feat/*", "--sort", "-branch"])).toEqual(["feat/human", "feat/agent"])
+    expect(await listBranches(["--no-merged", "--branch", "fix/*"])).toEqual([])
+    expect(await listBranches(["--pr", "unknown", "--sort", "branch"])).toEqual([
+      "feat/agent",
+      "feat/human",
+      "fix/other",
+    ])
+
+    stdout.length = 0
+    expect(await cli.run(["list", "--no-gh", "--where", "clean"])).toBe(0)
+    const table = stdout.join("\n")
+    expect(table).toContain("fix/other")
+    expect(table).not.toContain("feat/agent")
+
+    stdout.length = 0
+    expect(await cli.run(["status", "--json", "--no-gh", "--where", "dirty", "--sort", "branch"])).toBe(0)
+    const statusPayload = JSON.parse(expectSingleStdoutLine(stdout)) as { worktrees: Array<{ branch: string | null }> }
+    expect(statusPayload.worktrees.map((worktree) => worktree.branch)).toEqual(["feat/agent", "feat/human"])
+
+    stdout.length = 0
+    expect(await cli.run(["status", "--no-gh", "--owner", "codex"])).toBe(0)
+    expect(stdout[0]).toBe("branch: feat/agent")
+
+    stderr.length = 0
+    expect(await cli.run(["list", "--where", "dirty &&"])).toBe(3)
+    expect(stderr.some((line) => line.includes("Invalid --where expression"))).toBe(true)
+    expect(await cli.run(["list", "--sort", "size"])).toBe(3)
+    expect(await cli.run(["status", "feat/agent", "--where", "dirty"])).toBe(3)
+  })
+
   it("new without branch creates wip branch", async () => {
     const repoRoot = await setupRepo()
     tempDirs.add(repoRoot)
@@ -563,6 +759,196 @@ describe("createCli", () => {
     expect(unlockPayload.locked.value).toBe(false)
   })
 
+  it("lock ttl expiry marks locks stale, renew extends them, and config lets del ignore stale locks", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/ttl"])).toBe(0)
+    expect(await cli.run(["lock", "feature/ttl", "--owner", "alice", "--ttl", "soon"])).toBe(3)
+    stdout.length = 0
+    expect(await cli.run(["lock", "feature/ttl", "--owner", "alice", "--ttl", "1h", "--json"])).toBe(0)
+    const lockPayload = JSON.parse(expectSingleStdoutLine(stdout)) as { locked: { expiresAt: string | null } }
+    expect(Date.parse(lockPayload.locked.expiresAt as string)).toBeGreaterThan(Date.now())
+
+    const lockPath = join(repoRoot, ".vde", "worktree", "locks", `${branchToWorktreeId("feature/ttl")}.json`)
+    const expireLock = async (): Promise<void> => {
+      const record = JSON.parse(await readFile(lockPath, "utf8")) as Record<string, unknown>
+      await writeFile(lockPath, `${JSON.stringify({ ...record, expiresAt: "2026-01-01T00:00:00.000Z" })}\n`, "utf8")
+    }
+    const readLockedState = async (): Promise<{ value: boolean; stale: boolean } | undefined> => {
+      stdout.length = 0
+      expect(await cli.run(["list", "--json"])).toBe(0)
+      const payload = JSON.parse(expectSingleStdoutLine(stdout)) as {
+        worktrees: Array<{ branch: string | null; locked: { value: boolean; stale: boolean } }>
+      }
+      return payload.worktrees.find((worktree) => worktree.branch === "feature/ttl")?.locked
+    }
+
+    await expireLock()
+    expect(await readLockedState()).toMatchObject({ value: true, stale: true })
+    expect(await cli.run(["del", "feature/ttl"])).toBe(4)
+
+    expect(await cli.run(["lock", "renew", "feature/ttl", "--owner", "bob"])).toBe(4)
+    expect(await cli.run(["lock", "renew", "feature/ttl", "--owner", "alice"])).toBe(0)
+    expect(await readLockedState()).toMatchObject({ value: true, stale: false })
+
+    await expireLock()
+    expect(await cli.run(["lock", "feature/ttl", "--owner", "bob"])).toBe(0)
+    expect(JSON.parse(await readFile(lockPath, "utf8"))).toMatchObject({ owner: "bob", expiresAt: null })
+
+    await expireLock()
+    await writeFile(join(repoRoot, ".vde", "worktree", "config.yml"), "locks:\n  stale:\n    del: ignore\n", "utf8")
+    expect(await cli.run(["del", "feature/ttl", "--force-unmerged", "--allow-unpushed", "--allow-unsafe"])).toBe(0)
+    expect(await runGit(repoRoot, ["branch", "--list", "feature/ttl"])).toBe("")
+  })
+
+  it("with-lock waits for the lock, runs the command in the worktree, and always releases the lock", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/with-lock"])).toBe(0)
+    const worktreePath = join(repoRoot, ".worktree", "feature", "with-lock")
+    const lockPath = join(repoRoot, ".vde", "worktree", "locks", `${branchToWorktreeId("feature/with-lock")}.json`)
+    const script = "require('fs').writeFileSync('ran.txt', require('fs').readFileSync(process.argv[1], 'utf8'))"
+
+    expect(await cli.run(["with-lock", "feature/with-lock", "--owner", "agent"])).toBe(3)
+
+    stdout.length = 0
+    expect(
+      await cli.run([
+        "with-lock",
+        "feature/with-lock",
+        "--owner",
+        "agent",
+        "--json",
+        "--",
+        "node",
+        "-e",
+        script,
+        lockPath,
+      ]),
+    ).toBe(0)
+    expect(JSON.parse(await readFile(join(worktreePath, "ran.txt"), "utf8"))).toMatchObject({
+      owner: "agent",
+      heartbeat: true,
+    })
+    expect(JSON.parse(expectSingleStdoutLine(stdout))).toMatchObject({
+      status: "ok",
+      owner: "agent",
+      childExitCode: 0,
+    })
+    await expect(readFile(lockPath, "utf8")).rejects.toThrow()
+
+    expect(await cli.run(["with-lock", "feature/with-lock", "--", "node", "-e", "process.exit(3)"])).toBe(3)
+    await expect(readFile(lockPath, "utf8")).rejects.toThrow()
+
+    stdout.length = 0
+    expect(await cli.run(["with-lock", "feature/with-lock", "--json", "--", "vde-worktree-missing-command"])).toBe(1)
+    expect(JSON.parse(expectSingleStdoutLine(stdout))).toMatchObject({
+      status: "error",
+      code: "CHILD_PROCESS_FAILED",
+      details: { childExitCode: 1 },
+    })
+    await expect(readFile(lockPath, "utf8")).rejects.toThrow()
+
+    expect(await cli.run(["lock", "feature/with-lock", "--owner", "alice"])).toBe(0)
+    expect(await cli.run(["lock", "feature/with-lock", "--owner", "bob", "--wait", "1s"])).toBe(4)
+    expect(
+      await cli.run(["with-lock", "feature/with-lock", "--owner", "bob", "--wait", "1s", "--", "node", "-e", ""]),
+    ).toBe(4)
+
+    const releaseLater = setTimeout(() => {
+      void rm(lockPath, { force: true })
+    }, 300)
+    try {
+      expect(
+        await cli.run(["with-lock", "feature/with-lock", "--owner", "bob", "--wait", "10s", "--", "node", "-e", ""]),
+      ).toBe(0)
+    } finally {
+      clearTimeout(releaseLater)
+    }
+    await expect(readFile(lockPath, "utf8")).rejects.toThrow()
+  })
+
+  it("with-lock excludes a live same-owner process and restores a pre-existing lock", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const cli = createCli({ cwd: repoRoot })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/with-lock-owner"])).toBe(0)
+    const lockPath = join(
+      repoRoot,
+      ".vde",
+      "worktree",
+      "locks",
+      `${branchToWorktreeId("feature/with-lock-owner")}.json`,
+    )
+
+    expect(await cli.run(["lock", "feature/with-lock-owner", "--owner", "agent", "--reason", "long-lived"])).toBe(0)
+    const preExisting = await readFile(lockPath, "utf8")
+    expect(
+      await cli.run([
+        "with-lock",
+        "feature/with-lock-owner",
+        "--owner",
+        "agent",
+        "--",
+        "node",
+        "-e",
+        "process.exit(JSON.parse(require('fs').readFileSync(process.argv[1], 'utf8')).reason === 'long-lived' ? 1 : 0)",
+        lockPath,
+      ]),
+    ).toBe(0)
+    expect(await readFile(lockPath, "utf8")).toBe(preExisting)
+
+    const now = new Date().toISOString()
+    await writeFile(
+      lockPath,
+      `${JSON.stringify({
+        schemaVersion: 1,
+        branch: "feature/with-lock-owner",
+        worktreeId: branchToWorktreeId("feature/with-lock-owner"),
+        reason: "with-lock: node",
+        owner: "agent",
+        host: hostname(),
+        pid: process.ppid,
+        createdAt: now,
+        updatedAt: now,
+        heartbeat: true,
+      })}\n`,
+      "utf8",
+    )
+    const heldByOtherProcess = await readFile(lockPath, "utf8")
+    expect(
+      await cli.run([
+        "with-lock",
+        "feature/with-lock-owner",
+        "--owner",
+        "agent",
+        "--wait",
+        "1s",
+        "--",
+        "node",
+        "-e",
+        "",
+      ]),
+    ).toBe(4)
+    expect(await readFile(lockPath, "utf8")).toBe(heldByOtherProcess)
+  })
+
   it("exec returns child failure as 21", async () => {
     const repoRoot = await setupRepo()
     tempDirs.add(repoRoot)
@@ -591,6 +977,214 @@ describe("createCli", () => {
     expect(payload.details.childExitCode).toBe(2)
   })
 
+  it("exec --all/--filter runs across worktrees with prefixed output and aggregated results", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const stderr: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+      stderr: (line) => stderr.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/one"])).toBe(0)
+    expect(await cli.run(["switch", "feature/two"])).toBe(0)
+    await writeFile(join(repoRoot, ".worktree", "feature", "two", "dirty.txt"), "dirty\n", "utf8")
+
+    stdout.length = 0
+    expect(await cli.run(["exec", "--all", "--no-gh", "--", "node", "-e", "console.log('hello')"])).toBe(0)
+    expect(stdout).toContain("[main] hello")
+    expect(stdout).toContain("[feature/one] hello")
+    expect(stdout).toContain("[feature/two] hello")
+    expect(stdout.some((line) => line.includes("duration"))).toBe(true)
+
+    stdout.length = 0
+    const script = "process.exit(process.cwd().endsWith('two') ? 3 : 0)"
+    expect(
+      await cli.run([
+        "exec",
+        "--filter",
+        "branch=feature/*",
+        "--concurrency",
+        "1",
+        "--json",
+        "--no-gh",
+        "--",
+        "node",
+        "-e",
+        script,
+      ]),
+    ).toBe(21)
+    const failedPayload = JSON.parse(expectSingleStdoutLine(stdout)) as {
+      code: string
+      details: {
+        failed: number
+        results: Array<{ branch: string; path: string; childExitCode: number; durationMs: number }>
+      }
+    }
+    expect(failedPayload.code).toBe("CHILD_PROCESS_FAILED")
+    expect(failedPayload.details.failed).toBe(1)
+    expect(failedPayload.details.results.map((result) => [result.branch, result.childExitCode])).toEqual([
+      ["feature/one", 0],
+      ["feature/two", 3],
+    ])
+    expect(failedPayload.details.results[0]?.path).toBe(join(repoRoot, ".worktree", "feature", "one"))
+    expect(typeof failedPayload.details.results[0]?.durationMs).toBe("number")
+
+    stdout.length = 0
+    expect(await cli.run(["exec", "--filter", "dirty", "--json", "--no-gh", "--", "node", "-e", script])).toBe(21)
+    const dirtyPayload = JSON.parse(expectSingleStdoutLine(stdout)) as {
+      details: { results: Array<{ branch: string }> }
+    }
+    expect(dirtyPayload.details.results.map((result) => result.branch)).toEqual(["feature/two"])
+
+    stderr.length = 0
+    expect(await cli.run(["exec", "--filter", "bogus", "--", "node", "-e", "0"])).toBe(3)
+    expect(stderr.some((line) => line.includes("Invalid filter: bogus"))).toBe(true)
+    expect(await cli.run(["exec", "feature/one", "--all", "--", "node", "-e", "0"])).toBe(3)
+  })
+
+  it("pool fill prepares spare worktrees that new and switch claim", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    await writeExecutableHook({
+      repoRoot,
+      hookName: "post-new",
+      body: `#!/usr/bin/env bash
+set -eu
+echo "$WT_ACTION" >> "$WT_WORKTREE_PATH/setup.log"
+`,
+    })
+    await runGit(repoRoot, ["branch", "feature/existing"])
+
+    stdout.length = 0
+    expect(await cli.run(["pool", "fill", "--size", "2", "--json"])).toBe(0)
+    const filled = JSON.parse(expectSingleStdoutLine(stdout)) as {
+      status: string
+      created: Array<{ path: string }>
+    }
+    expect(filled.status).toBe("created")
+    expect(filled.created).toHaveLength(2)
+    for (const spare of filled.created) {
+      expect(await readFile(join(spare.path, "setup.log"), "utf8")).toBe("pool\n")
+    }
+
+    stdout.length = 0
+    expect(await cli.run(["list", "--json"])).toBe(0)
+    const listed = JSON.parse(expectSingleStdoutLine(stdout)) as {
+      worktrees: Array<{ path: string }>
+      pool: Array<{ path: string }>
+    }
+    expect(listed.pool).toHaveLength(2)
+    expect(listed.worktrees.map((worktree) => worktree.path)).toEqual([repoRoot])
+
+    stdout.length = 0
+    expect(await cli.run(["new", "feature/pooled", "--json"])).toBe(0)
+    const created = JSON.parse(expectSingleStdoutLine(stdout)) as { path: string; pooled: boolean }
+    expect(created).toMatchObject({ path: join(repoRoot, ".worktree", "feature", "pooled"), pooled: true })
+    expect(await readFile(join(created.path, "setup.log"), "utf8")).toBe("pool\n")
+    expect((await runGit(created.path, ["branch", "--show-current"])).trim()).toBe("feature/pooled")
+
+    stdout.length = 0
+    expect(await cli.run(["switch", "feature/existing", "--json"])).toBe(0)
+    expect(JSON.parse(expectSingleStdoutLine(stdout))).toMatchObject({ status: "created", pooled: true })
+
+    stdout.length = 0
+    expect(await cli.run(["new", "feature/direct", "--json"])).toBe(0)
+    const direct = JSON.parse(expectSingleStdoutLine(stdout)) as { path: string; pooled: boolean }
+    expect(direct.pooled).toBe(false)
+    expect(await readFile(join(direct.path, "setup.log"), "utf8")).toBe("new\n")
+
+    expect(await cli.run(["pool", "fill"])).toBe(0)
+    stdout.length = 0
+    expect(await cli.run(["pool", "clear", "--json"])).toBe(0)
+    const cleared = JSON.parse(expectSingleStdoutLine(stdout)) as { removed: unknown[]; spares: unknown[] }
+    expect(cleared.removed).toHaveLength(1)
+    expect(cleared.spares).toEqual([])
+    expect(await runGit(repoRoot, ["worktree", "list"])).not.toContain(".pool")
+    expect(await cli.run(["pool", "drain"])).toBe(3)
+  })
+
+  it("applies declarative setup after new and reruns it with vw setup", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const stderr: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+      stderr: (line) => stderr.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    await writeFile(join(repoRoot, ".envrc"), "export FOO=bar\n", "utf8")
+    await mkdir(join(repoRoot, "shared"), { recursive: true })
+    await writeFile(join(repoRoot, "shared", "settings.json"), "{}\n", "utf8")
+    const configPath = join(repoRoot, ".vde", "worktree", "config.yml")
+    await writeFile(
+      configPath,
+      [
+        "setup:",
+        "  copy: [.envrc]",
+        "  link: [shared/settings.json]",
+        "  run:",
+        "    - cmd: [node, -e, \"require('fs').appendFileSync('setup.log', process.env.WT_BRANCH + '\\\\n')\"]",
+        "    - cmd: [node, -e, \"console.log('installing'); console.error('warned')\"]",
+        "",
+      ].join("\n"),
+      "utf8",
+    )
+
+    expect(await cli.run(["new", "feature/setup"])).toBe(0)
+    const worktreePath = join(repoRoot, ".worktree", "feature", "setup")
+    expect(await readFile(join(worktreePath, ".envrc"), "utf8")).toBe("export FOO=bar\n")
+    expect((await lstat(join(worktreePath, "shared", "settings.json"))).isSymbolicLink()).toBe(true)
+    expect(await readFile(join(worktreePath, "setup.log"), "utf8")).toBe("feature/setup\n")
+    expect(stderr).toEqual(expect.arrayContaining(["installing", "warned"]))
+
+    stdout.length = 0
+    stderr.length = 0
+    expect(await cli.run(["setup", "feature/setup", "--json"])).toBe(0)
+    expect([...stderr].sort()).toEqual(["installing", "warned"])
+    expect(JSON.parse(expectSingleStdoutLine(stdout))).toMatchObject({
+      status: "ok",
+      path: worktreePath,
+      copied: [".envrc"],
+      linked: ["shared/settings.json"],
+    })
+    expect(await readFile(join(worktreePath, "setup.log"), "utf8")).toBe("feature/setup\nfeature/setup\n")
+
+    await writeFile(configPath, "setup:\n  run:\n    - cmd: [node, -e, 'process.exit(5)']\n", "utf8")
+    expect(await cli.run(["switch", "feature/setup-fail"])).toBe(0)
+    expect(stderr.some((line) => line.includes("rerun with vw setup feature/setup-fail"))).toBe(true)
+    expect(await cli.run(["setup", "feature/setup-fail"])).toBe(10)
+
+    await writeFile(configPath, "setup:\n  copy: [../outside]\n", "utf8")
+    expect(await cli.run(["setup", "feature/setup"])).toBe(4)
+
+    stdout.length = 0
+    expect(await cli.run(["log", "--json"])).toBe(0)
+    const journal = JSON.parse(expectSingleStdoutLine(stdout)) as {
+      entries: Array<{ command: string; branch: string | null; outcome: string }>
+    }
+    expect(
+      journal.entries.filter((entry) => entry.command === "setup").map((entry) => [entry.branch, entry.outcome]),
+    ).toEqual([
+      ["feature/setup", "success"],
+      ["feature/setup-fail", "error"],
+      ["feature/setup", "error"],
+    ])
+  })
+
   it("invoke executes existing hook", async () => {
     const repoRoot = await setupRepo()
     tempDirs.add(repoRoot)
@@ -612,6 +1206,70 @@ echo invoked > "${marker}"
     expect(content.trim()).toBe("invoked")
   })
 
+  it("invoke lists drop-in hooks and runs one by id", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const cli = createCli({ cwd: repoRoot, stdout: (line) => stdout.push(line) })
+
+    expect(await cli.run(["init"])).toBe(0)
+    await mkdir(join(repoRoot, ".vde", "worktree", "hooks", "post-switch.d"))
+    await writeExecutableHook({
+      repoRoot,
+      hookName: "post-switch.d/10-mark",
+      body: `#!/usr/bin/env bash
+set -eu
+echo dropin > "$WT_REPO_ROOT/dropin.txt"
+`,
+    })
+
+    stdout.length = 0
+    expect(await cli.run(["invoke", "list", "post-switch", "--json"])).toBe(0)
+    const listed = JSON.parse(expectSingleStdoutLine(stdout)) as { hooks: Array<{ id: string; kind: string }> }
+    expect(listed.hooks.map((hook) => hook.id)).toEqual(["repo:post-switch", "repo:post-switch.d/10-mark"])
+
+    expect(await cli.run(["invoke", "repo:post-switch.d/10-mark"])).toBe(0)
+    expect(await readFile(join(repoRoot, "dropin.txt"), "utf8")).toBe("dropin\n")
+    expect(await cli.run(["invoke", "list", "repo:post-switch"])).toBe(3)
+  })
+
+  it("runs JS module hooks with the worktree status and config module map", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const cli = createCli({ cwd: repoRoot })
+
+    expect(await cli.run(["init"])).toBe(0)
+    await writeFile(
+      join(repoRoot, ".vde", "worktree", "hooks", "post-new.mjs"),
+      `import { writeFile } from "node:fs/promises"
+export default async (ctx) => {
+  await writeFile(ctx.worktreePath + "/hook.json", JSON.stringify({ action: ctx.action, status: ctx.status?.branch }))
+}
+`,
+      "utf8",
+    )
+    await mkdir(join(repoRoot, "scripts"))
+    await writeFile(
+      join(repoRoot, "scripts", "pre-new.mjs"),
+      'export default () => { throw new Error("blocked") }\n',
+      "utf8",
+    )
+
+    expect(await cli.run(["new", "feature/module-hook"])).toBe(0)
+    const worktreePath = join(repoRoot, ".worktree", "feature", "module-hook")
+    expect(JSON.parse(await readFile(join(worktreePath, "hook.json"), "utf8"))).toEqual({
+      action: "new",
+      status: "feature/module-hook",
+    })
+
+    await writeFile(
+      join(repoRoot, ".vde", "worktree", "config.yml"),
+      "hooks:\n  modules:\n    pre-new: scripts/pre-new.mjs\n",
+      "utf8",
+    )
+    expect(await cli.run(["new", "feature/blocked"])).toBe(10)
+  })
+
   it("copy and link helper commands place files into WT_WORKTREE_PATH", async () => {
     const repoRoot = await setupRepo()
     tempDirs.add(repoRoot)
@@ -629,11 +1287,61 @@ echo invoked > "${marker}"
     const copied = await readFile(join(targetPath, ".envrc"), "utf8")
     expect(copied).toContain("FOO=bar")
 
+    const stdout: string[] = []
+    const jsonCli = createCli({ cwd: repoRoot, stdout: (line) => stdout.push(line) })
+    expect(await jsonCli.run(["copy", ".envrc", "--strategy", "hardlink", "--json"])).toBe(0)
+    expect(JSON.parse(expectSingleStdoutLine(stdout))).toMatchObject({
+      strategy: "hardlink",
+      files: 1,
+      hardlinked: 1,
+      savedBytes: "export FOO=bar\n".length,
+    })
+    expect(await jsonCli.run(["copy", ".envrc", "--strategy", "rsync"])).toBe(3)
+
     expect(await cli.run(["link", ".envrc"])).toBe(0)
     const stats = await lstat(join(targetPath, ".envrc"))
     expect(stats.isSymbolicLink()).toBe(true)
   })
 
+  it("copy --ignored selects gitignored files with excludes, size limit and dry-run", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    await writeFile(join(repoRoot, ".gitignore"), ".env*\n*.log\n", "utf8")
+    await runGit(repoRoot, ["add", ".gitignore"])
+    await runGit(repoRoot, ["commit", "-m", "ignore"])
+    await mkdir(join(repoRoot, "apps", "web"), { recursive: true })
+    await writeFile(join(repoRoot, "apps", "web", ".env.local"), "B=2\n", "utf8")
+    await writeFile(join(repoRoot, ".env"), "A=1\n", "utf8")
+    await writeFile(join(repoRoot, "debug.log"), "x".repeat(2048), "utf8")
+    await writeFile(join(repoRoot, "notes.txt"), "untracked\n", "utf8")
+    const stdout: string[] = []
+    const stderr: string[] = []
+    const cli = createCli({ cwd: repoRoot, stdout: (line) => stdout.push(line), stderr: (line) => stderr.push(line) })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/ignored"])).toBe(0)
+    const targetPath = join(repoRoot, ".worktree", "feature", "ignored")
+    envBackup.set("WT_WORKTREE_PATH", process.env.WT_WORKTREE_PATH)
+    process.env.WT_WORKTREE_PATH = targetPath
+
+    stdout.length = 0
+    expect(await cli.run(["copy", "--ignored", "--max-size", "1k", "--dry-run"])).toBe(0)
+    expect(stdout).toEqual([".env", "apps/web/.env.local"])
+    expect(stderr.some((line) => line.includes("skipped debug.log"))).toBe(true)
+    await expect(access(join(targetPath, ".env"))).rejects.toThrow()
+
+    stdout.length = 0
+    expect(await cli.run(["copy", "--ignored", "--exclude", "apps/**", "--exclude", "*.log", "--json"])).toBe(0)
+    const copied = JSON.parse(expectSingleStdoutLine(stdout)) as Record<string, unknown>
+    expect(copied.copied).toEqual([".env"])
+    expect(await readFile(join(targetPath, ".env"), "utf8")).toBe("A=1\n")
+
+    expect(await cli.run(["link", "--glob", "**/.env*"])).toBe(0)
+    expect((await lstat(join(targetPath, "apps", "web", ".env.local"))).isSymbolicLink()).toBe(true)
+
+    expect(await cli.run(["copy", "--exclude", "*.log"])).toBe(3)
+  })
+
   it("mv renames current worktree branch and path", async () => {
     const repoRoot = await setupRepo()
     tempDirs.add(repoRoot)
@@ -668,12 +1376,288 @@ echo invoked > "${marker}"
     expect(await cli.run(["init"])).toBe(0)
     expect(await cli.run(["switch", "feature/del"])).toBe(0)
 
-    expect(await cli.run(["del", "feature/del"])).toBe(4)
-    expect(stderr.some((line) => line.includes("WORKTREE"))).toBe(true)
+    expect(await cli.run(["del", "feature/del"])).toBe(4)
+    expect(stderr.some((line) => line.includes("WORKTREE"))).toBe(true)
+
+    expect(await cli.run(["del", "feature/del", "--force-unmerged", "--allow-unpushed", "--allow-unsafe"])).toBe(0)
+    const list = await runGit(repoRoot, ["worktree", "list", "--porcelain"])
+    expect(list.includes("feature/del")).toBe(false)
+  })
+
+  it("del moves force-deleted worktrees to trash and restore brings them back", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/trash"])).toBe(0)
+    const worktreePath = join(repoRoot, ".worktree", "feature", "trash")
+    await writeFile(join(worktreePath, "feature.txt"), "committed\n", "utf8")
+    await runGit(worktreePath, ["add", "feature.txt"])
+    await runGit(worktreePath, ["commit", "-m", "feature work"])
+    const head = await runGit(worktreePath, ["rev-parse", "HEAD"])
+    await writeFile(join(worktreePath, "feature.txt"), "uncommitted\n", "utf8")
+    await writeFile(join(worktreePath, "draft.txt"), "draft\n", "utf8")
+    expect(await cli.run(["lock", "feature/trash", "--reason", "keep"])).toBe(0)
+
+    stdout.length = 0
+    expect(await cli.run(["del", "feature/trash", "--force", "--allow-unsafe", "--json"])).toBe(0)
+    const deleted = JSON.parse(expectSingleStdoutLine(stdout)) as { trashId: string | null }
+    expect(deleted.trashId).not.toBeNull()
+    expect(await runGit(repoRoot, ["branch", "--list", "feature/trash"])).toBe("")
+
+    stdout.length = 0
+    expect(await cli.run(["trash", "list", "--json"])).toBe(0)
+    const listed = JSON.parse(expectSingleStdoutLine(stdout)) as {
+      entries: Array<{ id: string; branch: string; head: string; patchFile: string | null }>
+    }
+    expect(listed.entries).toHaveLength(1)
+    expect(listed.entries[0]).toMatchObject({ id: deleted.trashId, branch: "feature/trash", head })
+    expect(listed.entries[0]?.patchFile).not.toBeNull()
+
+    stdout.length = 0
+    expect(await cli.run(["restore", "feature/trash", "--json"])).toBe(0)
+    const restored = JSON.parse(expectSingleStdoutLine(stdout)) as { path: string; restoredChanges: boolean }
+    expect(restored.path).toBe(worktreePath)
+    expect(restored.restoredChanges).toBe(true)
+    expect(await runGit(worktreePath, ["rev-parse", "HEAD"])).toBe(head)
+    expect(await readFile(join(worktreePath, "feature.txt"), "utf8")).toBe("uncommitted\n")
+    expect(await readFile(join(worktreePath, "draft.txt"), "utf8")).toBe("draft\n")
+
+    stdout.length = 0
+    expect(await cli.run(["list", "--json"])).toBe(0)
+    const restoredList = JSON.parse(expectSingleStdoutLine(stdout)) as {
+      worktrees: Array<{ branch: string | null; locked: { value: boolean; reason: string | null } }>
+    }
+    expect(restoredList.worktrees.find((worktree) => worktree.branch === "feature/trash")?.locked).toMatchObject({
+      value: true,
+      reason: "keep",
+    })
+
+    stdout.length = 0
+    expect(await cli.run(["trash", "list", "--json"])).toBe(0)
+    expect((JSON.parse(expectSingleStdoutLine(stdout)) as { entries: unknown[] }).entries).toEqual([])
+    expect(await cli.run(["restore", "feature/trash"])).toBe(4)
+
+    expect(await cli.run(["unlock", "feature/trash"])).toBe(0)
+    expect(await cli.run(["del", "feature/trash", "--force", "--allow-unsafe"])).toBe(0)
+    stdout.length = 0
+    expect(await cli.run(["trash", "purge", "--all", "--json"])).toBe(0)
+    expect((JSON.parse(expectSingleStdoutLine(stdout)) as { purged: string[] }).purged).toHaveLength(1)
+    expect(await runGit(repoRoot, ["for-each-ref", "refs/vde-worktree/trash"])).toBe("")
+
+    stdout.length = 0
+    expect(await cli.run(["log", "--json"])).toBe(0)
+    const journal = JSON.parse(expectSingleStdoutLine(stdout)) as {
+      entries: Array<{ command: string; args: string[] }>
+    }
+    expect(journal.entries.filter((entry) => entry.command === "trash").map((entry) => entry.args.slice(0, 2))).toEqual(
+      [["trash", "purge"]],
+    )
+  })
+
+  it("log records write commands with actor, targets, and outcome", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/log"])).toBe(0)
+    expect(await cli.run(["lock", "feature/log", "--owner", "agent-a"])).toBe(0)
+    expect(await cli.run(["del", "feature/log"])).toBe(4)
+    expect(await cli.run(["list"])).toBe(0)
+    await cli.run(["doctor"])
+    await cli.run(["doctor", "--repair"])
+
+    stdout.length = 0
+    expect(await cli.run(["log", "--json"])).toBe(0)
+    type LogPayload = {
+      entries: Array<{
+        command: string
+        branch: string | null
+        actor: string
+        outcome: string
+        errorCode: string | null
+        pid: number
+      }>
+    }
+    const payload = JSON.parse(expectSingleStdoutLine(stdout)) as LogPayload
+    expect(payload.entries.map((entry) => entry.command)).toEqual(["init", "switch", "lock", "del", "doctor"])
+    expect(payload.entries[1]).toMatchObject({ branch: "feature/log", outcome: "success", pid: process.pid })
+    expect(payload.entries[2]).toMatchObject({ actor: "agent-a", branch: "feature/log" })
+    expect(payload.entries[3]).toMatchObject({ branch: "feature/log", outcome: "error", errorCode: "LOCKED_WORKTREE" })
+
+    stdout.length = 0
+    expect(await cli.run(["log", "--branch", "feature/*", "--since", "1h"])).toBe(0)
+    expect(stdout.map((line) => line.split("\t")[2])).toEqual(["switch", "lock", "del"])
+
+    expect(await cli.run(["log", "--since", "yesterday"])).toBe(3)
+  })
+
+  it("rolls back a dirty worktree deletion with its uncommitted changes and discards the trash entry", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const cli = createCli({ cwd: repoRoot, stderr: () => undefined })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/dirty-rollback"])).toBe(0)
+    const worktreePath = join(repoRoot, ".worktree", "feature", "dirty-rollback")
+    await writeFile(join(worktreePath, "README.md"), "# changed\n", "utf8")
+    await writeFile(join(worktreePath, "notes.txt"), "draft\n", "utf8")
+    await writeExecutableHook({
+      repoRoot,
+      hookName: "pre-del",
+      body: `#!/bin/sh
+mkdir -p "$WT_REPO_ROOT/.vde/worktree/locks/${branchToWorktreeId("feature/dirty-rollback")}.json/blocked"
+`,
+    })
+
+    expect(
+      await cli.run([
+        "del",
+        "feature/dirty-rollback",
+        "--force-dirty",
+        "--force-unmerged",
+        "--allow-unpushed",
+        "--allow-unsafe",
+      ]),
+    ).toBe(30)
+    expect(await readFile(join(worktreePath, "README.md"), "utf8")).toBe("# changed\n")
+    expect(await readFile(join(worktreePath, "notes.txt"), "utf8")).toBe("draft\n")
+    expect(await runGit(worktreePath, ["rev-parse", "--abbrev-ref", "HEAD"])).toBe("feature/dirty-rollback")
+    expect(await runGit(repoRoot, ["for-each-ref", "refs/vde-worktree/trash"])).toBe("")
+    expect(await readdir(join(repoRoot, ".vde", "worktree", "state", "trash"))).toEqual([])
+    expect(await readdir(join(repoRoot, ".vde", "worktree", "state", "intents"))).toEqual([])
+  })
+
+  it("rolls back a mutation when a later step fails and warns about interrupted intents", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stderr: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stderr: (line) => stderr.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/rollback"])).toBe(0)
+    const worktreePath = join(repoRoot, ".worktree", "feature", "rollback")
+    await writeExecutableHook({
+      repoRoot,
+      hookName: "pre-del",
+      body: `#!/usr/bin/env bash
+set -eu
+git -C "$WT_REPO_ROOT" pack-refs --all
+touch "$WT_REPO_ROOT/.git/packed-refs.lock"
+`,
+    })
+
+    expect(await cli.run(["del", "feature/rollback", "--force-unmerged", "--allow-unpushed", "--allow-unsafe"])).toBe(
+      20,
+    )
+    const worktreeList = await runGit(repoRoot, ["worktree", "list", "--porcelain"])
+    expect(worktreeList.includes(`worktree ${worktreePath}`)).toBe(true)
+    expect(worktreeList.includes("branch refs/heads/feature/rollback")).toBe(true)
+    const intentsPath = join(repoRoot, ".vde", "worktree", "state", "intents")
+    expect(await readdir(intentsPath)).toEqual([])
+    await rm(join(repoRoot, ".git", "packed-refs.lock"), { force: true })
+    await rm(join(repoRoot, ".vde", "worktree", "hooks", "pre-del"), { force: true })
+
+    await mkdir(intentsPath, { recursive: true })
+    await writeFile(
+      join(intentsPath, "interrupted.json"),
+      `${JSON.stringify({
+        schemaVersion: 1,
+        id: "interrupted",
+        command: "mv",
+        name: "mv",
+        branch: "feature/interrupted",
+        worktreePath: join(repoRoot, ".worktree", "feature", "interrupted"),
+        pid: 999999,
+        host: "elsewhere",
+        startedAt: "2026-03-01T00:00:00.000Z",
+        updatedAt: "2026-03-01T00:00:00.000Z",
+        undo: [],
+      })}\n`,
+      "utf8",
+    )
+    stderr.length = 0
+    expect(await cli.run(["new", "feature/after"])).toBe(0)
+    expect(stderr.some((line) => line.includes("Interrupted mv (feature/interrupted") && line.includes("doctor"))).toBe(
+      true,
+    )
+  })
+
+  it("doctor reports problems and repairs them", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/doctor"])).toBe(0)
+    await chmod(join(repoRoot, ".vde", "worktree", "hooks", "post-new"), 0o644)
+    await writeFile(
+      join(repoRoot, ".vde", "worktree", "locks", "gone.json"),
+      `${JSON.stringify({ branch: "feature/missing" })}\n`,
+      "utf8",
+    )
+    const intentsPath = join(repoRoot, ".vde", "worktree", "state", "intents")
+    await mkdir(intentsPath, { recursive: true })
+    await writeFile(
+      join(intentsPath, "interrupted.json"),
+      `${JSON.stringify({
+        schemaVersion: 1,
+        id: "interrupted",
+        command: "new",
+        name: "new",
+        branch: "feature/interrupted",
+        worktreePath: join(repoRoot, ".worktree", "feature", "interrupted"),
+        pid: 999999,
+        host: "elsewhere",
+        startedAt: "2026-03-01T00:00:00.000Z",
+        updatedAt: "2026-03-01T00:00:00.000Z",
+        undo: [],
+      })}\n`,
+      "utf8",
+    )
+
+    stdout.length = 0
+    expect(await cli.run(["doctor", "--json"])).toBe(4)
+    type DoctorPayload = {
+      status: string
+      details: { checks: Array<{ name: string; status: string; repaired: boolean }> }
+    }
+    const reported = JSON.parse(expectSingleStdoutLine(stdout)) as DoctorPayload
+    const statusByName = new Map(reported.details.checks.map((check) => [check.name, check.status]))
+    expect(statusByName.get("directories")).toBe("ok")
+    expect(statusByName.get("hooks")).toBe("warn")
+    expect(statusByName.get("orphan-locks")).toBe("warn")
+    expect(statusByName.get("interrupted-mutations")).toBe("error")
+
+    stdout.length = 0
+    expect(await cli.run(["doctor", "--repair"])).toBe(0)
+    expect(stdout).toContain("[warn] hooks: 1 hooks are not executable (repaired)")
 
-    expect(await cli.run(["del", "feature/del", "--force-unmerged", "--allow-unpushed", "--allow-unsafe"])).toBe(0)
-    const list = await runGit(repoRoot, ["worktree", "list", "--porcelain"])
-    expect(list.includes("feature/del")).toBe(false)
+    stdout.length = 0
+    expect(await cli.run(["doctor", "--json"])).toBe(0)
+    const repaired = JSON.parse(expectSingleStdoutLine(stdout)) as DoctorPayload["details"]
+    expect(
+      repaired.checks
+        .filter((check) => check.name !== "fzf" && check.name !== "gh")
+        .every((check) => check.status === "ok"),
+    ).toBe(true)
   })
 
   it("gone dry-run then apply removes overall-merged candidates without upstream tracking", async () => {
@@ -712,6 +1696,178 @@ echo invoked > "${marker}"
     expect(applyPayload.deleted).toContain("feature/gone")
   })
 
+  it("del --pick and gone --pick delete only the worktrees chosen in fzf", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const pickedPaths: string[] = []
+    const selectPathsWithFzf = vi.fn<(input: SelectPathsWithFzfInput) => Promise<SelectPathsWithFzfResult>>(
+      async (input) => {
+        const paths = input.candidates.filter((candidate) =>
+          pickedPaths.some((path) => candidate.split("\t")[1] === path),
+        )
+        return paths.length === 0 ? { status: "cancelled" as const } : { status: "selected" as const, paths }
+      },
+    )
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+      selectPathsWithFzf,
+      isInteractive: () => true,
+    })
+    const worktreePath = (branch: string): string => join(repoRoot, ".worktree", ...branch.split("/"))
+
+    expect(await cli.run(["init"])).toBe(0)
+    for (const branch of ["feature/pick-a", "feature/pick-b", "feature/pick-c"]) {
+      expect(await cli.run(["switch", branch])).toBe(0)
+      await writeFile(join(worktreePath(branch), `${branch.replace("/", "-")}.txt`), "x\n", "utf8")
+      await runGit(worktreePath(branch), ["add", "."])
+      await runGit(worktreePath(branch), ["commit", "-m", branch])
+    }
+    await runGit(repoRoot, ["merge", "--no-ff", "feature/pick-a", "-m", "merge a"])
+    await runGit(repoRoot, ["merge", "--no-ff", "feature/pick-b", "-m", "merge b"])
+
+    pickedPaths.push(worktreePath("feature/pick-a"), worktreePath("feature/pick-c"))
+    stdout.length = 0
+    expect(await cli.run(["del", "--pick", "--allow-unpushed", "--json"])).toBe(4)
+    expect(JSON.parse(expectSingleStdoutLine(stdout))).toMatchObject({ code: "UNMERGED_WORKTREE" })
+    const delInput = selectPathsWithFzf.mock.calls[0]?.[0] as SelectPathsWithFzfInput
+    expect(delInput.preselectAll).toBe(false)
+    expect(delInput.prompt).toBe("del> ")
+    expect(delInput.candidates.map((candidate) => candidate.split("\t")[1])).toEqual([
+      worktreePath("feature/pick-a"),
+      worktreePath("feature/pick-b"),
+      worktreePath("feature/pick-c"),
+    ])
+    expect(delInput.candidates.every((candidate) => (candidate.split("\t")[2] ?? "").includes("WORKTREE"))).toBe(true)
+    expect(await runGit(repoRoot, ["worktree", "list", "--porcelain"])).toContain("feature/pick-a")
+
+    pickedPaths.length = 0
+    pickedPaths.push(worktreePath("feature/pick-b"))
+    stdout.length = 0
+    expect(await cli.run(["gone", "--pick", "--json"])).toBe(0)
+    const gonePayload = JSON.parse(expectSingleStdoutLine(stdout)) as { candidates: string[]; deleted: string[] }
+    expect(gonePayload.candidates).toEqual(["feature/pick-a", "feature/pick-b"])
+    expect(gonePayload.deleted).toEqual(["feature/pick-b"])
+    expect((selectPathsWithFzf.mock.calls[1]?.[0] as SelectPathsWithFzfInput).preselectAll).toBe(true)
+
+    pickedPaths.length = 0
+    expect(await cli.run(["gone", "--pick"])).toBe(130)
+    expect(await cli.run(["del", "feature/pick-a", "--pick"])).toBe(3)
+    expect(await cli.run(["gone", "--pick", "--dry-run"])).toBe(3)
+
+    pickedPaths.push(worktreePath("feature/pick-a"))
+    stdout.length = 0
+    expect(await cli.run(["del", "--pick", "--allow-unpushed"])).toBe(0)
+    expect(stdout).toEqual([worktreePath("feature/pick-a")])
+    const remaining = await runGit(repoRoot, ["worktree", "list", "--porcelain"])
+    expect(remaining).not.toContain("feature/pick-a")
+    expect(remaining).toContain("feature/pick-c")
+  })
+
+  it("gone deletes each candidate through del hooks and rolls back a failed deletion", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const logDir = await mkdtemp(join(tmpdir(), "vde-worktree-gone-hooks-"))
+    tempDirs.add(logDir)
+    const hookLog = join(logDir, "hooks.log")
+    const cli = createCli({ cwd: repoRoot })
+    const worktreePath = (branch: string): string => join(repoRoot, ".worktree", ...branch.split("/"))
+
+    expect(await cli.run(["init"])).toBe(0)
+    for (const branch of ["feature/gone-a", "feature/gone-b"]) {
+      expect(await cli.run(["switch", branch])).toBe(0)
+      await runGit(worktreePath(branch), ["commit", "--allow-empty", "-m", branch])
+      await runGit(repoRoot, ["merge", "--no-ff", branch, "-m", `merge ${branch}`])
+    }
+    await writeExecutableHook({
+      repoRoot,
+      hookName: "pre-del",
+      body: `#!/usr/bin/env bash
+set -eu
+echo "pre-del $WT_BRANCH" >> '${hookLog}'
+if [ "$WT_BRANCH" = "feature/gone-b" ]; then
+  git -C "$WT_REPO_ROOT" pack-refs --all
+  touch "$WT_REPO_ROOT/.git/packed-refs.lock"
+fi
+`,
+    })
+
+    expect(await cli.run(["gone", "--apply"])).toBe(20)
+    expect(await readFile(hookLog, "utf8")).toBe("pre-del feature/gone-a\npre-del feature/gone-b\n")
+    expect(await runGit(repoRoot, ["branch", "--list", "feature/gone-a"])).toBe("")
+    const worktreeList = await runGit(repoRoot, ["worktree", "list", "--porcelain"])
+    expect(worktreeList.includes(`worktree ${worktreePath("feature/gone-b")}`)).toBe(true)
+    expect(worktreeList.includes("branch refs/heads/feature/gone-b")).toBe(true)
+    expect(await readdir(join(repoRoot, ".vde", "worktree", "state", "intents"))).toEqual([])
+  })
+
+  it("gone adds closed, upstream-gone, and stale candidates only when the policy is enabled", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const remoteRoot = await mkdtemp(join(tmpdir(), "vde-worktree-remote-"))
+    tempDirs.add(remoteRoot)
+    await runGit(remoteRoot, ["init", "--bare"])
+    await runGit(repoRoot, ["remote", "add", "origin", remoteRoot])
+    await runGit(repoRoot, ["push", "-u", "origin", "main"])
+    const stdout: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/upstream"])).toBe(0)
+    const upstreamPath = join(repoRoot, ".worktree", "feature", "upstream")
+    await runGit(upstreamPath, ["commit", "--allow-empty", "-m", "upstream"])
+    await runGit(upstreamPath, ["push", "-u", "origin", "feature/upstream"])
+    await runGit(repoRoot, ["push", "origin", "--delete", "feature/upstream"])
+
+    expect(await cli.run(["switch", "feature/stale"])).toBe(0)
+    const oldDate = "2020-01-01T00:00:00Z"
+    await execa("git", ["commit", "--allow-empty", "-m", "stale"], {
+      cwd: join(repoRoot, ".worktree", "feature", "stale"),
+      env: { GIT_AUTHOR_DATE: oldDate, GIT_COMMITTER_DATE: oldDate },
+    })
+    const staleLifecyclePath = join(
+      repoRoot,
+      ".vde",
+      "worktree",
+      "state",
+      "branches",
+      `${branchToWorktreeId("feature/stale")}.json`,
+    )
+    const staleLifecycle = JSON.parse(await readFile(staleLifecyclePath, "utf8")) as Record<string, unknown>
+    await writeFile(
+      staleLifecyclePath,
+      JSON.stringify({ ...staleLifecycle, createdAt: oldDate, updatedAt: new Date().toISOString() }),
+      "utf8",
+    )
+
+    type GonePayload = { candidates: string[]; reasons: Record<string, string[]>; deleted: string[] }
+    const runGone = async (args: string[]): Promise<GonePayload> => {
+      stdout.length = 0
+      expect(await cli.run(["gone", ...args, "--json"])).toBe(0)
+      return JSON.parse(expectSingleStdoutLine(stdout)) as GonePayload
+    }
+
+    expect((await runGone([])).candidates).toEqual([])
+    expect(await runGone(["--upstream-gone", "--stale", "30", "--include-closed"])).toMatchObject({
+      candidates: ["feature/stale", "feature/upstream"],
+      reasons: {
+        "feature/stale": ["stale"],
+        "feature/upstream": ["upstream_gone"],
+      },
+    })
+
+    await writeFile(join(repoRoot, ".vde", "worktree", "config.yml"), "gone:\n  upstreamGone: true\n", "utf8")
+    expect((await runGone([])).candidates).toEqual(["feature/upstream"])
+    expect((await runGone(["--apply"])).deleted).toEqual(["feature/upstream"])
+    expect(await runGit(repoRoot, ["branch", "--list", "feature/upstream"])).toBe("")
+
+    expect(await cli.run(["gone", "--stale", "0"])).toBe(3)
+  })
+
   it("gone excludes unmanaged worktrees even when merged", async () => {
     const repoRoot = await setupRepo()
     tempDirs.add(repoRoot)
@@ -1669,6 +2825,313 @@ echo '[{"headRefName":"feature/pr-url","state":"OPEN","mergedAt":null,"updatedAt
     expect(target?.pr.url).toBe("https://github.com/example/repo/pull/987")
   })
 
+  it("list --json resolves PR state through the forge provider selected in config.yml", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/mr"])).toBe(0)
+    await writeFile(join(repoRoot, ".vde", "worktree", "config.yml"), "forge:\n  provider: glab\n", "utf8")
+
+    const shimDir = await mkdtemp(join(tmpdir(), "vde-worktree-glab-shim-"))
+    tempDirs.add(shimDir)
+    const glabPath = join(shimDir, "glab")
+    await writeFile(
+      glabPath,
+      `#!/bin/sh
+echo '[{"source_branch":"feature/mr","state":"merged","merged_at":"2026-02-17T00:00:00Z","updated_at":"2026-02-17T00:00:00Z","web_url":"https://gitlab.example.com/group/repo/-/merge_requests/7"}]'
+`,
+      "utf8",
+    )
+    await chmod(glabPath, 0o755)
+
+    envBackup.set("PATH", process.env.PATH)
+    process.env.PATH = `${shimDir}:${process.env.PATH ?? ""}`
+
+    stdout.length = 0
+    expect(await cli.run(["list", "--json"])).toBe(0)
+    const payload = JSON.parse(expectSingleStdoutLine(stdout)) as {
+      worktrees: Array<{
+        branch: string | null
+        merged: { byPR: boolean | null }
+        pr: { status: string | null; url: string | null }
+      }>
+    }
+    const target = payload.worktrees.find((worktree) => worktree.branch === "feature/mr")
+    expect(target?.pr).toEqual({
+      status: "merged",
+      url: "https://gitlab.example.com/group/repo/-/merge_requests/7",
+    })
+    expect(target?.merged.byPR).toBe(true)
+  })
+
+  it("pr pushes and creates a pull request once, runs pr hooks, and views it", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const remoteRoot = await mkdtemp(join(tmpdir(), "vde-worktree-remote-"))
+    tempDirs.add(remoteRoot)
+    await runGit(remoteRoot, ["init", "--bare"])
+    await runGit(repoRoot, ["remote", "add", "origin", remoteRoot])
+    await runGit(repoRoot, ["push", "-u", "origin", "main"])
+    const stdout: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/pr"])).toBe(0)
+    const featurePath = join(repoRoot, ".worktree", "feature", "pr")
+    await runGit(featurePath, ["commit", "--allow-empty", "-m", "feature pr"])
+    await writeExecutableHook({
+      repoRoot,
+      hookName: "pre-pr",
+      body: `#!/bin/sh
+if [ "$WT_PR_ACTION" = "create" ]; then printf 'Template body' > "$WT_PR_BODY_FILE"; fi
+`,
+    })
+
+    const shimDir = await mkdtemp(join(tmpdir(), "vde-worktree-gh-shim-pr-"))
+    tempDirs.add(shimDir)
+    const ghLog = join(shimDir, "gh.log")
+    const ghState = join(shimDir, "created")
+    await writeFile(
+      join(shimDir, "gh"),
+      `#!/bin/sh
+printf '%s\\n' "$*" >> '${ghLog}'
+case "$1 $2" in
+  "pr list")
+    if [ -f '${ghState}' ]; then
+      echo '[{"headRefName":"feature/pr","state":"OPEN","mergedAt":null,"updatedAt":"2026-02-17T00:00:00Z","url":"https://github.com/example/repo/pull/42"}]'
+    else
+      echo '[]'
+    fi
+    ;;
+  "pr create") touch '${ghState}'; echo "https://github.com/example/repo/pull/42" ;;
+  "pr view") echo "title: feature pr" ;;
+esac
+`,
+      "utf8",
+    )
+    await chmod(join(shimDir, "gh"), 0o755)
+    envBackup.set("PATH", process.env.PATH)
+    process.env.PATH = `${shimDir}:${process.env.PATH ?? ""}`
+
+    stdout.length = 0
+    expect(await cli.run(["pr", "feature/pr"])).toBe(0)
+    expect(stdout).toEqual(["none: feature/pr"])
+
+    type PrPayload = {
+      action: string
+      pushed: boolean
+      created: boolean
+      pr: { status: string; url: string | null }
+      output?: string
+    }
+    const runPr = async (args: string[]): Promise<PrPayload> => {
+      stdout.length = 0
+      expect(await cli.run(["pr", "feature/pr", ...args, "--json"])).toBe(0)
+      return JSON.parse(expectSingleStdoutLine(stdout)) as PrPayload
+    }
+
+    expect(await runPr(["--create"])).toMatchObject({
+      action: "create",
+      pushed: true,
+      created: true,
+      pr: { status: "open", url: "https://github.com/example/repo/pull/42" },
+    })
+    expect(await runGit(featurePath, ["rev-parse", "--abbrev-ref", "feature/pr@{upstream}"])).toBe("origin/feature/pr")
+    expect(await runGit(remoteRoot, ["rev-parse", "feature/pr"])).toBe(await runGit(featurePath, ["rev-parse", "HEAD"]))
+    expect(await readFile(ghLog, "utf8")).toContain(
+      "pr create --base main --head feature/pr --fill --body Template body",
+    )
+
+    expect(await runPr(["--create"])).toMatchObject({ pushed: false, created: false, pr: { status: "open" } })
+    expect(await runPr(["--view"])).toMatchObject({ action: "view", output: "title: feature pr" })
+
+    stdout.length = 0
+    expect(await cli.run(["pr", "feature/pr", "--create", "--web", "--json"])).toBe(3)
+    stdout.length = 0
+    expect(await cli.run(["pr", "main", "--json"])).toBe(3)
+
+    stdout.length = 0
+    expect(await cli.run(["log", "--json"])).toBe(0)
+    const journal = JSON.parse(expectSingleStdoutLine(stdout)) as {
+      entries: Array<{ command: string; args: string[] }>
+    }
+    const prEntries = journal.entries.filter((entry) => entry.command === "pr")
+    expect(prEntries).toHaveLength(3)
+    expect(prEntries.every((entry) => entry.args.includes("--create"))).toBe(true)
+  })
+
+  it("push sets upstream, runs push hooks, and skips base or locked worktrees with --all", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const remoteRoot = await mkdtemp(join(tmpdir(), "vde-worktree-remote-"))
+    tempDirs.add(remoteRoot)
+    await runGit(remoteRoot, ["init", "--bare"])
+    await runGit(repoRoot, ["remote", "add", "origin", remoteRoot])
+    await runGit(repoRoot, ["push", "-u", "origin", "main"])
+    const stdout: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/push"])).toBe(0)
+    expect(await cli.run(["switch", "feature/push-locked"])).toBe(0)
+    expect(await cli.run(["lock", "feature/push-locked", "--reason", "busy"])).toBe(0)
+    const featurePath = join(repoRoot, ".worktree", "feature", "push")
+    await runGit(featurePath, ["commit", "--allow-empty", "-m", "feature push"])
+    const hookLog = join(repoRoot, "push-hooks.log")
+    await writeExecutableHook({
+      repoRoot,
+      hookName: "pre-push",
+      body: `#!/bin/sh\necho "pre $WT_BRANCH" >> '${hookLog}'\n`,
+    })
+    await writeExecutableHook({
+      repoRoot,
+      hookName: "post-push",
+      body: `#!/bin/sh\necho "post $WT_BRANCH" >> '${hookLog}'\n`,
+    })
+
+    type PushPayload = {
+      status: string
+      code?: string
+      results: Array<{ branch: string | null; status: string; remote: string | null; setUpstream: boolean }>
+    }
+    const runPush = async (args: string[], expectedExitCode = 0): Promise<PushPayload> => {
+      stdout.length = 0
+      expect(await cli.run(["push", ...args, "--json"])).toBe(expectedExitCode)
+      return JSON.parse(expectSingleStdoutLine(stdout)) as PushPayload
+    }
+
+    expect((await runPush(["feature/push"])).results).toEqual([
+      expect.objectContaining({
+        branch: "feature/push",
+        status: "pushed",
+        remote: "origin/feature/push",
+        setUpstream: true,
+      }),
+    ])
+    expect(await runGit(remoteRoot, ["rev-parse", "feature/push"])).toBe(
+      await runGit(featurePath, ["rev-parse", "HEAD"]),
+    )
+    expect(await readFile(hookLog, "utf8")).toBe("pre feature/push\npost feature/push\n")
+
+    expect((await runPush(["main"], 4)).code).toBe("PROTECTED_BRANCH")
+    expect((await runPush(["feature/push-locked"], 4)).code).toBe("LOCKED_WORKTREE")
+
+    await runGit(featurePath, ["commit", "--allow-empty", "-m", "feature push 2"])
+    const all = await runPush(["--all"])
+    expect(all.results.map((result) => [result.branch, result.status, result.setUpstream])).toEqual([
+      ["main", "skipped", false],
+      ["feature/push", "pushed", false],
+      ["feature/push-locked", "skipped", false],
+    ])
+    expect((await runPush(["feature/push"])).results[0]?.status).toBe("up-to-date")
+
+    expect(await runPush(["--all", "--force"], 3)).toMatchObject({ code: "INVALID_ARGUMENT" })
+
+    stdout.length = 0
+    expect(await cli.run(["log", "--branch", "feature/push", "--json"])).toBe(0)
+    const journal = JSON.parse(expectSingleStdoutLine(stdout)) as { entries: Array<{ command: string }> }
+    expect(journal.entries.map((entry) => entry.command)).toEqual(["switch", "push", "push", "push"])
+  })
+
+  it("sync fetches once, updates clean worktrees, and reports skipped and conflicted ones", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const remoteRoot = await mkdtemp(join(tmpdir(), "vde-worktree-remote-"))
+    tempDirs.add(remoteRoot)
+    await runGit(remoteRoot, ["init", "--bare"])
+    await runGit(repoRoot, ["remote", "add", "origin", remoteRoot])
+    await runGit(repoRoot, ["push", "-u", "origin", "main"])
+    const stdout: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    const worktreePath = (branch: string): string => join(repoRoot, ".worktree", ...branch.split("/"))
+    for (const branch of ["feature/sync-clean", "feature/sync-dirty", "feature/sync-locked", "feature/sync-conflict"]) {
+      expect(await cli.run(["switch", branch])).toBe(0)
+    }
+    await writeFile(join(worktreePath("feature/sync-clean"), "clean.txt"), "clean\n", "utf8")
+    await runGit(worktreePath("feature/sync-clean"), ["add", "clean.txt"])
+    await runGit(worktreePath("feature/sync-clean"), ["commit", "-m", "clean"])
+    await writeFile(join(worktreePath("feature/sync-dirty"), "README.md"), "# dirty\n", "utf8")
+    expect(await cli.run(["lock", "feature/sync-locked", "--reason", "busy"])).toBe(0)
+    await writeFile(join(worktreePath("feature/sync-conflict"), "README.md"), "# conflict\n", "utf8")
+    await runGit(worktreePath("feature/sync-conflict"), ["commit", "-am", "conflict"])
+    const conflictHead = await runGit(worktreePath("feature/sync-conflict"), ["rev-parse", "HEAD"])
+
+    await writeFile(join(repoRoot, "README.md"), "# upstream\n", "utf8")
+    await runGit(repoRoot, ["commit", "-am", "upstream"])
+    await runGit(repoRoot, ["push", "origin", "main"])
+    const upstreamHead = await runGit(repoRoot, ["rev-parse", "HEAD"])
+    await runGit(repoRoot, ["reset", "--hard", "HEAD~1"])
+    await runGit(repoRoot, ["update-ref", "refs/remotes/origin/main", "HEAD"])
+
+    type SyncReport = {
+      onto: string
+      strategy: string
+      updated: Array<string | null>
+      skipped: string[]
+      conflicted: Array<string | null>
+      results: Array<{ branch: string | null; status: string; reason: string | null }>
+    }
+    type SyncPayload = SyncReport & { status: string; code?: string; details?: SyncReport }
+    const runSync = async (args: string[], expectedExitCode = 0): Promise<SyncPayload> => {
+      stdout.length = 0
+      expect(await cli.run(["sync", ...args, "--json"])).toBe(expectedExitCode)
+      return JSON.parse(expectSingleStdoutLine(stdout)) as SyncPayload
+    }
+
+    const single = await runSync(["feature/sync-clean"])
+    expect(single).toMatchObject({ onto: "origin/main", strategy: "rebase", updated: ["feature/sync-clean"] })
+    const cleanHead = await runGit(worktreePath("feature/sync-clean"), ["rev-parse", "HEAD"])
+    expect(await runGit(worktreePath("feature/sync-clean"), ["rev-parse", "HEAD~1"])).toBe(upstreamHead)
+    const lifecycle = JSON.parse(
+      await readFile(
+        join(repoRoot, ".vde", "worktree", "state", "branches", `${branchToWorktreeId("feature/sync-clean")}.json`),
+        "utf8",
+      ),
+    ) as { everDiverged: boolean; lastDivergedHead: string | null }
+    expect(lifecycle).toMatchObject({ everDiverged: true, lastDivergedHead: cleanHead })
+
+    const failed = await runSync(["--all", "--merge"], 20)
+    expect(failed).toMatchObject({ status: "error", code: "REBASE_CONFLICT" })
+    const all = failed.details as SyncReport
+    expect(all).toMatchObject({
+      strategy: "merge",
+      updated: ["main"],
+      skipped: ["feature/sync-dirty", "feature/sync-locked"],
+      conflicted: ["feature/sync-conflict"],
+    })
+    expect(all.results.map((result) => [result.branch, result.status])).toEqual([
+      ["main", "updated"],
+      ["feature/sync-clean", "up-to-date"],
+      ["feature/sync-conflict", "conflicted"],
+      ["feature/sync-dirty", "skipped"],
+      ["feature/sync-locked", "skipped"],
+    ])
+    expect(all.results[3]?.reason).toBe("dirty worktree")
+    expect(all.results[4]?.reason).toBe("locked: busy")
+    expect(await runGit(repoRoot, ["rev-parse", "HEAD"])).toBe(upstreamHead)
+    expect(await runGit(worktreePath("feature/sync-conflict"), ["rev-parse", "HEAD"])).toBe(conflictHead)
+    expect(await runGit(worktreePath("feature/sync-conflict"), ["status", "--porcelain"])).toBe("")
+
+    expect(await runSync(["feature/sync-clean", "--rebase", "--merge"], 3)).toMatchObject({ code: "INVALID_ARGUMENT" })
+  })
+
   it("list truncates long path in narrow tty and --full-path disables truncation", async () => {
     const repoRoot = await setupRepo()
     tempDirs.add(repoRoot)
@@ -1838,6 +3301,84 @@ echo '[{"headRefName":"feature/pr-url","state":"OPEN","mergedAt":null,"updatedAt
     expect(payload.branch).toBe("feature/exec-ok")
   })
 
+  it("list reuses the snapshot cache until refs change, a write command runs, or --refresh", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+    })
+
+    expect(await cli.run(["init"])).toBe(0)
+    expect(await cli.run(["switch", "feature/cache"])).toBe(0)
+    const cachePath = join(repoRoot, ".vde", "worktree", "state", "snapshot-cache.json")
+    await expect(access(cachePath)).rejects.toThrow()
+
+    const listHeads = async (args: string[] = []): Promise<string[]> => {
+      stdout.length = 0
+      expect(await cli.run(["list", "--json", ...args])).toBe(0)
+      return (JSON.parse(expectSingleStdoutLine(stdout)) as { worktrees: Array<{ head: string }> }).worktrees.map(
+        (worktree) => worktree.head,
+      )
+    }
+
+    const freshHeads = await listHeads()
+    const cache = JSON.parse(await readFile(cachePath, "utf8")) as { worktrees: Array<{ head: string }> }
+    await writeFile(
+      cachePath,
+      `${JSON.stringify({ ...cache, worktrees: cache.worktrees.map((worktree) => ({ ...worktree, head: "cached" })) })}\n`,
+      "utf8",
+    )
+
+    expect(await listHeads()).toEqual(freshHeads.map(() => "cached"))
+
+    const featurePath = join(repoRoot, ".worktree", "feature", "cache")
+    const lockPath = join(repoRoot, ".vde", "worktree", "locks", `${branchToWorktreeId("feature/cache")}.json`)
+    const expiredAt = new Date(Date.now() - 1000).toISOString()
+    await writeFile(join(featurePath, "README.md"), "# edited\n", "utf8")
+    await writeFile(
+      lockPath,
+      `${JSON.stringify({
+        schemaVersion: 1,
+        branch: "feature/cache",
+        worktreeId: branchToWorktreeId("feature/cache"),
+        reason: "external",
+        owner: "someone",
+        host: hostname(),
+        pid: process.pid,
+        createdAt: expiredAt,
+        updatedAt: expiredAt,
+        expiresAt: expiredAt,
+      })}\n`,
+      "utf8",
+    )
+    stdout.length = 0
+    expect(await cli.run(["list", "--json"])).toBe(0)
+    const refreshed = (
+      JSON.parse(expectSingleStdoutLine(stdout)) as {
+        worktrees: Array<{
+          branch: string | null
+          head: string
+          dirty: boolean
+          locked: { value: boolean; stale: boolean }
+        }>
+      }
+    ).worktrees.find((worktree) => worktree.branch === "feature/cache")
+    expect(refreshed).toMatchObject({ head: "cached", dirty: true, locked: { value: true, stale: true } })
+    await rm(lockPath)
+    await runGit(featurePath, ["checkout", "--", "README.md"])
+
+    expect(await listHeads(["--refresh"])).toEqual(freshHeads)
+
+    await runGit(featurePath, ["commit", "--allow-empty", "-m", "cache miss"])
+    const movedHeads = await listHeads()
+    expect(movedHeads).not.toEqual(freshHeads)
+
+    expect(await cli.run(["lock", "feature/cache", "--reason", "cache"])).toBe(0)
+    await expect(access(cachePath)).rejects.toThrow()
+  })
+
   it("handles lock/unlock conflicts for invalid metadata and owner mismatch", async () => {
     const repoRoot = await setupRepo()
     tempDirs.add(repoRoot)
@@ -1985,6 +3526,26 @@ echo '[{"headRefName":"feature/pr-url","state":"OPEN","mergedAt":null,"updatedAt
     expect(await cli.run(["cd"])).toBe(130)
   })
 
+  it("tui requires an interactive terminal and rejects --json", async () => {
+    const repoRoot = await setupRepo()
+    tempDirs.add(repoRoot)
+    const stdout: string[] = []
+    const stderr: string[] = []
+    const cli = createCli({
+      cwd: repoRoot,
+      stdout: (line) => stdout.push(line),
+      stderr: (line) => stderr.push(line),
+      isInteractive: () => false,
+    })
+
+    expect(await cli.run(["tui"])).toBe(5)
+    expect(stderr.some((line) => line.includes("tui requires an interactive terminal"))).toBe(true)
+
+    expect(await cli.run(["tui", "--json"])).toBe(3)
+    const payload = JSON.parse(expectSingleStdoutLine(stdout)) as Record<string, unknown>
+    expect(payload.code).toBe("INVALID_ARGUMENT")
+  })
+
   it("returns UNKNOWN_COMMAND for unsupported command names", async () => {
     const repoRoot = await setupRepo()
     tempDirs.add(repoRoot)
@@ -1,8 +1,11 @@
 import { constants as fsConstants } from "node:fs"
-import { access, cp, mkdir, readFile, readdir, rm, symlink, writeFile } from "node:fs/promises"
+import { access, mkdir, mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises"
 import { createRequire } from "node:module"
-import { homedir } from "node:os"
+import { homedir, hostname, tmpdir } from "node:os"
 import { dirname, join, relative, resolve, sep } from "node:path"
+import { createInterface } from "node:readline"
+import { setTimeout as delay } from "node:timers/promises"
+import type { Readable } from "node:stream"
 import { fileURLToPath } from "node:url"
 import { Chalk } from "chalk"
 import { parseArgs } from "citty"
@@ -11,21 +14,65 @@ import { execa } from "execa"
 import stringWidth from "string-width"
 import { getBorderCharacters, table } from "table"
 import { loadResolvedConfig } from "../config/loader"
-import { LIST_TABLE_COLUMNS, type ListTableColumn, type ResolvedConfig, type SelectorCdSurface } from "../config/types"
 import {
+  COPY_STRATEGIES,
+  LIST_TABLE_COLUMNS,
+  type CopyStrategy,
+  type ListTableColumn,
+  type ResolvedConfig,
+  type SelectorCdSurface,
+  type StaleLockPolicy,
+} from "../config/types"
+import {
+  DEFAULT_EXEC_CONCURRENCY,
   DEFAULT_HOOK_TIMEOUT_MS,
+  DEFAULT_LOCK_HEARTBEAT_TTL_SECONDS,
   DEFAULT_LOCK_TIMEOUT_MS,
+  DEFAULT_POOL_SIZE,
   DEFAULT_STALE_LOCK_TTL_SECONDS,
+  DEFAULT_TUI_REFRESH_INTERVAL_MS,
+  DEFAULT_WITH_LOCK_WAIT_SECONDS,
   EXIT_CODE,
   SCHEMA_VERSION,
+  READ_ONLY_SUBCOMMANDS,
+  WRITE_COMMAND_FLAGS,
   WRITE_COMMANDS,
 } from "../core/constants"
 import { createCliError, ensureCliError, type CliError } from "../core/errors"
-import { invokeHook, runPostHook, runPreHook, type HookExecutionContext } from "../core/hooks"
+import { formatByteSize, sumCopyStats, type CopyStats } from "../core/copy-strategy"
+import { discoverUntrackedFiles, parseFileSizeBytes, type FileDiscoveryResult } from "../core/file-discovery"
+import {
+  invokeHook,
+  listHookEntries,
+  parseHookTarget,
+  runPostHook,
+  runPreHook,
+  type HookExecutionContext,
+} from "../core/hooks"
+import {
+  appendMutationUndoStep,
+  createMutationIntent,
+  deleteMutationIntent,
+  listMutationIntents,
+  rollbackMutationIntent,
+  type MutationUndoStep,
+} from "../core/mutation-intent"
+import {
+  checkCommandAvailability,
+  checkExcludeBlock,
+  checkHookPermissions,
+  checkInterruptedMutations,
+  checkManagedDirectories,
+  checkOrphanLifecycles,
+  checkOrphanLocks,
+  checkPrunableWorktrees,
+  checkStaleRepoLock,
+  checkUnmanagedWorktrees,
+  type DoctorCheck,
+} from "../core/doctor"
 import { initializeRepository, isInitialized } from "../core/init"
 import {
   branchToWorktreePath,
-  ensurePathInsideRoot,
   ensurePathInsideRepo,
   getWorktreeRootPath,
   isManagedWorktreePath,
@@ -33,28 +80,94 @@ import {
   resolveRepoContext,
   resolveRepoRelativePath,
 } from "../core/paths"
+import { readBranchActivity, resolveGoneReasons, type GonePolicy, type GoneReason } from "../core/gone-policy"
 import { readNumberFromEnvOrDefault, withRepoLock } from "../core/repo-lock"
+import {
+  appendOperationJournalEntry,
+  parseJournalSince,
+  readOperationJournal,
+  type OperationTarget,
+} from "../core/operation-journal"
+import { invalidateSnapshotCache } from "../core/snapshot-cache"
 import {
   deleteWorktreeMergeLifecycle,
   moveWorktreeMergeLifecycle,
+  readWorktreeMergeLifecycle,
+  restoreWorktreeMergeLifecycle,
   upsertWorktreeMergeLifecycle,
 } from "../core/worktree-merge-lifecycle"
-import { deleteWorktreeLock, readWorktreeLock, upsertWorktreeLock } from "../core/worktree-lock"
+import {
+  deleteWorktreeLock,
+  isWorktreeLockHeldByOtherProcess,
+  isWorktreeLockStale,
+  parseLockDurationSeconds,
+  readWorktreeLock,
+  renewWorktreeLock,
+  restoreWorktreeLock,
+  runWorktreeLockHeartbeat,
+  upsertWorktreeLock,
+  type WorktreeLockRecord,
+} from "../core/worktree-lock"
+import {
+  createDiscardTrashEntryUndoStep,
+  findWorktreeTrashEntry,
+  listWorktreeTrash,
+  moveWorktreeToTrash,
+  removeWorktreeTrashEntry,
+  resolveWorktreeTrashPatchPath,
+  type WorktreeTrashRecord,
+} from "../core/worktree-trash"
+import { planWorktreeAdoption, type AdoptCandidate, type AdoptSkipped } from "../core/worktree-adopt"
 import {
   collectWorktreeSnapshot as collectWorktreeSnapshotBase,
   type WorktreeSnapshot,
   type WorktreeStatus,
 } from "../core/worktree-state"
+import {
+  filterWorktrees,
+  globToRegExp,
+  parseWorktreeFilters,
+  parseWorktreeSort,
+  parseWorktreeWhere,
+  sortWorktrees,
+  toPrStatusFilter,
+  type WorktreeFilter,
+  type WorktreeSort,
+  type WorktreeSortMetrics,
+} from "../core/worktree-query"
+import {
+  createPoolSpareId,
+  deletePoolSpare,
+  getPoolWorktreeRootPath,
+  isPoolWorktreePath,
+  listPoolSpares,
+  writePoolSpare,
+  type PoolSpareRecord,
+} from "../core/worktree-pool"
+import { copyIntoWorktree, hasWorktreeSetup, linkIntoWorktree, runWorktreeSetup } from "../core/worktree-setup"
+import { collectStackDescendants, orderWorktreesByStack } from "../core/worktree-stack"
 import { doesGitRefExist, runGitCommand } from "../git/exec"
+import { listGitWorktrees } from "../git/worktree"
 import {
   FzfDependencyError,
   FzfInteractiveRequiredError,
+  selectPathsWithFzf as defaultSelectPathsWithFzf,
   selectPathWithFzf as defaultSelectPathWithFzf,
 } from "../integrations/fzf"
-import type { SelectPathWithFzfInput, SelectPathWithFzfResult } from "../integrations/fzf"
+import type {
+  SelectPathsWithFzfInput,
+  SelectPathsWithFzfResult,
+  SelectPathWithFzfInput,
+  SelectPathWithFzfResult,
+} from "../integrations/fzf"
+import { createPrProvider } from "../integrations/forge"
+import { resolvePrStateByBranchBatch } from "../integrations/pr"
+import { runWorktreeTui, type TuiActionRequest, type TuiActionResult, type TuiRow } from "../ui/tui"
+import { mapWithConcurrency } from "../utils/concurrency"
 import { createLogger, LogLevel, type Logger } from "../utils/logger"
 import {
   createEarlyRepoCommandHandlers,
+  createRemoteCommandHandlers,
   createMiscCommandHandlers,
   createSynchronizationHandlers,
   createWorktreeActionHandlers,
@@ -76,9 +189,23 @@ type CLIOptions = {
   readonly stdout?: (line: string) => void
   readonly stderr?: (line: string) => void
   readonly selectPathWithFzf?: (input: SelectPathWithFzfInput) => Promise<SelectPathWithFzfResult>
+  readonly selectPathsWithFzf?: (input: SelectPathsWithFzfInput) => Promise<SelectPathsWithFzfResult>
   readonly isInteractive?: () => boolean
+  readonly throwOnError?: boolean
+}
+
+type OperationJournalSession = {
+  readonly command: string
+  readonly repoRoot: string
+  readonly args: readonly string[]
+  readonly actor: string
+  readonly startedAt: Date
+  readonly targets: OperationTarget[]
+  error: CliError | null
 }
 
+type MutationUndoRecorder = (step: MutationUndoStep) => Promise<void>
+
 type OptionValueKind = "boolean" | "value"
 
 type OptionSpec = {
@@ -102,6 +229,9 @@ type CommonRuntime = {
   readonly lockTimeoutMs: number
   readonly allowUnsafe: boolean
   readonly isInteractive: boolean
+  readonly hookModules: Readonly<Record<string, string>>
+  readonly copyStrategy: CopyStrategy
+  readonly resolveWorktreeStatus: (worktreePath: string) => Promise<WorktreeStatus | null>
 }
 
 type JsonSuccessStatus = "ok" | "created" | "existing" | "deleted"
@@ -152,8 +282,9 @@ type CatppuccinTheme = {
 }
 
 const EXIT_CODE_CANCELLED = 130
+const LOCK_WAIT_POLL_INTERVAL_MS = 500
 
-const optionNamesAllowOptionLikeValue = new Set(["fzfArg", "fzf-arg"])
+const optionNamesAllowOptionLikeValue = new Set(["fzfArg", "fzf-arg", "sort"])
 const CD_FZF_EXTRA_ARGS = [
   "--delimiter=\t",
   "--with-nth=1",
@@ -405,20 +536,45 @@ const commandHelpEntries: readonly CommandHelp[] = [
   },
   {
     name: "list",
-    usage: "vw list [--json] [--full-path]",
+    usage:
+      "vw list [--json] [--full-path] [--where <expr>] [--branch <glob>] [--merged] [--pr <status>] [--owner <name>] [--sort <key>]",
     summary: "List worktrees with status metadata.",
     details: [
       "Table output includes branch, path, dirty, lock, merged, PR state, and ahead/behind vs base branch.",
       "By default, long path values are truncated to fit terminal width.",
       "JSON output includes PR status/url and upstream metadata fields.",
+      "--where accepts terms (dirty, clean, merged, unmerged, locked, unlocked, owner=<name>, branch=<glob>, pr=<status>) combined with &&, ||, ! and parentheses.",
+      "--sort accepts branch, path, updatedAt, dirty, locked, merged, pr, ahead, behind (prefix - for descending).",
+    ],
+    options: [
+      "--full-path",
+      "--where <expr>",
+      "--branch <glob>",
+      "--merged",
+      "--no-merged",
+      "--pr <status>",
+      "--owner <name>",
+      "--sort <key>",
     ],
-    options: ["--full-path"],
   },
   {
     name: "status",
-    usage: "vw status [branch] [--json]",
-    summary: "Show a single worktree status.",
-    details: ["Without branch, resolves from current working directory."],
+    usage:
+      "vw status [branch] [--json] [--where <expr>] [--branch <glob>] [--merged] [--pr <status>] [--owner <name>] [--sort <key>]",
+    summary: "Show a single worktree status, or every worktree matching query flags.",
+    details: [
+      "Without branch, resolves from current working directory.",
+      "With query flags, prints all matching worktrees (same filters and sort keys as list).",
+    ],
+    options: [
+      "--where <expr>",
+      "--branch <glob>",
+      "--merged",
+      "--no-merged",
+      "--pr <status>",
+      "--owner <name>",
+      "--sort <key>",
+    ],
   },
   {
     name: "path",
@@ -426,17 +582,58 @@ const commandHelpEntries: readonly CommandHelp[] = [
     summary: "Print absolute worktree path for the branch.",
     details: [],
   },
+  {
+    name: "log",
+    usage: "vw log [--branch <glob>] [--since <duration|date>] [--json]",
+    summary: "Show the operation journal of write commands.",
+    details: [
+      "Every write command appends a JSONL entry to .vde/worktree/logs/operations.jsonl.",
+      "Entries record command, args, target branches/paths, actor, pid, host, start/end time, outcome, and error code.",
+    ],
+    options: ["--branch <glob>", "--since <duration|date>"],
+  },
+  {
+    name: "doctor",
+    usage: "vw doctor [--repair] [--json]",
+    summary: "Check vw setup and repository state for problems.",
+    details: [
+      "Checks managed directories, the exclude block, hook permissions, orphan lock/lifecycle records, stale repo lock, prunable and unmanaged worktrees, interrupted mutations, and fzf/gh availability.",
+      "--repair fixes what it safely can; unmanaged worktrees are only reported (use `vw adopt --apply`).",
+    ],
+    options: ["--repair"],
+  },
   {
     name: "new",
-    usage: "vw new [branch]",
+    usage: "vw new [branch] [--from <ref>] [--base <branch>]",
     summary: "Create branch + worktree under .worktree.",
-    details: ["Without branch, generates wip-xxxxxx."],
+    details: [
+      "Without branch, generates wip-xxxxxx.",
+      "--from starts the branch at any ref (branch, tag, or commit) instead of the base branch.",
+      "--base records a parent branch; merged state is then computed against that parent.",
+      "Claims a spare from the worktree pool when one is available.",
+    ],
+    options: ["--from <ref>", "--base <branch>"],
   },
   {
     name: "switch",
-    usage: "vw switch <branch>",
+    usage: "vw switch <branch> [--from <ref>] [--base <branch>]",
     summary: "Idempotent branch entrypoint.",
-    details: ["Reuses existing worktree when present, otherwise creates one."],
+    details: [
+      "Reuses existing worktree when present, otherwise creates one.",
+      "--from/--base apply when a new branch is created; --base also updates the recorded parent.",
+      "Claims a spare from the worktree pool when a worktree is created.",
+    ],
+    options: ["--from <ref>", "--base <branch>"],
+  },
+  {
+    name: "pool",
+    usage: "vw pool fill [--size <n>] [--from <ref>] [--base <branch>] | vw pool clear",
+    summary: "Manage pre-warmed spare worktrees that new/switch claim.",
+    details: [
+      "fill creates detached spares until --size (default 1) and runs the post-new hook in each (WT_ACTION=pool).",
+      "clear removes all spares.",
+    ],
+    options: ["--size <n>", "--from <ref>", "--base <branch>"],
   },
   {
     name: "mv",
@@ -446,19 +643,51 @@ const commandHelpEntries: readonly CommandHelp[] = [
   },
   {
     name: "del",
-    usage: "vw del [branch] [flags]",
+    usage: "vw del [branch|--pick] [flags]",
     summary: "Delete worktree + branch with safety checks.",
     details: [
       "Default rejects dirty, locked, unmerged/unknown, or unpushed/unknown states.",
       "For non-TTY force usage, --allow-unsafe is required.",
+      "--pick selects several managed worktrees with fzf (same preview as cd); the whole selection is validated before deleting.",
+      "Dirty or force-deleted worktrees are moved to trash first (branch tip, uncommitted changes, lock, lifecycle).",
+    ],
+    options: [
+      "--pick",
+      "--force-dirty",
+      "--allow-unpushed",
+      "--force-unmerged",
+      "--force-locked",
+      "--force",
+      "--allow-unsafe",
     ],
-    options: ["--force-dirty", "--allow-unpushed", "--force-unmerged", "--force-locked", "--force", "--allow-unsafe"],
   },
   {
     name: "gone",
-    usage: "vw gone [--json] [--apply|--dry-run]",
+    usage: "vw gone [--json] [--apply|--dry-run|--pick] [--include-closed] [--upstream-gone] [--stale <days>]",
     summary: "Bulk cleanup by safety-filtered candidate selection.",
-    details: ["Default mode is dry-run. Use --apply to delete candidates."],
+    details: [
+      "Default mode is dry-run. Use --apply to delete candidates.",
+      "--pick opens fzf with every candidate checked; only the checked candidates are deleted.",
+      "Candidates are clean, unlocked, merged worktrees; --include-closed, --upstream-gone, and --stale add closed-unmerged PRs, deleted upstreams, and inactive branches.",
+      "Defaults for these policies come from the gone section of config.yml. Non-merged candidates are deleted with git branch -D.",
+    ],
+    options: ["--apply", "--dry-run", "--pick", "--include-closed", "--upstream-gone", "--stale <days>"],
+  },
+  {
+    name: "restore",
+    usage: "vw restore <branch|trash-id>",
+    summary: "Recreate a deleted branch and worktree from trash.",
+    details: [
+      "Uses the latest trash entry for the branch when a branch name is given.",
+      "Reapplies captured uncommitted changes and restores lock and lifecycle metadata.",
+    ],
+  },
+  {
+    name: "trash",
+    usage: "vw trash list | vw trash purge <branch|trash-id> | vw trash purge --all",
+    summary: "List or purge trash entries recorded before destructive deletes.",
+    details: ["Entries live in .vde/worktree/state/trash and keep their commits reachable until purged."],
+    options: ["--all"],
   },
   {
     name: "adopt",
@@ -509,35 +738,132 @@ const commandHelpEntries: readonly CommandHelp[] = [
     ],
     options: ["--allow-shared", "--allow-agent", "--allow-unsafe"],
   },
+  {
+    name: "restack",
+    usage: "vw restack [branch] [--dry-run] [--force-locked]",
+    summary: "Rebase stacked child worktrees onto their recorded parent branches.",
+    details: [
+      "Targets the branch (when it has a parent) and all descendants, in stack order.",
+      "Children of a merged or missing parent are rebased onto the next live ancestor or base branch.",
+      "Stops and aborts the rebase on conflict; already restacked branches are kept.",
+    ],
+    options: ["--dry-run", "--force-locked"],
+  },
+  {
+    name: "pr",
+    usage: "vw pr [branch] [--create|--web|--view]",
+    summary: "Show, create, or open the pull request for a worktree branch.",
+    details: [
+      "Without flags, prints the PR status and URL for the branch (current worktree when omitted).",
+      "--create pushes the branch with upstream tracking to git.baseRemote and creates a PR against the base branch.",
+      "--create is a no-op when an open PR already exists.",
+      "Uses the forge provider from config.yml (gh, glab, tea); pre-pr/post-pr hooks receive WT_PR_ACTION and WT_PR_BODY_FILE.",
+    ],
+    options: ["--create", "--web", "--view"],
+  },
+  {
+    name: "push",
+    usage: "vw push [branch|--all] [--force-locked] [--force-base]",
+    summary: "Push worktree branches, setting upstream to git.baseRemote when missing.",
+    details: [
+      "Pushes the branch (current worktree when omitted), or every worktree branch with --all.",
+      "Refuses the base branch unless --force-base, and locked worktrees unless --force-locked.",
+      "With --all, refused and detached worktrees are reported as skipped instead of failing.",
+      "Runs pre-push/post-push hooks for each pushed branch. Never force-pushes.",
+    ],
+    options: ["--all", "--force-locked", "--force-base", "--allow-unsafe"],
+  },
+  {
+    name: "sync",
+    usage: "vw sync [branch|--all] [--rebase|--merge]",
+    summary: "Fetch git.baseRemote once and update worktrees onto the base branch.",
+    details: [
+      "Updates the branch (current worktree when omitted), or every worktree with --all.",
+      "Rebases onto <remote>/<base> by default; --merge merges it instead. The base branch worktree is fast-forwarded only.",
+      "Skips detached, dirty, locked, and stacked worktrees (use restack for stacked ones).",
+      "On conflict the rebase/merge is aborted, the worktree is reported as conflicted, and exit code is 20.",
+    ],
+    options: ["--all", "--rebase", "--merge"],
+  },
   {
     name: "exec",
-    usage: "vw exec <branch> -- <cmd...>",
-    summary: "Run command in target branch worktree.",
-    details: ["Returns exit code 21 when child process exits non-zero."],
+    usage: "vw exec <branch> -- <cmd...> | vw exec --all|--filter <expr> [--concurrency <n>] -- <cmd...>",
+    summary: "Run command in target branch worktree, or across many worktrees in parallel.",
+    details: [
+      "Returns exit code 21 when child process exits non-zero (any child with --all/--filter).",
+      "--filter accepts dirty, clean, merged, unmerged, locked, unlocked, owner=<name>, branch=<glob>, pr=<status> (comma-separated or repeated, all must match).",
+      "With --all/--filter, output lines are prefixed with [branch] and a summary table is printed.",
+    ],
+    options: ["--all", "--filter <expr>", "--concurrency <n>"],
   },
   {
     name: "invoke",
-    usage: "vw invoke <pre-*/post-*> [-- <args...>]",
+    usage: "vw invoke <pre-*/post-*|hook-id> [-- <args...>] | vw invoke list [pre-*/post-*]",
     summary: "Manually run hook script for debugging/operations.",
-    details: [],
+    details: [
+      "An event name runs every hook for it: hooks/<event>, user-level hooks, then <event>.d/* entries in file-name order.",
+      "`vw invoke list` prints hook ids (repo:post-new, user:post-new.d/10-env); pass one to run only that hook.",
+    ],
   },
   {
     name: "copy",
-    usage: "vw copy <repo-relative-path...>",
+    usage:
+      "vw copy [repo-relative-path...] [--glob <pattern>] [--ignored] [--exclude <pattern>] [--max-size <size>] [--dry-run] [--strategy <mode>]",
     summary: "Copy repo-root files/dirs to target worktree (typically WT_WORKTREE_PATH).",
-    details: [],
+    details: [
+      "--glob selects untracked files (ignored or not) by pattern; --ignored selects every gitignored untracked file.",
+      "With --ignored, --glob narrows the selection; --exclude and --max-size skip files. Both options are repeatable.",
+      "--dry-run prints the selected paths without copying.",
+      "--strategy auto|reflink|hardlink|copy (default: config copy.strategy); reflink/hardlink fall back to copy and bytes saved are reported.",
+    ],
+    options: [
+      "--glob <pattern>",
+      "--ignored",
+      "--exclude <pattern>",
+      "--max-size <size>",
+      "--dry-run",
+      "--strategy <mode>",
+    ],
   },
   {
     name: "link",
-    usage: "vw link <repo-relative-path...> [--no-fallback]",
+    usage:
+      "vw link [repo-relative-path...] [--glob <pattern>] [--ignored] [--exclude <pattern>] [--max-size <size>] [--dry-run] [--no-fallback]",
     summary: "Create symlink from target worktree to repo-root file.",
-    details: ["On Windows, fallback copy is used unless --no-fallback is set."],
+    details: [
+      "On Windows, fallback copy is used unless --no-fallback is set.",
+      "--glob/--ignored/--exclude/--max-size/--dry-run select files the same way as copy.",
+    ],
+    options: [
+      "--glob <pattern>",
+      "--ignored",
+      "--exclude <pattern>",
+      "--max-size <size>",
+      "--dry-run",
+      "--no-fallback",
+    ],
+  },
+  {
+    name: "setup",
+    usage: "vw setup [branch]",
+    summary: "Apply config setup (copy/link/run) to a worktree.",
+    details: [
+      "Runs automatically when new/switch/get/extract create a worktree.",
+      "Without branch, targets the current worktree.",
+    ],
   },
   {
     name: "lock",
-    usage: "vw lock <branch> [--owner <name>] [--reason <text>]",
+    usage:
+      "vw lock [renew] <branch> [--owner <name>] [--reason <text>] [--ttl <duration>] [--heartbeat] [--wait <duration>]",
     summary: "Create/update lock metadata to protect worktree from cleanup/deletion.",
-    details: [],
+    details: [
+      "--ttl makes the lock stale after the duration; `vw lock renew <branch>` extends it.",
+      "--heartbeat keeps running and renews the lock until SIGINT/SIGTERM, then releases it; the lock becomes stale if the process dies.",
+      "Stale locks can be taken over by another owner; config locks.stale.{del,gone}=ignore lets del/gone skip them.",
+      "--wait polls until a lock held by another owner is released or goes stale.",
+    ],
+    options: ["--owner <name>", "--reason <text>", "--ttl <duration>", "--heartbeat", "--wait <duration>"],
   },
   {
     name: "unlock",
@@ -545,6 +871,17 @@ const commandHelpEntries: readonly CommandHelp[] = [
     summary: "Remove lock metadata with owner/force checks.",
     details: [],
   },
+  {
+    name: "with-lock",
+    usage: "vw with-lock <branch> [--owner <name>] [--wait <duration>] [--ttl <duration>] -- <cmd...>",
+    summary: "Run command in worktree while holding its lock, then release the lock.",
+    details: [
+      "Waits up to --wait (default 5m) for a lock held by another owner.",
+      "Signals are forwarded to the command; the lock is released on exit or signal.",
+      "Returns the command's exit code.",
+    ],
+    options: ["--owner <name>", "--reason <text>", "--wait <duration>", "--ttl <duration>"],
+  },
   {
     name: "cd",
     usage: "vw cd",
@@ -552,6 +889,18 @@ const commandHelpEntries: readonly CommandHelp[] = [
     details: ['Use with shell: cd "$(vw cd)"'],
     options: ["--prompt <text>", "--fzf-arg <arg>"],
   },
+  {
+    name: "tui",
+    usage: "vw tui [--interval-ms <ms>]",
+    summary: "Full-screen dashboard for worktrees with live refresh and actions.",
+    details: [
+      "Shows the same columns as list and refreshes periodically.",
+      "Keys: j/k move, r refresh, s switch, d del, l lock, u unlock, a absorb, x exec, q quit.",
+      "Actions run through the same repository lock and safety checks as the CLI commands.",
+      "Requires an interactive terminal.",
+    ],
+    options: ["--interval-ms <ms>"],
+  },
   {
     name: "completion",
     usage: "vw completion <zsh|fish> [--install] [--path <file>]",
@@ -970,6 +1319,64 @@ const resolveBaseBranch = async ({
   })
 }
 
+const toExplicitParentBranch = ({
+  base,
+  baseBranch,
+}: {
+  readonly base: string | undefined
+  readonly baseBranch: string | null
+}): string | null | undefined => {
+  if (base === undefined) {
+    return undefined
+  }
+  return base === baseBranch ? null : base
+}
+
+const resolveBranchStartPoint = async ({
+  repoRoot,
+  config,
+  from,
+  base,
+}: {
+  readonly repoRoot: string
+  readonly config: ResolvedConfig
+  readonly from: string | undefined
+  readonly base: string | undefined
+}): Promise<{
+  readonly startPoint: string
+  readonly baseBranch: string
+  readonly parentBranch: string | null
+}> => {
+  const baseBranch = await resolveBaseBranch({ repoRoot, config })
+  if (base !== undefined && (await doesGitRefExist(repoRoot, `refs/heads/${base}`)) !== true) {
+    throw createCliError("INVALID_ARGUMENT", {
+      message: `--base must be an existing local branch: ${base}`,
+      details: { base },
+    })
+  }
+  if (from !== undefined) {
+    const resolved = await runGitCommand({
+      cwd: repoRoot,
+      args: ["rev-parse", "--verify", "--quiet", `${from}^{commit}`],
+      reject: false,
+    })
+    if (resolved.exitCode !== 0) {
+      throw createCliError("INVALID_ARGUMENT", {
+        message: `--from does not resolve to a commit: ${from}`,
+        details: { from },
+      })
+    }
+  }
+
+  const fromBranch = from !== undefined && (await doesGitRefExist(repoRoot, `refs/heads/${from}`)) ? from : null
+  const parentCandidate = base ?? fromBranch
+  return {
+    startPoint: from ?? base ?? baseBranch,
+    baseBranch,
+    parentBranch: parentCandidate === null || parentCandidate === baseBranch ? null : parentCandidate,
+  }
+}
+
 const ensureTargetPathWritable = async (targetPath: string): Promise<void> => {
   try {
     await access(targetPath, fsConstants.F_OK)
@@ -987,13 +1394,12 @@ const ensureTargetPathWritable = async (targetPath: string): Promise<void> => {
   }
 }
 
-const doesPathExist = async (path: string): Promise<boolean> => {
-  try {
-    await access(path, fsConstants.F_OK)
-    return true
-  } catch {
-    return false
-  }
+const toPoolSpareJson = ({ id, path, head, createdAt }: PoolSpareRecord): Record<string, string> => {
+  return { id, path, head, createdAt }
+}
+
+const resolveHeartbeatIntervalMs = (ttlSeconds: number | null): number => {
+  return Math.max(1, Math.floor(((ttlSeconds ?? DEFAULT_LOCK_HEARTBEAT_TTL_SECONDS) * 1000) / 3))
 }
 
 const buildJsonSuccess = ({
@@ -1036,6 +1442,18 @@ const buildJsonError = ({
   }
 }
 
+const parseJsonPayloadLine = (line: string): Record<string, unknown> | null => {
+  try {
+    const parsed = JSON.parse(line) as unknown
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      return null
+    }
+    return parsed as Record<string, unknown>
+  } catch {
+    return null
+  }
+}
+
 const resolveTargetWorktreeByBranch = ({
   branch,
   worktrees,
@@ -1224,9 +1642,9 @@ const installCompletionScript = async ({
 }
 
 const normalizeHookName = (value: string): string => {
-  if (/^(pre|post)-[a-z0-9][a-z0-9-]*$/.test(value) !== true) {
+  if (parseHookTarget(value) === null) {
     throw createCliError("INVALID_ARGUMENT", {
-      message: "hookName must be pre-* or post-*",
+      message: "hookName must be pre-* or post-* (or a hook id from `vw invoke list`)",
       details: { hookName: value },
     })
   }
@@ -1247,9 +1665,11 @@ const resolveBranchDeleteMode = (forceFlags: ParsedForceFlags): "-d" | "-D" => {
 const validateDeleteSafety = ({
   target,
   forceFlags,
+  staleLockPolicy,
 }: {
   readonly target: WorktreeStatus
   readonly forceFlags: ParsedForceFlags
+  readonly staleLockPolicy: StaleLockPolicy
 }): void => {
   if (target.dirty && forceFlags.forceDirty !== true) {
     throw createCliError("DIRTY_WORKTREE", {
@@ -1257,7 +1677,11 @@ const validateDeleteSafety = ({
       details: { branch: target.branch, path: target.path },
     })
   }
-  if (target.locked.value && forceFlags.forceLocked !== true) {
+  if (
+    target.locked.value &&
+    forceFlags.forceLocked !== true &&
+    (staleLockPolicy === "ignore" && target.locked.stale) !== true
+  ) {
     throw createCliError("LOCKED_WORKTREE", {
       message: "Worktree is locked",
       details: { branch: target.branch, path: target.path, reason: target.locked.reason },
@@ -1277,42 +1701,6 @@ const validateDeleteSafety = ({
   }
 }
 
-const resolveLinkTargetPath = ({
-  sourcePath,
-  destinationPath,
-}: {
-  readonly sourcePath: string
-  readonly destinationPath: string
-}): string => {
-  return relative(dirname(destinationPath), sourcePath)
-}
-
-const resolveFileCopyTargets = ({
-  repoRoot,
-  targetWorktreeRoot,
-  relativePath,
-}: {
-  readonly repoRoot: string
-  readonly targetWorktreeRoot: string
-  readonly relativePath: string
-}): {
-  readonly sourcePath: string
-  readonly destinationPath: string
-  readonly relativeFromRoot: string
-} => {
-  const sourcePath = resolveRepoRelativePath({
-    repoRoot,
-    relativePath,
-  })
-  const relativeFromRoot = relative(repoRoot, sourcePath)
-  const destinationPath = ensurePathInsideRoot({
-    rootPath: targetWorktreeRoot,
-    path: resolve(targetWorktreeRoot, relativeFromRoot),
-    message: "Path is outside target worktree root",
-  })
-  return { sourcePath, destinationPath, relativeFromRoot }
-}
-
 const resolveTargetWorktreeRootForCopyLink = ({
   repoContext,
   snapshot,
@@ -1609,6 +1997,27 @@ const dropStashByOid = async ({
   })
 }
 
+const forwardPrefixedLines = async ({
+  stream,
+  prefix,
+  write,
+}: {
+  readonly stream: Readable | null
+  readonly prefix: string
+  readonly write: (line: string) => void
+}): Promise<void> => {
+  if (stream === null) {
+    return
+  }
+  for await (const line of createInterface({ input: stream, crlfDelay: Number.POSITIVE_INFINITY })) {
+    write(`${prefix} ${line}`)
+  }
+}
+
+const formatDurationMs = (durationMs: number): string => {
+  return `${(durationMs / 1000).toFixed(1)}s`
+}
+
 const formatDisplayPath = (absolutePath: string): string => {
   const homeDirectory = homedir()
   if (homeDirectory.length === 0) {
@@ -1996,6 +2405,11 @@ const containsBranch = ({
   return worktrees.some((worktree) => worktree.branch === branch)
 }
 
+type WorktreeQuery = {
+  readonly filters: WorktreeFilter[]
+  readonly sort: WorktreeSort | null
+}
+
 const readStringOption = (parsedArgsRecord: Record<string, unknown>, key: string): string | undefined => {
   const value = parsedArgsRecord[key]
   if (typeof value === "string") {
@@ -2028,6 +2442,7 @@ const renderGeneralHelpText = ({ version }: { readonly version: string }): strin
     "  --no-hooks              Disable hooks for this run (requires --allow-unsafe).",
     "  --no-gh                 Disable GitHub CLI based PR status checks for this run.",
     "  --full-path             Disable list table path truncation.",
+    "  --refresh               Bypass the snapshot cache for list/cd.",
     "  --allow-unsafe          Explicitly allow unsafe behavior in non-TTY mode.",
     "  --hook-timeout-ms <ms>  Override hook timeout.",
     "  --lock-timeout-ms <ms>  Override repository lock timeout.",
@@ -2102,6 +2517,12 @@ const createHookContext = ({
     strictPostHooks: runtime.strictPostHooks,
     stderr,
     extraEnv,
+    modules: runtime.hookModules,
+    copyStrategy: runtime.copyStrategy,
+    resolveStatus:
+      worktreePath === undefined
+        ? undefined
+        : async (): Promise<WorktreeStatus | null> => runtime.resolveWorktreeStatus(worktreePath),
   }
 }
 
@@ -2121,10 +2542,67 @@ export const createCli = (options: CLIOptions = {}): CLI => {
   const stdout = options.stdout ?? ((line: string): void => console.log(line))
   const stderr = options.stderr ?? ((line: string): void => console.error(line))
   const selectPathWithFzf = options.selectPathWithFzf ?? defaultSelectPathWithFzf
+  const selectPathsWithFzf = options.selectPathsWithFzf ?? defaultSelectPathsWithFzf
   const isInteractiveFn =
     options.isInteractive ?? ((): boolean => process.stdout.isTTY === true && process.stderr.isTTY === true)
 
   let logger: Logger = createLogger()
+  let operationJournal: OperationJournalSession | null = null
+
+  const recordOperationTarget = ({ branch, path }: OperationTarget): void => {
+    if (operationJournal === null) {
+      return
+    }
+    if (operationJournal.targets.some((target) => target.branch === branch && target.path === path)) {
+      return
+    }
+    operationJournal.targets.push({ branch, path })
+  }
+
+  const createTrackedHookContext = (input: Parameters<typeof createHookContext>[0]): HookExecutionContext => {
+    if (typeof input.branch === "string") {
+      recordOperationTarget({ branch: input.branch, path: input.worktreePath ?? null })
+    }
+    return createHookContext(input)
+  }
+
+  const flushOperationJournal = async (exitCode: number | undefined): Promise<void> => {
+    const session = operationJournal
+    operationJournal = null
+    if (session === null || (await isInitialized(session.repoRoot)) !== true) {
+      return
+    }
+    const resolvedExitCode = exitCode ?? session.error?.exitCode ?? EXIT_CODE.INTERNAL_ERROR
+    const primaryTarget = session.targets[0]
+    try {
+      await appendOperationJournalEntry({
+        repoRoot: session.repoRoot,
+        entry: {
+          schemaVersion: 1,
+          command: session.command,
+          args: session.args,
+          branch: primaryTarget?.branch ?? null,
+          path: primaryTarget?.path ?? null,
+          targets: session.targets,
+          actor: session.actor,
+          pid: process.pid,
+          host: hostname(),
+          startedAt: session.startedAt.toISOString(),
+          endedAt: new Date().toISOString(),
+          outcome:
+            resolvedExitCode === EXIT_CODE.OK
+              ? "success"
+              : resolvedExitCode === EXIT_CODE_CANCELLED
+                ? "cancelled"
+                : "error",
+          exitCode: resolvedExitCode,
+          errorCode: session.error?.code ?? null,
+        },
+      })
+    } catch (error) {
+      stderr(`Failed to write operation journal: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
 
   const rootArgsDef = {
     command: {
@@ -2135,7 +2613,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
     prompt: {
       type: "string",
       valueHint: "text",
-      description: "Custom fzf prompt for cd command",
+      description: "Custom fzf prompt for cd and --pick selection",
     },
     fzfArg: {
       type: "string",
@@ -2160,6 +2638,10 @@ export const createCli = (options: CLIOptions = {}): CLI => {
       description: "Enable GitHub CLI based PR status checks (disable with --no-gh)",
       default: true,
     },
+    refresh: {
+      type: "boolean",
+      description: "Bypass the snapshot cache for list/cd",
+    },
     fullPath: {
       type: "boolean",
       description: "Disable list table path truncation",
@@ -2195,10 +2677,53 @@ export const createCli = (options: CLIOptions = {}): CLI => {
       valueHint: "text",
       description: "Reason text for lock command",
     },
+    ttl: {
+      type: "string",
+      valueHint: "duration",
+      description: "Lock expiry for lock command (e.g. 90s, 30m, 12h, 7d)",
+    },
+    size: {
+      type: "string",
+      valueHint: "n",
+      description: "Number of spare worktrees to keep in the pool (pool fill)",
+    },
+    wait: {
+      type: "string",
+      valueHint: "duration",
+      description: "Wait up to a duration for a lock held by another owner (lock/with-lock)",
+    },
+    heartbeat: {
+      type: "boolean",
+      description: "Keep renewing the lock until interrupted, then release it",
+    },
     owner: {
       type: "string",
       valueHint: "owner",
-      description: "Owner for lock/unlock commands",
+      description: "Owner for lock/unlock commands, or lock owner filter for list/status",
+    },
+    where: {
+      type: "string",
+      valueHint: "expr",
+      description: "Filter expression for list/status",
+    },
+    branch: {
+      type: "string",
+      valueHint: "glob",
+      description: "Branch glob filter for list/status/log",
+    },
+    merged: {
+      type: "boolean",
+      description: "Filter merged (or --no-merged) worktrees for list/status",
+    },
+    pr: {
+      type: "string",
+      valueHint: "status",
+      description: "PR status filter for list/status",
+    },
+    sort: {
+      type: "string",
+      valueHint: "key",
+      description: "Sort key for list/status (prefix - for descending)",
     },
     force: {
       type: "boolean",
@@ -2218,16 +2743,66 @@ export const createCli = (options: CLIOptions = {}): CLI => {
     },
     forceLocked: {
       type: "boolean",
-      description: "Allow deleting locked worktree",
+      description: "Allow deleting, restacking, or pushing locked worktree",
+    },
+    forceBase: {
+      type: "boolean",
+      description: "Allow pushing the base branch",
     },
     apply: {
       type: "boolean",
       description: "Apply changes",
     },
+    repair: {
+      type: "boolean",
+      description: "Repair problems found by doctor",
+    },
     dryRun: {
       type: "boolean",
       description: "Dry-run mode",
     },
+    pick: {
+      type: "boolean",
+      description: "Pick targets interactively with fzf for del/gone",
+    },
+    includeClosed: {
+      type: "boolean",
+      description: "Include worktrees whose PR was closed without merge for gone",
+    },
+    upstreamGone: {
+      type: "boolean",
+      description: "Include worktrees whose upstream branch was deleted for gone",
+    },
+    since: {
+      type: "string",
+      valueHint: "duration|date",
+      description: "Only show log entries since a duration (30m, 12h, 7d, 2w) or date",
+    },
+    stale: {
+      type: "string",
+      valueHint: "days",
+      description: "Include worktrees without activity for <days> days for gone",
+    },
+    create: {
+      type: "boolean",
+      description: "Push branch and create a pull request for pr",
+    },
+    web: {
+      type: "boolean",
+      description: "Open the pull request in a browser for pr",
+    },
+    view: {
+      type: "boolean",
+      description: "Show the pull request for pr",
+    },
+    rebase: {
+      type: "boolean",
+      description: "Rebase worktrees onto the base branch for sync (default)",
+    },
+    merge: {
+      type: "boolean",
+      description: "Merge the base branch into worktrees for sync",
+    },
     current: {
       type: "boolean",
       description: "Use current worktree for extract",
@@ -2235,7 +2810,12 @@ export const createCli = (options: CLIOptions = {}): CLI => {
     from: {
       type: "string",
       valueHint: "value",
-      description: "For extract: filesystem path. For absorb: managed worktree name.",
+      description: "For extract: filesystem path. For absorb: managed worktree name. For new/switch: start point ref.",
+    },
+    base: {
+      type: "string",
+      valueHint: "branch",
+      description: "Parent branch used as start point and merge target for new/switch",
     },
     to: {
       type: "string",
@@ -2255,6 +2835,49 @@ export const createCli = (options: CLIOptions = {}): CLI => {
       description: "Enable fallback behavior (disable with --no-fallback)",
       default: true,
     },
+    glob: {
+      type: "string",
+      valueHint: "pattern",
+      description: "Untracked files to copy/link by glob (repeatable)",
+    },
+    ignored: {
+      type: "boolean",
+      description: "Copy/link every gitignored untracked file",
+    },
+    exclude: {
+      type: "string",
+      valueHint: "pattern",
+      description: "Glob excluded from copy/link --glob/--ignored (repeatable)",
+    },
+    maxSize: {
+      type: "string",
+      valueHint: "size",
+      description: "Skip files larger than this in copy/link --glob/--ignored (e.g. 1M)",
+    },
+    strategy: {
+      type: "string",
+      valueHint: "mode",
+      description: "Copy strategy for copy command: auto|reflink|hardlink|copy",
+    },
+    all: {
+      type: "boolean",
+      description: "Target every worktree (exec/push/sync) or every trash entry (trash purge)",
+    },
+    filter: {
+      type: "string",
+      valueHint: "expr",
+      description: "Worktree filter for exec (repeatable)",
+    },
+    concurrency: {
+      type: "string",
+      valueHint: "n",
+      description: "Maximum parallel children for exec --all/--filter",
+    },
+    intervalMs: {
+      type: "string",
+      valueHint: "ms",
+      description: "Refresh interval for tui command (ms)",
+    },
     install: {
       type: "boolean",
       description: "Install generated artifacts to default location (used by completion command)",
@@ -2278,7 +2901,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
 
   const optionSpecs = buildOptionSpecs(rootArgsDef)
 
-  const run = async (rawArgs: string[] = process.argv.slice(2)): Promise<number> => {
+  const runCommand = async (rawArgs: string[]): Promise<number> => {
     logger = createLogger()
     let command = "unknown"
     let jsonEnabled = false
@@ -2359,52 +2982,137 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         }),
         allowUnsafe,
         isInteractive: isInteractiveFn(),
+        hookModules: resolvedConfig.hooks.modules,
+        copyStrategy: resolvedConfig.copy.strategy,
+        resolveWorktreeStatus: async (worktreePath) => {
+          const snapshot = await collectWorktreeSnapshot(repoRoot, { cached: true })
+          return snapshot.worktrees.find((worktree) => worktree.path === worktreePath) ?? null
+        },
+      }
+
+      const writeFlag = WRITE_COMMAND_FLAGS[command]
+      const isWriteInvocation =
+        WRITE_COMMANDS.has(command) &&
+        (writeFlag === undefined || parsedArgsRecord[writeFlag] === true) &&
+        READ_ONLY_SUBCOMMANDS[command]?.has(commandArgs[0] ?? "") !== true
+
+      if (isWriteInvocation) {
+        const ownerOption = readStringOption(parsedArgsRecord, "owner")
+        operationJournal = {
+          command,
+          repoRoot,
+          args: rawArgs,
+          actor: typeof ownerOption === "string" && ownerOption.length > 0 ? ownerOption : defaultOwner(),
+          startedAt: new Date(),
+          targets: [],
+          error: null,
+        }
       }
 
+      const prProvider = createPrProvider(resolvedConfig.forge)
+
       const staleLockTTLSeconds = readNumberFromEnvOrDefault({
         rawValue: resolvedConfig.locks.staleLockTTLSeconds,
         defaultValue: DEFAULT_STALE_LOCK_TTL_SECONDS,
       })
 
-      const collectWorktreeSnapshot = async (_ignoredRepoRoot: string): Promise<WorktreeSnapshot> => {
+      const collectWorktreeSnapshot = async (
+        _ignoredRepoRoot: string,
+        { cached = false }: { readonly cached?: boolean } = {},
+      ): Promise<WorktreeSnapshot> => {
         const baseBranch = await resolveBaseBranch({
           repoRoot,
           config: resolvedConfig,
         })
-        return collectWorktreeSnapshotBase(repoRoot, {
+        const snapshot = await collectWorktreeSnapshotBase(repoRoot, {
           baseBranch,
           ghEnabled: runtime.ghEnabled,
           noGh: runtime.ghEnabled !== true,
+          prProvider,
+          cache: cached && parsedArgs.refresh !== true,
         })
+        return {
+          ...snapshot,
+          worktrees: snapshot.worktrees.filter((worktree) => {
+            return isPoolWorktreePath({ worktreePath: worktree.path, managedWorktreeRoot }) !== true
+          }),
+        }
+      }
+
+      const warnInterruptedMutations = async (): Promise<void> => {
+        for (const intent of await listMutationIntents(repoRoot)) {
+          stderr(
+            `Interrupted ${intent.name} (${intent.branch ?? intent.worktreePath}, started ${intent.startedAt}); run vw doctor --repair`,
+          )
+        }
       }
 
       const runWriteOperation = async <T>(task: () => Promise<T>): Promise<T> => {
-        if (WRITE_COMMANDS.has(command) !== true) {
+        if (isWriteInvocation !== true) {
           return task()
         }
         if (command !== "init") {
           await validateInitializedForWrite(repoRoot)
         }
-        return withRepoLock(
-          {
-            repoRoot,
-            command,
-            timeoutMs: runtime.lockTimeoutMs,
-            staleLockTTLSeconds,
-          },
-          task,
-        )
-      }
+        try {
+          return await withRepoLock(
+            {
+              repoRoot,
+              command,
+              timeoutMs: runtime.lockTimeoutMs,
+              staleLockTTLSeconds,
+            },
+            async () => {
+              if (command !== "doctor") {
+                await warnInterruptedMutations()
+              }
+              return task()
+            },
+          )
+        } finally {
+          await invalidateSnapshotCache(repoRoot)
+        }
+      }
+
+      const applyConfiguredSetup = async ({
+        branch,
+        worktreePath,
+      }: {
+        readonly branch: string | null
+        readonly worktreePath: string
+      }): Promise<void> => {
+        if (runtime.hooksEnabled !== true || hasWorktreeSetup(resolvedConfig.setup) !== true) {
+          return
+        }
+        try {
+          await runWorktreeSetup({
+            repoRoot,
+            branch,
+            worktreePath,
+            setup: resolvedConfig.setup,
+            copyStrategy: resolvedConfig.copy.strategy,
+            stderr,
+          })
+        } catch (error) {
+          const cliError = ensureCliError(error)
+          if (runtime.strictPostHooks) {
+            throw cliError
+          }
+          stderr(`${cliError.message}; rerun with vw setup${branch === null ? "" : ` ${branch}`}`)
+        }
+      }
 
-      type WorktreeMutationName = "new" | "switch" | "mv" | "del"
+      type WorktreeMutationName = "new" | "switch" | "mv" | "del" | "restore"
 
       type WorktreeMutationPlan<TPrecheckResult, TResult> = {
         readonly name: WorktreeMutationName
         readonly branch: string | null
         readonly worktreePath: string
         readonly extraEnv?: Record<string, string>
+        readonly skipPostHook?: boolean
+        readonly applySetup?: boolean
         readonly precheck: () => Promise<TPrecheckResult>
-        readonly runGit: (precheckResult: TPrecheckResult) => Promise<TResult>
+        readonly runGit: (precheckResult: TPrecheckResult, recordUndo: MutationUndoRecorder) => Promise<TResult>
         readonly finalize?: (precheckResult: TPrecheckResult, result: TResult) => Promise<void>
       }
 
@@ -2413,12 +3121,17 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         branch,
         worktreePath,
         extraEnv,
+        skipPostHook = false,
+        applySetup = false,
         precheck,
         runGit,
         finalize,
       }: WorktreeMutationPlan<TPrecheckResult, TResult>): Promise<TResult> => {
+        if (branch !== null) {
+          recordOperationTarget({ branch, path: worktreePath })
+        }
         const precheckResult = await precheck()
-        const hookContext = createHookContext({
+        const hookContext = createTrackedHookContext({
           runtime,
           repoRoot,
           action: name,
@@ -2428,18 +3141,100 @@ export const createCli = (options: CLIOptions = {}): CLI => {
           extraEnv,
         })
         await runPreHook({ name, context: hookContext })
-        const result = await runGit(precheckResult)
-        if (finalize !== undefined) {
-          await finalize(precheckResult, result)
+        let intent = await createMutationIntent({ repoRoot, command, name, branch, worktreePath })
+        const recordUndo: MutationUndoRecorder = async (step) => {
+          intent = await appendMutationUndoStep({ repoRoot, intent, step })
+        }
+        let result: TResult
+        try {
+          result = await runGit(precheckResult, recordUndo)
+          if (finalize !== undefined) {
+            await finalize(precheckResult, result)
+          }
+        } catch (error) {
+          const failures = await rollbackMutationIntent({ repoRoot, intent })
+          for (const failure of failures) {
+            stderr(`Rollback step failed (${failure.step.description}): ${failure.stderr.trim()}`)
+          }
+          if (failures.length > 0) {
+            stderr(`Incomplete rollback recorded as intent ${intent.id}; run vw doctor --repair`)
+          }
+          throw error
+        }
+        await deleteMutationIntent({ repoRoot, id: intent.id })
+        if (applySetup) {
+          await applyConfiguredSetup({ branch, worktreePath })
+        }
+        if (skipPostHook !== true) {
+          await runPostHook({ name, context: hookContext })
         }
-        await runPostHook({ name, context: hookContext })
         return result
       }
 
+      const listAvailablePoolSpares = async (): Promise<PoolSpareRecord[]> => {
+        const detachedPaths = new Set(
+          (await listGitWorktrees(repoRoot))
+            .filter((worktree) => worktree.branch === null)
+            .map((worktree) => worktree.path),
+        )
+        const available: PoolSpareRecord[] = []
+        for (const spare of await listPoolSpares(repoRoot)) {
+          if (detachedPaths.has(spare.path)) {
+            available.push(spare)
+            continue
+          }
+          await deletePoolSpare({ repoRoot, id: spare.id })
+        }
+        return available
+      }
+
+      const findPoolSpare = async (): Promise<PoolSpareRecord | null> => {
+        return (await listAvailablePoolSpares())[0] ?? null
+      }
+
+      const claimPoolSpare = async ({
+        spare,
+        branch,
+        targetPath,
+        checkoutArgs,
+        createsBranch,
+        recordUndo,
+      }: {
+        readonly spare: PoolSpareRecord
+        readonly branch: string
+        readonly targetPath: string
+        readonly checkoutArgs: readonly string[]
+        readonly createsBranch: boolean
+        readonly recordUndo: MutationUndoRecorder
+      }): Promise<void> => {
+        await rm(targetPath, { recursive: true, force: true })
+        await runGitCommand({
+          cwd: repoRoot,
+          args: ["worktree", "move", spare.path, targetPath],
+        })
+        await recordUndo({
+          description: "return worktree to pool",
+          cwd: repoRoot,
+          args: ["worktree", "move", targetPath, spare.path],
+        })
+        await runGitCommand({
+          cwd: targetPath,
+          args: ["checkout", ...checkoutArgs],
+        })
+        if (createsBranch) {
+          await recordUndo({ description: "delete created branch", cwd: repoRoot, args: ["branch", "-D", branch] })
+        }
+        await recordUndo({
+          description: "detach claimed worktree",
+          cwd: targetPath,
+          args: ["checkout", "--detach", spare.head],
+        })
+      }
+
       const handleInit = async (): Promise<number> => {
         ensureArgumentCount({ command, args: commandArgs, min: 0, max: 0 })
         const result = await runWriteOperation(async () => {
-          const hookContext = createHookContext({
+          const hookContext = createTrackedHookContext({
             runtime,
             repoRoot,
             action: "init",
@@ -2474,9 +3269,136 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         return EXIT_CODE.OK
       }
 
+      const resolveWorktreeQuery = (): WorktreeQuery => {
+        const filters: WorktreeFilter[] = []
+        const where = readStringOption(parsedArgsRecord, "where")
+        if (where !== undefined) {
+          filters.push(parseWorktreeWhere(where))
+        }
+        const branchGlob = readStringOption(parsedArgsRecord, "branch")
+        if (branchGlob !== undefined) {
+          filters.push(...parseWorktreeFilters([`branch=${branchGlob}`]))
+        }
+        if (typeof parsedArgs.merged === "boolean") {
+          filters.push({ kind: "merged", value: parsedArgs.merged })
+        }
+        const prStatus = readStringOption(parsedArgsRecord, "pr")
+        if (prStatus !== undefined) {
+          filters.push(toPrStatusFilter(prStatus))
+        }
+        const owner = readStringOption(parsedArgsRecord, "owner")
+        if (owner !== undefined) {
+          filters.push({ kind: "owner", owner })
+        }
+        const sortValue = readStringOption(parsedArgsRecord, "sort")
+        return {
+          filters,
+          sort: sortValue === undefined ? null : parseWorktreeSort(sortValue),
+        }
+      }
+
+      const resolveCommitTime = async (head: string): Promise<number | null> => {
+        const log = await runGitCommand({
+          cwd: repoRoot,
+          args: ["show", "-s", "--format=%ct", head],
+          reject: false,
+        })
+        const committedAt = Number.parseInt(log.stdout.trim(), 10)
+        return log.exitCode !== 0 || Number.isNaN(committedAt) ? null : committedAt
+      }
+
+      const applyWorktreeQuery = async ({
+        worktrees,
+        baseBranch,
+        query,
+      }: {
+        readonly worktrees: readonly WorktreeStatus[]
+        readonly baseBranch: string | null
+        readonly query: WorktreeQuery
+      }): Promise<WorktreeStatus[]> => {
+        const filtered = filterWorktrees({ worktrees, filters: query.filters })
+        if (query.sort === null) {
+          return filtered
+        }
+        const sortKey = query.sort.key
+        const metricsByPath = new Map(
+          await Promise.all(
+            filtered.map(async (worktree): Promise<[string, WorktreeSortMetrics]> => {
+              const distance =
+                sortKey === "ahead" || sortKey === "behind"
+                  ? await resolveAheadBehindAgainstBaseBranch({ repoRoot, baseBranch, worktree })
+                  : { ahead: null, behind: null }
+              const updatedAt = sortKey === "updatedAt" ? await resolveCommitTime(worktree.head) : null
+              return [worktree.path, { updatedAt, ...distance }]
+            }),
+          ),
+        )
+        return sortWorktrees({ worktrees: filtered, sort: query.sort, metricsByPath })
+      }
+
+      const buildListTableRows = async ({
+        snapshot,
+        columns,
+        flat,
+      }: {
+        readonly snapshot: WorktreeSnapshot
+        readonly columns: ReadonlyArray<ListTableColumn>
+        readonly flat?: boolean
+      }): Promise<Array<{ readonly worktree: WorktreeStatus; readonly cells: string[] }>> => {
+        const entries =
+          flat === true
+            ? snapshot.worktrees.map((worktree) => ({ worktree, depth: 0 }))
+            : orderWorktreesByStack(snapshot.worktrees)
+        return Promise.all(
+          entries.map(async ({ worktree, depth }) => {
+            const distanceFromBase = await resolveAheadBehindAgainstBaseBranch({
+              repoRoot,
+              baseBranch: snapshot.baseBranch,
+              worktree,
+            })
+            const isBaseBranch =
+              worktree.branch !== null && snapshot.baseBranch !== null && worktree.branch === snapshot.baseBranch
+            const mergedState =
+              isBaseBranch === true
+                ? "-"
+                : worktree.merged.overall === true
+                  ? "merged"
+                  : worktree.merged.overall === false
+                    ? "unmerged"
+                    : "unknown"
+            const prState = formatPrDisplayState({
+              prStatus: worktree.pr.status,
+              isBaseBranch,
+            })
+            const isCurrent = worktree.path === repoContext.currentWorktreeRoot
+            const valuesByColumn: Record<ListTableColumn, string> = {
+              branch: `${isCurrent ? "*" : " "} ${depth > 0 ? `${"  ".repeat(depth - 1)}└─ ` : ""}${worktree.branch ?? "(detached)"}`,
+              dirty: worktree.dirty ? "dirty" : "clean",
+              merged: mergedState,
+              pr: prState,
+              locked: worktree.locked.value ? (worktree.locked.stale ? "stale" : "locked") : "-",
+              ahead: formatListUpstreamCount(distanceFromBase.ahead),
+              behind: formatListUpstreamCount(distanceFromBase.behind),
+              path: formatDisplayPath(worktree.path),
+            }
+            return { worktree, cells: columns.map((column) => valuesByColumn[column]) }
+          }),
+        )
+      }
+
       const handleList = async (): Promise<number> => {
         ensureArgumentCount({ command, args: commandArgs, min: 0, max: 0 })
-        const snapshot = await collectWorktreeSnapshot(repoRoot)
+        const query = resolveWorktreeQuery()
+        const fullSnapshot = await collectWorktreeSnapshot(repoRoot, { cached: true })
+        const snapshot: WorktreeSnapshot = {
+          ...fullSnapshot,
+          worktrees: await applyWorktreeQuery({
+            worktrees: fullSnapshot.worktrees,
+            baseBranch: fullSnapshot.baseBranch,
+            query,
+          }),
+        }
+        const poolSpares = await listPoolSpares(repoRoot)
         if (runtime.json) {
           stdout(
             JSON.stringify(
@@ -2488,6 +3410,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
                   baseBranch: snapshot.baseBranch,
                   managedWorktreeRoot,
                   worktrees: snapshot.worktrees,
+                  pool: poolSpares.map(toPoolSpareJson),
                 },
               }),
             ),
@@ -2501,41 +3424,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         const columns = resolvedConfig.list.table.columns
         const rows: string[][] = [
           [...columns],
-          ...(await Promise.all(
-            snapshot.worktrees.map(async (worktree) => {
-              const distanceFromBase = await resolveAheadBehindAgainstBaseBranch({
-                repoRoot,
-                baseBranch: snapshot.baseBranch,
-                worktree,
-              })
-              const isBaseBranch =
-                worktree.branch !== null && snapshot.baseBranch !== null && worktree.branch === snapshot.baseBranch
-              const mergedState =
-                isBaseBranch === true
-                  ? "-"
-                  : worktree.merged.overall === true
-                    ? "merged"
-                    : worktree.merged.overall === false
-                      ? "unmerged"
-                      : "unknown"
-              const prState = formatPrDisplayState({
-                prStatus: worktree.pr.status,
-                isBaseBranch,
-              })
-              const isCurrent = worktree.path === repoContext.currentWorktreeRoot
-              const valuesByColumn: Record<ListTableColumn, string> = {
-                branch: `${isCurrent ? "*" : " "} ${worktree.branch ?? "(detached)"}`,
-                dirty: worktree.dirty ? "dirty" : "clean",
-                merged: mergedState,
-                pr: prState,
-                locked: worktree.locked.value ? "locked" : "-",
-                ahead: formatListUpstreamCount(distanceFromBase.ahead),
-                behind: formatListUpstreamCount(distanceFromBase.behind),
-                path: formatDisplayPath(worktree.path),
-              }
-              return columns.map((column) => valuesByColumn[column])
-            }),
-          )),
+          ...(await buildListTableRows({ snapshot, columns, flat: query.sort !== null })).map((row) => row.cells),
         ]
 
         const pathColumnWidth = resolveListPathColumnWidth({
@@ -2572,12 +3461,58 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         for (const line of colorized.split("\n")) {
           stdout(line)
         }
+        if (poolSpares.length > 0) {
+          stdout(`pool: ${String(poolSpares.length)} spare worktree${poolSpares.length === 1 ? "" : "s"} ready`)
+        }
         return EXIT_CODE.OK
       }
 
+      const writeWorktreeStatusLines = (worktree: WorktreeStatus): void => {
+        stdout(`branch: ${worktree.branch ?? "(detached)"}`)
+        stdout(`path: ${formatDisplayPath(worktree.path)}`)
+        stdout(`dirty: ${worktree.dirty ? "true" : "false"}`)
+        stdout(`locked: ${worktree.locked.value ? "true" : "false"}`)
+      }
+
       const handleStatus = async (): Promise<number> => {
         ensureArgumentCount({ command, args: commandArgs, min: 0, max: 1 })
+        const query = resolveWorktreeQuery()
         const snapshot = await collectWorktreeSnapshot(repoRoot)
+        if (query.filters.length > 0 || query.sort !== null) {
+          if (commandArgs.length > 0) {
+            throw createCliError("INVALID_ARGUMENT", {
+              message: "status does not accept a branch together with query flags",
+            })
+          }
+          const worktrees = await applyWorktreeQuery({
+            worktrees: snapshot.worktrees,
+            baseBranch: snapshot.baseBranch,
+            query,
+          })
+          if (runtime.json) {
+            stdout(
+              JSON.stringify(
+                buildJsonSuccess({
+                  command,
+                  status: "ok",
+                  repoRoot,
+                  details: {
+                    worktrees,
+                  },
+                }),
+              ),
+            )
+            return EXIT_CODE.OK
+          }
+
+          for (const [index, worktree] of worktrees.entries()) {
+            if (index > 0) {
+              stdout("")
+            }
+            writeWorktreeStatusLines(worktree)
+          }
+          return EXIT_CODE.OK
+        }
         const targetBranch = commandArgs[0]
         const targetWorktree =
           typeof targetBranch === "string" && targetBranch.length > 0
@@ -2603,10 +3538,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
           return EXIT_CODE.OK
         }
 
-        stdout(`branch: ${targetWorktree.branch ?? "(detached)"}`)
-        stdout(`path: ${formatDisplayPath(targetWorktree.path)}`)
-        stdout(`dirty: ${targetWorktree.dirty ? "true" : "false"}`)
-        stdout(`locked: ${targetWorktree.locked.value ? "true" : "false"}`)
+        writeWorktreeStatusLines(targetWorktree)
         return EXIT_CODE.OK
       }
 
@@ -2636,6 +3568,113 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         return EXIT_CODE.OK
       }
 
+      const handleLog = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 0, max: 0 })
+        const branchGlob = readStringOption(parsedArgsRecord, "branch")
+        const sinceOption = readStringOption(parsedArgsRecord, "since")
+        const entries = await readOperationJournal({
+          repoRoot,
+          branchPattern: branchGlob === undefined ? undefined : globToRegExp(branchGlob),
+          since: sinceOption === undefined ? undefined : parseJournalSince(sinceOption),
+        })
+        if (runtime.json) {
+          stdout(
+            JSON.stringify(
+              buildJsonSuccess({
+                command,
+                status: "ok",
+                repoRoot,
+                details: { entries },
+              }),
+            ),
+          )
+          return EXIT_CODE.OK
+        }
+
+        for (const entry of entries) {
+          const outcome = entry.errorCode === null ? entry.outcome : `${entry.outcome}(${entry.errorCode})`
+          const targets = entry.targets.map((target) => target.branch ?? target.path ?? "-").join(",")
+          stdout(
+            [
+              entry.startedAt,
+              `${entry.actor}@${entry.host}`,
+              entry.command,
+              outcome,
+              targets.length > 0 ? targets : "-",
+            ].join("\t"),
+          )
+        }
+        return EXIT_CODE.OK
+      }
+
+      const handleDoctor = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 0, max: 0 })
+        const initialized = await isInitialized(repoRoot)
+        const repair = parsedArgs.repair === true && initialized
+        const repoLockCheck = await checkStaleRepoLock({ repoRoot, staleLockTTLSeconds, repair })
+        const runChecks = async (): Promise<DoctorCheck[]> => {
+          const snapshot = await collectWorktreeSnapshot(repoRoot)
+          const adoptPlan = await planWorktreeAdoption({
+            repoRoot,
+            managedWorktreeRoot,
+            worktreeRoot: resolvedConfig.paths.worktreeRoot,
+            worktrees: snapshot.worktrees,
+          })
+          return [
+            await checkManagedDirectories({ repoRoot, managedWorktreeRoot, repair }),
+            await checkExcludeBlock({ repoRoot, managedWorktreeRoot, repair }),
+            await checkHookPermissions({ repoRoot, repair }),
+            await checkOrphanLocks({ repoRoot, repair }),
+            await checkOrphanLifecycles({ repoRoot, repair }),
+            repoLockCheck,
+            await checkPrunableWorktrees({ repoRoot, repair }),
+            checkUnmanagedWorktrees(adoptPlan),
+            await checkInterruptedMutations({ repoRoot, repair }),
+            await checkCommandAvailability({ binary: "fzf", purpose: "interactive selection" }),
+            await checkCommandAvailability({ binary: "gh", purpose: "PR status" }),
+          ]
+        }
+        const checks = repair ? await runWriteOperation(runChecks) : await runChecks()
+        const unresolved = checks.filter((check) => check.status === "error" && check.repaired !== true)
+
+        if (runtime.json) {
+          const details = { repair, checks }
+          if (unresolved.length > 0) {
+            stdout(
+              JSON.stringify({
+                schemaVersion: SCHEMA_VERSION,
+                command,
+                status: "error",
+                repoRoot,
+                code: "SAFETY_REJECTED",
+                message: "doctor found unresolved problems",
+                details,
+              }),
+            )
+            return EXIT_CODE.SAFETY_REJECTED
+          }
+          stdout(
+            JSON.stringify(
+              buildJsonSuccess({
+                command,
+                status: "ok",
+                repoRoot,
+                details,
+              }),
+            ),
+          )
+          return EXIT_CODE.OK
+        }
+
+        for (const check of checks) {
+          stdout(`[${check.status}] ${check.name}: ${check.message}${check.repaired ? " (repaired)" : ""}`)
+          for (const item of check.items) {
+            stdout(`  ${item}`)
+          }
+        }
+        return unresolved.length > 0 ? EXIT_CODE.SAFETY_REJECTED : EXIT_CODE.OK
+      }
+
       const earlyRepoExitCode = await dispatchCommandHandler({
         command,
         handlers: createEarlyRepoCommandHandlers({
@@ -2643,6 +3682,8 @@ export const createCli = (options: CLIOptions = {}): CLI => {
           listHandler: handleList,
           statusHandler: handleStatus,
           pathHandler: handlePath,
+          logHandler: handleLog,
+          doctorHandler: handleDoctor,
         }),
       })
       if (earlyRepoExitCode !== undefined) {
@@ -2652,12 +3693,17 @@ export const createCli = (options: CLIOptions = {}): CLI => {
       const handleNew = async (): Promise<number> => {
         ensureArgumentCount({ command, args: commandArgs, min: 0, max: 1 })
         const branch = commandArgs[0] ?? randomWipBranchName()
+        const fromOption = readStringOption(parsedArgsRecord, "from")
+        const baseOption = readStringOption(parsedArgsRecord, "base")
         const targetPath = branchToWorktreePath(repoRoot, branch, resolvedConfig.paths.worktreeRoot)
         const result = await runWriteOperation(async () => {
+          const spare = await findPoolSpare()
           return executeWorktreeMutation({
             name: "new",
             branch,
             worktreePath: targetPath,
+            skipPostHook: spare !== null,
+            applySetup: spare === null,
             precheck: async () => {
               const snapshot = await collectWorktreeSnapshot(repoRoot)
               if (containsBranch({ branch, worktrees: snapshot.worktrees })) {
@@ -2675,26 +3721,48 @@ export const createCli = (options: CLIOptions = {}): CLI => {
               }
 
               await ensureTargetPathWritable(targetPath)
-              const baseBranch = await resolveBaseBranch({
+              return resolveBranchStartPoint({
                 repoRoot,
                 config: resolvedConfig,
+                from: fromOption,
+                base: baseOption,
               })
-              return { baseBranch }
             },
-            runGit: async ({ baseBranch }) => {
+            runGit: async ({ startPoint, parentBranch }, recordUndo) => {
+              if (spare !== null) {
+                await claimPoolSpare({
+                  spare,
+                  branch,
+                  targetPath,
+                  checkoutArgs: ["-b", branch, startPoint],
+                  createsBranch: true,
+                  recordUndo,
+                })
+                return { branch, path: targetPath, startPoint, parentBranch, pooled: true }
+              }
               await runGitCommand({
                 cwd: repoRoot,
-                args: ["worktree", "add", "-b", branch, targetPath, baseBranch],
+                args: ["worktree", "add", "-b", branch, targetPath, startPoint],
+              })
+              await recordUndo({ description: "delete created branch", cwd: repoRoot, args: ["branch", "-D", branch] })
+              await recordUndo({
+                description: "remove created worktree",
+                cwd: repoRoot,
+                args: ["worktree", "remove", "--force", targetPath],
               })
-              return { branch, path: targetPath }
+              return { branch, path: targetPath, startPoint, parentBranch, pooled: false }
             },
-            finalize: async ({ baseBranch }) => {
+            finalize: async ({ baseBranch, parentBranch }) => {
               await upsertWorktreeMergeLifecycle({
                 repoRoot,
                 branch,
                 baseBranch,
+                parentBranch,
                 observedDivergedHead: null,
               })
+              if (spare !== null) {
+                await deletePoolSpare({ repoRoot, id: spare.id })
+              }
             },
           })
         })
@@ -2720,7 +3788,15 @@ export const createCli = (options: CLIOptions = {}): CLI => {
       const handleSwitch = async (): Promise<number> => {
         ensureArgumentCount({ command, args: commandArgs, min: 1, max: 1 })
         const branch = commandArgs[0] as string
+        const fromOption = readStringOption(parsedArgsRecord, "from")
+        const baseOption = readStringOption(parsedArgsRecord, "base")
         const result = await runWriteOperation(async () => {
+          if (fromOption !== undefined && (await doesGitRefExist(repoRoot, `refs/heads/${branch}`))) {
+            throw createCliError("INVALID_ARGUMENT", {
+              message: "--from cannot be used with an existing branch; use --base to record its parent",
+              details: { branch, from: fromOption },
+            })
+          }
           const snapshot = await collectWorktreeSnapshot(repoRoot)
           const existing = snapshot.worktrees.find((worktree) => worktree.branch === branch)
           if (existing !== undefined) {
@@ -2729,50 +3805,87 @@ export const createCli = (options: CLIOptions = {}): CLI => {
                 repoRoot,
                 branch,
                 baseBranch: snapshot.baseBranch,
+                parentBranch: toExplicitParentBranch({ base: baseOption, baseBranch: snapshot.baseBranch }),
                 observedDivergedHead: null,
               })
             }
-            return { status: "existing" as const, branch, path: existing.path }
+            return { status: "existing" as const, branch, path: existing.path, pooled: false }
           }
 
           const targetPath = branchToWorktreePath(repoRoot, branch, resolvedConfig.paths.worktreeRoot)
+          const spare = await findPoolSpare()
           return executeWorktreeMutation({
             name: "switch",
             branch,
             worktreePath: targetPath,
+            skipPostHook: spare !== null,
+            applySetup: spare === null,
             precheck: async () => {
               await ensureTargetPathWritable(targetPath)
               if (await doesGitRefExist(repoRoot, `refs/heads/${branch}`)) {
                 return {
                   gitArgs: ["worktree", "add", targetPath, branch] as const,
+                  checkoutArgs: [branch],
                   lifecycleBaseBranch: snapshot.baseBranch,
+                  parentBranch: toExplicitParentBranch({ base: baseOption, baseBranch: snapshot.baseBranch }),
                 }
               }
-              const baseBranch = await resolveBaseBranch({
+              const { startPoint, baseBranch, parentBranch } = await resolveBranchStartPoint({
                 repoRoot,
                 config: resolvedConfig,
+                from: fromOption,
+                base: baseOption,
               })
               return {
-                gitArgs: ["worktree", "add", "-b", branch, targetPath, baseBranch] as const,
+                gitArgs: ["worktree", "add", "-b", branch, targetPath, startPoint] as const,
+                checkoutArgs: ["-b", branch, startPoint],
                 lifecycleBaseBranch: baseBranch,
+                parentBranch,
               }
             },
-            runGit: async ({ gitArgs }) => {
+            runGit: async ({ gitArgs, checkoutArgs }, recordUndo) => {
+              if (spare !== null) {
+                await claimPoolSpare({
+                  spare,
+                  branch,
+                  targetPath,
+                  checkoutArgs,
+                  createsBranch: gitArgs.includes("-b"),
+                  recordUndo,
+                })
+                return { status: "created" as const, branch, path: targetPath, pooled: true }
+              }
               await runGitCommand({
                 cwd: repoRoot,
                 args: [...gitArgs],
               })
-              return { status: "created" as const, branch, path: targetPath }
+              if (gitArgs.includes("-b")) {
+                await recordUndo({
+                  description: "delete created branch",
+                  cwd: repoRoot,
+                  args: ["branch", "-D", branch],
+                })
+              }
+              await recordUndo({
+                description: "remove created worktree",
+                cwd: repoRoot,
+                args: ["worktree", "remove", "--force", targetPath],
+              })
+              return { status: "created" as const, branch, path: targetPath, pooled: false }
             },
-            finalize: async ({ lifecycleBaseBranch }) => {
+            finalize: async ({ lifecycleBaseBranch, parentBranch }) => {
               if (lifecycleBaseBranch !== null) {
                 await upsertWorktreeMergeLifecycle({
                   repoRoot,
                   branch,
                   baseBranch: lifecycleBaseBranch,
+                  parentBranch,
                   observedDivergedHead: null,
                 })
               }
+              if (spare !== null) {
+                await deletePoolSpare({ repoRoot, id: spare.id })
+              }
             },
           })
         })
@@ -2787,6 +3900,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
                 details: {
                   branch: result.branch,
                   path: result.path,
+                  pooled: result.pooled,
                 },
               }),
             ),
@@ -2797,11 +3911,117 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         return EXIT_CODE.OK
       }
 
+      const handlePool = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 1, max: 1 })
+        const action = commandArgs[0]
+        if (action !== "fill" && action !== "clear") {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "pool accepts fill or clear",
+            details: { args: commandArgs },
+          })
+        }
+        const size =
+          action === "fill"
+            ? (toNumberOption({ value: parsedArgs.size, optionName: "--size" }) ?? DEFAULT_POOL_SIZE)
+            : 0
+        const fromOption = readStringOption(parsedArgsRecord, "from")
+        const baseOption = readStringOption(parsedArgsRecord, "base")
+
+        const result = await runWriteOperation(async () => {
+          const available = await listAvailablePoolSpares()
+          if (action === "clear") {
+            for (const spare of available) {
+              await runGitCommand({
+                cwd: repoRoot,
+                args: ["worktree", "remove", "--force", spare.path],
+              })
+              await deletePoolSpare({ repoRoot, id: spare.id })
+            }
+            return { spares: [] as PoolSpareRecord[], changed: available }
+          }
+
+          const created: PoolSpareRecord[] = []
+          if (available.length >= size) {
+            return { spares: available, changed: created }
+          }
+          const { startPoint } = await resolveBranchStartPoint({
+            repoRoot,
+            config: resolvedConfig,
+            from: fromOption,
+            base: baseOption,
+          })
+          for (let index = available.length; index < size; index += 1) {
+            const id = createPoolSpareId()
+            const path = join(getPoolWorktreeRootPath(managedWorktreeRoot), id)
+            await mkdir(dirname(path), { recursive: true })
+            await runGitCommand({
+              cwd: repoRoot,
+              args: ["worktree", "add", "--detach", path, startPoint],
+            })
+            try {
+              await applyConfiguredSetup({ branch: null, worktreePath: path })
+              await runPostHook({
+                name: "new",
+                context: createTrackedHookContext({
+                  runtime,
+                  repoRoot,
+                  action: "pool",
+                  branch: null,
+                  worktreePath: path,
+                  stderr,
+                }),
+              })
+            } catch (error) {
+              await runGitCommand({
+                cwd: repoRoot,
+                args: ["worktree", "remove", "--force", path],
+                reject: false,
+              })
+              throw error
+            }
+            const head = await runGitCommand({ cwd: path, args: ["rev-parse", "HEAD"] })
+            const record: PoolSpareRecord = {
+              schemaVersion: 1,
+              id,
+              path,
+              head: head.stdout.trim(),
+              createdAt: new Date().toISOString(),
+            }
+            await writePoolSpare({ repoRoot, record })
+            created.push(record)
+          }
+          return { spares: [...available, ...created], changed: created }
+        })
+
+        if (runtime.json) {
+          stdout(
+            JSON.stringify(
+              buildJsonSuccess({
+                command,
+                status: action === "clear" ? "deleted" : result.changed.length > 0 ? "created" : "existing",
+                repoRoot,
+                details: {
+                  action,
+                  spares: result.spares.map(toPoolSpareJson),
+                  [action === "clear" ? "removed" : "created"]: result.changed.map(toPoolSpareJson),
+                },
+              }),
+            ),
+          )
+          return EXIT_CODE.OK
+        }
+        for (const spare of result.changed) {
+          stdout(spare.path)
+        }
+        return EXIT_CODE.OK
+      }
+
       const writeCommandExitCode = await dispatchCommandHandler({
         command,
         handlers: createWriteCommandHandlers({
           newHandler: handleNew,
           switchHandler: handleSwitch,
+          poolHandler: handlePool,
         }),
       })
       if (writeCommandExitCode !== undefined) {
@@ -2863,15 +4083,25 @@ export const createCli = (options: CLIOptions = {}): CLI => {
                 baseBranch: snapshot.baseBranch,
               }
             },
-            runGit: async ({ oldBranch: resolvedOldBranch, currentPath }) => {
+            runGit: async ({ oldBranch: resolvedOldBranch, currentPath }, recordUndo) => {
               await runGitCommand({
                 cwd: currentPath,
                 args: ["branch", "-m", resolvedOldBranch, newBranch],
               })
+              await recordUndo({
+                description: "rename branch back",
+                cwd: repoRoot,
+                args: ["branch", "-m", newBranch, resolvedOldBranch],
+              })
               await runGitCommand({
                 cwd: repoRoot,
                 args: ["worktree", "move", currentPath, newPath],
               })
+              await recordUndo({
+                description: "move worktree back",
+                cwd: repoRoot,
+                args: ["worktree", "move", newPath, currentPath],
+              })
               return {
                 branch: newBranch,
                 path: newPath,
@@ -2908,27 +4138,186 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         return EXIT_CODE.OK
       }
 
-      const handleDel = async (): Promise<number> => {
-        ensureArgumentCount({ command, args: commandArgs, min: 0, max: 1 })
-        const forceFlags = parseForceFlags(parsedArgsRecord)
-        if (hasAnyForceFlag(forceFlags)) {
-          ensureUnsafeForNonTty({
-            runtime,
-            reason: "force flags in non-TTY mode require --allow-unsafe",
+      const buildWorktreeSelectorCandidates = ({
+        worktrees,
+        baseBranch,
+      }: {
+        readonly worktrees: readonly WorktreeStatus[]
+        readonly baseBranch: string | null
+      }): string[] => {
+        const theme = createCatppuccinTheme({
+          enabled: shouldUseAnsiColors({ interactive: runtime.isInteractive || process.stderr.isTTY === true }),
+        })
+        const branchColumnWidth = worktrees.reduce((maxWidth, worktree) => {
+          const label = buildCdBranchLabel({
+            worktree,
+            currentWorktreeRoot: repoContext.currentWorktreeRoot,
           })
-        }
-        const branchArg = commandArgs[0]
-
-        const result = await runWriteOperation(async () => {
-          const snapshot = await collectWorktreeSnapshot(repoRoot)
-          const target =
-            typeof branchArg === "string" && branchArg.length > 0
-              ? resolveTargetWorktreeByBranch({ branch: branchArg, worktrees: snapshot.worktrees })
-              : resolveCurrentWorktree({
-                  snapshot,
-                  currentWorktreeRoot: repoContext.currentWorktreeRoot,
-                })
+          return Math.max(maxWidth, stringWidth(label))
+        }, 0)
+        return worktrees.map((worktree) =>
+          buildCdCandidateLine({
+            worktree,
+            baseBranch,
+            theme,
+            currentWorktreeRoot: repoContext.currentWorktreeRoot,
+            branchColumnWidth,
+          }),
+        )
+      }
+
+      const resolveWorktreeSelectorOptions = (defaultPrompt: string): Omit<SelectPathWithFzfInput, "candidates"> => {
+        const promptValue = readStringOption(parsedArgsRecord, "prompt")
+        const prompt = typeof promptValue === "string" && promptValue.length > 0 ? promptValue : defaultPrompt
+        const cliFzfExtraArgs = collectOptionValues({
+          args: beforeDoubleDash,
+          optionNames: ["fzfArg", "fzf-arg"],
+        })
+        const mergedConfigFzfArgs = mergeFzfArgs({
+          defaults: resolvedConfig.selector.cd.fzf.extraArgs,
+          extras: cliFzfExtraArgs,
+        })
+        const surface: SelectorCdSurface = resolvedConfig.selector.cd.surface
+        return {
+          prompt,
+          fzfExtraArgs: mergeFzfArgs({
+            defaults: CD_FZF_EXTRA_ARGS,
+            extras: mergedConfigFzfArgs,
+          }),
+          surface,
+          tmuxPopupOpts: resolvedConfig.selector.cd.tmuxPopupOpts,
+          cwd: repoRoot,
+          isInteractive: () => runtime.isInteractive || process.stderr.isTTY === true,
+        }
+      }
+
+      const toFzfCliError = (error: unknown): never => {
+        if (error instanceof FzfDependencyError || error instanceof FzfInteractiveRequiredError) {
+          throw createCliError("DEPENDENCY_MISSING", {
+            message: `DEPENDENCY_MISSING: ${error.message}`,
+          })
+        }
+        throw error
+      }
+
+      const pickWorktreesWithFzf = async ({
+        worktrees,
+        baseBranch,
+        preselectAll,
+      }: {
+        readonly worktrees: readonly WorktreeStatus[]
+        readonly baseBranch: string | null
+        readonly preselectAll: boolean
+      }): Promise<WorktreeStatus[] | null> => {
+        const selection = await selectPathsWithFzf({
+          candidates: buildWorktreeSelectorCandidates({ worktrees, baseBranch }),
+          ...resolveWorktreeSelectorOptions(`${command}> `),
+          preselectAll,
+        }).catch(toFzfCliError)
+        if (selection.status === "cancelled") {
+          return null
+        }
+        const selectedPaths = new Set(selection.paths.map(resolveCdSelectionPath))
+        return worktrees.filter((worktree) => selectedPaths.has(worktree.path))
+      }
+
+      const moveToTrashBeforeDelete = async ({
+        branch,
+        worktreePath,
+      }: {
+        readonly branch: string
+        readonly worktreePath: string
+      }): Promise<WorktreeTrashRecord> => {
+        const lock = await readWorktreeLock({ repoRoot, branch })
+        const lifecycle = await readWorktreeMergeLifecycle({ repoRoot, branch })
+        return moveWorktreeToTrash({
+          repoRoot,
+          branch,
+          worktreePath,
+          lock: lock.valid ? lock.record : null,
+          lifecycle: lifecycle.valid ? lifecycle.record : null,
+          command,
+        })
+      }
+
+      type WorktreeDeletion = {
+        readonly branch: string
+        readonly path: string
+        readonly removeArgs: string[]
+        readonly branchDeleteMode: "-d" | "-D"
+        readonly shouldTrash: boolean
+      }
+
+      type WorktreeDeletionResult = {
+        readonly branch: string
+        readonly path: string
+        readonly trashId: string | null
+      }
 
+      const deleteWorktreeAndBranch = async (
+        { branch, path, removeArgs, branchDeleteMode, shouldTrash }: WorktreeDeletion,
+        recordUndo: MutationUndoRecorder,
+      ): Promise<WorktreeDeletionResult> => {
+        const trash = shouldTrash ? await moveToTrashBeforeDelete({ branch, worktreePath: path }) : null
+        if (trash !== null) {
+          await recordUndo(createDiscardTrashEntryUndoStep({ repoRoot, id: trash.id }))
+        }
+        await runGitCommand({
+          cwd: repoRoot,
+          args: removeArgs,
+        })
+        const patchPath = trash === null ? null : resolveWorktreeTrashPatchPath({ repoRoot, record: trash })
+        if (patchPath !== null) {
+          await recordUndo({
+            description: "reapply uncommitted changes",
+            cwd: path,
+            args: ["apply", "--binary", patchPath],
+          })
+        }
+        await recordUndo({
+          description: "re-attach removed worktree",
+          cwd: repoRoot,
+          args: ["worktree", "add", path, branch],
+        })
+        const branchHead = await runGitCommand({
+          cwd: repoRoot,
+          args: ["rev-parse", "--verify", `refs/heads/${branch}`],
+        })
+        await runGitCommand({
+          cwd: repoRoot,
+          args: ["branch", branchDeleteMode, branch],
+        })
+        await recordUndo({
+          description: "recreate deleted branch",
+          cwd: repoRoot,
+          args: ["branch", branch, branchHead.stdout.trim()],
+        })
+        return { branch, path, trashId: trash?.id ?? null }
+      }
+
+      const finalizeWorktreeDeletion = async ({ branch }: WorktreeDeletion): Promise<void> => {
+        await deleteWorktreeLock({ repoRoot, branch })
+        await deleteWorktreeMergeLifecycle({ repoRoot, branch })
+      }
+
+      const handleDel = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 0, max: 1 })
+        const forceFlags = parseForceFlags(parsedArgsRecord)
+        if (hasAnyForceFlag(forceFlags)) {
+          ensureUnsafeForNonTty({
+            runtime,
+            reason: "force flags in non-TTY mode require --allow-unsafe",
+          })
+        }
+        const branchArg = commandArgs[0]
+        const pick = parsedArgs.pick === true
+        if (pick && typeof branchArg === "string") {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "del accepts either <branch> or --pick",
+          })
+        }
+
+        const ensureDeletableTarget = (target: WorktreeStatus): string => {
           if (target.branch === null) {
             throw createCliError("DETACHED_HEAD", {
               message: "Cannot delete detached worktree without branch",
@@ -2956,46 +4345,195 @@ export const createCli = (options: CLIOptions = {}): CLI => {
               },
             })
           }
-          const targetBranch = target.branch
+          return target.branch
+        }
 
+        const deleteTarget = async (target: WorktreeStatus): Promise<WorktreeDeletionResult> => {
+          const targetBranch = ensureDeletableTarget(target)
           return executeWorktreeMutation({
             name: "del",
             branch: targetBranch,
             worktreePath: target.path,
-            precheck: async () => {
+            precheck: async (): Promise<WorktreeDeletion> => {
               validateDeleteSafety({
                 target,
                 forceFlags,
+                staleLockPolicy: resolvedConfig.locks.stale.del,
               })
 
               const removeArgs = ["worktree", "remove", target.path]
               if (forceFlags.forceDirty) {
                 removeArgs.push("--force")
               }
+              const branchDeleteMode = resolveBranchDeleteMode(forceFlags)
               return {
                 branch: targetBranch,
                 path: target.path,
                 removeArgs,
-                branchDeleteMode: resolveBranchDeleteMode(forceFlags),
+                branchDeleteMode,
+                shouldTrash: target.dirty || branchDeleteMode === "-D",
+              }
+            },
+            runGit: deleteWorktreeAndBranch,
+            finalize: finalizeWorktreeDeletion,
+          })
+        }
+
+        if (pick) {
+          const snapshot = await collectWorktreeSnapshot(repoRoot)
+          const candidates = snapshot.worktrees.filter(
+            (worktree) =>
+              worktree.branch !== null &&
+              worktree.path !== repoRoot &&
+              isManagedWorktreePath({ worktreePath: worktree.path, managedWorktreeRoot }),
+          )
+          if (candidates.length === 0) {
+            throw createCliError("WORKTREE_NOT_FOUND", {
+              message: "No deletable worktree candidates found",
+            })
+          }
+          const picked = await pickWorktreesWithFzf({
+            worktrees: candidates,
+            baseBranch: snapshot.baseBranch,
+            preselectAll: false,
+          })
+          if (picked === null) {
+            return EXIT_CODE_CANCELLED
+          }
+
+          const deleted = await runWriteOperation(async () => {
+            const latestSnapshot = await collectWorktreeSnapshot(repoRoot)
+            const targets = picked.map((worktree) =>
+              resolveTargetWorktreeByBranch({ branch: worktree.branch as string, worktrees: latestSnapshot.worktrees }),
+            )
+            for (const target of targets) {
+              ensureDeletableTarget(target)
+              validateDeleteSafety({
+                target,
+                forceFlags,
+                staleLockPolicy: resolvedConfig.locks.stale.del,
+              })
+            }
+            const results: WorktreeDeletionResult[] = []
+            for (const target of targets) {
+              results.push(await deleteTarget(target))
+            }
+            return results
+          })
+
+          if (runtime.json) {
+            stdout(
+              JSON.stringify(
+                buildJsonSuccess({
+                  command,
+                  status: "deleted",
+                  repoRoot,
+                  details: { deleted },
+                }),
+              ),
+            )
+            return EXIT_CODE.OK
+          }
+          for (const entry of deleted) {
+            stdout(entry.path)
+          }
+          return EXIT_CODE.OK
+        }
+
+        const result = await runWriteOperation(async () => {
+          const snapshot = await collectWorktreeSnapshot(repoRoot)
+          const target =
+            typeof branchArg === "string" && branchArg.length > 0
+              ? resolveTargetWorktreeByBranch({ branch: branchArg, worktrees: snapshot.worktrees })
+              : resolveCurrentWorktree({
+                  snapshot,
+                  currentWorktreeRoot: repoContext.currentWorktreeRoot,
+                })
+          return deleteTarget(target)
+        })
+
+        if (runtime.json) {
+          stdout(
+            JSON.stringify(
+              buildJsonSuccess({
+                command,
+                status: "deleted",
+                repoRoot,
+                details: result,
+              }),
+            ),
+          )
+          return EXIT_CODE.OK
+        }
+        stdout(result.path)
+        return EXIT_CODE.OK
+      }
+
+      const resolveTrashEntry = async (query: string): Promise<WorktreeTrashRecord> => {
+        const entry = await findWorktreeTrashEntry({ repoRoot, query })
+        if (entry === null) {
+          throw createCliError("TRASH_ENTRY_NOT_FOUND", {
+            message: `Trash entry not found: ${query}`,
+            details: { query },
+          })
+        }
+        return entry
+      }
+
+      const handleRestore = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 1, max: 1 })
+        const query = commandArgs[0] as string
+        const result = await runWriteOperation(async () => {
+          const entry = await resolveTrashEntry(query)
+          const patchPath = resolveWorktreeTrashPatchPath({ repoRoot, record: entry })
+          return executeWorktreeMutation({
+            name: "restore",
+            branch: entry.branch,
+            worktreePath: entry.worktreePath,
+            precheck: async () => {
+              if (await doesGitRefExist(repoRoot, `refs/heads/${entry.branch}`)) {
+                throw createCliError("BRANCH_ALREADY_EXISTS", {
+                  message: `Branch already exists locally: ${entry.branch}`,
+                  details: { branch: entry.branch, id: entry.id },
+                })
               }
+              await ensureTargetPathWritable(entry.worktreePath)
+              return entry
             },
-            runGit: async ({ branch: targetBranch, removeArgs, branchDeleteMode, path }) => {
+            runGit: async ({ id, branch, worktreePath, head }, recordUndo) => {
               await runGitCommand({
                 cwd: repoRoot,
-                args: removeArgs,
+                args: ["worktree", "add", "-b", branch, worktreePath, head],
               })
-              await runGitCommand({
+              await recordUndo({ description: "delete restored branch", cwd: repoRoot, args: ["branch", "-D", branch] })
+              await recordUndo({
+                description: "remove restored worktree",
                 cwd: repoRoot,
-                args: ["branch", branchDeleteMode, targetBranch],
+                args: ["worktree", "remove", "--force", worktreePath],
               })
-              return {
-                branch: targetBranch,
-                path,
+              if (patchPath !== null) {
+                const applyResult = await runGitCommand({
+                  cwd: worktreePath,
+                  args: ["apply", "--binary", patchPath],
+                  reject: false,
+                })
+                if (applyResult.exitCode !== 0) {
+                  throw createCliError("STASH_APPLY_FAILED", {
+                    message: "Failed to reapply trashed changes; restore was rolled back and the trash entry was kept",
+                    details: { id, branch, path: worktreePath, patch: patchPath, stderr: applyResult.stderr },
+                  })
+                }
               }
+              return { id, branch, path: worktreePath, head, restoredChanges: patchPath !== null }
             },
-            finalize: async ({ branch: targetBranch }) => {
-              await deleteWorktreeLock({ repoRoot, branch: targetBranch })
-              await deleteWorktreeMergeLifecycle({ repoRoot, branch: targetBranch })
+            finalize: async ({ id, lock, lifecycle }) => {
+              if (lock !== null) {
+                await restoreWorktreeLock({ repoRoot, record: lock })
+              }
+              if (lifecycle !== null) {
+                await restoreWorktreeMergeLifecycle({ repoRoot, record: lifecycle })
+              }
+              await removeWorktreeTrashEntry({ repoRoot, id })
             },
           })
         })
@@ -3005,7 +4543,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
             JSON.stringify(
               buildJsonSuccess({
                 command,
-                status: "deleted",
+                status: "created",
                 repoRoot,
                 details: result,
               }),
@@ -3017,11 +4555,80 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         return EXIT_CODE.OK
       }
 
+      const handleTrash = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 1, max: 2 })
+        const action = commandArgs[0]
+        if (action === "list") {
+          ensureArgumentCount({ command, args: commandArgs, min: 1, max: 1 })
+          const entries = await listWorktreeTrash(repoRoot)
+          if (runtime.json) {
+            stdout(
+              JSON.stringify(
+                buildJsonSuccess({
+                  command,
+                  status: "ok",
+                  repoRoot,
+                  details: { entries },
+                }),
+              ),
+            )
+            return EXIT_CODE.OK
+          }
+          for (const entry of entries) {
+            const changes = entry.patchFile === null ? "" : " +changes"
+            stdout(`${entry.id}\t${entry.branch}\t${entry.deletedAt}\t${entry.head.slice(0, 12)}${changes}`)
+          }
+          return EXIT_CODE.OK
+        }
+
+        if (action !== "purge") {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: `Unsupported trash action: ${String(action)}`,
+            details: { action, supported: ["list", "purge"] },
+          })
+        }
+        const query = commandArgs[1]
+        const all = parsedArgs.all === true
+        if (all === (typeof query === "string")) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "trash purge requires either <id|branch> or --all",
+          })
+        }
+        const purged = await runWriteOperation(async () => {
+          const entries = all ? await listWorktreeTrash(repoRoot) : [await resolveTrashEntry(query as string)]
+          for (const entry of entries) {
+            recordOperationTarget({ branch: entry.branch, path: entry.worktreePath })
+            await removeWorktreeTrashEntry({ repoRoot, id: entry.id })
+          }
+          return entries.map((entry) => entry.id)
+        })
+
+        if (runtime.json) {
+          stdout(
+            JSON.stringify(
+              buildJsonSuccess({
+                command,
+                status: "deleted",
+                repoRoot,
+                details: { purged },
+              }),
+            ),
+          )
+          return EXIT_CODE.OK
+        }
+        for (const id of purged) {
+          stdout(id)
+        }
+        return EXIT_CODE.OK
+      }
+
       const writeMutationExitCode = await dispatchCommandHandler({
         command,
         handlers: createWriteMutationHandlers({
           mvHandler: handleMv,
           delHandler: handleDel,
+          restoreHandler: handleRestore,
+          trashHandler: handleTrash,
         }),
       })
       if (writeMutationExitCode !== undefined) {
@@ -3036,10 +4643,29 @@ export const createCli = (options: CLIOptions = {}): CLI => {
           })
         }
 
-        const dryRun = parsedArgs.apply !== true
-        const execute = async (): Promise<{ deleted: string[]; candidates: string[]; dryRun: boolean }> => {
-          const snapshot = await collectWorktreeSnapshot(repoRoot)
-          const candidates = snapshot.worktrees
+        const pick = parsedArgs.pick === true
+        if (pick && parsedArgs.dryRun === true) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "Cannot use --pick and --dry-run together",
+          })
+        }
+
+        const dryRun = parsedArgs.apply !== true && pick !== true
+        const policy: GonePolicy = {
+          includeClosed: parsedArgs.includeClosed === true || resolvedConfig.gone.includeClosed,
+          upstreamGone: parsedArgs.upstreamGone === true || resolvedConfig.gone.upstreamGone,
+          staleDays:
+            toNumberOption({ value: parsedArgs.stale, optionName: "--stale" }) ?? resolvedConfig.gone.staleDays,
+        }
+
+        type GoneCandidate = {
+          readonly worktree: WorktreeStatus
+          readonly reasons: GoneReason[]
+        }
+
+        const collectGoneCandidates = async (worktrees: readonly WorktreeStatus[]): Promise<GoneCandidate[]> => {
+          const activityByBranch = await readBranchActivity(repoRoot)
+          const eligible = worktrees
             .filter((worktree) => worktree.branch !== null)
             .filter((worktree) => worktree.path !== repoRoot)
             .filter((worktree) =>
@@ -3049,19 +4675,73 @@ export const createCli = (options: CLIOptions = {}): CLI => {
               }),
             )
             .filter((worktree) => worktree.dirty === false)
-            .filter((worktree) => worktree.locked.value === false)
-            .filter((worktree) => worktree.merged.overall === true)
-            .map((worktree) => worktree.branch as string)
+            .filter(
+              (worktree) =>
+                worktree.locked.value === false ||
+                (resolvedConfig.locks.stale.gone === "ignore" && worktree.locked.stale),
+            )
+          const candidates: GoneCandidate[] = []
+          for (const worktree of eligible) {
+            const branch = worktree.branch as string
+            const lifecycle = policy.staleDays === null ? null : await readWorktreeMergeLifecycle({ repoRoot, branch })
+            const reasons = resolveGoneReasons({
+              worktree,
+              policy,
+              activity: activityByBranch.get(branch),
+              lifecycle: lifecycle?.valid === true ? lifecycle.record : null,
+            })
+            if (reasons.length > 0) {
+              candidates.push({ worktree, reasons })
+            }
+          }
+          return candidates
+        }
+
+        let pickedBranches: ReadonlySet<string> | null = null
+        if (pick) {
+          const snapshot = await collectWorktreeSnapshot(repoRoot)
+          const pickCandidates = await collectGoneCandidates(snapshot.worktrees)
+          const picked =
+            pickCandidates.length === 0
+              ? []
+              : await pickWorktreesWithFzf({
+                  worktrees: pickCandidates.map((candidate) => candidate.worktree),
+                  baseBranch: snapshot.baseBranch,
+                  preselectAll: true,
+                })
+          if (picked === null) {
+            return EXIT_CODE_CANCELLED
+          }
+          pickedBranches = new Set(picked.map((worktree) => worktree.branch as string))
+        }
+
+        const execute = async (): Promise<{
+          deleted: string[]
+          candidates: string[]
+          reasons: Record<string, GoneReason[]>
+          trashIds: Record<string, string>
+          dryRun: boolean
+        }> => {
+          const snapshot = await collectWorktreeSnapshot(repoRoot)
+          const goneCandidates = await collectGoneCandidates(snapshot.worktrees)
+          const candidates = goneCandidates.map((candidate) => candidate.worktree.branch as string)
+          const reasons = Object.fromEntries(
+            goneCandidates.map((candidate) => [candidate.worktree.branch as string, candidate.reasons]),
+          )
+          const targets =
+            pickedBranches === null ? candidates : candidates.filter((branch) => pickedBranches?.has(branch) === true)
 
           if (dryRun) {
             return {
               deleted: [],
               candidates,
+              reasons,
+              trashIds: {},
               dryRun: true,
             }
           }
 
-          const hookContext = createHookContext({
+          const hookContext = createTrackedHookContext({
             runtime,
             repoRoot,
             action: "gone",
@@ -3072,22 +4752,31 @@ export const createCli = (options: CLIOptions = {}): CLI => {
           await runPreHook({ name: "gone", context: hookContext })
 
           const deleted: string[] = []
-          for (const branch of candidates) {
+          const trashIds: Record<string, string> = {}
+          for (const branch of targets) {
             const latestSnapshot = await collectWorktreeSnapshot(repoRoot)
             const target = resolveTargetWorktreeByBranch({
               branch,
               worktrees: latestSnapshot.worktrees,
             })
-            await runGitCommand({
-              cwd: repoRoot,
-              args: ["worktree", "remove", target.path],
-            })
-            await runGitCommand({
-              cwd: repoRoot,
-              args: ["branch", "-d", branch],
+            const branchDeleteMode = reasons[branch]?.includes("merged") === true ? "-d" : "-D"
+            const { trashId } = await executeWorktreeMutation({
+              name: "del",
+              branch,
+              worktreePath: target.path,
+              precheck: async (): Promise<WorktreeDeletion> => ({
+                branch,
+                path: target.path,
+                removeArgs: ["worktree", "remove", target.path],
+                branchDeleteMode,
+                shouldTrash: branchDeleteMode === "-D",
+              }),
+              runGit: deleteWorktreeAndBranch,
+              finalize: finalizeWorktreeDeletion,
             })
-            await deleteWorktreeLock({ repoRoot, branch })
-            await deleteWorktreeMergeLifecycle({ repoRoot, branch })
+            if (trashId !== null) {
+              trashIds[branch] = trashId
+            }
             deleted.push(branch)
           }
 
@@ -3095,6 +4784,8 @@ export const createCli = (options: CLIOptions = {}): CLI => {
           return {
             deleted,
             candidates,
+            reasons,
+            trashIds,
             dryRun: false,
           }
         }
@@ -3110,7 +4801,9 @@ export const createCli = (options: CLIOptions = {}): CLI => {
                 details: {
                   dryRun: result.dryRun,
                   candidates: result.candidates,
+                  reasons: result.reasons,
                   deleted: result.deleted,
+                  trashIds: result.trashIds,
                 },
               }),
             ),
@@ -3121,7 +4814,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         const label = result.dryRun ? "candidates" : "deleted"
         const branches = result.dryRun ? result.candidates : result.deleted
         for (const branch of branches) {
-          stdout(`${label}: ${branch}`)
+          stdout(`${label}: ${branch} (${(result.reasons[branch] ?? []).join(", ")})`)
         }
         return EXIT_CODE.OK
       }
@@ -3134,21 +4827,6 @@ export const createCli = (options: CLIOptions = {}): CLI => {
           })
         }
 
-        type AdoptCandidate = {
-          readonly branch: string
-          readonly fromPath: string
-          readonly toPath: string
-        }
-
-        type AdoptSkippedReason = "detached" | "locked" | "target_exists" | "target_conflict"
-
-        type AdoptSkipped = {
-          readonly branch: string | null
-          readonly fromPath: string
-          readonly toPath: string | null
-          readonly reason: AdoptSkippedReason
-        }
-
         type AdoptFailed = AdoptCandidate & {
           readonly code: string
           readonly message: string
@@ -3157,81 +4835,12 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         const dryRun = parsedArgs.apply !== true
         const result = await runWriteOperation(async () => {
           const snapshot = await collectWorktreeSnapshot(repoRoot)
-          const candidates: AdoptCandidate[] = []
-          const skipped: AdoptSkipped[] = []
-          const unresolvedCandidates: AdoptCandidate[] = []
-          const sortedWorktrees = [...snapshot.worktrees].sort((a, b) => a.path.localeCompare(b.path))
-
-          for (const worktree of sortedWorktrees) {
-            if (worktree.path === repoRoot) {
-              continue
-            }
-            if (
-              isManagedWorktreePath({
-                worktreePath: worktree.path,
-                managedWorktreeRoot,
-              })
-            ) {
-              continue
-            }
-            if (worktree.branch === null) {
-              skipped.push({
-                branch: null,
-                fromPath: worktree.path,
-                toPath: null,
-                reason: "detached",
-              })
-              continue
-            }
-            if (worktree.locked.value) {
-              skipped.push({
-                branch: worktree.branch,
-                fromPath: worktree.path,
-                toPath: null,
-                reason: "locked",
-              })
-              continue
-            }
-
-            const toPath = branchToWorktreePath(repoRoot, worktree.branch, resolvedConfig.paths.worktreeRoot)
-            unresolvedCandidates.push({
-              branch: worktree.branch,
-              fromPath: worktree.path,
-              toPath,
-            })
-          }
-          const uniqueTargetPaths = [...new Set(unresolvedCandidates.map((candidate) => candidate.toPath))]
-          const targetPathExistenceEntries = await Promise.all(
-            uniqueTargetPaths.map(async (path) => {
-              return [path, await doesPathExist(path)] as const
-            }),
-          )
-          const targetPathExistsMap = new Map<string, boolean>(targetPathExistenceEntries)
-          const reservedTargetPaths = new Set<string>()
-
-          for (const candidate of unresolvedCandidates) {
-            if (targetPathExistsMap.get(candidate.toPath) === true) {
-              skipped.push({
-                branch: candidate.branch,
-                fromPath: candidate.fromPath,
-                toPath: candidate.toPath,
-                reason: "target_exists",
-              })
-              continue
-            }
-            if (reservedTargetPaths.has(candidate.toPath)) {
-              skipped.push({
-                branch: candidate.branch,
-                fromPath: candidate.fromPath,
-                toPath: candidate.toPath,
-                reason: "target_conflict",
-              })
-              continue
-            }
-
-            reservedTargetPaths.add(candidate.toPath)
-            candidates.push(candidate)
-          }
+          const { candidates, skipped } = await planWorktreeAdoption({
+            repoRoot,
+            managedWorktreeRoot,
+            worktreeRoot: resolvedConfig.paths.worktreeRoot,
+            worktrees: snapshot.worktrees,
+          })
 
           if (dryRun) {
             return {
@@ -3244,7 +4853,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
             }
           }
 
-          const hookContext = createHookContext({
+          const hookContext = createTrackedHookContext({
             runtime,
             repoRoot,
             action: "adopt",
@@ -3257,6 +4866,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
           const moved: AdoptCandidate[] = []
           const failed: AdoptFailed[] = []
           for (const candidate of candidates) {
+            recordOperationTarget({ branch: candidate.branch, path: candidate.toPath })
             try {
               await mkdir(dirname(candidate.toPath), { recursive: true })
               await runGitCommand({
@@ -3367,7 +4977,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
             })
           }
 
-          const hookContext = createHookContext({
+          const hookContext = createTrackedHookContext({
             runtime,
             repoRoot,
             action: "get",
@@ -3430,6 +5040,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
               observedDivergedHead: null,
             })
           }
+          await applyConfiguredSetup({ branch, worktreePath: targetPath })
           await runPostHook({ name: "get", context: hookContext })
           return {
             status: "created" as const,
@@ -3533,7 +5144,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
             })
           }
 
-          const hookContext = createHookContext({
+          const hookContext = createTrackedHookContext({
             runtime,
             repoRoot,
             action: "extract",
@@ -3587,6 +5198,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
             })
           }
 
+          await applyConfiguredSetup({ branch, worktreePath: targetPath })
           await runPostHook({ name: "extract", context: hookContext })
           return {
             branch,
@@ -3680,7 +5292,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
             })
           }
 
-          const hookContext = createHookContext({
+          const hookContext = createTrackedHookContext({
             runtime,
             repoRoot,
             action: "absorb",
@@ -3831,7 +5443,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
             message: `vde-worktree unabsorb ${branch}`,
           })
 
-          const hookContext = createHookContext({
+          const hookContext = createTrackedHookContext({
             runtime,
             repoRoot,
             action: "unabsorb",
@@ -3970,7 +5582,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
             ? ["checkout", "--ignore-other-worktrees", branch]
             : ["checkout", branch]
 
-          const hookContext = createHookContext({
+          const hookContext = createTrackedHookContext({
             runtime,
             repoRoot,
             action: "use",
@@ -4008,19 +5620,911 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         return EXIT_CODE.OK
       }
 
+      const handleRestack = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 0, max: 1 })
+        const dryRun = parsedArgs.dryRun === true
+        const forceLocked = parseForceFlags(parsedArgs).forceLocked
+
+        type RestackStep = {
+          readonly branch: string
+          readonly path: string
+          readonly head: string
+          readonly onto: string
+          readonly upstream: string
+          readonly forkPoint: boolean
+          readonly parentBranch: string | null
+          readonly reparented: boolean
+        }
+
+        const result = await runWriteOperation(async () => {
+          const snapshot = await collectWorktreeSnapshot(repoRoot)
+          const targetBranch = commandArgs[0]
+          const target =
+            typeof targetBranch === "string" && targetBranch.length > 0
+              ? resolveTargetWorktreeByBranch({ branch: targetBranch, worktrees: snapshot.worktrees })
+              : resolveCurrentWorktree({ snapshot, currentWorktreeRoot: repoContext.currentWorktreeRoot })
+          const branch = target.branch
+          if (branch === null) {
+            throw createCliError("DETACHED_HEAD", {
+              message: "restack requires a branch checkout (detached HEAD is not supported)",
+              details: { path: target.path },
+            })
+          }
+          const baseBranch = snapshot.baseBranch
+          if (baseBranch === null) {
+            throw createCliError("INVALID_ARGUMENT", {
+              message: "restack requires a resolvable base branch",
+            })
+          }
+
+          const worktreeByBranch = new Map(
+            snapshot.worktrees.flatMap((worktree) => (worktree.branch === null ? [] : [[worktree.branch, worktree]])),
+          )
+          const isActiveParent = async (parent: string): Promise<boolean> => {
+            if ((await doesGitRefExist(repoRoot, `refs/heads/${parent}`)) !== true) {
+              return false
+            }
+            return worktreeByBranch.get(parent)?.merged.overall !== true
+          }
+
+          const targets = [
+            ...(target.parent !== null ? [target] : []),
+            ...collectStackDescendants({ worktrees: snapshot.worktrees, branch }),
+          ]
+          const steps: RestackStep[] = []
+          for (const worktree of targets) {
+            const worktreeBranch = worktree.branch as string
+            const parent = worktree.parent as string
+            if (worktree.dirty) {
+              throw createCliError("DIRTY_WORKTREE", {
+                message: `restack requires clean worktree: ${worktreeBranch}`,
+                details: { branch: worktreeBranch, path: worktree.path },
+              })
+            }
+            if (worktree.locked.value && forceLocked !== true) {
+              throw createCliError("LOCKED_WORKTREE", {
+                message: `restack target is locked: ${worktreeBranch} (use --force-locked to override)`,
+                details: { branch: worktreeBranch, reason: worktree.locked.reason, owner: worktree.locked.owner },
+              })
+            }
+
+            let onto = parent
+            const visited = new Set<string>([worktreeBranch])
+            while (onto !== baseBranch && (await isActiveParent(onto)) !== true) {
+              visited.add(onto)
+              const next = worktreeByBranch.get(onto)?.parent ?? null
+              onto = next === null || visited.has(next) ? baseBranch : next
+            }
+            const parentExists = await doesGitRefExist(repoRoot, `refs/heads/${parent}`)
+            steps.push({
+              branch: worktreeBranch,
+              path: worktree.path,
+              head: worktree.head,
+              onto,
+              upstream: parentExists ? parent : onto,
+              forkPoint: onto === parent || parentExists !== true,
+              parentBranch: onto === baseBranch ? null : onto,
+              reparented: onto !== parent,
+            })
+          }
+
+          if (dryRun) {
+            return {
+              branch,
+              dryRun: true,
+              restacked: steps.map((step) => ({ branch: step.branch, onto: step.onto, status: "planned" as const })),
+            }
+          }
+
+          const hookContext = createTrackedHookContext({
+            runtime,
+            repoRoot,
+            action: "restack",
+            branch,
+            worktreePath: target.path,
+            stderr,
+          })
+          await runPreHook({ name: "restack", context: hookContext })
+
+          const restacked: Array<{ branch: string; onto: string; status: "rebased" | "up-to-date" }> = []
+          for (const [index, step] of steps.entries()) {
+            const rebase = await runGitCommand({
+              cwd: step.path,
+              args: step.forkPoint
+                ? ["rebase", "--fork-point", step.onto]
+                : ["rebase", "--onto", step.onto, step.upstream],
+              reject: false,
+            })
+            if (rebase.exitCode !== 0) {
+              await runGitCommand({
+                cwd: step.path,
+                args: ["rebase", "--abort"],
+                reject: false,
+              })
+              throw createCliError("REBASE_CONFLICT", {
+                message: `restack stopped: rebasing ${step.branch} onto ${step.onto} failed (rebase aborted)`,
+                details: {
+                  branch: step.branch,
+                  onto: step.onto,
+                  path: step.path,
+                  restacked,
+                  pending: steps.slice(index + 1).map((pending) => pending.branch),
+                  stderr: rebase.stderr,
+                },
+              })
+            }
+            if (step.reparented) {
+              await upsertWorktreeMergeLifecycle({
+                repoRoot,
+                branch: step.branch,
+                baseBranch,
+                parentBranch: step.parentBranch,
+                observedDivergedHead: null,
+              })
+            }
+            const headAfter = await runGitCommand({
+              cwd: step.path,
+              args: ["rev-parse", "HEAD"],
+            })
+            restacked.push({
+              branch: step.branch,
+              onto: step.onto,
+              status: headAfter.stdout.trim() === step.head ? "up-to-date" : "rebased",
+            })
+          }
+
+          await runPostHook({ name: "restack", context: hookContext })
+          return {
+            branch,
+            dryRun: false,
+            restacked,
+          }
+        })
+
+        if (runtime.json) {
+          stdout(
+            JSON.stringify(
+              buildJsonSuccess({
+                command,
+                status: "ok",
+                repoRoot,
+                details: result,
+              }),
+            ),
+          )
+          return EXIT_CODE.OK
+        }
+
+        for (const entry of result.restacked) {
+          stdout(`${entry.status}: ${entry.branch} -> ${entry.onto}`)
+        }
+        return EXIT_CODE.OK
+      }
+
       const synchronizationExitCode = await dispatchCommandHandler({
         command,
         handlers: createSynchronizationHandlers({
           absorbHandler: handleAbsorb,
           unabsorbHandler: handleUnabsorb,
           useHandler: handleUse,
+          restackHandler: handleRestack,
         }),
       })
       if (synchronizationExitCode !== undefined) {
         return synchronizationExitCode
       }
 
+      const runPrProviderCommand = async ({
+        file,
+        args,
+        cwd,
+      }: {
+        readonly file: string
+        readonly args: readonly string[]
+        readonly cwd: string
+      }): Promise<string> => {
+        const inherit = runtime.json !== true
+        try {
+          const result = await execa(file, [...args], {
+            cwd,
+            stdin: inherit ? "inherit" : "ignore",
+            stdout: inherit ? "inherit" : "pipe",
+            stderr: inherit ? "inherit" : "pipe",
+            reject: false,
+          })
+          if ((result.exitCode ?? 0) !== 0) {
+            throw createCliError("PR_COMMAND_FAILED", {
+              message: `${file} exited with non-zero status`,
+              details: {
+                command: [file, ...args],
+                exitCode: result.exitCode ?? null,
+                stderr: typeof result.stderr === "string" ? result.stderr : "",
+              },
+            })
+          }
+          return typeof result.stdout === "string" ? result.stdout : ""
+        } catch (error) {
+          if ((error as { readonly code?: string }).code === "ENOENT") {
+            throw createCliError("DEPENDENCY_MISSING", {
+              message: `${file} command not found`,
+              details: { command: file, provider: prProvider.name },
+            })
+          }
+          throw error
+        }
+      }
+
+      const handlePr = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 0, max: 1 })
+        const modes = (["create", "web", "view"] as const).filter((mode) => parsedArgs[mode] === true)
+        if (modes.length > 1) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "--create, --web, and --view cannot be used together",
+            details: { modes },
+          })
+        }
+        const action = modes[0] ?? "status"
+        if (runtime.ghEnabled !== true) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "pr requires PR lookup (remove --no-gh or set github.enabled: true)",
+          })
+        }
+
+        const snapshot = await collectWorktreeSnapshot(repoRoot)
+        const targetBranch = commandArgs[0]
+        const target =
+          typeof targetBranch === "string" && targetBranch.length > 0
+            ? resolveTargetWorktreeByBranch({ branch: targetBranch, worktrees: snapshot.worktrees })
+            : resolveCurrentWorktree({ snapshot, currentWorktreeRoot: repoContext.currentWorktreeRoot })
+        const branch = target.branch
+        if (branch === null) {
+          throw createCliError("DETACHED_HEAD", {
+            message: "pr requires a branch checkout (detached HEAD is not supported)",
+            details: { path: target.path },
+          })
+        }
+        const baseBranch = snapshot.baseBranch
+        if (baseBranch === null) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "pr requires a resolvable base branch",
+          })
+        }
+        if (branch === baseBranch) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: `pr target must not be the base branch: ${branch}`,
+            details: { branch, baseBranch },
+          })
+        }
+
+        let pr = { status: target.pr.status, url: target.pr.url }
+        let pushed = false
+        let created = false
+        let output: string | null = null
+        if (action !== "status") {
+          const actions = prProvider.actions
+          const viewArgs = actions?.viewArgs
+          if (actions === undefined || (action !== "create" && viewArgs === undefined)) {
+            throw createCliError("INVALID_ARGUMENT", {
+              message: `forge provider ${prProvider.name} does not support pr --${action}`,
+              details: { provider: prProvider.name, action },
+            })
+          }
+
+          await runWriteOperation(async () => {
+            const bodyDirectory = await mkdtemp(join(tmpdir(), "vde-worktree-pr-"))
+            const bodyFile = join(bodyDirectory, "body.md")
+            try {
+              const hookContext = createTrackedHookContext({
+                runtime,
+                repoRoot,
+                action: "pr",
+                branch,
+                worktreePath: target.path,
+                stderr,
+                extraEnv: {
+                  WT_PR_ACTION: action,
+                  WT_PR_BASE_BRANCH: baseBranch,
+                  WT_PR_BODY_FILE: bodyFile,
+                },
+              })
+              await runPreHook({ name: "pr", context: hookContext })
+
+              if (action === "create") {
+                if (pr.status !== "open") {
+                  await runGitCommand({
+                    cwd: target.path,
+                    args: ["push", "--set-upstream", resolvedConfig.git.baseRemote, branch],
+                  })
+                  pushed = true
+                  const body = await readFile(bodyFile, "utf8").catch(() => "")
+                  await runPrProviderCommand({
+                    file: actions.command,
+                    args: actions.createArgs({
+                      branch,
+                      baseBranch,
+                      body: body.trim().length > 0 ? body : null,
+                      interactive: runtime.isInteractive && runtime.json !== true,
+                    }),
+                    cwd: target.path,
+                  })
+                  created = true
+                  await invalidateSnapshotCache(repoRoot)
+                  pr = (
+                    await resolvePrStateByBranchBatch({
+                      repoRoot,
+                      baseBranch,
+                      branches: [branch],
+                      provider: prProvider,
+                    })
+                  ).get(branch) ?? { status: "unknown", url: null }
+                }
+              } else if (viewArgs !== undefined) {
+                const viewOutput = await runPrProviderCommand({
+                  file: actions.command,
+                  args: viewArgs({ branch, web: action === "web" }),
+                  cwd: target.path,
+                })
+                output = action === "view" && runtime.json ? viewOutput : null
+              }
+
+              await runPostHook({ name: "pr", context: hookContext })
+            } finally {
+              await rm(bodyDirectory, { recursive: true, force: true })
+            }
+          })
+        }
+
+        if (runtime.json) {
+          stdout(
+            JSON.stringify(
+              buildJsonSuccess({
+                command,
+                status: "ok",
+                repoRoot,
+                details: {
+                  branch,
+                  path: target.path,
+                  baseBranch,
+                  action,
+                  pushed,
+                  created,
+                  pr,
+                  ...(output !== null ? { output } : {}),
+                },
+              }),
+            ),
+          )
+          return EXIT_CODE.OK
+        }
+
+        if (action === "status" || action === "create") {
+          const label = action === "create" ? (created ? "created" : "exists") : (pr.status ?? "unknown")
+          stdout(`${label}: ${branch}${pr.url !== null ? ` ${pr.url}` : ""}`)
+        }
+        return EXIT_CODE.OK
+      }
+
+      const handlePush = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 0, max: 1 })
+        const all = parsedArgs.all === true
+        const branchArg = commandArgs[0]
+        if (all && typeof branchArg === "string") {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "push accepts either <branch> or --all",
+          })
+        }
+        if (parsedArgs.force === true) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "push never force-pushes; use --force-locked or --force-base to override safety checks",
+          })
+        }
+        const forceLocked = parsedArgs.forceLocked === true
+        const forceBase = parsedArgs.forceBase === true
+        if (forceLocked || forceBase) {
+          ensureUnsafeForNonTty({
+            runtime,
+            reason: "force flags in non-TTY mode require --allow-unsafe",
+          })
+        }
+        const baseRemote = resolvedConfig.git.baseRemote
+
+        type PushResult = {
+          readonly branch: string | null
+          readonly path: string
+          readonly remote: string | null
+          readonly status: "pushed" | "up-to-date" | "skipped" | "failed"
+          readonly setUpstream: boolean
+          readonly reason: string | null
+        }
+
+        const results = await runWriteOperation(async () => {
+          const snapshot = await collectWorktreeSnapshot(repoRoot)
+          const targets = all
+            ? snapshot.worktrees
+            : [
+                typeof branchArg === "string" && branchArg.length > 0
+                  ? resolveTargetWorktreeByBranch({ branch: branchArg, worktrees: snapshot.worktrees })
+                  : resolveCurrentWorktree({ snapshot, currentWorktreeRoot: repoContext.currentWorktreeRoot }),
+              ]
+
+          const refusePush = (worktree: WorktreeStatus): CliError | null => {
+            if (worktree.branch === null) {
+              return createCliError("DETACHED_HEAD", {
+                message: "push requires a branch checkout (detached HEAD is not supported)",
+                details: { path: worktree.path },
+              })
+            }
+            if (worktree.branch === snapshot.baseBranch && forceBase !== true) {
+              return createCliError("PROTECTED_BRANCH", {
+                message: `push refuses the base branch: ${worktree.branch} (use --force-base to override)`,
+                details: { branch: worktree.branch },
+              })
+            }
+            if (worktree.locked.value && forceLocked !== true) {
+              return createCliError("LOCKED_WORKTREE", {
+                message: `push target is locked: ${worktree.branch} (use --force-locked to override)`,
+                details: { branch: worktree.branch, reason: worktree.locked.reason, owner: worktree.locked.owner },
+              })
+            }
+            return null
+          }
+
+          const pushWorktree = async (worktree: WorktreeStatus): Promise<PushResult> => {
+            const branch = worktree.branch as string
+            recordOperationTarget({ branch, path: worktree.path })
+            if (worktree.upstream.remote !== null && worktree.upstream.ahead === 0) {
+              return {
+                branch,
+                path: worktree.path,
+                remote: worktree.upstream.remote,
+                status: "up-to-date",
+                setUpstream: false,
+                reason: null,
+              }
+            }
+            const setUpstream = worktree.upstream.remote === null
+            const hookContext = createTrackedHookContext({
+              runtime,
+              repoRoot,
+              action: "push",
+              branch,
+              worktreePath: worktree.path,
+              stderr,
+            })
+            await runPreHook({ name: "push", context: hookContext })
+            await runGitCommand({
+              cwd: worktree.path,
+              args: setUpstream ? ["push", "--set-upstream", baseRemote, branch] : ["push"],
+            })
+            await runPostHook({ name: "push", context: hookContext })
+            return {
+              branch,
+              path: worktree.path,
+              remote: setUpstream ? `${baseRemote}/${branch}` : worktree.upstream.remote,
+              status: "pushed",
+              setUpstream,
+              reason: null,
+            }
+          }
+
+          const pushResults: PushResult[] = []
+          for (const worktree of targets) {
+            const refusal = refusePush(worktree)
+            if (refusal !== null) {
+              if (all !== true) {
+                throw refusal
+              }
+              pushResults.push({
+                branch: worktree.branch,
+                path: worktree.path,
+                remote: worktree.upstream.remote,
+                status: "skipped",
+                setUpstream: false,
+                reason: refusal.message,
+              })
+              continue
+            }
+            try {
+              pushResults.push(await pushWorktree(worktree))
+            } catch (error) {
+              if (all !== true) {
+                throw error
+              }
+              pushResults.push({
+                branch: worktree.branch,
+                path: worktree.path,
+                remote: worktree.upstream.remote,
+                status: "failed",
+                setUpstream: false,
+                reason: ensureCliError(error).message,
+              })
+            }
+          }
+          return pushResults
+        })
+
+        const failed = results.filter((result) => result.status === "failed")
+        if (runtime.json) {
+          if (failed.length === 0) {
+            stdout(
+              JSON.stringify(
+                buildJsonSuccess({
+                  command,
+                  status: "ok",
+                  repoRoot,
+                  details: { results },
+                }),
+              ),
+            )
+            return EXIT_CODE.OK
+          }
+          stdout(
+            JSON.stringify({
+              schemaVersion: SCHEMA_VERSION,
+              command,
+              status: "error",
+              repoRoot,
+              code: "GIT_COMMAND_FAILED",
+              message: `push failed for ${String(failed.length)} of ${String(results.length)} worktrees`,
+              details: { results },
+            }),
+          )
+          return EXIT_CODE.GIT_COMMAND_FAILED
+        }
+
+        for (const result of results) {
+          const label = result.branch ?? result.path
+          if (result.status === "pushed" || result.status === "up-to-date") {
+            const suffix = result.setUpstream ? " (set upstream)" : ""
+            stdout(`${result.status}: ${label} -> ${result.remote ?? baseRemote}${suffix}`)
+            continue
+          }
+          stdout(`${result.status}: ${label} (${result.reason ?? "unknown"})`)
+        }
+        return failed.length === 0 ? EXIT_CODE.OK : EXIT_CODE.GIT_COMMAND_FAILED
+      }
+
+      const handleSync = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 0, max: 1 })
+        const all = parsedArgs.all === true
+        const branchArg = commandArgs[0]
+        if (all && typeof branchArg === "string") {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "sync accepts either <branch> or --all",
+          })
+        }
+        if (parsedArgs.rebase === true && parsedArgs.merge === true) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "--rebase and --merge cannot be used together",
+          })
+        }
+        const strategy = parsedArgs.merge === true ? ("merge" as const) : ("rebase" as const)
+        const baseRemote = resolvedConfig.git.baseRemote
+
+        type SyncResult = {
+          readonly branch: string | null
+          readonly path: string
+          readonly status: "updated" | "up-to-date" | "skipped" | "conflicted"
+          readonly head: string
+          readonly reason: string | null
+        }
+
+        const result = await runWriteOperation(async () => {
+          const remoteCheck = await runGitCommand({
+            cwd: repoRoot,
+            args: ["remote", "get-url", baseRemote],
+            reject: false,
+          })
+          if (remoteCheck.exitCode !== 0) {
+            throw createCliError("REMOTE_NOT_FOUND", {
+              message: `Remote not found: ${baseRemote}`,
+              details: { remote: baseRemote },
+            })
+          }
+          await runGitCommand({
+            cwd: repoRoot,
+            args: ["fetch", baseRemote],
+          })
+
+          const snapshot = await collectWorktreeSnapshot(repoRoot)
+          const baseBranch = snapshot.baseBranch
+          if (baseBranch === null) {
+            throw createCliError("INVALID_ARGUMENT", {
+              message: "sync requires a resolvable base branch",
+            })
+          }
+          const onto = (await doesGitRefExist(repoRoot, `refs/remotes/${baseRemote}/${baseBranch}`))
+            ? `${baseRemote}/${baseBranch}`
+            : baseBranch
+          const targets = all
+            ? snapshot.worktrees
+            : [
+                typeof branchArg === "string" && branchArg.length > 0
+                  ? resolveTargetWorktreeByBranch({ branch: branchArg, worktrees: snapshot.worktrees })
+                  : resolveCurrentWorktree({ snapshot, currentWorktreeRoot: repoContext.currentWorktreeRoot }),
+              ]
+
+          const resolveSkipReason = (worktree: WorktreeStatus): string | null => {
+            if (worktree.branch === null) {
+              return "detached HEAD"
+            }
+            if (worktree.dirty) {
+              return "dirty worktree"
+            }
+            if (worktree.locked.value) {
+              return worktree.locked.reason === null ? "locked" : `locked: ${worktree.locked.reason}`
+            }
+            if (worktree.parent !== null && worktree.parent !== baseBranch) {
+              return `stacked on ${worktree.parent} (use vw restack)`
+            }
+            return null
+          }
+
+          const syncWorktree = async (worktree: WorktreeStatus): Promise<SyncResult> => {
+            const branch = worktree.branch as string
+            const isBase = branch === baseBranch
+            const hookContext = createTrackedHookContext({
+              runtime,
+              repoRoot,
+              action: "sync",
+              branch,
+              worktreePath: worktree.path,
+              stderr,
+              extraEnv: {
+                WT_SYNC_ONTO: onto,
+                WT_SYNC_STRATEGY: isBase ? "ff-only" : strategy,
+              },
+            })
+            await runPreHook({ name: "sync", context: hookContext })
+            const update = await runGitCommand({
+              cwd: worktree.path,
+              args: isBase
+                ? ["merge", "--ff-only", onto]
+                : strategy === "rebase"
+                  ? ["rebase", onto]
+                  : ["merge", "--no-edit", onto],
+              reject: false,
+            })
+            if (update.exitCode !== 0) {
+              if (isBase) {
+                return {
+                  branch,
+                  path: worktree.path,
+                  status: "skipped",
+                  head: worktree.head,
+                  reason: `diverged from ${onto} (fast-forward not possible)`,
+                }
+              }
+              await runGitCommand({
+                cwd: worktree.path,
+                args: [strategy, "--abort"],
+                reject: false,
+              })
+              return {
+                branch,
+                path: worktree.path,
+                status: "conflicted",
+                head: worktree.head,
+                reason: `${strategy} onto ${onto} failed (${strategy} aborted)`,
+              }
+            }
+            const head = (await runGitCommand({ cwd: worktree.path, args: ["rev-parse", "HEAD"] })).stdout.trim()
+            if (isBase !== true) {
+              const ancestry = await runGitCommand({
+                cwd: worktree.path,
+                args: ["merge-base", "--is-ancestor", head, onto],
+                reject: false,
+              })
+              await upsertWorktreeMergeLifecycle({
+                repoRoot,
+                branch,
+                baseBranch,
+                observedDivergedHead: ancestry.exitCode === 0 ? null : head,
+              })
+            }
+            await runPostHook({ name: "sync", context: hookContext })
+            return {
+              branch,
+              path: worktree.path,
+              status: head === worktree.head ? "up-to-date" : "updated",
+              head,
+              reason: null,
+            }
+          }
+
+          const results: SyncResult[] = []
+          for (const worktree of targets) {
+            const reason = resolveSkipReason(worktree)
+            if (reason !== null) {
+              results.push({
+                branch: worktree.branch,
+                path: worktree.path,
+                status: "skipped",
+                head: worktree.head,
+                reason,
+              })
+              continue
+            }
+            results.push(await syncWorktree(worktree))
+          }
+          return {
+            remote: baseRemote,
+            baseBranch,
+            onto,
+            strategy,
+            results,
+          }
+        })
+
+        const pick = (status: SyncResult["status"]): SyncResult[] => {
+          return result.results.filter((entry) => entry.status === status)
+        }
+        const conflicted = pick("conflicted")
+        const details = {
+          ...result,
+          updated: pick("updated").map((entry) => entry.branch),
+          skipped: pick("skipped").map((entry) => entry.branch ?? entry.path),
+          conflicted: conflicted.map((entry) => entry.branch),
+        }
+        if (runtime.json) {
+          if (conflicted.length === 0) {
+            stdout(
+              JSON.stringify(
+                buildJsonSuccess({
+                  command,
+                  status: "ok",
+                  repoRoot,
+                  details,
+                }),
+              ),
+            )
+            return EXIT_CODE.OK
+          }
+          stdout(
+            JSON.stringify({
+              schemaVersion: SCHEMA_VERSION,
+              command,
+              status: "error",
+              repoRoot,
+              code: "REBASE_CONFLICT",
+              message: `sync hit conflicts in ${String(conflicted.length)} of ${String(result.results.length)} worktrees`,
+              details,
+            }),
+          )
+          return EXIT_CODE.GIT_COMMAND_FAILED
+        }
+
+        for (const entry of result.results) {
+          const label = entry.branch ?? entry.path
+          if (entry.status === "updated" || entry.status === "up-to-date") {
+            stdout(`${entry.status}: ${label} -> ${result.onto}`)
+            continue
+          }
+          stdout(`${entry.status}: ${label} (${entry.reason ?? "unknown"})`)
+        }
+        return conflicted.length === 0 ? EXIT_CODE.OK : EXIT_CODE.GIT_COMMAND_FAILED
+      }
+
+      const remoteCommandExitCode = await dispatchCommandHandler({
+        command,
+        handlers: createRemoteCommandHandlers({
+          prHandler: handlePr,
+          pushHandler: handlePush,
+          syncHandler: handleSync,
+        }),
+      })
+      if (remoteCommandExitCode !== undefined) {
+        return remoteCommandExitCode
+      }
+
+      const handleExecAcrossWorktrees = async (filters: readonly WorktreeFilter[]): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 0, max: 0 })
+        ensureHasCommandAfterDoubleDash({
+          command,
+          argsAfterDoubleDash: afterDoubleDash,
+        })
+        const executable = afterDoubleDash[0]
+        if (typeof executable !== "string" || executable.length === 0) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "exec requires executable after --",
+          })
+        }
+        const concurrency =
+          toNumberOption({ value: parsedArgs.concurrency, optionName: "--concurrency" }) ?? DEFAULT_EXEC_CONCURRENCY
+        const snapshot = await collectWorktreeSnapshot(repoRoot)
+        const targets = filterWorktrees({ worktrees: snapshot.worktrees, filters })
+        const writeChildStdout = runtime.json ? stderr : stdout
+
+        const results = await mapWithConcurrency({
+          items: targets,
+          concurrency,
+          task: async (worktree) => {
+            const prefix = `[${worktree.branch ?? "(detached)"}]`
+            const startedAt = Date.now()
+            const child = execa(executable, afterDoubleDash.slice(1), {
+              cwd: worktree.path,
+              stdin: "ignore",
+              reject: false,
+            })
+            await Promise.all([
+              forwardPrefixedLines({ stream: child.stdout, prefix, write: writeChildStdout }),
+              forwardPrefixedLines({ stream: child.stderr, prefix, write: stderr }),
+            ])
+            const result = await child
+            return {
+              branch: worktree.branch,
+              path: worktree.path,
+              childExitCode: result.exitCode ?? (result.failed ? 1 : 0),
+              durationMs: Date.now() - startedAt,
+            }
+          },
+        })
+        const failed = results.filter((result) => result.childExitCode !== 0)
+
+        if (runtime.json) {
+          const details = {
+            results,
+            succeeded: results.length - failed.length,
+            failed: failed.length,
+          }
+          if (failed.length === 0) {
+            stdout(
+              JSON.stringify(
+                buildJsonSuccess({
+                  command,
+                  status: "ok",
+                  repoRoot,
+                  details,
+                }),
+              ),
+            )
+            return EXIT_CODE.OK
+          }
+
+          stdout(
+            JSON.stringify({
+              schemaVersion: SCHEMA_VERSION,
+              command,
+              status: "error",
+              repoRoot,
+              code: "CHILD_PROCESS_FAILED",
+              message: `${String(failed.length)} of ${String(results.length)} target commands exited with non-zero status`,
+              details,
+            }),
+          )
+          return EXIT_CODE.CHILD_PROCESS_FAILED
+        }
+
+        if (results.length > 0) {
+          const rendered = table(
+            [
+              ["branch", "exit", "duration", "path"],
+              ...results.map((result) => [
+                result.branch ?? "(detached)",
+                String(result.childExitCode),
+                formatDurationMs(result.durationMs),
+                formatDisplayPath(result.path),
+              ]),
+            ],
+            {
+              border: getBorderCharacters("norc"),
+              drawHorizontalLine: (lineIndex, rowCount) => {
+                return lineIndex === 0 || lineIndex === 1 || lineIndex === rowCount
+              },
+            },
+          )
+          for (const line of rendered.trimEnd().split("\n")) {
+            stdout(line)
+          }
+        }
+        return failed.length === 0 ? EXIT_CODE.OK : EXIT_CODE.CHILD_PROCESS_FAILED
+      }
+
       const handleExec = async (): Promise<number> => {
+        const filterValues = collectOptionValues({ args: beforeDoubleDash, optionNames: ["filter"] })
+        if (parsedArgs.all === true || filterValues.length > 0) {
+          return handleExecAcrossWorktrees(parseWorktreeFilters(filterValues))
+        }
         ensureArgumentCount({ command, args: commandArgs, min: 1, max: 1 })
         ensureHasCommandAfterDoubleDash({
           command,
@@ -4083,7 +6587,45 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         return childExitCode === 0 ? EXIT_CODE.OK : EXIT_CODE.CHILD_PROCESS_FAILED
       }
 
+      const handleInvokeList = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 1, max: 2 })
+        const hookName = commandArgs[1]
+        if (hookName !== undefined && parseHookTarget(hookName)?.hookId !== null) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "invoke list accepts a pre-* or post-* hook name",
+            details: { hookName },
+          })
+        }
+        const entries = (await listHookEntries({ repoRoot, modules: resolvedConfig.hooks.modules })).filter(
+          (entry) => hookName === undefined || entry.hookName === hookName,
+        )
+
+        if (runtime.json) {
+          stdout(
+            JSON.stringify(
+              buildJsonSuccess({
+                command,
+                status: "ok",
+                repoRoot,
+                details: {
+                  action: "list",
+                  hooks: entries,
+                },
+              }),
+            ),
+          )
+          return EXIT_CODE.OK
+        }
+        for (const entry of entries) {
+          stdout(`${entry.id}\t${entry.kind}\t${entry.path}`)
+        }
+        return EXIT_CODE.OK
+      }
+
       const handleInvoke = async (): Promise<number> => {
+        if (commandArgs[0] === "list") {
+          return handleInvokeList()
+        }
         ensureArgumentCount({ command, args: commandArgs, min: 1, max: 1 })
         const hookName = normalizeHookName(commandArgs[0] as string)
         const snapshot = await collectWorktreeSnapshot(repoRoot)
@@ -4091,7 +6633,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
           snapshot,
           currentWorktreeRoot: repoContext.currentWorktreeRoot,
         })
-        const hookContext = createHookContext({
+        const hookContext = createTrackedHookContext({
           runtime,
           repoRoot,
           action: `invoke:${hookName}`,
@@ -4123,29 +6665,107 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         return EXIT_CODE.OK
       }
 
+      const resolveCopyLinkPaths = async (): Promise<{
+        readonly paths: string[]
+        readonly skipped: FileDiscoveryResult["skipped"]
+      }> => {
+        const globs = collectOptionValues({ args: beforeDoubleDash, optionNames: ["glob"] })
+        const excludes = collectOptionValues({ args: beforeDoubleDash, optionNames: ["exclude"] })
+        const maxSizeRaw = readStringOption(parsedArgsRecord, "maxSize")
+        const ignoredOnly = parsedArgs.ignored === true
+        if (globs.length === 0 && ignoredOnly !== true) {
+          if (excludes.length > 0 || maxSizeRaw !== undefined) {
+            throw createCliError("INVALID_ARGUMENT", {
+              message: "--exclude and --max-size require --glob or --ignored",
+            })
+          }
+          ensureArgumentCount({ command, args: commandArgs, min: 1, max: Number.MAX_SAFE_INTEGER })
+          return { paths: [...commandArgs], skipped: [] }
+        }
+
+        const discovered = await discoverUntrackedFiles({
+          repoRoot,
+          managedWorktreeRoot,
+          ignoredOnly,
+          globs,
+          excludes,
+          maxSizeBytes:
+            maxSizeRaw === undefined ? null : parseFileSizeBytes({ value: maxSizeRaw, option: "--max-size" }),
+        })
+        for (const file of discovered.skipped) {
+          stderr(`skipped ${file.path} (${String(file.size)} bytes exceeds --max-size)`)
+        }
+        return {
+          paths: [...new Set([...commandArgs, ...discovered.files.map((file) => file.path)])],
+          skipped: discovered.skipped,
+        }
+      }
+
+      const reportCopyLinkDryRun = ({
+        paths,
+        skipped,
+        targetWorktreeRoot,
+      }: {
+        readonly paths: readonly string[]
+        readonly skipped: FileDiscoveryResult["skipped"]
+        readonly targetWorktreeRoot: string
+      }): number => {
+        if (runtime.json) {
+          stdout(
+            JSON.stringify(
+              buildJsonSuccess({
+                command,
+                status: "ok",
+                repoRoot,
+                details: {
+                  dryRun: true,
+                  paths,
+                  skipped,
+                  worktreePath: targetWorktreeRoot,
+                },
+              }),
+            ),
+          )
+          return EXIT_CODE.OK
+        }
+        for (const path of paths) {
+          stdout(path)
+        }
+        return EXIT_CODE.OK
+      }
+
+      const resolveCopyStrategy = (): CopyStrategy => {
+        const value = readStringOption(parsedArgsRecord, "strategy")
+        if (value === undefined) {
+          return resolvedConfig.copy.strategy
+        }
+        const strategy = COPY_STRATEGIES.find((candidate) => candidate === value)
+        if (strategy === undefined) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: `--strategy must be one of: ${COPY_STRATEGIES.join(", ")}`,
+            details: { value },
+          })
+        }
+        return strategy
+      }
+
       const handleCopy = async (): Promise<number> => {
-        ensureArgumentCount({ command, args: commandArgs, min: 1, max: Number.MAX_SAFE_INTEGER })
+        const { paths, skipped } = await resolveCopyLinkPaths()
         const snapshot = await collectWorktreeSnapshot(repoRoot)
         const targetWorktreeRoot = resolveTargetWorktreeRootForCopyLink({
           repoContext,
           snapshot,
         })
+        if (parsedArgs.dryRun === true) {
+          return reportCopyLinkDryRun({ paths, skipped, targetWorktreeRoot })
+        }
 
-        for (const relativePath of commandArgs) {
-          const { sourcePath, destinationPath } = resolveFileCopyTargets({
-            repoRoot,
-            targetWorktreeRoot,
-            relativePath,
-          })
-          await access(sourcePath, fsConstants.F_OK)
-          await mkdir(dirname(destinationPath), { recursive: true })
-          await cp(sourcePath, destinationPath, {
-            recursive: true,
-            force: true,
-            errorOnExist: false,
-            dereference: false,
-          })
+        const strategy = resolveCopyStrategy()
+        const results: CopyStats[] = []
+        for (const relativePath of paths) {
+          results.push(await copyIntoWorktree({ repoRoot, targetWorktreeRoot, relativePath, strategy }))
         }
+        const stats = sumCopyStats(results)
 
         if (runtime.json) {
           stdout(
@@ -4155,52 +6775,44 @@ export const createCli = (options: CLIOptions = {}): CLI => {
                 status: "ok",
                 repoRoot,
                 details: {
-                  copied: commandArgs,
+                  copied: paths,
+                  skipped,
                   worktreePath: targetWorktreeRoot,
+                  strategy,
+                  ...stats,
                 },
               }),
             ),
           )
+          return EXIT_CODE.OK
         }
+        stdout(
+          `copied ${String(stats.files)} files (${formatByteSize(stats.bytes)}, ${formatByteSize(stats.savedBytes)} saved: ${String(stats.reflinked)} reflinked, ${String(stats.hardlinked)} hardlinked)`,
+        )
         return EXIT_CODE.OK
       }
 
       const handleLink = async (): Promise<number> => {
-        ensureArgumentCount({ command, args: commandArgs, min: 1, max: Number.MAX_SAFE_INTEGER })
+        const { paths, skipped } = await resolveCopyLinkPaths()
         const snapshot = await collectWorktreeSnapshot(repoRoot)
         const targetWorktreeRoot = resolveTargetWorktreeRootForCopyLink({
           repoContext,
           snapshot,
         })
+        if (parsedArgs.dryRun === true) {
+          return reportCopyLinkDryRun({ paths, skipped, targetWorktreeRoot })
+        }
         const fallbackEnabled = parsedArgs.fallback !== false
 
-        for (const relativePath of commandArgs) {
-          const { sourcePath, destinationPath } = resolveFileCopyTargets({
+        for (const relativePath of paths) {
+          const outcome = await linkIntoWorktree({
             repoRoot,
             targetWorktreeRoot,
             relativePath,
+            fallback: fallbackEnabled,
           })
-          await access(sourcePath, fsConstants.F_OK)
-          await rm(destinationPath, { recursive: true, force: true })
-          await mkdir(dirname(destinationPath), { recursive: true })
-
-          try {
-            await symlink(resolveLinkTargetPath({ sourcePath, destinationPath }), destinationPath)
-          } catch (error) {
-            if (process.platform === "win32" && fallbackEnabled) {
-              stderr(`symlink failed for ${relativePath}; fallback to copy`)
-              await cp(sourcePath, destinationPath, {
-                recursive: true,
-                force: true,
-                errorOnExist: false,
-                dereference: false,
-              })
-              continue
-            }
-            throw createCliError("INVALID_ARGUMENT", {
-              message: `Failed to create symlink for ${relativePath}`,
-              cause: error,
-            })
+          if (outcome === "copied") {
+            stderr(`symlink failed for ${relativePath}; fallback to copy`)
           }
         }
 
@@ -4212,7 +6824,8 @@ export const createCli = (options: CLIOptions = {}): CLI => {
                 status: "ok",
                 repoRoot,
                 details: {
-                  linked: commandArgs,
+                  linked: paths,
+                  skipped,
                   worktreePath: targetWorktreeRoot,
                   fallback: fallbackEnabled,
                 },
@@ -4223,38 +6836,205 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         return EXIT_CODE.OK
       }
 
+      const handleSetup = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 0, max: 1 })
+        if (hasWorktreeSetup(resolvedConfig.setup) !== true) {
+          stderr("No setup configured (setup.copy / setup.link / setup.run in config.yml)")
+        }
+        const { target, result } = await runWriteOperation(async () => {
+          const snapshot = await collectWorktreeSnapshot(repoRoot)
+          const targetBranch = commandArgs[0]
+          const resolvedTarget =
+            typeof targetBranch === "string" && targetBranch.length > 0
+              ? resolveTargetWorktreeByBranch({ branch: targetBranch, worktrees: snapshot.worktrees })
+              : resolveCurrentWorktree({
+                  snapshot,
+                  currentWorktreeRoot: repoContext.currentWorktreeRoot,
+                })
+          recordOperationTarget({ branch: resolvedTarget.branch, path: resolvedTarget.path })
+          const setupResult = await runWorktreeSetup({
+            repoRoot,
+            branch: resolvedTarget.branch,
+            worktreePath: resolvedTarget.path,
+            setup: resolvedConfig.setup,
+            copyStrategy: resolvedConfig.copy.strategy,
+            stderr,
+          })
+          return { target: resolvedTarget, result: setupResult }
+        })
+
+        if (runtime.json) {
+          stdout(
+            JSON.stringify(
+              buildJsonSuccess({
+                command,
+                status: "ok",
+                repoRoot,
+                details: {
+                  branch: target.branch,
+                  path: target.path,
+                  ...result,
+                },
+              }),
+            ),
+          )
+        }
+        return EXIT_CODE.OK
+      }
+
+      type WorktreeLockAttempt =
+        | {
+            readonly status: "acquired"
+            readonly lock: WorktreeLockRecord
+            readonly previous: WorktreeLockRecord | null
+            readonly path: string
+          }
+        | { readonly status: "held"; readonly owner: string }
+
+      const acquireWorktreeLock = async ({
+        branch,
+        owner,
+        reason,
+        ttlSeconds,
+        heartbeat,
+        waitSeconds,
+      }: {
+        readonly branch: string
+        readonly owner: string
+        readonly reason: string
+        readonly ttlSeconds: number | null
+        readonly heartbeat: boolean
+        readonly waitSeconds: number
+      }): Promise<{
+        readonly lock: WorktreeLockRecord
+        readonly previous: WorktreeLockRecord | null
+        readonly path: string
+      }> => {
+        const tryAcquire = async (): Promise<WorktreeLockAttempt> => {
+          return runWriteOperation(async () => {
+            const snapshot = await collectWorktreeSnapshot(repoRoot)
+            const target = resolveTargetWorktreeByBranch({ branch, worktrees: snapshot.worktrees })
+            recordOperationTarget({ branch, path: target.path })
+            const existing = await readWorktreeLock({ repoRoot, branch })
+            if (existing.exists && existing.valid !== true) {
+              throw createCliError("LOCK_CONFLICT", {
+                message: "Cannot update lock with invalid metadata; fix or remove lock file first",
+                details: { branch, path: existing.path },
+              })
+            }
+            const previous =
+              existing.record !== null && isWorktreeLockStale(existing.record) !== true ? existing.record : null
+            if (previous !== null && (previous.owner !== owner || isWorktreeLockHeldByOtherProcess(previous))) {
+              return { status: "held", owner: previous.owner }
+            }
+            const lock = await upsertWorktreeLock({
+              repoRoot,
+              branch,
+              reason,
+              owner,
+              ttlSeconds,
+              heartbeat,
+            })
+            return { status: "acquired", lock, previous, path: target.path }
+          })
+        }
+
+        const deadline = Date.now() + waitSeconds * 1000
+        let attempt = await tryAcquire()
+        while (attempt.status === "held" && Date.now() < deadline) {
+          await delay(LOCK_WAIT_POLL_INTERVAL_MS)
+          attempt = await tryAcquire()
+        }
+        if (attempt.status === "held") {
+          throw createCliError("LOCK_CONFLICT", {
+            message:
+              waitSeconds > 0
+                ? "Timed out waiting for lock held by another owner or process"
+                : "Lock is held by another owner or process",
+            details: { branch, owner: attempt.owner, ...(waitSeconds > 0 ? { waitSeconds } : {}) },
+          })
+        }
+        return attempt
+      }
+
+      const releaseOwnWorktreeLock = async ({
+        branch,
+        previous,
+      }: {
+        readonly branch: string
+        readonly previous: WorktreeLockRecord | null
+      }): Promise<void> => {
+        await runWriteOperation(async () => {
+          const current = await readWorktreeLock({ repoRoot, branch })
+          if (current.record === null || current.record.pid !== process.pid) {
+            return
+          }
+          if (previous === null) {
+            await deleteWorktreeLock({ repoRoot, branch })
+            return
+          }
+          await restoreWorktreeLock({ repoRoot, record: previous })
+        })
+      }
+
+      const readLockDurationOption = (option: "ttl" | "wait"): number | undefined => {
+        const value = readStringOption(parsedArgsRecord, option)
+        return value === undefined ? undefined : parseLockDurationSeconds({ value, option: `--${option}` })
+      }
+
       const handleLock = async (): Promise<number> => {
-        ensureArgumentCount({ command, args: commandArgs, min: 1, max: 1 })
-        const branch = commandArgs[0] as string
+        ensureArgumentCount({ command, args: commandArgs, min: 1, max: 2 })
+        const renew = commandArgs.length === 2
+        if (renew && commandArgs[0] !== "renew") {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "lock accepts <branch> or renew <branch>",
+            details: { args: commandArgs },
+          })
+        }
+        const branch = commandArgs[renew ? 1 : 0] as string
         const ownerOption = readStringOption(parsedArgsRecord, "owner")
         const reasonOption = readStringOption(parsedArgsRecord, "reason")
         const owner = typeof ownerOption === "string" && ownerOption.length > 0 ? ownerOption : defaultOwner()
         const reason = typeof reasonOption === "string" && reasonOption.length > 0 ? reasonOption : "locked"
-
-        const result = await runWriteOperation(async () => {
-          const snapshot = await collectWorktreeSnapshot(repoRoot)
-          resolveTargetWorktreeByBranch({ branch, worktrees: snapshot.worktrees })
-          const existing = await readWorktreeLock({ repoRoot, branch })
-          if (existing.exists && existing.valid !== true) {
-            throw createCliError("LOCK_CONFLICT", {
-              message: "Cannot update lock with invalid metadata; fix or remove lock file first",
-              details: { branch, path: existing.path },
-            })
-          }
-          if (existing.record !== null && existing.record.owner !== owner) {
-            throw createCliError("LOCK_CONFLICT", {
-              message: "Lock is owned by another owner",
-              details: { branch, owner: existing.record.owner },
-            })
-          }
-          const lock = await upsertWorktreeLock({
-            repoRoot,
-            branch,
-            reason,
-            owner,
+        const heartbeat = parsedArgs.heartbeat === true
+        if (renew && heartbeat) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "Cannot use --heartbeat with lock renew",
           })
-          return lock
-        })
+        }
+        const ttlOption = readLockDurationOption("ttl")
+        const ttlSeconds = ttlOption ?? (heartbeat ? DEFAULT_LOCK_HEARTBEAT_TTL_SECONDS : null)
+        const waitSeconds = readLockDurationOption("wait") ?? 0
+
+        const acquired = renew
+          ? null
+          : await acquireWorktreeLock({ branch, owner, reason, ttlSeconds, heartbeat, waitSeconds })
+        const result =
+          acquired === null
+            ? await runWriteOperation(async () => {
+                recordOperationTarget({ branch, path: null })
+                const existing = await readWorktreeLock({ repoRoot, branch })
+                if (existing.exists && existing.valid !== true) {
+                  throw createCliError("LOCK_CONFLICT", {
+                    message: "Cannot update lock with invalid metadata; fix or remove lock file first",
+                    details: { branch, path: existing.path },
+                  })
+                }
+                if (existing.record === null) {
+                  throw createCliError("LOCK_CONFLICT", {
+                    message: "No lock to renew",
+                    details: { branch },
+                  })
+                }
+                if (existing.record.owner !== owner) {
+                  throw createCliError("LOCK_CONFLICT", {
+                    message: "Lock is owned by another owner",
+                    details: { branch, owner: existing.record.owner },
+                  })
+                }
+                return (await renewWorktreeLock({ repoRoot, branch, ttlSeconds: ttlOption })) as WorktreeLockRecord
+              })
+            : acquired.lock
 
         if (runtime.json) {
           stdout(
@@ -4269,15 +7049,124 @@ export const createCli = (options: CLIOptions = {}): CLI => {
                     value: true,
                     reason: result.reason,
                     owner: result.owner,
+                    expiresAt: result.expiresAt ?? null,
+                    heartbeat: result.heartbeat === true,
                   },
                 },
               }),
             ),
           )
         }
+        if (heartbeat !== true) {
+          return EXIT_CODE.OK
+        }
+
+        const controller = new AbortController()
+        const stopHeartbeat = (): void => {
+          controller.abort()
+        }
+        process.once("SIGINT", stopHeartbeat)
+        process.once("SIGTERM", stopHeartbeat)
+        try {
+          await runWorktreeLockHeartbeat({
+            repoRoot,
+            branch,
+            intervalMs: resolveHeartbeatIntervalMs(ttlSeconds),
+            signal: controller.signal,
+          })
+        } finally {
+          process.off("SIGINT", stopHeartbeat)
+          process.off("SIGTERM", stopHeartbeat)
+        }
+        await releaseOwnWorktreeLock({ branch, previous: acquired?.previous ?? null })
         return EXIT_CODE.OK
       }
 
+      const handleWithLock = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 1, max: 1 })
+        ensureHasCommandAfterDoubleDash({
+          command,
+          argsAfterDoubleDash: afterDoubleDash,
+        })
+        const branch = commandArgs[0] as string
+        const executable = afterDoubleDash[0]
+        if (typeof executable !== "string" || executable.length === 0) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "with-lock requires executable after --",
+          })
+        }
+        const ownerOption = readStringOption(parsedArgsRecord, "owner")
+        const reasonOption = readStringOption(parsedArgsRecord, "reason")
+        const owner = typeof ownerOption === "string" && ownerOption.length > 0 ? ownerOption : defaultOwner()
+        const reason =
+          typeof reasonOption === "string" && reasonOption.length > 0 ? reasonOption : `with-lock: ${executable}`
+        const ttlSeconds = readLockDurationOption("ttl") ?? null
+        const waitSeconds = readLockDurationOption("wait") ?? DEFAULT_WITH_LOCK_WAIT_SECONDS
+
+        const { path, previous } = await acquireWorktreeLock({
+          branch,
+          owner,
+          reason,
+          ttlSeconds,
+          heartbeat: true,
+          waitSeconds,
+        })
+
+        const controller = new AbortController()
+        const subprocess = execa(executable, afterDoubleDash.slice(1), {
+          cwd: path,
+          stdin: "inherit",
+          stdout: "inherit",
+          stderr: "inherit",
+          reject: false,
+        })
+        const forwardSignal = (signal: NodeJS.Signals): void => {
+          subprocess.kill(signal)
+        }
+        process.on("SIGINT", forwardSignal)
+        process.on("SIGTERM", forwardSignal)
+        const heartbeatLoop =
+          ttlSeconds === null
+            ? Promise.resolve()
+            : runWorktreeLockHeartbeat({
+                repoRoot,
+                branch,
+                intervalMs: resolveHeartbeatIntervalMs(ttlSeconds),
+                signal: controller.signal,
+              })
+        let childExitCode: number
+        try {
+          const child = await subprocess
+          childExitCode = child.exitCode ?? (child.signal !== undefined ? EXIT_CODE_CANCELLED : child.failed ? 1 : 0)
+        } finally {
+          process.off("SIGINT", forwardSignal)
+          process.off("SIGTERM", forwardSignal)
+          controller.abort()
+          await heartbeatLoop
+          await releaseOwnWorktreeLock({ branch, previous })
+        }
+
+        if (runtime.json) {
+          const details = { branch, path, owner, childExitCode }
+          stdout(
+            JSON.stringify(
+              childExitCode === 0
+                ? buildJsonSuccess({ command, status: "ok", repoRoot, details })
+                : {
+                    schemaVersion: SCHEMA_VERSION,
+                    command,
+                    status: "error",
+                    repoRoot,
+                    code: "CHILD_PROCESS_FAILED",
+                    message: "target command exited with non-zero status",
+                    details,
+                  },
+            ),
+          )
+        }
+        return childExitCode
+      }
+
       const handleUnlock = async (): Promise<number> => {
         ensureArgumentCount({ command, args: commandArgs, min: 1, max: 1 })
         const branch = commandArgs[0] as string
@@ -4286,6 +7175,7 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         const force = parsedArgs.force === true
 
         await runWriteOperation(async () => {
+          recordOperationTarget({ branch, path: null })
           const existing = await readWorktreeLock({ repoRoot, branch })
           if (existing.exists !== true) {
             return
@@ -4332,64 +7222,21 @@ export const createCli = (options: CLIOptions = {}): CLI => {
 
       const handleCd = async (): Promise<number> => {
         ensureArgumentCount({ command, args: commandArgs, min: 0, max: 0 })
-        const snapshot = await collectWorktreeSnapshot(repoRoot)
-        const theme = createCatppuccinTheme({
-          enabled: shouldUseAnsiColors({ interactive: runtime.isInteractive || process.stderr.isTTY === true }),
+        const snapshot = await collectWorktreeSnapshot(repoRoot, { cached: true })
+        const candidates = buildWorktreeSelectorCandidates({
+          worktrees: snapshot.worktrees,
+          baseBranch: snapshot.baseBranch,
         })
-        const branchColumnWidth = snapshot.worktrees.reduce((maxWidth, worktree) => {
-          const label = buildCdBranchLabel({
-            worktree,
-            currentWorktreeRoot: repoContext.currentWorktreeRoot,
-          })
-          return Math.max(maxWidth, stringWidth(label))
-        }, 0)
-        const candidates = snapshot.worktrees.map((worktree) =>
-          buildCdCandidateLine({
-            worktree,
-            baseBranch: snapshot.baseBranch,
-            theme,
-            currentWorktreeRoot: repoContext.currentWorktreeRoot,
-            branchColumnWidth,
-          }),
-        )
         if (candidates.length === 0) {
           throw createCliError("WORKTREE_NOT_FOUND", {
             message: "No worktree candidates found",
           })
         }
 
-        const promptValue = readStringOption(parsedArgsRecord, "prompt")
-        const prompt =
-          typeof promptValue === "string" && promptValue.length > 0 ? promptValue : resolvedConfig.selector.cd.prompt
-        const cliFzfExtraArgs = collectOptionValues({
-          args: beforeDoubleDash,
-          optionNames: ["fzfArg", "fzf-arg"],
-        })
-        const mergedConfigFzfArgs = mergeFzfArgs({
-          defaults: resolvedConfig.selector.cd.fzf.extraArgs,
-          extras: cliFzfExtraArgs,
-        })
-        const surface: SelectorCdSurface = resolvedConfig.selector.cd.surface
-
         const selection = await selectPathWithFzf({
           candidates,
-          prompt,
-          fzfExtraArgs: mergeFzfArgs({
-            defaults: CD_FZF_EXTRA_ARGS,
-            extras: mergedConfigFzfArgs,
-          }),
-          surface,
-          tmuxPopupOpts: resolvedConfig.selector.cd.tmuxPopupOpts,
-          cwd: repoRoot,
-          isInteractive: () => runtime.isInteractive || process.stderr.isTTY === true,
-        }).catch((error: unknown) => {
-          if (error instanceof FzfDependencyError || error instanceof FzfInteractiveRequiredError) {
-            throw createCliError("DEPENDENCY_MISSING", {
-              message: `DEPENDENCY_MISSING: ${error.message}`,
-            })
-          }
-          throw error
-        })
+          ...resolveWorktreeSelectorOptions(resolvedConfig.selector.cd.prompt),
+        }).catch(toFzfCliError)
 
         if (selection.status === "cancelled") {
           return EXIT_CODE_CANCELLED
@@ -4415,6 +7262,77 @@ export const createCli = (options: CLIOptions = {}): CLI => {
         return EXIT_CODE.OK
       }
 
+      const handleTui = async (): Promise<number> => {
+        ensureArgumentCount({ command, args: commandArgs, min: 0, max: 0 })
+        if (runtime.json) {
+          throw createCliError("INVALID_ARGUMENT", {
+            message: "tui does not support --json",
+          })
+        }
+        if (runtime.isInteractive !== true) {
+          throw createCliError("DEPENDENCY_MISSING", {
+            message: "DEPENDENCY_MISSING: tui requires an interactive terminal",
+          })
+        }
+        const refreshIntervalMs =
+          toNumberOption({ value: parsedArgs.intervalMs, optionName: "--interval-ms" }) ??
+          DEFAULT_TUI_REFRESH_INTERVAL_MS
+        const inheritedArgs = [
+          ...(parsedArgs.hooks === false ? ["--no-hooks", "--allow-unsafe"] : []),
+          ...(parsedArgs.gh === false ? ["--no-gh"] : []),
+        ]
+        const createNestedCli = (output: Pick<CLIOptions, "stdout" | "stderr">): CLI => {
+          return createCli({
+            ...options,
+            ...output,
+            cwd: runtimeCwd,
+            isInteractive: () => true,
+          })
+        }
+
+        const runAction = async ({ action, branch }: TuiActionRequest): Promise<TuiActionResult> => {
+          const lines: string[] = []
+          const exitCode = await createNestedCli({
+            stdout: (line) => lines.push(line),
+            stderr: () => undefined,
+          }).run([action, branch, "--json", ...inheritedArgs])
+          const payload = parseJsonPayloadLine(lines.at(-1) ?? "")
+          if (exitCode === EXIT_CODE.OK) {
+            const status = typeof payload?.status === "string" ? payload.status : "ok"
+            return { ok: true, message: `${action} ${branch}: ${status}` }
+          }
+          const code = typeof payload?.code === "string" ? payload.code : `exit ${String(exitCode)}`
+          const message = typeof payload?.message === "string" ? payload.message : "failed"
+          return { ok: false, message: `${action} ${branch}: [${code}] ${message}` }
+        }
+
+        await runWorktreeTui({
+          refreshIntervalMs,
+          loadDashboard: async () => {
+            const snapshot = await collectWorktreeSnapshot(repoRoot)
+            const columns = resolvedConfig.list.table.columns
+            const tableRows = await buildListTableRows({ snapshot, columns })
+            return {
+              repoRoot,
+              baseBranch: snapshot.baseBranch,
+              columns,
+              rows: tableRows.map(
+                ({ worktree, cells }): TuiRow => ({
+                  branch: worktree.branch,
+                  path: worktree.path,
+                  cells,
+                }),
+              ),
+            }
+          },
+          runAction,
+          runExec: async ({ branch, argv }) => {
+            return createNestedCli({ stdout, stderr }).run(["exec", branch, ...inheritedArgs, "--", ...argv])
+          },
+        })
+        return EXIT_CODE.OK
+      }
+
       const miscCommandExitCode = await dispatchCommandHandler({
         command,
         handlers: createMiscCommandHandlers({
@@ -4422,9 +7340,12 @@ export const createCli = (options: CLIOptions = {}): CLI => {
           invokeHandler: handleInvoke,
           copyHandler: handleCopy,
           linkHandler: handleLink,
+          setupHandler: handleSetup,
           lockHandler: handleLock,
           unlockHandler: handleUnlock,
+          withLockHandler: handleWithLock,
           cdHandler: handleCd,
+          tuiHandler: handleTui,
         }),
       })
       if (miscCommandExitCode !== undefined) {
@@ -4436,6 +7357,12 @@ export const createCli = (options: CLIOptions = {}): CLI => {
       })
     } catch (error) {
       const cliError = ensureCliError(error)
+      if (operationJournal !== null) {
+        operationJournal.error = cliError
+      }
+      if (options.throwOnError === true) {
+        throw cliError
+      }
       if (jsonEnabled) {
         stdout(
           JSON.stringify(
@@ -4454,5 +7381,16 @@ export const createCli = (options: CLIOptions = {}): CLI => {
     }
   }
 
+  const run = async (rawArgs: string[] = process.argv.slice(2)): Promise<number> => {
+    operationJournal = null
+    let exitCode: number | undefined
+    try {
+      exitCode = await runCommand(rawArgs)
+      return exitCode
+    } finally {
+      await flushOperationJournal(exitCode)
+    }
+  }
+
   return { run }
 }
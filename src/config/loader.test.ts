@@ -259,6 +259,190 @@ describe("loadResolvedConfig", () => {
     })
   })
 
+  it("parses forge provider settings and requires forge.command for the command provider", async () => {
+    const repoRoot = await createTempDir("vde-worktree-config-forge-")
+    await mkdir(join(repoRoot, ".git"), { recursive: true })
+    await mkdir(join(repoRoot, ".vde", "worktree"), { recursive: true })
+    const configFile = join(repoRoot, ".vde", "worktree", "config.yml")
+
+    expect((await loadResolvedConfig({ cwd: repoRoot, repoRoot })).config.forge).toEqual({
+      provider: "gh",
+      command: [],
+    })
+
+    await writeFile(configFile, "forge:\n  provider: command\n  command: [./pr-status.sh, --json]\n", "utf8")
+    expect((await loadResolvedConfig({ cwd: repoRoot, repoRoot })).config.forge).toEqual({
+      provider: "command",
+      command: ["./pr-status.sh", "--json"],
+    })
+
+    await writeFile(configFile, "forge:\n  provider: bitbucket\n", "utf8")
+    await expect(loadResolvedConfig({ cwd: repoRoot, repoRoot })).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      details: {
+        file: configFile,
+        keyPath: "forge.provider",
+      },
+    })
+
+    await writeFile(configFile, "forge:\n  provider: command\n", "utf8")
+    await expect(loadResolvedConfig({ cwd: repoRoot, repoRoot })).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      details: {
+        keyPath: "forge.command",
+      },
+    })
+  })
+
+  it("parses gone policies and rejects a non-positive staleDays", async () => {
+    const repoRoot = await createTempDir("vde-worktree-config-gone-")
+    await mkdir(join(repoRoot, ".git"), { recursive: true })
+    await mkdir(join(repoRoot, ".vde", "worktree"), { recursive: true })
+    const configFile = join(repoRoot, ".vde", "worktree", "config.yml")
+
+    expect((await loadResolvedConfig({ cwd: repoRoot, repoRoot })).config.gone).toEqual({
+      includeClosed: false,
+      upstreamGone: false,
+      staleDays: null,
+    })
+
+    await writeFile(configFile, "gone:\n  includeClosed: true\n  staleDays: 30\n", "utf8")
+    expect((await loadResolvedConfig({ cwd: repoRoot, repoRoot })).config.gone).toEqual({
+      includeClosed: true,
+      upstreamGone: false,
+      staleDays: 30,
+    })
+
+    await writeFile(configFile, "gone:\n  staleDays: 0\n", "utf8")
+    await expect(loadResolvedConfig({ cwd: repoRoot, repoRoot })).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      details: {
+        keyPath: "gone.staleDays",
+      },
+    })
+  })
+
+  it("parses hook module map", async () => {
+    const repoRoot = await createTempDir("vde-worktree-config-hook-modules-")
+    await mkdir(join(repoRoot, ".git"), { recursive: true })
+    await mkdir(join(repoRoot, ".vde", "worktree"), { recursive: true })
+    const configFile = join(repoRoot, ".vde", "worktree", "config.yml")
+
+    expect((await loadResolvedConfig({ cwd: repoRoot, repoRoot })).config.hooks.modules).toEqual({})
+
+    await writeFile(configFile, "hooks:\n  modules:\n    post-new: scripts/hooks/post-new.ts\n", "utf8")
+    expect((await loadResolvedConfig({ cwd: repoRoot, repoRoot })).config.hooks.modules).toEqual({
+      "post-new": "scripts/hooks/post-new.ts",
+    })
+
+    await writeFile(configFile, "hooks:\n  modules:\n    on-new: scripts/hooks/post-new.ts\n", "utf8")
+    await expect(loadResolvedConfig({ cwd: repoRoot, repoRoot })).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      details: {
+        keyPath: "hooks.modules.on-new",
+      },
+    })
+  })
+
+  it("parses copy strategy", async () => {
+    const repoRoot = await createTempDir("vde-worktree-config-copy-strategy-")
+    await mkdir(join(repoRoot, ".git"), { recursive: true })
+    await mkdir(join(repoRoot, ".vde", "worktree"), { recursive: true })
+    const configFile = join(repoRoot, ".vde", "worktree", "config.yml")
+
+    expect((await loadResolvedConfig({ cwd: repoRoot, repoRoot })).config.copy.strategy).toBe("auto")
+
+    await writeFile(configFile, "copy:\n  strategy: hardlink\n", "utf8")
+    expect((await loadResolvedConfig({ cwd: repoRoot, repoRoot })).config.copy.strategy).toBe("hardlink")
+
+    await writeFile(configFile, "copy:\n  strategy: rsync\n", "utf8")
+    await expect(loadResolvedConfig({ cwd: repoRoot, repoRoot })).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      details: {
+        keyPath: "copy.strategy",
+      },
+    })
+  })
+
+  it("parses stale lock policies for del and gone", async () => {
+    const repoRoot = await createTempDir("vde-worktree-config-stale-lock-")
+    await mkdir(join(repoRoot, ".git"), { recursive: true })
+    await mkdir(join(repoRoot, ".vde", "worktree"), { recursive: true })
+    const configFile = join(repoRoot, ".vde", "worktree", "config.yml")
+
+    expect((await loadResolvedConfig({ cwd: repoRoot, repoRoot })).config.locks.stale).toEqual({
+      del: "respect",
+      gone: "respect",
+    })
+
+    await writeFile(configFile, "locks:\n  stale:\n    gone: ignore\n", "utf8")
+    expect((await loadResolvedConfig({ cwd: repoRoot, repoRoot })).config.locks.stale).toEqual({
+      del: "respect",
+      gone: "ignore",
+    })
+
+    await writeFile(configFile, "locks:\n  stale:\n    del: force\n", "utf8")
+    await expect(loadResolvedConfig({ cwd: repoRoot, repoRoot })).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      details: {
+        keyPath: "locks.stale.del",
+      },
+    })
+  })
+
+  it("parses setup copy/link/run and rejects unknown setup step keys", async () => {
+    const repoRoot = await createTempDir("vde-worktree-config-setup-")
+    await mkdir(join(repoRoot, ".git"), { recursive: true })
+    await mkdir(join(repoRoot, ".vde", "worktree"), { recursive: true })
+    const configFile = join(repoRoot, ".vde", "worktree", "config.yml")
+
+    expect((await loadResolvedConfig({ cwd: repoRoot, repoRoot })).config.setup).toEqual({
+      copy: [],
+      link: [],
+      run: [],
+    })
+
+    await writeFile(
+      configFile,
+      [
+        "setup:",
+        "  copy: [.envrc]",
+        "  link: [.claude/settings.local.json]",
+        "  run:",
+        "    - cmd: [pnpm, install]",
+        "    - cmd: [make, build]",
+        "      cwd: packages/app",
+        "      timeoutMs: 600000",
+        "",
+      ].join("\n"),
+      "utf8",
+    )
+    expect((await loadResolvedConfig({ cwd: repoRoot, repoRoot })).config.setup).toEqual({
+      copy: [".envrc"],
+      link: [".claude/settings.local.json"],
+      run: [
+        { cmd: ["pnpm", "install"], cwd: null, timeoutMs: null },
+        { cmd: ["make", "build"], cwd: "packages/app", timeoutMs: 600000 },
+      ],
+    })
+
+    await writeFile(configFile, "setup:\n  run:\n    - cmd: [pnpm, install]\n      shell: true\n", "utf8")
+    await expect(loadResolvedConfig({ cwd: repoRoot, repoRoot })).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      details: {
+        keyPath: "setup.run.0.shell",
+      },
+    })
+
+    await writeFile(configFile, "setup:\n  run:\n    - cmd: []\n", "utf8")
+    await expect(loadResolvedConfig({ cwd: repoRoot, repoRoot })).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      details: {
+        keyPath: "setup.run.0.cmd",
+      },
+    })
+  })
+
   it("throws INVALID_CONFIG on unknown keys", async () => {
     const repoRoot = await createTempDir("vde-worktree-config-invalid-")
     await mkdir(join(repoRoot, ".git"), { recursive: true })
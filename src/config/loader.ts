@@ -6,14 +6,21 @@ import { parse } from "yaml"
 import { createCliError } from "../core/errors"
 import { collectConfigSearchDirectories } from "./git-boundary"
 import {
+  COPY_STRATEGIES,
   DEFAULT_CONFIG,
+  FORGE_PROVIDERS,
   LIST_PATH_TRUNCATE_VALUES,
   LIST_TABLE_COLUMNS,
   SELECTOR_CD_SURFACE_VALUES,
+  STALE_LOCK_POLICIES,
+  type CopyStrategy,
+  type ForgeProvider,
   type ListPathTruncate,
   type ListTableColumn,
   type PartialConfig,
   type ResolvedConfig,
+  type SetupRunStep,
+  type StaleLockPolicy,
 } from "./types"
 
 const CONFIG_FILE_BASENAME = "config.yml"
@@ -290,6 +297,158 @@ const parseSelectorSurface = ({
   return value as ResolvedConfig["selector"]["cd"]["surface"]
 }
 
+const parseStaleLockPolicy = ({
+  value,
+  ctx,
+  keyPath,
+}: {
+  readonly value: unknown
+  readonly ctx: ValidationContext
+  readonly keyPath: readonly string[]
+}): StaleLockPolicy => {
+  if (typeof value !== "string" || (STALE_LOCK_POLICIES as readonly string[]).includes(value) !== true) {
+    throwInvalidConfig({
+      file: ctx.file,
+      keyPath: toKeyPath(keyPath),
+      reason: `must be one of: ${STALE_LOCK_POLICIES.join(", ")}`,
+    })
+  }
+  return value as StaleLockPolicy
+}
+
+const parseCopyStrategy = ({
+  value,
+  ctx,
+  keyPath,
+}: {
+  readonly value: unknown
+  readonly ctx: ValidationContext
+  readonly keyPath: readonly string[]
+}): CopyStrategy => {
+  if (typeof value !== "string" || (COPY_STRATEGIES as readonly string[]).includes(value) !== true) {
+    throwInvalidConfig({
+      file: ctx.file,
+      keyPath: toKeyPath(keyPath),
+      reason: `must be one of: ${COPY_STRATEGIES.join(", ")}`,
+    })
+  }
+  return value as CopyStrategy
+}
+
+const parseForgeProvider = ({
+  value,
+  ctx,
+  keyPath,
+}: {
+  readonly value: unknown
+  readonly ctx: ValidationContext
+  readonly keyPath: readonly string[]
+}): ForgeProvider => {
+  if (typeof value !== "string" || (FORGE_PROVIDERS as readonly string[]).includes(value) !== true) {
+    throwInvalidConfig({
+      file: ctx.file,
+      keyPath: toKeyPath(keyPath),
+      reason: `must be one of: ${FORGE_PROVIDERS.join(", ")}`,
+    })
+  }
+  return value as ForgeProvider
+}
+
+const parseHookModules = ({
+  value,
+  ctx,
+  keyPath,
+}: {
+  readonly value: unknown
+  readonly ctx: ValidationContext
+  readonly keyPath: readonly string[]
+}): Record<string, string> => {
+  const record = expectRecord({ value, ctx, keyPath })
+  const result: Record<string, string> = {}
+  for (const [hookName, modulePath] of Object.entries(record)) {
+    if (/^(pre|post)-[a-z0-9][a-z0-9-]*$/.test(hookName) !== true) {
+      return throwInvalidConfig({
+        file: ctx.file,
+        keyPath: toKeyPath([...keyPath, hookName]),
+        reason: "key must be a hook name (pre-* or post-*)",
+      })
+    }
+    if (typeof modulePath !== "string" || modulePath.length === 0) {
+      return throwInvalidConfig({
+        file: ctx.file,
+        keyPath: toKeyPath([...keyPath, hookName]),
+        reason: "must be a non-empty string",
+      })
+    }
+    result[hookName] = modulePath
+  }
+  return result
+}
+
+const parseSetupRunSteps = ({
+  value,
+  ctx,
+  keyPath,
+}: {
+  readonly value: unknown
+  readonly ctx: ValidationContext
+  readonly keyPath: readonly string[]
+}): SetupRunStep[] => {
+  if (Array.isArray(value) !== true) {
+    return throwInvalidConfig({
+      file: ctx.file,
+      keyPath: toKeyPath(keyPath),
+      reason: "must be an array",
+    })
+  }
+  const values = value as unknown[]
+  return values.map((item, index) => {
+    const stepKeyPath = [...keyPath, String(index)]
+    const step = expectRecord({
+      value: item,
+      ctx,
+      keyPath: stepKeyPath,
+    })
+    ensureNoUnknownKeys({
+      record: step,
+      allowedKeys: ["cmd", "cwd", "timeoutMs"],
+      ctx,
+      keyPath: stepKeyPath,
+    })
+    const cmd = parseStringArray({
+      value: step.cmd,
+      ctx,
+      keyPath: [...stepKeyPath, "cmd"],
+    })
+    if (cmd.length === 0) {
+      throwInvalidConfig({
+        file: ctx.file,
+        keyPath: toKeyPath([...stepKeyPath, "cmd"]),
+        reason: "must not be empty",
+      })
+    }
+    return {
+      cmd,
+      cwd:
+        step.cwd === undefined
+          ? null
+          : parseNonEmptyString({
+              value: step.cwd,
+              ctx,
+              keyPath: [...stepKeyPath, "cwd"],
+            }),
+      timeoutMs:
+        step.timeoutMs === undefined
+          ? null
+          : parsePositiveInteger({
+              value: step.timeoutMs,
+              ctx,
+              keyPath: [...stepKeyPath, "timeoutMs"],
+            }),
+    }
+  })
+}
+
 const validatePartialConfig = ({
   rawConfig,
   ctx,
@@ -308,7 +467,7 @@ const validatePartialConfig = ({
 
   ensureNoUnknownKeys({
     record: root,
-    allowedKeys: ["paths", "git", "github", "hooks", "locks", "list", "selector"],
+    allowedKeys: ["paths", "git", "github", "forge", "hooks", "locks", "gone", "list", "copy", "setup", "selector"],
     ctx,
     keyPath: [],
   })
@@ -398,6 +557,35 @@ const validatePartialConfig = ({
     }
   }
 
+  if (root.forge !== undefined) {
+    const forge = expectRecord({
+      value: root.forge,
+      ctx,
+      keyPath: ["forge"],
+    })
+    ensureNoUnknownKeys({
+      record: forge,
+      allowedKeys: ["provider", "command"],
+      ctx,
+      keyPath: ["forge"],
+    })
+    partial.forge = {}
+    if (forge.provider !== undefined) {
+      partial.forge.provider = parseForgeProvider({
+        value: forge.provider,
+        ctx,
+        keyPath: ["forge", "provider"],
+      })
+    }
+    if (forge.command !== undefined) {
+      partial.forge.command = parseStringArray({
+        value: forge.command,
+        ctx,
+        keyPath: ["forge", "command"],
+      })
+    }
+  }
+
   if (root.hooks !== undefined) {
     const hooks = expectRecord({
       value: root.hooks,
@@ -406,7 +594,7 @@ const validatePartialConfig = ({
     })
     ensureNoUnknownKeys({
       record: hooks,
-      allowedKeys: ["enabled", "timeoutMs"],
+      allowedKeys: ["enabled", "timeoutMs", "modules"],
       ctx,
       keyPath: ["hooks"],
     })
@@ -425,6 +613,13 @@ const validatePartialConfig = ({
         keyPath: ["hooks", "timeoutMs"],
       })
     }
+    if (hooks.modules !== undefined) {
+      partial.hooks.modules = parseHookModules({
+        value: hooks.modules,
+        ctx,
+        keyPath: ["hooks", "modules"],
+      })
+    }
   }
 
   if (root.locks !== undefined) {
@@ -435,7 +630,7 @@ const validatePartialConfig = ({
     })
     ensureNoUnknownKeys({
       record: locks,
-      allowedKeys: ["timeoutMs", "staleLockTTLSeconds"],
+      allowedKeys: ["timeoutMs", "staleLockTTLSeconds", "stale"],
       ctx,
       keyPath: ["locks"],
     })
@@ -454,6 +649,73 @@ const validatePartialConfig = ({
         keyPath: ["locks", "staleLockTTLSeconds"],
       })
     }
+    if (locks.stale !== undefined) {
+      const stale = expectRecord({
+        value: locks.stale,
+        ctx,
+        keyPath: ["locks", "stale"],
+      })
+      ensureNoUnknownKeys({
+        record: stale,
+        allowedKeys: ["del", "gone"],
+        ctx,
+        keyPath: ["locks", "stale"],
+      })
+      partial.locks.stale = {}
+      if (stale.del !== undefined) {
+        partial.locks.stale.del = parseStaleLockPolicy({
+          value: stale.del,
+          ctx,
+          keyPath: ["locks", "stale", "del"],
+        })
+      }
+      if (stale.gone !== undefined) {
+        partial.locks.stale.gone = parseStaleLockPolicy({
+          value: stale.gone,
+          ctx,
+          keyPath: ["locks", "stale", "gone"],
+        })
+      }
+    }
+  }
+
+  if (root.gone !== undefined) {
+    const gone = expectRecord({
+      value: root.gone,
+      ctx,
+      keyPath: ["gone"],
+    })
+    ensureNoUnknownKeys({
+      record: gone,
+      allowedKeys: ["includeClosed", "upstreamGone", "staleDays"],
+      ctx,
+      keyPath: ["gone"],
+    })
+    partial.gone = {}
+    if (gone.includeClosed !== undefined) {
+      partial.gone.includeClosed = parseBoolean({
+        value: gone.includeClosed,
+        ctx,
+        keyPath: ["gone", "includeClosed"],
+      })
+    }
+    if (gone.upstreamGone !== undefined) {
+      partial.gone.upstreamGone = parseBoolean({
+        value: gone.upstreamGone,
+        ctx,
+        keyPath: ["gone", "upstreamGone"],
+      })
+    }
+    if (gone.staleDays !== undefined) {
+      partial.gone.staleDays =
+        gone.staleDays === null
+          ? null
+          : parsePositiveInteger({
+              value: gone.staleDays,
+              ctx,
+              keyPath: ["gone", "staleDays"],
+            })
+    }
   }
 
   if (root.list !== undefined) {
@@ -528,6 +790,64 @@ const validatePartialConfig = ({
     }
   }
 
+  if (root.copy !== undefined) {
+    const copy = expectRecord({
+      value: root.copy,
+      ctx,
+      keyPath: ["copy"],
+    })
+    ensureNoUnknownKeys({
+      record: copy,
+      allowedKeys: ["strategy"],
+      ctx,
+      keyPath: ["copy"],
+    })
+    partial.copy = {}
+    if (copy.strategy !== undefined) {
+      partial.copy.strategy = parseCopyStrategy({
+        value: copy.strategy,
+        ctx,
+        keyPath: ["copy", "strategy"],
+      })
+    }
+  }
+
+  if (root.setup !== undefined) {
+    const setup = expectRecord({
+      value: root.setup,
+      ctx,
+      keyPath: ["setup"],
+    })
+    ensureNoUnknownKeys({
+      record: setup,
+      allowedKeys: ["copy", "link", "run"],
+      ctx,
+      keyPath: ["setup"],
+    })
+    partial.setup = {}
+    if (setup.copy !== undefined) {
+      partial.setup.copy = parseStringArray({
+        value: setup.copy,
+        ctx,
+        keyPath: ["setup", "copy"],
+      })
+    }
+    if (setup.link !== undefined) {
+      partial.setup.link = parseStringArray({
+        value: setup.link,
+        ctx,
+        keyPath: ["setup", "link"],
+      })
+    }
+    if (setup.run !== undefined) {
+      partial.setup.run = parseSetupRunSteps({
+        value: setup.run,
+        ctx,
+        keyPath: ["setup", "run"],
+      })
+    }
+  }
+
   if (root.selector !== undefined) {
     const selector = expectRecord({
       value: root.selector,
@@ -614,13 +934,27 @@ const mergeConfig = (base: ResolvedConfig, partial: PartialConfig): ResolvedConf
     github: {
       enabled: partial.github?.enabled ?? base.github.enabled,
     },
+    forge: {
+      provider: partial.forge?.provider ?? base.forge.provider,
+      command: partial.forge?.command ? [...partial.forge.command] : [...base.forge.command],
+    },
     hooks: {
       enabled: partial.hooks?.enabled ?? base.hooks.enabled,
       timeoutMs: partial.hooks?.timeoutMs ?? base.hooks.timeoutMs,
+      modules: { ...base.hooks.modules, ...(partial.hooks?.modules as Record<string, string> | undefined) },
     },
     locks: {
       timeoutMs: partial.locks?.timeoutMs ?? base.locks.timeoutMs,
       staleLockTTLSeconds: partial.locks?.staleLockTTLSeconds ?? base.locks.staleLockTTLSeconds,
+      stale: {
+        del: partial.locks?.stale?.del ?? base.locks.stale.del,
+        gone: partial.locks?.stale?.gone ?? base.locks.stale.gone,
+      },
+    },
+    gone: {
+      includeClosed: partial.gone?.includeClosed ?? base.gone.includeClosed,
+      upstreamGone: partial.gone?.upstreamGone ?? base.gone.upstreamGone,
+      staleDays: partial.gone?.staleDays === undefined ? base.gone.staleDays : partial.gone.staleDays,
     },
     list: {
       table: {
@@ -631,6 +965,14 @@ const mergeConfig = (base: ResolvedConfig, partial: PartialConfig): ResolvedConf
         },
       },
     },
+    copy: {
+      strategy: partial.copy?.strategy ?? base.copy.strategy,
+    },
+    setup: {
+      copy: partial.setup?.copy ? [...partial.setup.copy] : [...base.setup.copy],
+      link: partial.setup?.link ? [...partial.setup.link] : [...base.setup.link],
+      run: partial.setup?.run ? [...partial.setup.run] : [...base.setup.run],
+    },
     selector: {
       cd: {
         prompt: partial.selector?.cd?.prompt ?? base.selector.cd.prompt,
@@ -725,6 +1067,16 @@ const validateWorktreeRoot = async ({
   }
 }
 
+const validateForgeCommand = (config: ResolvedConfig): void => {
+  if (config.forge.provider === "command" && config.forge.command.length === 0) {
+    throwInvalidConfig({
+      file: "<resolved>",
+      keyPath: "forge.command",
+      reason: "must not be empty when forge.provider is command",
+    })
+  }
+}
+
 const parseConfigFile = async (file: string): Promise<PartialConfig> => {
   const rawContent = await readFile(file, "utf8")
   let parsed: unknown
@@ -763,6 +1115,7 @@ export const loadResolvedConfig = async ({
     repoRoot,
     config,
   })
+  validateForgeCommand(config)
 
   return {
     config,
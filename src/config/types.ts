@@ -4,10 +4,22 @@ export const LIST_TABLE_COLUMNS = ["branch", "dirty", "merged", "pr", "locked",
 
 export const LIST_PATH_TRUNCATE_VALUES = ["auto", "never"] as const
 export const SELECTOR_CD_SURFACE_VALUES = ["auto", "inline", "tmux-popup"] as const
+export const FORGE_PROVIDERS = ["gh", "glab", "tea", "command"] as const
+export const STALE_LOCK_POLICIES = ["respect", "ignore"] as const
+export const COPY_STRATEGIES = ["auto", "reflink", "hardlink", "copy"] as const
 
 export type ListTableColumn = (typeof LIST_TABLE_COLUMNS)[number]
 export type ListPathTruncate = (typeof LIST_PATH_TRUNCATE_VALUES)[number]
 export type SelectorCdSurface = (typeof SELECTOR_CD_SURFACE_VALUES)[number]
+export type ForgeProvider = (typeof FORGE_PROVIDERS)[number]
+export type StaleLockPolicy = (typeof STALE_LOCK_POLICIES)[number]
+export type CopyStrategy = (typeof COPY_STRATEGIES)[number]
+
+export type SetupRunStep = {
+  readonly cmd: ReadonlyArray<string>
+  readonly cwd: string | null
+  readonly timeoutMs: number | null
+}
 
 export type ResolvedConfig = {
   readonly paths: {
@@ -20,13 +32,27 @@ export type ResolvedConfig = {
   readonly github: {
     readonly enabled: boolean
   }
+  readonly forge: {
+    readonly provider: ForgeProvider
+    readonly command: ReadonlyArray<string>
+  }
   readonly hooks: {
     readonly enabled: boolean
     readonly timeoutMs: number
+    readonly modules: Readonly<Record<string, string>>
   }
   readonly locks: {
     readonly timeoutMs: number
     readonly staleLockTTLSeconds: number
+    readonly stale: {
+      readonly del: StaleLockPolicy
+      readonly gone: StaleLockPolicy
+    }
+  }
+  readonly gone: {
+    readonly includeClosed: boolean
+    readonly upstreamGone: boolean
+    readonly staleDays: number | null
   }
   readonly list: {
     readonly table: {
@@ -37,6 +63,14 @@ export type ResolvedConfig = {
       }
     }
   }
+  readonly copy: {
+    readonly strategy: CopyStrategy
+  }
+  readonly setup: {
+    readonly copy: ReadonlyArray<string>
+    readonly link: ReadonlyArray<string>
+    readonly run: ReadonlyArray<SetupRunStep>
+  }
   readonly selector: {
     readonly cd: {
       readonly prompt: string
@@ -70,13 +104,27 @@ export const DEFAULT_CONFIG: ResolvedConfig = {
   github: {
     enabled: true,
   },
+  forge: {
+    provider: "gh",
+    command: [],
+  },
   hooks: {
     enabled: true,
     timeoutMs: DEFAULT_HOOK_TIMEOUT_MS,
+    modules: {},
   },
   locks: {
     timeoutMs: DEFAULT_LOCK_TIMEOUT_MS,
     staleLockTTLSeconds: DEFAULT_STALE_LOCK_TTL_SECONDS,
+    stale: {
+      del: "respect",
+      gone: "respect",
+    },
+  },
+  gone: {
+    includeClosed: false,
+    upstreamGone: false,
+    staleDays: null,
   },
   list: {
     table: {
@@ -87,6 +135,14 @@ export const DEFAULT_CONFIG: ResolvedConfig = {
       },
     },
   },
+  copy: {
+    strategy: "auto",
+  },
+  setup: {
+    copy: [],
+    link: [],
+    run: [],
+  },
   selector: {
     cd: {
       prompt: "worktree> ",
@@ -16,16 +16,27 @@ export const EXIT_CODE = {
 export const DEFAULT_HOOK_TIMEOUT_MS = 30_000
 export const DEFAULT_LOCK_TIMEOUT_MS = 15_000
 export const DEFAULT_STALE_LOCK_TTL_SECONDS = 1_800
+export const DEFAULT_LOCK_HEARTBEAT_TTL_SECONDS = 60
+export const DEFAULT_WITH_LOCK_WAIT_SECONDS = 300
+export const DEFAULT_POOL_SIZE = 1
+export const DEFAULT_TUI_REFRESH_INTERVAL_MS = 5_000
+export const DEFAULT_EXEC_CONCURRENCY = 4
+export const DEFAULT_SNAPSHOT_CACHE_TTL_MS = 60_000
 
 export const COMMAND_NAMES = {
   INIT: "init",
   LIST: "list",
   STATUS: "status",
   PATH: "path",
+  LOG: "log",
+  DOCTOR: "doctor",
   SWITCH: "switch",
+  POOL: "pool",
   NEW: "new",
   MV: "mv",
   DEL: "del",
+  RESTORE: "restore",
+  TRASH: "trash",
   GONE: "gone",
   ADOPT: "adopt",
   GET: "get",
@@ -33,22 +44,33 @@ export const COMMAND_NAMES = {
   ABSORB: "absorb",
   UNABSORB: "unabsorb",
   USE: "use",
+  RESTACK: "restack",
+  PR: "pr",
+  PUSH: "push",
+  SYNC: "sync",
   EXEC: "exec",
   INVOKE: "invoke",
   COPY: "copy",
   LINK: "link",
+  SETUP: "setup",
   LOCK: "lock",
   UNLOCK: "unlock",
+  WITH_LOCK: "with-lock",
   CD: "cd",
+  TUI: "tui",
   COMPLETION: "completion",
 } as const
 
 export const WRITE_COMMANDS = new Set<string>([
   COMMAND_NAMES.INIT,
+  COMMAND_NAMES.DOCTOR,
   COMMAND_NAMES.SWITCH,
+  COMMAND_NAMES.POOL,
   COMMAND_NAMES.NEW,
   COMMAND_NAMES.MV,
   COMMAND_NAMES.DEL,
+  COMMAND_NAMES.RESTORE,
+  COMMAND_NAMES.TRASH,
   COMMAND_NAMES.GONE,
   COMMAND_NAMES.ADOPT,
   COMMAND_NAMES.GET,
@@ -56,6 +78,21 @@ export const WRITE_COMMANDS = new Set<string>([
   COMMAND_NAMES.ABSORB,
   COMMAND_NAMES.UNABSORB,
   COMMAND_NAMES.USE,
+  COMMAND_NAMES.RESTACK,
+  COMMAND_NAMES.SYNC,
+  COMMAND_NAMES.PR,
+  COMMAND_NAMES.PUSH,
+  COMMAND_NAMES.SETUP,
   COMMAND_NAMES.LOCK,
   COMMAND_NAMES.UNLOCK,
+  COMMAND_NAMES.WITH_LOCK,
 ])
+
+export const WRITE_COMMAND_FLAGS: Readonly<Record<string, string>> = {
+  [COMMAND_NAMES.DOCTOR]: "repair",
+  [COMMAND_NAMES.PR]: "create",
+}
+
+export const READ_ONLY_SUBCOMMANDS: Readonly<Record<string, ReadonlySet<string>>> = {
+  [COMMAND_NAMES.TRASH]: new Set(["list"]),
+}
@@ -0,0 +1,78 @@
+import { lstat, mkdir, mkdtemp, readFile, readlink, rm, stat, symlink, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, describe, expect, it } from "vitest"
+import { copyPathWithStrategy, formatByteSize, sumCopyStats } from "./copy-strategy"
+
+const tempDirs = new Set<string>()
+
+afterEach(async () => {
+  await Promise.all([...tempDirs].map(async (dir) => rm(dir, { recursive: true, force: true })))
+  tempDirs.clear()
+})
+
+const createSourceTree = async (): Promise<string> => {
+  const root = await mkdtemp(join(tmpdir(), "vde-worktree-copy-"))
+  tempDirs.add(root)
+  await mkdir(join(root, "src", "cache", "nested"), { recursive: true })
+  await writeFile(join(root, "src", "cache", "a.bin"), "aaaa", "utf8")
+  await writeFile(join(root, "src", "cache", "nested", "b.bin"), "bb", "utf8")
+  await symlink("a.bin", join(root, "src", "cache", "link"))
+  return root
+}
+
+describe("copy strategy", () => {
+  it("hardlinks files and reports saved bytes", async () => {
+    const root = await createSourceTree()
+    const destination = join(root, "dst", "cache")
+    await mkdir(join(root, "dst"))
+
+    const stats = await copyPathWithStrategy({
+      sourcePath: join(root, "src", "cache"),
+      destinationPath: destination,
+      strategy: "hardlink",
+    })
+
+    expect(stats).toEqual({ files: 2, bytes: 6, savedBytes: 6, reflinked: 0, hardlinked: 2 })
+    expect((await stat(join(destination, "a.bin"))).ino).toBe((await stat(join(root, "src", "cache", "a.bin"))).ino)
+    expect(await readlink(join(destination, "link"))).toBe("a.bin")
+  })
+
+  it("replaces existing links instead of writing through them", async () => {
+    const root = await createSourceTree()
+    const source = join(root, "src", "cache", "a.bin")
+    const destination = join(root, "dst.bin")
+    await symlink(source, destination)
+
+    const stats = await copyPathWithStrategy({ sourcePath: source, destinationPath: destination, strategy: "copy" })
+
+    expect(stats).toEqual({ files: 1, bytes: 4, savedBytes: 0, reflinked: 0, hardlinked: 0 })
+    expect((await lstat(destination)).isSymbolicLink()).toBe(false)
+    expect(await readFile(source, "utf8")).toBe("aaaa")
+  })
+
+  it("falls back to a plain copy when reflinks are unavailable", async () => {
+    const root = await createSourceTree()
+    const destination = join(root, "dst")
+
+    const stats = await copyPathWithStrategy({
+      sourcePath: join(root, "src", "cache"),
+      destinationPath: destination,
+      strategy: "auto",
+    })
+
+    expect(stats.files).toBe(2)
+    expect(stats.bytes).toBe(6)
+    expect(stats.savedBytes).toBe(stats.reflinked === 2 ? 6 : 0)
+    expect(await readFile(join(destination, "nested", "b.bin"), "utf8")).toBe("bb")
+  })
+
+  it("sums stats and formats sizes", () => {
+    const one = { files: 1, bytes: 2048, savedBytes: 2048, reflinked: 1, hardlinked: 0 }
+
+    expect(sumCopyStats([one, one])).toEqual({ files: 2, bytes: 4096, savedBytes: 4096, reflinked: 2, hardlinked: 0 })
+    expect(formatByteSize(512)).toBe("512 B")
+    expect(formatByteSize(1536)).toBe("1.5 KiB")
+    expect(formatByteSize(3 * 1024 ** 3)).toBe("3.0 GiB")
+  })
+})
@@ -0,0 +1,136 @@
+import { constants as fsConstants } from "node:fs"
+import { copyFile, link, lstat, mkdir, readdir, readlink, rm, symlink } from "node:fs/promises"
+import { join } from "node:path"
+import type { CopyStrategy } from "../config/types"
+
+export type CopyStats = {
+  readonly files: number
+  readonly bytes: number
+  readonly savedBytes: number
+  readonly reflinked: number
+  readonly hardlinked: number
+}
+
+type MutableCopyStats = {
+  -readonly [K in keyof CopyStats]: CopyStats[K]
+}
+
+type CopyRun = {
+  readonly strategy: CopyStrategy
+  readonly stats: MutableCopyStats
+  reflinkSupported: boolean
+}
+
+export const emptyCopyStats = (): CopyStats => {
+  return { files: 0, bytes: 0, savedBytes: 0, reflinked: 0, hardlinked: 0 }
+}
+
+export const sumCopyStats = (items: readonly CopyStats[]): CopyStats => {
+  return items.reduce<CopyStats>(
+    (total, item) => ({
+      files: total.files + item.files,
+      bytes: total.bytes + item.bytes,
+      savedBytes: total.savedBytes + item.savedBytes,
+      reflinked: total.reflinked + item.reflinked,
+      hardlinked: total.hardlinked + item.hardlinked,
+    }),
+    emptyCopyStats(),
+  )
+}
+
+export const formatByteSize = (bytes: number): string => {
+  const units = ["B", "KiB", "MiB", "GiB"]
+  let value = bytes
+  let unitIndex = 0
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024
+    unitIndex += 1
+  }
+  return unitIndex === 0 ? `${String(bytes)} B` : `${value.toFixed(1)} ${units[unitIndex] as string}`
+}
+
+const copyRegularFile = async ({
+  sourcePath,
+  destinationPath,
+  run,
+}: {
+  readonly sourcePath: string
+  readonly destinationPath: string
+  readonly run: CopyRun
+}): Promise<"hardlink" | "reflink" | "copy"> => {
+  if (run.strategy === "hardlink") {
+    try {
+      await link(sourcePath, destinationPath)
+      return "hardlink"
+    } catch {
+      // fall through to reflink/copy (e.g. cross-device or unsupported filesystem)
+    }
+  }
+  if (run.strategy !== "copy" && run.reflinkSupported) {
+    try {
+      await copyFile(sourcePath, destinationPath, fsConstants.COPYFILE_FICLONE_FORCE)
+      return "reflink"
+    } catch {
+      run.reflinkSupported = false
+    }
+  }
+  await copyFile(sourcePath, destinationPath)
+  return "copy"
+}
+
+const copyEntry = async ({
+  sourcePath,
+  destinationPath,
+  run,
+}: {
+  readonly sourcePath: string
+  readonly destinationPath: string
+  readonly run: CopyRun
+}): Promise<void> => {
+  const sourceStats = await lstat(sourcePath)
+  if (sourceStats.isDirectory()) {
+    const destinationStats = await lstat(destinationPath).catch(() => null)
+    if (destinationStats !== null && destinationStats.isDirectory() !== true) {
+      await rm(destinationPath, { force: true })
+    }
+    await mkdir(destinationPath, { recursive: true })
+    for (const name of (await readdir(sourcePath)).sort()) {
+      await copyEntry({ sourcePath: join(sourcePath, name), destinationPath: join(destinationPath, name), run })
+    }
+    return
+  }
+
+  await rm(destinationPath, { recursive: true, force: true })
+  if (sourceStats.isSymbolicLink()) {
+    await symlink(await readlink(sourcePath), destinationPath)
+    return
+  }
+  if (sourceStats.isFile() !== true) {
+    return
+  }
+
+  const method = await copyRegularFile({ sourcePath, destinationPath, run })
+  run.stats.files += 1
+  run.stats.bytes += sourceStats.size
+  if (method === "hardlink") {
+    run.stats.hardlinked += 1
+    run.stats.savedBytes += sourceStats.size
+  } else if (method === "reflink") {
+    run.stats.reflinked += 1
+    run.stats.savedBytes += sourceStats.size
+  }
+}
+
+export const copyPathWithStrategy = async ({
+  sourcePath,
+  destinationPath,
+  strategy,
+}: {
+  readonly sourcePath: string
+  readonly destinationPath: string
+  readonly strategy: CopyStrategy
+}): Promise<CopyStats> => {
+  const run: CopyRun = { strategy, stats: { ...emptyCopyStats() }, reflinkSupported: true }
+  await copyEntry({ sourcePath, destinationPath, run })
+  return { ...run.stats }
+}
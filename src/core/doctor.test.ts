@@ -0,0 +1,178 @@
+import { constants as fsConstants } from "node:fs"
+import { access, mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { execa } from "execa"
+import { afterEach, describe, expect, it } from "vitest"
+import { cleanupRepoFixtures, createRepoFixture } from "../test-utils/repo-fixture"
+import {
+  checkExcludeBlock,
+  checkHookPermissions,
+  checkInterruptedMutations,
+  checkManagedDirectories,
+  checkOrphanLifecycles,
+  checkOrphanLocks,
+  checkPrunableWorktrees,
+  checkUnmanagedWorktrees,
+} from "./doctor"
+import { initializeRepository } from "./init"
+import { appendMutationUndoStep, createMutationIntent, listMutationIntents } from "./mutation-intent"
+import { getHooksDirectoryPath, getLocksDirectoryPath, getLogsDirectoryPath, getStateDirectoryPath } from "./paths"
+
+const git = async (cwd: string, args: readonly string[]): Promise<string> => {
+  const result = await execa("git", [...args], { cwd })
+  return result.stdout
+}
+
+const isExecutable = async (path: string): Promise<boolean> => {
+  try {
+    await access(path, fsConstants.X_OK)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const createInitializedRepo = async (): Promise<string> => {
+  const repoRoot = await createRepoFixture({
+    prefix: "vde-worktree-doctor-",
+    setup: async (root) => {
+      await git(root, ["init", "-b", "main"])
+      await git(root, ["config", "user.name", "test-user"])
+      await git(root, ["config", "user.email", "test@example.com"])
+      await writeFile(join(root, "README.md"), "# test\n", "utf8")
+      await git(root, ["add", "."])
+      await git(root, ["commit", "-m", "initial"])
+    },
+  })
+  await initializeRepository({ repoRoot, managedWorktreeRoot: join(repoRoot, ".worktree") })
+  return repoRoot
+}
+
+const envBackup = new Map<string, string | undefined>()
+
+const setEnv = (key: string, value: string): void => {
+  if (envBackup.has(key) !== true) {
+    envBackup.set(key, process.env[key])
+  }
+  process.env[key] = value
+}
+
+afterEach(async () => {
+  for (const [key, value] of envBackup.entries()) {
+    if (value === undefined) {
+      delete process.env[key]
+    } else {
+      process.env[key] = value
+    }
+  }
+  envBackup.clear()
+  await cleanupRepoFixtures()
+})
+
+describe("doctor checks", () => {
+  it("recreates missing managed directories and the exclude block", async () => {
+    const repoRoot = await createInitializedRepo()
+    const managedWorktreeRoot = join(repoRoot, ".worktree")
+    await rm(getLogsDirectoryPath(repoRoot), { recursive: true })
+    await writeFile(join(repoRoot, ".git", "info", "exclude"), "*.tmp", "utf8")
+
+    const directories = await checkManagedDirectories({ repoRoot, managedWorktreeRoot, repair: true })
+    const exclude = await checkExcludeBlock({ repoRoot, managedWorktreeRoot, repair: true })
+
+    expect(directories).toMatchObject({ status: "error", items: [getLogsDirectoryPath(repoRoot)], repaired: true })
+    expect(exclude).toMatchObject({ status: "warn", repaired: true })
+    expect(await checkManagedDirectories({ repoRoot, managedWorktreeRoot, repair: false })).toMatchObject({
+      status: "ok",
+    })
+    expect(await readFile(join(repoRoot, ".git", "info", "exclude"), "utf8")).toBe(
+      "*.tmp\n# vde-worktree (managed)\n.worktree/\n.vde/worktree/\n",
+    )
+  })
+
+  it("reports uninitialized repositories as not repairable", async () => {
+    const repoRoot = await createInitializedRepo()
+    await rm(join(repoRoot, ".vde"), { recursive: true })
+
+    expect(
+      await checkManagedDirectories({ repoRoot, managedWorktreeRoot: join(repoRoot, ".worktree"), repair: true }),
+    ).toMatchObject({ status: "error", repairable: false, repaired: false })
+  })
+
+  it("makes hooks executable and removes records for missing branches", async () => {
+    const repoRoot = await createInitializedRepo()
+    const xdgConfigHome = await createRepoFixture({ prefix: "vde-worktree-xdg-" })
+    setEnv("XDG_CONFIG_HOME", xdgConfigHome)
+    const hookPath = join(getHooksDirectoryPath(repoRoot), "pre-new")
+    const dropInPath = join(getHooksDirectoryPath(repoRoot), "pre-new.d", "10-lint")
+    const userHookPath = join(xdgConfigHome, "vde", "worktree", "hooks", "post-new")
+    await mkdir(join(getHooksDirectoryPath(repoRoot), "pre-new.d"))
+    await mkdir(join(xdgConfigHome, "vde", "worktree", "hooks"), { recursive: true })
+    for (const path of [hookPath, dropInPath, userHookPath]) {
+      await writeFile(path, "#!/usr/bin/env bash\nexit 0\n", { encoding: "utf8", mode: 0o644 })
+    }
+    await writeFile(join(getHooksDirectoryPath(repoRoot), "post-new.mjs"), "export default () => {}\n", "utf8")
+    await writeFile(join(getLocksDirectoryPath(repoRoot), "main.json"), JSON.stringify({ branch: "main" }), "utf8")
+    await writeFile(join(getLocksDirectoryPath(repoRoot), "gone.json"), JSON.stringify({ branch: "gone" }), "utf8")
+    await mkdir(join(getStateDirectoryPath(repoRoot), "branches"), { recursive: true })
+    await writeFile(
+      join(getStateDirectoryPath(repoRoot), "branches", "gone.json"),
+      JSON.stringify({ branch: "gone" }),
+      "utf8",
+    )
+
+    const hooks = await checkHookPermissions({ repoRoot, repair: true })
+    const locks = await checkOrphanLocks({ repoRoot, repair: true })
+    const lifecycles = await checkOrphanLifecycles({ repoRoot, repair: false })
+
+    expect(hooks).toMatchObject({ status: "warn", items: [userHookPath, hookPath, dropInPath], repaired: true })
+    expect(await isExecutable(hookPath)).toBe(true)
+    expect(await isExecutable(dropInPath)).toBe(true)
+    expect(await isExecutable(userHookPath)).toBe(true)
+    expect(locks.items).toEqual([join(getLocksDirectoryPath(repoRoot), "gone.json")])
+    expect((await checkOrphanLocks({ repoRoot, repair: false })).status).toBe("ok")
+    expect(lifecycles).toMatchObject({ status: "warn", repaired: false })
+  })
+
+  it("prunes stale worktree entries and rolls back interrupted mutations", async () => {
+    const repoRoot = await createInitializedRepo()
+    const worktreePath = join(repoRoot, ".worktree", "feature", "a")
+    await git(repoRoot, ["worktree", "add", "-b", "feature/a", worktreePath])
+    await rm(worktreePath, { recursive: true })
+    await git(repoRoot, ["branch", "feature/b"])
+    const intent = await createMutationIntent({
+      repoRoot,
+      command: "new",
+      name: "new",
+      branch: "feature/b",
+      worktreePath,
+    })
+    await appendMutationUndoStep({
+      repoRoot,
+      intent,
+      step: { description: "delete created branch", cwd: repoRoot, args: ["branch", "-D", "feature/b"] },
+    })
+
+    const prunable = await checkPrunableWorktrees({ repoRoot, repair: true })
+    const interrupted = await checkInterruptedMutations({ repoRoot, repair: true })
+
+    expect(prunable).toMatchObject({ status: "warn", repaired: true })
+    expect(prunable.items).toHaveLength(1)
+    expect((await checkPrunableWorktrees({ repoRoot, repair: false })).status).toBe("ok")
+    expect(interrupted).toMatchObject({ status: "error", repaired: true })
+    expect(await listMutationIntents(repoRoot)).toEqual([])
+    expect(await git(repoRoot, ["branch", "--list", "feature/b"])).toBe("")
+  })
+
+  it("reports adopt candidates without repairing them", () => {
+    const check = checkUnmanagedWorktrees({
+      candidates: [{ branch: "feature/a", fromPath: "/tmp/a", toPath: "/repo/.worktree/feature/a" }],
+      skipped: [],
+    })
+
+    expect(check).toMatchObject({
+      status: "warn",
+      items: ["feature/a\t/tmp/a -> /repo/.worktree/feature/a"],
+      repairable: false,
+    })
+  })
+})
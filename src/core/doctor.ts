@@ -0,0 +1,355 @@
+import { constants as fsConstants } from "node:fs"
+import { access, chmod, mkdir, readdir, readFile, rm, stat } from "node:fs/promises"
+import { join } from "node:path"
+import { execa } from "execa"
+import { runGitCommand } from "../git/exec"
+import { listHookEntries } from "./hooks"
+import { ensureExcludeBlock, hasExcludeBlock } from "./init"
+import { listMutationIntents, rollbackMutationIntent } from "./mutation-intent"
+import {
+  getHooksDirectoryPath,
+  getLocksDirectoryPath,
+  getLogsDirectoryPath,
+  getStateDirectoryPath,
+  getWorktreeMetaRootPath,
+} from "./paths"
+import { inspectRepoLock } from "./repo-lock"
+import type { AdoptPlan } from "./worktree-adopt"
+
+const COMMAND_CHECK_TIMEOUT_MS = 5_000
+
+export type DoctorCheckStatus = "ok" | "warn" | "error"
+
+export type DoctorCheck = {
+  readonly name: string
+  readonly status: DoctorCheckStatus
+  readonly message: string
+  readonly items: readonly string[]
+  readonly repairable: boolean
+  readonly repaired: boolean
+}
+
+type DoctorCheckInput = {
+  readonly repoRoot: string
+  readonly repair: boolean
+}
+
+const okCheck = (name: string, message: string): DoctorCheck => {
+  return { name, status: "ok", message, items: [], repairable: false, repaired: false }
+}
+
+const doesPathExist = async (path: string): Promise<boolean> => {
+  try {
+    await access(path, fsConstants.F_OK)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const listJsonFiles = async (dir: string): Promise<string[]> => {
+  try {
+    return (await readdir(dir))
+      .filter((name) => name.endsWith(".json"))
+      .sort()
+      .map((name) => join(dir, name))
+  } catch {
+    return []
+  }
+}
+
+const readRecordBranch = async (path: string): Promise<string | null> => {
+  try {
+    const parsed = JSON.parse(await readFile(path, "utf8")) as { readonly branch?: unknown }
+    return typeof parsed.branch === "string" ? parsed.branch : null
+  } catch {
+    return null
+  }
+}
+
+const listLocalBranches = async (repoRoot: string): Promise<Set<string>> => {
+  const result = await runGitCommand({
+    cwd: repoRoot,
+    args: ["for-each-ref", "--format=%(refname)", "refs/heads"],
+  })
+  return new Set(
+    result.stdout
+      .split("\n")
+      .filter((line) => line.startsWith("refs/heads/"))
+      .map((line) => line.slice("refs/heads/".length)),
+  )
+}
+
+export const checkManagedDirectories = async ({
+  repoRoot,
+  managedWorktreeRoot,
+  repair,
+}: DoctorCheckInput & { readonly managedWorktreeRoot: string }): Promise<DoctorCheck> => {
+  const name = "directories"
+  if ((await doesPathExist(getWorktreeMetaRootPath(repoRoot))) !== true) {
+    return {
+      name,
+      status: "error",
+      message: "repository is not initialized (run `vw init`)",
+      items: [getWorktreeMetaRootPath(repoRoot)],
+      repairable: false,
+      repaired: false,
+    }
+  }
+
+  const required = [
+    managedWorktreeRoot,
+    getHooksDirectoryPath(repoRoot),
+    getLogsDirectoryPath(repoRoot),
+    getLocksDirectoryPath(repoRoot),
+    getStateDirectoryPath(repoRoot),
+  ]
+  const missing: string[] = []
+  for (const path of required) {
+    if ((await doesPathExist(path)) !== true) {
+      missing.push(path)
+    }
+  }
+  if (missing.length === 0) {
+    return okCheck(name, "managed directories exist")
+  }
+  if (repair) {
+    for (const path of missing) {
+      await mkdir(path, { recursive: true })
+    }
+  }
+  return {
+    name,
+    status: "error",
+    message: `${String(missing.length)} managed directories missing`,
+    items: missing,
+    repairable: true,
+    repaired: repair,
+  }
+}
+
+export const checkExcludeBlock = async ({
+  repoRoot,
+  managedWorktreeRoot,
+  repair,
+}: DoctorCheckInput & { readonly managedWorktreeRoot: string }): Promise<DoctorCheck> => {
+  const name = "exclude"
+  if (await hasExcludeBlock({ repoRoot, managedWorktreeRoot })) {
+    return okCheck(name, ".git/info/exclude contains the managed block")
+  }
+  if (repair) {
+    await ensureExcludeBlock({ repoRoot, managedWorktreeRoot })
+  }
+  return {
+    name,
+    status: "warn",
+    message: ".git/info/exclude is missing the managed block",
+    items: [join(repoRoot, ".git", "info", "exclude")],
+    repairable: true,
+    repaired: repair,
+  }
+}
+
+export const checkHookPermissions = async ({ repoRoot, repair }: DoctorCheckInput): Promise<DoctorCheck> => {
+  const name = "hooks"
+  const entries = await listHookEntries({ repoRoot })
+
+  const notExecutable: string[] = []
+  for (const { path } of entries.filter((entry) => entry.kind === "executable")) {
+    const stats = await stat(path).catch(() => null)
+    if (stats === null || stats.isFile() !== true) {
+      continue
+    }
+    try {
+      await access(path, fsConstants.X_OK)
+    } catch {
+      notExecutable.push(path)
+      if (repair) {
+        await chmod(path, stats.mode | 0o111)
+      }
+    }
+  }
+  if (notExecutable.length === 0) {
+    return okCheck(name, "hooks are executable")
+  }
+  return {
+    name,
+    status: "warn",
+    message: `${String(notExecutable.length)} hooks are not executable`,
+    items: notExecutable,
+    repairable: true,
+    repaired: repair,
+  }
+}
+
+const checkOrphanRecords = async ({
+  name,
+  label,
+  dir,
+  branches,
+  repair,
+}: {
+  readonly name: string
+  readonly label: string
+  readonly dir: string
+  readonly branches: ReadonlySet<string>
+  readonly repair: boolean
+}): Promise<DoctorCheck> => {
+  const orphans: string[] = []
+  for (const path of await listJsonFiles(dir)) {
+    const branch = await readRecordBranch(path)
+    if (branch !== null && branches.has(branch) !== true) {
+      orphans.push(path)
+      if (repair) {
+        await rm(path, { force: true })
+      }
+    }
+  }
+  if (orphans.length === 0) {
+    return okCheck(name, `no orphan ${label}`)
+  }
+  return {
+    name,
+    status: "warn",
+    message: `${String(orphans.length)} ${label} reference missing branches`,
+    items: orphans,
+    repairable: true,
+    repaired: repair,
+  }
+}
+
+export const checkOrphanLocks = async ({ repoRoot, repair }: DoctorCheckInput): Promise<DoctorCheck> => {
+  return checkOrphanRecords({
+    name: "orphan-locks",
+    label: "lock records",
+    dir: getLocksDirectoryPath(repoRoot),
+    branches: await listLocalBranches(repoRoot),
+    repair,
+  })
+}
+
+export const checkOrphanLifecycles = async ({ repoRoot, repair }: DoctorCheckInput): Promise<DoctorCheck> => {
+  return checkOrphanRecords({
+    name: "orphan-lifecycle",
+    label: "lifecycle records",
+    dir: join(getStateDirectoryPath(repoRoot), "branches"),
+    branches: await listLocalBranches(repoRoot),
+    repair,
+  })
+}
+
+export const checkStaleRepoLock = async ({
+  repoRoot,
+  staleLockTTLSeconds,
+  repair,
+}: DoctorCheckInput & { readonly staleLockTTLSeconds: number }): Promise<DoctorCheck> => {
+  const name = "repo-lock"
+  const inspection = await inspectRepoLock({ repoRoot, staleLockTTLSeconds })
+  if (inspection.exists !== true) {
+    return okCheck(name, "repo lock is free")
+  }
+  if (inspection.stale !== true) {
+    const holder = inspection.lock === null ? "" : ` by ${inspection.lock.command} (pid ${String(inspection.lock.pid)})`
+    return okCheck(name, `repo lock is held${holder}`)
+  }
+  if (repair) {
+    await rm(inspection.path, { force: true })
+  }
+  return {
+    name,
+    status: "warn",
+    message: "repo lock is stale",
+    items: [inspection.path],
+    repairable: true,
+    repaired: repair,
+  }
+}
+
+export const checkPrunableWorktrees = async ({ repoRoot, repair }: DoctorCheckInput): Promise<DoctorCheck> => {
+  const name = "prunable-worktrees"
+  const result = await runGitCommand({
+    cwd: repoRoot,
+    args: ["worktree", "prune", "--dry-run"],
+  })
+  const items = `${result.stdout}\n${result.stderr}`
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+  if (items.length === 0) {
+    return okCheck(name, "no prunable worktrees")
+  }
+  if (repair) {
+    await runGitCommand({ cwd: repoRoot, args: ["worktree", "prune"] })
+  }
+  return {
+    name,
+    status: "warn",
+    message: `${String(items.length)} worktree entries can be pruned`,
+    items,
+    repairable: true,
+    repaired: repair,
+  }
+}
+
+export const checkUnmanagedWorktrees = (plan: AdoptPlan): DoctorCheck => {
+  const name = "unmanaged-worktrees"
+  if (plan.candidates.length === 0) {
+    return okCheck(name, "no unmanaged worktrees to adopt")
+  }
+  return {
+    name,
+    status: "warn",
+    message: `${String(plan.candidates.length)} unmanaged worktrees can be adopted (run \`vw adopt --apply\`)`,
+    items: plan.candidates.map((candidate) => `${candidate.branch}\t${candidate.fromPath} -> ${candidate.toPath}`),
+    repairable: false,
+    repaired: false,
+  }
+}
+
+export const checkInterruptedMutations = async ({ repoRoot, repair }: DoctorCheckInput): Promise<DoctorCheck> => {
+  const name = "interrupted-mutations"
+  const intents = await listMutationIntents(repoRoot)
+  if (intents.length === 0) {
+    return okCheck(name, "no interrupted mutations")
+  }
+
+  let repaired = repair
+  if (repair) {
+    for (const intent of intents) {
+      const failures = await rollbackMutationIntent({ repoRoot, intent })
+      if (failures.length > 0) {
+        repaired = false
+      }
+    }
+  }
+  return {
+    name,
+    status: "error",
+    message: `${String(intents.length)} interrupted mutations need rollback`,
+    items: intents.map((intent) => `${intent.id}\t${intent.name}\t${intent.branch ?? "(detached)"}`),
+    repairable: true,
+    repaired,
+  }
+}
+
+export const checkCommandAvailability = async ({
+  binary,
+  purpose,
+}: {
+  readonly binary: string
+  readonly purpose: string
+}): Promise<DoctorCheck> => {
+  try {
+    await execa(binary, ["--version"], { timeout: COMMAND_CHECK_TIMEOUT_MS })
+    return okCheck(binary, `${binary} is available`)
+  } catch {
+    return {
+      name: binary,
+      status: "warn",
+      message: `${binary} is not available (${purpose})`,
+      items: [],
+      repairable: false,
+      repaired: false,
+    }
+  }
+}
@@ -20,7 +20,10 @@ export type ErrorCode =
   | "UNMERGED_WORKTREE"
   | "UNPUSHED_WORKTREE"
   | "LOCKED_WORKTREE"
+  | "PROTECTED_BRANCH"
   | "STASH_APPLY_FAILED"
+  | "TRASH_ENTRY_NOT_FOUND"
+  | "REBASE_CONFLICT"
   | "REMOTE_NOT_FOUND"
   | "REMOTE_BRANCH_NOT_FOUND"
   | "INVALID_REMOTE_BRANCH_FORMAT"
@@ -31,6 +34,8 @@ export type ErrorCode =
   | "HOOK_NOT_EXECUTABLE"
   | "HOOK_TIMEOUT"
   | "HOOK_FAILED"
+  | "SETUP_FAILED"
+  | "PR_COMMAND_FAILED"
   | "GIT_COMMAND_FAILED"
   | "INTERNAL_ERROR"
 
@@ -54,7 +59,10 @@ const ERROR_CODE_TO_EXIT_CODE: Record<ErrorCode, number> = {
   UNMERGED_WORKTREE: EXIT_CODE.SAFETY_REJECTED,
   UNPUSHED_WORKTREE: EXIT_CODE.SAFETY_REJECTED,
   LOCKED_WORKTREE: EXIT_CODE.SAFETY_REJECTED,
+  PROTECTED_BRANCH: EXIT_CODE.SAFETY_REJECTED,
   STASH_APPLY_FAILED: EXIT_CODE.SAFETY_REJECTED,
+  TRASH_ENTRY_NOT_FOUND: EXIT_CODE.SAFETY_REJECTED,
+  REBASE_CONFLICT: EXIT_CODE.GIT_COMMAND_FAILED,
   REMOTE_NOT_FOUND: EXIT_CODE.SAFETY_REJECTED,
   REMOTE_BRANCH_NOT_FOUND: EXIT_CODE.SAFETY_REJECTED,
   INVALID_REMOTE_BRANCH_FORMAT: EXIT_CODE.INVALID_ARGUMENT,
@@ -65,6 +73,8 @@ const ERROR_CODE_TO_EXIT_CODE: Record<ErrorCode, number> = {
   HOOK_NOT_EXECUTABLE: EXIT_CODE.HOOK_FAILED,
   HOOK_TIMEOUT: EXIT_CODE.HOOK_FAILED,
   HOOK_FAILED: EXIT_CODE.HOOK_FAILED,
+  SETUP_FAILED: EXIT_CODE.HOOK_FAILED,
+  PR_COMMAND_FAILED: EXIT_CODE.CHILD_PROCESS_FAILED,
   GIT_COMMAND_FAILED: EXIT_CODE.GIT_COMMAND_FAILED,
   INTERNAL_ERROR: EXIT_CODE.INTERNAL_ERROR,
 }
@@ -0,0 +1,74 @@
+import { mkdir, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { execa } from "execa"
+import { afterEach, describe, expect, it } from "vitest"
+import { cleanupRepoFixtures, createRepoFixture } from "../test-utils/repo-fixture"
+import { discoverUntrackedFiles, parseFileSizeBytes } from "./file-discovery"
+
+const git = async (cwd: string, args: readonly string[]): Promise<void> => {
+  await execa("git", [...args], { cwd })
+}
+
+const createRepo = async (): Promise<string> => {
+  return createRepoFixture({
+    prefix: "vde-worktree-discovery-",
+    setup: async (root) => {
+      await git(root, ["init", "-b", "main"])
+      await git(root, ["config", "user.name", "test-user"])
+      await git(root, ["config", "user.email", "test@example.com"])
+      await writeFile(join(root, ".gitignore"), ".env*\nnode_modules/\n", "utf8")
+      await git(root, ["add", "."])
+      await git(root, ["commit", "-m", "initial"])
+      await mkdir(join(root, "apps", "web", "node_modules"), { recursive: true })
+      await mkdir(join(root, ".vde", "worktree", "state"), { recursive: true })
+      await writeFile(join(root, ".env"), "A=1\n", "utf8")
+      await writeFile(join(root, "apps", "web", ".env.local"), "B=2\n".repeat(100), "utf8")
+      await writeFile(join(root, "apps", "web", "node_modules", "dep.js"), "", "utf8")
+      await writeFile(join(root, "notes.txt"), "untracked\n", "utf8")
+      await writeFile(join(root, ".vde", "worktree", "state", "x.json"), "{}", "utf8")
+    },
+  })
+}
+
+afterEach(cleanupRepoFixtures)
+
+describe("file discovery", () => {
+  it("parses sizes with binary units", () => {
+    expect(parseFileSizeBytes({ value: "512", option: "--max-size" })).toBe(512)
+    expect(parseFileSizeBytes({ value: "10k", option: "--max-size" })).toBe(10 * 1024)
+    expect(parseFileSizeBytes({ value: "2MB", option: "--max-size" })).toBe(2 * 1024 ** 2)
+    expect(() => parseFileSizeBytes({ value: "0", option: "--max-size" })).toThrowError(/--max-size/)
+    expect(() => parseFileSizeBytes({ value: "big", option: "--max-size" })).toThrowError(/--max-size/)
+  })
+
+  it("lists ignored files filtered by patterns and size", async () => {
+    const repoRoot = await createRepo()
+
+    const result = await discoverUntrackedFiles({
+      repoRoot,
+      managedWorktreeRoot: join(repoRoot, ".worktree"),
+      ignoredOnly: true,
+      globs: [],
+      excludes: ["**/node_modules/**"],
+      maxSizeBytes: 100,
+    })
+
+    expect(result.files).toEqual([{ path: ".env", size: 4 }])
+    expect(result.skipped).toEqual([{ path: "apps/web/.env.local", size: 400, reason: "too-large" }])
+  })
+
+  it("matches globs against all untracked files", async () => {
+    const repoRoot = await createRepo()
+
+    const result = await discoverUntrackedFiles({
+      repoRoot,
+      managedWorktreeRoot: join(repoRoot, ".worktree"),
+      ignoredOnly: false,
+      globs: ["**/.env*", "*.txt"],
+      excludes: [],
+      maxSizeBytes: null,
+    })
+
+    expect(result.files.map((file) => file.path)).toEqual([".env", "apps/web/.env.local", "notes.txt"])
+  })
+})
@@ -0,0 +1,91 @@
+import { lstat } from "node:fs/promises"
+import { join } from "node:path"
+import { runGitCommand } from "../git/exec"
+import { createCliError } from "./errors"
+import { getWorktreeMetaRootPath, isManagedWorktreePath } from "./paths"
+import { globToRegExp } from "./worktree-query"
+
+const FILE_SIZE_UNIT_BYTES: Readonly<Record<string, number>> = {
+  "": 1,
+  k: 1024,
+  m: 1024 ** 2,
+  g: 1024 ** 3,
+}
+
+export type DiscoveredFile = {
+  readonly path: string
+  readonly size: number
+}
+
+export type FileDiscoveryResult = {
+  readonly files: DiscoveredFile[]
+  readonly skipped: Array<DiscoveredFile & { readonly reason: "too-large" }>
+}
+
+export const parseFileSizeBytes = ({ value, option }: { readonly value: string; readonly option: string }): number => {
+  const matched = /^(\d+)([kmg]?)b?$/i.exec(value)
+  const amount = matched === null ? 0 : Number.parseInt(matched[1] as string, 10)
+  if (matched === null || amount <= 0) {
+    throw createCliError("INVALID_ARGUMENT", {
+      message: `${option} must be a positive size (e.g. 512k, 10M, 1G)`,
+      details: { value },
+    })
+  }
+  return amount * (FILE_SIZE_UNIT_BYTES[(matched[2] as string).toLowerCase()] as number)
+}
+
+const matchesAny = (path: string, patterns: readonly RegExp[]): boolean => {
+  return patterns.some((pattern) => pattern.test(path))
+}
+
+export const discoverUntrackedFiles = async ({
+  repoRoot,
+  managedWorktreeRoot,
+  ignoredOnly,
+  globs,
+  excludes,
+  maxSizeBytes,
+}: {
+  readonly repoRoot: string
+  readonly managedWorktreeRoot: string
+  readonly ignoredOnly: boolean
+  readonly globs: readonly string[]
+  readonly excludes: readonly string[]
+  readonly maxSizeBytes: number | null
+}): Promise<FileDiscoveryResult> => {
+  const result = await runGitCommand({
+    cwd: repoRoot,
+    args: ["ls-files", "-z", "--others", ...(ignoredOnly ? ["--ignored", "--exclude-standard"] : [])],
+  })
+  const includePatterns = globs.map(globToRegExp)
+  const excludePatterns = excludes.map(globToRegExp)
+  const metaRoot = getWorktreeMetaRootPath(repoRoot)
+
+  const files: DiscoveredFile[] = []
+  const skipped: FileDiscoveryResult["skipped"] = []
+  for (const path of result.stdout.split("\0").sort()) {
+    if (path.length === 0 || path.endsWith("/")) {
+      continue
+    }
+    const absolutePath = join(repoRoot, path)
+    if (
+      isManagedWorktreePath({ worktreePath: absolutePath, managedWorktreeRoot }) ||
+      isManagedWorktreePath({ worktreePath: absolutePath, managedWorktreeRoot: metaRoot })
+    ) {
+      continue
+    }
+    if (includePatterns.length > 0 && matchesAny(path, includePatterns) !== true) {
+      continue
+    }
+    if (matchesAny(path, excludePatterns)) {
+      continue
+    }
+    const stats = await lstat(absolutePath)
+    if (maxSizeBytes !== null && stats.size > maxSizeBytes) {
+      skipped.push({ path, size: stats.size, reason: "too-large" })
+      continue
+    }
+    files.push({ path, size: stats.size })
+  }
+  return { files, skipped }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest"
+import { resolveGoneReasons, type GonePolicy } from "./gone-policy"
+import type { WorktreeMergeLifecycleRecord } from "./worktree-merge-lifecycle"
+import type { WorktreeStatus } from "./worktree-state"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = Date.parse("2026-03-01T00:00:00.000Z")
+
+const worktree = ({
+  merged = null,
+  pr = "none",
+}: {
+  readonly merged?: boolean | null
+  readonly pr?: WorktreeStatus["pr"]["status"]
+}): WorktreeStatus => {
+  return {
+    branch: "feature/a",
+    path: "/repo/.worktree/feature/a",
+    head: "abc",
+    parent: null,
+    dirty: false,
+    locked: { value: false, reason: null, owner: null, stale: false, expiresAt: null },
+    merged: { byAncestry: merged, byPR: null, overall: merged },
+    pr: { status: pr, url: null },
+    upstream: { ahead: null, behind: null, remote: null },
+  }
+}
+
+const lifecycle = ({
+  everDiverged = false,
+  createdAt,
+  updatedAt,
+}: {
+  readonly everDiverged?: boolean
+  readonly createdAt: number
+  readonly updatedAt: number
+}): WorktreeMergeLifecycleRecord => {
+  return {
+    schemaVersion: 2,
+    branch: "feature/a",
+    worktreeId: "feature__a",
+    baseBranch: "main",
+    parentBranch: null,
+    everDiverged,
+    lastDivergedHead: everDiverged ? "abc" : null,
+    createdAt: new Date(createdAt).toISOString(),
+    updatedAt: new Date(updatedAt).toISOString(),
+  }
+}
+
+const policy = (overrides: Partial<GonePolicy> = {}): GonePolicy => {
+  return { includeClosed: false, upstreamGone: false, staleDays: null, ...overrides }
+}
+
+describe("resolveGoneReasons", () => {
+  it("only selects merged worktrees by default", () => {
+    const activity = { upstreamGone: true, lastCommitAt: NOW - 100 * DAY_MS }
+
+    expect(
+      resolveGoneReasons({ worktree: worktree({ merged: true }), policy: policy(), activity, lifecycle: null }),
+    ).toEqual(["merged"])
+    expect(
+      resolveGoneReasons({
+        worktree: worktree({ merged: false, pr: "closed_unmerged" }),
+        policy: policy(),
+        activity,
+        lifecycle: null,
+      }),
+    ).toEqual([])
+  })
+
+  it("adds closed, upstream gone, and stale reasons when enabled", () => {
+    expect(
+      resolveGoneReasons({
+        worktree: worktree({ merged: false, pr: "closed_unmerged" }),
+        policy: policy({ includeClosed: true, upstreamGone: true, staleDays: 30 }),
+        activity: { upstreamGone: true, lastCommitAt: NOW - 31 * DAY_MS },
+        lifecycle: null,
+        now: NOW,
+      }),
+    ).toEqual(["closed_unmerged", "upstream_gone", "stale"])
+    expect(
+      resolveGoneReasons({
+        worktree: worktree({ merged: false }),
+        policy: policy({ staleDays: 30 }),
+        activity: { upstreamGone: false, lastCommitAt: NOW - 29 * DAY_MS },
+        lifecycle: null,
+        now: NOW,
+      }),
+    ).toEqual([])
+  })
+
+  it("uses lifecycle createdAt for branches created after their last commit", () => {
+    const activity = { upstreamGone: false, lastCommitAt: NOW - 60 * DAY_MS }
+
+    expect(
+      resolveGoneReasons({
+        worktree: worktree({ merged: false }),
+        policy: policy({ staleDays: 30 }),
+        activity,
+        lifecycle: lifecycle({ createdAt: NOW - 2 * DAY_MS, updatedAt: NOW - 2 * DAY_MS }),
+        now: NOW,
+      }),
+    ).toEqual([])
+  })
+
+  it("ignores lifecycle updatedAt rewritten without new commits", () => {
+    const activity = { upstreamGone: false, lastCommitAt: NOW - 60 * DAY_MS }
+
+    for (const everDiverged of [false, true]) {
+      expect(
+        resolveGoneReasons({
+          worktree: worktree({ merged: false }),
+          policy: policy({ staleDays: 30 }),
+          activity,
+          lifecycle: lifecycle({ everDiverged, createdAt: NOW - 90 * DAY_MS, updatedAt: NOW }),
+          now: NOW,
+        }),
+      ).toEqual(["stale"])
+    }
+  })
+})
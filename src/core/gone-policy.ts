@@ -0,0 +1,89 @@
+import { runGitCommand } from "../git/exec"
+import type { WorktreeMergeLifecycleRecord } from "./worktree-merge-lifecycle"
+import type { WorktreeStatus } from "./worktree-state"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type GoneReason = "merged" | "closed_unmerged" | "upstream_gone" | "stale"
+
+export type GonePolicy = {
+  readonly includeClosed: boolean
+  readonly upstreamGone: boolean
+  readonly staleDays: number | null
+}
+
+export type BranchActivity = {
+  readonly upstreamGone: boolean
+  readonly lastCommitAt: number | null
+}
+
+export const readBranchActivity = async (repoRoot: string): Promise<Map<string, BranchActivity>> => {
+  const result = await runGitCommand({
+    cwd: repoRoot,
+    args: ["for-each-ref", "--format=%(refname:short)%00%(upstream:track)%00%(committerdate:unix)", "refs/heads"],
+    reject: false,
+  })
+  const activityByBranch = new Map<string, BranchActivity>()
+  if (result.exitCode !== 0) {
+    return activityByBranch
+  }
+  for (const line of result.stdout.split("\n")) {
+    const [branch, track, committedAt] = line.split("\0")
+    if (branch === undefined || branch.length === 0) {
+      continue
+    }
+    const seconds = Number.parseInt(committedAt ?? "", 10)
+    activityByBranch.set(branch, {
+      upstreamGone: track === "[gone]",
+      lastCommitAt: Number.isFinite(seconds) ? seconds * 1000 : null,
+    })
+  }
+  return activityByBranch
+}
+
+const resolveLastActivityAt = ({
+  activity,
+  lifecycle,
+}: {
+  readonly activity: BranchActivity | undefined
+  readonly lifecycle: WorktreeMergeLifecycleRecord | null
+}): number | null => {
+  const lastCommitAt = activity?.lastCommitAt ?? null
+  const createdAt = lifecycle === null ? Number.NaN : Date.parse(lifecycle.createdAt)
+  if (Number.isNaN(createdAt)) {
+    return lastCommitAt
+  }
+  return lastCommitAt === null ? createdAt : Math.max(lastCommitAt, createdAt)
+}
+
+export const resolveGoneReasons = ({
+  worktree,
+  policy,
+  activity,
+  lifecycle,
+  now = Date.now(),
+}: {
+  readonly worktree: WorktreeStatus
+  readonly policy: GonePolicy
+  readonly activity: BranchActivity | undefined
+  readonly lifecycle: WorktreeMergeLifecycleRecord | null
+  readonly now?: number
+}): GoneReason[] => {
+  const reasons: GoneReason[] = []
+  if (worktree.merged.overall === true) {
+    reasons.push("merged")
+  }
+  if (policy.includeClosed && worktree.pr.status === "closed_unmerged") {
+    reasons.push("closed_unmerged")
+  }
+  if (policy.upstreamGone && activity?.upstreamGone === true) {
+    reasons.push("upstream_gone")
+  }
+  if (policy.staleDays !== null) {
+    const lastActivityAt = resolveLastActivityAt({ activity, lifecycle })
+    if (lastActivityAt !== null && now - lastActivityAt >= policy.staleDays * DAY_MS) {
+      reasons.push("stale")
+    }
+  }
+  return reasons
+}
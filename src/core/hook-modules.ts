@@ -0,0 +1,221 @@
+import { constants as fsConstants } from "node:fs"
+import { access, stat } from "node:fs/promises"
+import { join } from "node:path"
+import { pathToFileURL } from "node:url"
+import { execa } from "execa"
+import type { CopyStats } from "./copy-strategy"
+import { DEFAULT_HOOK_TIMEOUT_MS } from "./constants"
+import { createCliError } from "./errors"
+import type { HookExecutionContext, HookExecutionResult } from "./hooks"
+import { resolveRepoRelativePath } from "./paths"
+import type { WorktreeStatus } from "./worktree-state"
+import { copyIntoWorktree, linkIntoWorktree } from "./worktree-setup"
+
+export const HOOK_MODULE_EXTENSIONS = [".mjs", ".js", ".mts", ".ts"] as const
+
+export type HookModuleExecResult = {
+  readonly exitCode: number
+  readonly stdout: string
+  readonly stderr: string
+}
+
+export type HookModuleContext = {
+  readonly repoRoot: string
+  readonly hookName: string
+  readonly phase: "pre" | "post"
+  readonly action: string
+  readonly branch: string | null
+  readonly worktreePath: string | null
+  readonly args: readonly string[]
+  readonly env: Readonly<Record<string, string>>
+  readonly status: WorktreeStatus | null
+  readonly signal: AbortSignal
+  readonly log: (message: string) => void
+  readonly copy: (relativePath: string) => Promise<CopyStats>
+  readonly link: (relativePath: string) => Promise<void>
+  readonly exec: (
+    file: string,
+    args?: readonly string[],
+    options?: { readonly cwd?: string },
+  ) => Promise<HookModuleExecResult>
+}
+
+export type HookModule = (context: HookModuleContext) => void | Promise<void>
+
+const doesFileExist = async (path: string): Promise<boolean> => {
+  try {
+    await access(path, fsConstants.F_OK)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const isHookModulePath = (path: string): boolean => {
+  return HOOK_MODULE_EXTENSIONS.some((extension) => path.endsWith(extension))
+}
+
+export const findHookModulePath = async ({
+  repoRoot,
+  hooksDirectory,
+  hookName,
+  modules,
+}: {
+  readonly repoRoot: string
+  readonly hooksDirectory: string
+  readonly hookName: string
+  readonly modules?: Readonly<Record<string, string>>
+}): Promise<string | null> => {
+  const configured = modules?.[hookName]
+  if (configured !== undefined) {
+    const path = resolveRepoRelativePath({ repoRoot, relativePath: configured })
+    if ((await doesFileExist(path)) !== true) {
+      throw createCliError("HOOK_NOT_FOUND", {
+        message: `Hook module not found: ${configured}`,
+        details: { hook: hookName, path },
+      })
+    }
+    return path
+  }
+  for (const extension of HOOK_MODULE_EXTENSIONS) {
+    const path = join(hooksDirectory, `${hookName}${extension}`)
+    if (await doesFileExist(path)) {
+      return path
+    }
+  }
+  return null
+}
+
+const importHookModule = async (path: string): Promise<HookModule> => {
+  const url = pathToFileURL(path)
+  url.searchParams.set("mtime", String(Math.trunc((await stat(path)).mtimeMs)))
+  const imported = (await import(url.href)) as { readonly default?: unknown }
+  if (typeof imported.default !== "function") {
+    throw new Error(`Hook module must export a default function: ${path}`)
+  }
+  return imported.default as HookModule
+}
+
+const requireWorktreePath = (worktreePath: string | null, helper: string): string => {
+  if (worktreePath === null) {
+    throw new Error(`${helper}() requires a worktree path`)
+  }
+  return worktreePath
+}
+
+const createHookModuleContext = async ({
+  hookName,
+  phase,
+  args,
+  env,
+  context,
+  signal,
+}: {
+  readonly hookName: string
+  readonly phase: "pre" | "post"
+  readonly args: readonly string[]
+  readonly env: Readonly<Record<string, string>>
+  readonly context: HookExecutionContext
+  readonly signal: AbortSignal
+}): Promise<HookModuleContext> => {
+  const worktreePath = context.worktreePath ?? null
+  const status = context.resolveStatus === undefined ? null : await context.resolveStatus().catch(() => null)
+  return {
+    repoRoot: context.repoRoot,
+    hookName,
+    phase,
+    action: context.action,
+    branch: context.branch ?? null,
+    worktreePath,
+    args,
+    env,
+    status,
+    signal,
+    log: context.stderr,
+    copy: async (relativePath): Promise<CopyStats> => {
+      return copyIntoWorktree({
+        repoRoot: context.repoRoot,
+        targetWorktreeRoot: requireWorktreePath(worktreePath, "copy"),
+        relativePath,
+        strategy: context.copyStrategy ?? "auto",
+      })
+    },
+    link: async (relativePath): Promise<void> => {
+      await linkIntoWorktree({
+        repoRoot: context.repoRoot,
+        targetWorktreeRoot: requireWorktreePath(worktreePath, "link"),
+        relativePath,
+        fallback: true,
+      })
+    },
+    exec: async (file, execArgs = [], options = {}): Promise<HookModuleExecResult> => {
+      const result = await execa(file, [...execArgs], {
+        cwd: options.cwd ?? worktreePath ?? context.repoRoot,
+        env: { ...process.env, ...env },
+        cancelSignal: signal,
+        reject: false,
+      })
+      return {
+        exitCode: result.exitCode ?? 1,
+        stdout: result.stdout ?? "",
+        stderr: result.stderr ?? "",
+      }
+    },
+  }
+}
+
+export const executeHookModule = async ({
+  path,
+  hookName,
+  phase,
+  args,
+  env,
+  context,
+}: {
+  readonly path: string
+  readonly hookName: string
+  readonly phase: "pre" | "post"
+  readonly args: readonly string[]
+  readonly env: Readonly<Record<string, string>>
+  readonly context: HookExecutionContext
+}): Promise<HookExecutionResult> => {
+  const startedAt = new Date().toISOString()
+  const controller = new AbortController()
+  let timer: NodeJS.Timeout | undefined
+  const timeout = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => resolve("timeout"), context.timeoutMs ?? DEFAULT_HOOK_TIMEOUT_MS)
+  })
+
+  try {
+    const hook = await importHookModule(path)
+    const moduleContext = await createHookModuleContext({
+      hookName,
+      phase,
+      args,
+      env,
+      context,
+      signal: controller.signal,
+    })
+    const outcome = await Promise.race([Promise.resolve(hook(moduleContext)).then(() => "done" as const), timeout])
+    if (outcome === "timeout") {
+      controller.abort()
+    }
+    return {
+      exitCode: outcome === "timeout" ? 1 : 0,
+      stderr: "",
+      timedOut: outcome === "timeout",
+      startedAt,
+      endedAt: new Date().toISOString(),
+    }
+  } catch (error) {
+    return {
+      exitCode: 1,
+      stderr: error instanceof Error ? (error.stack ?? error.message) : String(error),
+      timedOut: false,
+      startedAt,
+      endedAt: new Date().toISOString(),
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
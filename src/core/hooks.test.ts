@@ -1,8 +1,9 @@
-import { chmod, mkdir, readdir, readFile, writeFile } from "node:fs/promises"
+import { chmod, mkdir, readdir, readFile, symlink, writeFile } from "node:fs/promises"
 import { join } from "node:path"
 import { afterEach, describe, expect, it } from "vitest"
 import { cleanupRepoFixtures, createRepoFixture } from "../test-utils/repo-fixture"
-import { invokeHook, runPostHook, runPreHook, type HookExecutionContext } from "./hooks"
+import { invokeHook, listHookEntries, runPostHook, runPreHook, type HookExecutionContext } from "./hooks"
+import type { WorktreeStatus } from "./worktree-state"
 
 const createRepoRoot = async (): Promise<string> => {
   return createRepoFixture({
@@ -57,7 +58,26 @@ const buildContext = ({
   }
 }
 
-afterEach(cleanupRepoFixtures)
+const envBackup = new Map<string, string | undefined>()
+
+const setEnv = (key: string, value: string): void => {
+  if (envBackup.has(key) !== true) {
+    envBackup.set(key, process.env[key])
+  }
+  process.env[key] = value
+}
+
+afterEach(async () => {
+  for (const [key, value] of envBackup.entries()) {
+    if (value === undefined) {
+      delete process.env[key]
+    } else {
+      process.env[key] = value
+    }
+  }
+  envBackup.clear()
+  await cleanupRepoFixtures()
+})
 
 describe("hooks", () => {
   it("returns immediately when hooks are disabled", async () => {
@@ -216,4 +236,175 @@ describe("hooks", () => {
     const output = await readFile(join(repoRoot, "hook-output.txt"), "utf8")
     expect(output.trim()).toBe("switch:feature/hooks:ok")
   })
+
+  it("runs JS module hooks with a typed context and helpers", async () => {
+    const repoRoot = await createRepoRoot()
+    const worktreePath = join(repoRoot, "wt")
+    await mkdir(worktreePath)
+    await writeFile(join(repoRoot, "seed.txt"), "seed\n", "utf8")
+    await writeHook({
+      repoRoot,
+      name: "post-switch.mjs",
+      executable: false,
+      body: `import { writeFile } from "node:fs/promises"
+export default async (ctx) => {
+  await ctx.copy("seed.txt")
+  const result = await ctx.exec("node", ["-e", "process.stdout.write(process.env.WT_BRANCH)"])
+  await writeFile(ctx.worktreePath + "/context.json", JSON.stringify({
+    action: ctx.action,
+    hookName: ctx.hookName,
+    phase: ctx.phase,
+    branch: ctx.branch,
+    dirty: ctx.status.dirty,
+    extra: ctx.env.EXTRA_FLAG,
+    execStdout: result.stdout,
+  }))
+}
+`,
+    })
+    const context: HookExecutionContext = {
+      ...buildContext({ repoRoot, worktreePath, stderr: () => undefined, extraEnv: { EXTRA_FLAG: "ok" } }),
+      resolveStatus: async () => ({ dirty: true }) as WorktreeStatus,
+    }
+
+    await runPostHook({ name: "switch", context })
+
+    expect(JSON.parse(await readFile(join(worktreePath, "context.json"), "utf8"))).toEqual({
+      action: "switch",
+      hookName: "post-switch",
+      phase: "post",
+      branch: "feature/hooks",
+      dirty: true,
+      extra: "ok",
+      execStdout: "feature/hooks",
+    })
+    expect(await readFile(join(worktreePath, "seed.txt"), "utf8")).toBe("seed\n")
+  })
+
+  it("keeps timeout and strict-post semantics for module hooks", async () => {
+    const repoRoot = await createRepoRoot()
+    await writeHook({
+      repoRoot,
+      name: "pre-switch.mjs",
+      executable: false,
+      body: "export default () => new Promise(() => {})\n",
+    })
+    await writeHook({
+      repoRoot,
+      name: "post-switch.js",
+      executable: false,
+      body: 'export default () => { throw new Error("boom") }\n',
+    })
+    const stderr: string[] = []
+
+    await expect(
+      runPreHook({ name: "switch", context: buildContext({ repoRoot, stderr: () => undefined, timeoutMs: 100 }) }),
+    ).rejects.toMatchObject({ code: "HOOK_TIMEOUT" })
+    await expect(
+      runPostHook({ name: "switch", context: buildContext({ repoRoot, stderr: (line) => stderr.push(line) }) }),
+    ).resolves.toBeUndefined()
+    expect(stderr).toContain("Hook failed: post-switch (exitCode=1)")
+    await expect(
+      runPostHook({
+        name: "switch",
+        context: buildContext({ repoRoot, stderr: () => undefined, strictPostHooks: true }),
+      }),
+    ).rejects.toMatchObject({ code: "HOOK_FAILED", details: { stderr: expect.stringContaining("boom") } })
+  })
+
+  it("runs repo, user, and drop-in hooks in order with per-hook failure handling", async () => {
+    const repoRoot = await createRepoRoot()
+    const xdgConfigHome = await createRepoFixture({ prefix: "vde-worktree-xdg-" })
+    setEnv("XDG_CONFIG_HOME", xdgConfigHome)
+    const repoHooks = join(repoRoot, ".vde", "worktree", "hooks")
+    const userHooks = join(xdgConfigHome, "vde", "worktree", "hooks")
+    await mkdir(join(repoHooks, "post-switch.d"), { recursive: true })
+    await mkdir(join(userHooks, "post-switch.d"), { recursive: true })
+    const append = (label: string, exitCode = 0): string =>
+      `#!/usr/bin/env bash\necho ${label} >> "$WT_REPO_ROOT/order.txt"\nexit ${String(exitCode)}\n`
+    await writeHook({ repoRoot, name: "post-switch", body: append("repo") })
+    await writeFile(join(userHooks, "post-switch"), append("user"), { encoding: "utf8", mode: 0o755 })
+    await writeHook({ repoRoot, name: "post-switch.d/20-repo", body: append("20-repo", 4) })
+    await writeHook({ repoRoot, name: "post-switch.d/.hidden", body: append("hidden") })
+    await writeFile(join(userHooks, "post-switch.d", "10-user"), append("10-user"), { encoding: "utf8", mode: 0o755 })
+    await writeFile(
+      join(userHooks, "post-switch.d", "30-user.mjs"),
+      'import { appendFile } from "node:fs/promises"\nexport default (ctx) => appendFile(ctx.repoRoot + "/order.txt", "30-user\\n")\n',
+      "utf8",
+    )
+    const stderr: string[] = []
+
+    await runPostHook({ name: "switch", context: buildContext({ repoRoot, stderr: (line) => stderr.push(line) }) })
+
+    expect((await readFile(join(repoRoot, "order.txt"), "utf8")).split("\n")).toEqual([
+      "repo",
+      "user",
+      "10-user",
+      "20-repo",
+      "30-user",
+      "",
+    ])
+    expect(stderr).toEqual(["Hook failed: repo:post-switch.d/20-repo (exitCode=4)"])
+    const logsDir = join(repoRoot, ".vde", "worktree", "logs")
+    const logs = (
+      await Promise.all((await readdir(logsDir)).map((file) => readFile(join(logsDir, file), "utf8")))
+    ).join("")
+    expect(logs.match(/^hook=/gm)).toHaveLength(5)
+    expect(logs).toContain("hook=user:post-switch.d/10-user")
+
+    await expect(
+      runPostHook({
+        name: "switch",
+        context: buildContext({ repoRoot, stderr: () => undefined, strictPostHooks: true }),
+      }),
+    ).rejects.toMatchObject({ code: "HOOK_FAILED", details: { hook: "repo:post-switch.d/20-repo" } })
+  })
+
+  it("lists hook entries and invokes a single hook by id", async () => {
+    const repoRoot = await createRepoRoot()
+    setEnv("XDG_CONFIG_HOME", await createRepoFixture({ prefix: "vde-worktree-xdg-" }))
+    await mkdir(join(repoRoot, ".vde", "worktree", "hooks", "pre-new.d"))
+    await writeHook({ repoRoot, name: "pre-new", body: "#!/usr/bin/env bash\nexit 1\n" })
+    await writeHook({
+      repoRoot,
+      name: "pre-new.d/10-mark",
+      body: '#!/usr/bin/env bash\necho "$1" > "$WT_REPO_ROOT/mark.txt"\n',
+    })
+    await writeHook({ repoRoot, name: "post-new.mjs", executable: false, body: "export default () => {}\n" })
+    await symlink(join(repoRoot, "missing"), join(repoRoot, ".vde", "worktree", "hooks", "pre-new.d", "20-dangling"))
+
+    expect((await listHookEntries({ repoRoot })).map((entry) => [entry.id, entry.kind])).toEqual([
+      ["repo:post-new", "module"],
+      ["repo:pre-new", "executable"],
+      ["repo:pre-new.d/10-mark", "executable"],
+    ])
+
+    const context = buildContext({ repoRoot, stderr: () => undefined })
+    await invokeHook({ hookName: "repo:pre-new.d/10-mark", args: ["only"], context })
+    expect(await readFile(join(repoRoot, "mark.txt"), "utf8")).toBe("only\n")
+    await expect(invokeHook({ hookName: "pre-new", args: [], context })).rejects.toMatchObject({
+      code: "HOOK_FAILED",
+    })
+    await expect(invokeHook({ hookName: "user:pre-new", args: [], context })).rejects.toMatchObject({
+      code: "HOOK_NOT_FOUND",
+    })
+  })
+
+  it("resolves hook modules from the config map", async () => {
+    const repoRoot = await createRepoRoot()
+    await mkdir(join(repoRoot, "scripts"))
+    await writeFile(
+      join(repoRoot, "scripts", "check.ts"),
+      'import { writeFile } from "node:fs/promises"\nexport default async (ctx: { repoRoot: string }): Promise<void> => {\n  await writeFile(ctx.repoRoot + "/checked.txt", "ok")\n}\n',
+      "utf8",
+    )
+    const context: HookExecutionContext = {
+      ...buildContext({ repoRoot, stderr: () => undefined }),
+      modules: { "pre-switch": "scripts/check.ts", "pre-new": "scripts/missing.mjs" },
+    }
+
+    await runPreHook({ name: "switch", context })
+    expect(await readFile(join(repoRoot, "checked.txt"), "utf8")).toBe("ok")
+    await expect(runPreHook({ name: "new", context })).rejects.toMatchObject({ code: "HOOK_NOT_FOUND" })
+  })
 })
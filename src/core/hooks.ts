@@ -1,13 +1,29 @@
 import { constants as fsConstants } from "node:fs"
-import { access, appendFile, mkdir } from "node:fs/promises"
-import { join } from "node:path"
+import { access, appendFile, mkdir, readdir, stat } from "node:fs/promises"
+import { basename, join } from "node:path"
 import { execa } from "execa"
+import type { CopyStrategy } from "../config/types"
 import { DEFAULT_HOOK_TIMEOUT_MS } from "./constants"
 import { CliError, createCliError } from "./errors"
-import { getHooksDirectoryPath, getLogsDirectoryPath } from "./paths"
+import { executeHookModule, findHookModulePath, HOOK_MODULE_EXTENSIONS, isHookModulePath } from "./hook-modules"
+import { getHooksDirectoryPath, getLogsDirectoryPath, getUserHooksDirectoryPath } from "./paths"
+import type { WorktreeStatus } from "./worktree-state"
 
 type HookPhase = "pre" | "post"
 
+const HOOK_NAME_PATTERN = /^(pre|post)-[a-z0-9][a-z0-9-]*$/
+const HOOK_ID_PATTERN = /^(repo|user):((?:pre|post)-[a-z0-9][a-z0-9-]*)(?:\.d\/[^/]+)?$/
+
+export type HookScope = "repo" | "user"
+
+export type HookEntry = {
+  readonly id: string
+  readonly hookName: string
+  readonly scope: HookScope
+  readonly kind: "executable" | "module"
+  readonly path: string
+}
+
 export type HookExecutionContext = {
   readonly repoRoot: string
   readonly action: string
@@ -18,6 +34,9 @@ export type HookExecutionContext = {
   readonly stderr: (line: string) => void
   readonly strictPostHooks?: boolean
   readonly extraEnv?: Record<string, string>
+  readonly modules?: Readonly<Record<string, string>>
+  readonly copyStrategy?: CopyStrategy
+  readonly resolveStatus?: () => Promise<WorktreeStatus | null>
 }
 
 type HookExecutionError = Error & {
@@ -26,7 +45,7 @@ type HookExecutionError = Error & {
   readonly code?: string
 }
 
-type HookExecutionResult = {
+export type HookExecutionResult = {
   readonly exitCode: number
   readonly stderr: string
   readonly timedOut: boolean
@@ -40,7 +59,7 @@ const nowTimestamp = (): string => {
 
 const toLogFileName = ({ action, branch }: { readonly action: string; readonly branch?: string | null }): string => {
   const safeBranch = typeof branch === "string" && branch.length > 0 ? branch.replace(/[^\w.-]/g, "_") : "none"
-  return `${nowTimestamp()}_${action}_${safeBranch}.log`
+  return `${nowTimestamp()}_${action.replace(/[^\w.:-]/g, "_")}_${safeBranch}.log`
 }
 
 const hookPath = (repoRoot: string, hookName: string): string => {
@@ -64,25 +83,11 @@ const appendHookLog = async ({
   await appendFile(logPath, content, "utf8")
 }
 
-const ensureHookExists = async ({
-  path,
-  hookName,
-  requireExists,
-}: {
-  readonly path: string
-  readonly hookName: string
-  readonly requireExists: boolean
-}): Promise<boolean> => {
+const doesPathExist = async (path: string): Promise<boolean> => {
   try {
     await access(path, fsConstants.F_OK)
     return true
   } catch {
-    if (requireExists) {
-      throw createCliError("HOOK_NOT_FOUND", {
-        message: `Hook not found: ${hookName}`,
-        details: { hook: hookName, path },
-      })
-    }
     return false
   }
 }
@@ -104,6 +109,18 @@ const ensureHookExecutable = async ({
   }
 }
 
+const buildHookEnv = (context: HookExecutionContext): Record<string, string> => {
+  return {
+    WT_REPO_ROOT: context.repoRoot,
+    WT_ACTION: context.action,
+    WT_BRANCH: context.branch ?? "",
+    WT_WORKTREE_PATH: context.worktreePath ?? "",
+    WT_IS_TTY: process.stdout.isTTY === true ? "1" : "0",
+    WT_TOOL: "vde-worktree",
+    ...(context.extraEnv ?? {}),
+  }
+}
+
 const executeHookProcess = async ({
   path,
   args,
@@ -118,13 +135,7 @@ const executeHookProcess = async ({
     cwd: context.worktreePath ?? context.repoRoot,
     env: {
       ...process.env,
-      WT_REPO_ROOT: context.repoRoot,
-      WT_ACTION: context.action,
-      WT_BRANCH: context.branch ?? "",
-      WT_WORKTREE_PATH: context.worktreePath ?? "",
-      WT_IS_TTY: process.stdout.isTTY === true ? "1" : "0",
-      WT_TOOL: "vde-worktree",
-      ...(context.extraEnv ?? {}),
+      ...buildHookEnv(context),
     },
     timeout: context.timeoutMs ?? DEFAULT_HOOK_TIMEOUT_MS,
     reject: false,
@@ -194,44 +205,170 @@ const handleIgnoredPostHookFailure = ({
   context.stderr(message ?? `Hook failed: ${hookName}`)
 }
 
-const runHook = async ({
-  phase,
+export const parseHookTarget = (
+  value: string,
+): { readonly hookName: string; readonly hookId: string | null } | null => {
+  if (HOOK_NAME_PATTERN.test(value)) {
+    return { hookName: value, hookId: null }
+  }
+  const matched = HOOK_ID_PATTERN.exec(value)
+  return matched === null ? null : { hookName: matched[2] as string, hookId: value }
+}
+
+const toHookLabel = (entry: HookEntry): string => {
+  return entry.id === `repo:${entry.hookName}` ? entry.hookName : entry.id
+}
+
+const findPrimaryHook = async ({
+  repoRoot,
+  scope,
+  hooksDirectory,
   hookName,
+  modules,
+}: {
+  readonly repoRoot: string
+  readonly scope: HookScope
+  readonly hooksDirectory: string
+  readonly hookName: string
+  readonly modules?: Readonly<Record<string, string>>
+}): Promise<HookEntry | null> => {
+  const id = `${scope}:${hookName}`
+  const modulePath = await findHookModulePath({ repoRoot, hooksDirectory, hookName, modules })
+  if (modulePath !== null) {
+    return { id, hookName, scope, kind: "module", path: modulePath }
+  }
+  const path = join(hooksDirectory, hookName)
+  return (await doesPathExist(path)) ? { id, hookName, scope, kind: "executable", path } : null
+}
+
+const listDropInHooks = async ({
+  scope,
+  hooksDirectory,
+  hookName,
+}: {
+  readonly scope: HookScope
+  readonly hooksDirectory: string
+  readonly hookName: string
+}): Promise<HookEntry[]> => {
+  const directory = join(hooksDirectory, `${hookName}.d`)
+  let fileNames: string[]
+  try {
+    fileNames = await readdir(directory)
+  } catch {
+    return []
+  }
+  const entries: HookEntry[] = []
+  for (const fileName of fileNames.filter((name) => name.startsWith(".") !== true).sort()) {
+    const path = join(directory, fileName)
+    try {
+      if ((await stat(path)).isFile() !== true) {
+        continue
+      }
+    } catch {
+      continue
+    }
+    entries.push({
+      id: `${scope}:${hookName}.d/${fileName}`,
+      hookName,
+      scope,
+      kind: isHookModulePath(fileName) ? "module" : "executable",
+      path,
+    })
+  }
+  return entries
+}
+
+const compareFileNames = (left: HookEntry, right: HookEntry): number => {
+  const leftName = basename(left.path)
+  const rightName = basename(right.path)
+  return leftName < rightName ? -1 : leftName > rightName ? 1 : 0
+}
+
+export const resolveHookEntries = async ({
+  repoRoot,
+  hookName,
+  modules,
+}: {
+  readonly repoRoot: string
+  readonly hookName: string
+  readonly modules?: Readonly<Record<string, string>>
+}): Promise<HookEntry[]> => {
+  const repoHooksDirectory = getHooksDirectoryPath(repoRoot)
+  const userHooksDirectory = getUserHooksDirectoryPath()
+  const primary = [
+    await findPrimaryHook({ repoRoot, scope: "repo", hooksDirectory: repoHooksDirectory, hookName, modules }),
+    await findPrimaryHook({ repoRoot, scope: "user", hooksDirectory: userHooksDirectory, hookName }),
+  ].filter((entry): entry is HookEntry => entry !== null)
+  const dropIns = [
+    ...(await listDropInHooks({ scope: "repo", hooksDirectory: repoHooksDirectory, hookName })),
+    ...(await listDropInHooks({ scope: "user", hooksDirectory: userHooksDirectory, hookName })),
+  ].sort(compareFileNames)
+  return [...primary, ...dropIns]
+}
+
+const toHookNameFromFileName = (fileName: string): string => {
+  const extension = [".d", ...HOOK_MODULE_EXTENSIONS].find((candidate) => fileName.endsWith(candidate))
+  return extension === undefined ? fileName : fileName.slice(0, -extension.length)
+}
+
+export const listHookEntries = async ({
+  repoRoot,
+  modules,
+}: {
+  readonly repoRoot: string
+  readonly modules?: Readonly<Record<string, string>>
+}): Promise<HookEntry[]> => {
+  const hookNames = new Set(Object.keys(modules ?? {}))
+  for (const directory of [getHooksDirectoryPath(repoRoot), getUserHooksDirectoryPath()]) {
+    const fileNames = await readdir(directory).catch((): string[] => [])
+    for (const hookName of fileNames.map(toHookNameFromFileName)) {
+      if (HOOK_NAME_PATTERN.test(hookName)) {
+        hookNames.add(hookName)
+      }
+    }
+  }
+  const entries: HookEntry[] = []
+  for (const hookName of [...hookNames].sort()) {
+    entries.push(...(await resolveHookEntries({ repoRoot, hookName, modules })))
+  }
+  return entries
+}
+
+const runHookEntry = async ({
+  phase,
+  entry,
   args,
   context,
-  requireExists = false,
 }: {
   readonly phase: HookPhase
-  readonly hookName: string
+  readonly entry: HookEntry
   readonly args: readonly string[]
   readonly context: HookExecutionContext
-  readonly requireExists?: boolean
 }): Promise<void> => {
-  if (context.enabled !== true) {
-    return
-  }
-
-  const path = hookPath(context.repoRoot, hookName)
-  const exists = await ensureHookExists({
-    path,
-    hookName,
-    requireExists,
-  })
-  if (exists !== true) {
-    return
+  const hookName = toHookLabel(entry)
+  if (entry.kind === "executable") {
+    await ensureHookExecutable({
+      path: entry.path,
+      hookName,
+    })
   }
 
-  await ensureHookExecutable({
-    path,
-    hookName,
-  })
-
   try {
-    const result = await executeHookProcess({
-      path,
-      args,
-      context,
-    })
+    const result =
+      entry.kind === "executable"
+        ? await executeHookProcess({
+            path: entry.path,
+            args,
+            context,
+          })
+        : await executeHookModule({
+            path: entry.path,
+            hookName: entry.hookName,
+            phase,
+            args,
+            env: buildHookEnv(context),
+            context,
+          })
     await writeHookLog({
       repoRoot: context.repoRoot,
       action: context.action,
@@ -312,6 +449,43 @@ const runHook = async ({
   }
 }
 
+const runHook = async ({
+  phase,
+  hookName,
+  hookId = null,
+  args,
+  context,
+  requireExists = false,
+}: {
+  readonly phase: HookPhase
+  readonly hookName: string
+  readonly hookId?: string | null
+  readonly args: readonly string[]
+  readonly context: HookExecutionContext
+  readonly requireExists?: boolean
+}): Promise<void> => {
+  if (context.enabled !== true) {
+    return
+  }
+
+  const entries = (await resolveHookEntries({ repoRoot: context.repoRoot, hookName, modules: context.modules })).filter(
+    (entry) => hookId === null || entry.id === hookId,
+  )
+  if (entries.length === 0) {
+    if (requireExists) {
+      throw createCliError("HOOK_NOT_FOUND", {
+        message: `Hook not found: ${hookId ?? hookName}`,
+        details: { hook: hookId ?? hookName, path: hookPath(context.repoRoot, hookName) },
+      })
+    }
+    return
+  }
+
+  for (const entry of entries) {
+    await runHookEntry({ phase, entry, args, context })
+  }
+}
+
 export const runPreHook = async ({
   name,
   context,
@@ -351,9 +525,17 @@ export const invokeHook = async ({
   readonly args: readonly string[]
   readonly context: HookExecutionContext
 }): Promise<void> => {
+  const target = parseHookTarget(hookName)
+  if (target === null) {
+    throw createCliError("INVALID_ARGUMENT", {
+      message: "hookName must be pre-* or post-* (or a hook id from `vw invoke list`)",
+      details: { hookName },
+    })
+  }
   await runHook({
-    phase: hookName.startsWith("pre-") ? "pre" : "post",
-    hookName,
+    phase: target.hookName.startsWith("pre-") ? "pre" : "post",
+    hookName: target.hookName,
+    hookId: target.hookId,
     args,
     context,
     requireExists: true,
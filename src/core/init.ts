@@ -1,6 +1,6 @@
 import { access, chmod, mkdir, readFile, writeFile } from "node:fs/promises"
 import { constants as fsConstants } from "node:fs"
-import { join, relative, sep } from "node:path"
+import { dirname, join, relative, sep } from "node:path"
 import {
   getHooksDirectoryPath,
   getLocksDirectoryPath,
@@ -80,32 +80,63 @@ const toExcludeEntry = ({
   return normalized.endsWith("/") ? normalized : `${normalized}/`
 }
 
-const ensureExcludeBlock = async ({
+const buildManagedExcludeBlock = ({
   repoRoot,
   managedWorktreeRoot,
 }: {
   readonly repoRoot: string
   readonly managedWorktreeRoot: string
-}): Promise<void> => {
+}): string | null => {
   const managedEntry = toExcludeEntry({ repoRoot, managedWorktreeRoot })
   if (managedEntry === null) {
-    return
+    return null
   }
+  return `${EXCLUDE_MARKER}\n${managedEntry}\n.vde/worktree/\n`
+}
 
-  const managedExcludeBlock = `${EXCLUDE_MARKER}\n${managedEntry}\n.vde/worktree/\n`
-  const excludePath = join(repoRoot, ".git", "info", "exclude")
-  let current = ""
+const readExcludeFile = async (excludePath: string): Promise<string> => {
   try {
-    current = await readFile(excludePath, "utf8")
+    return await readFile(excludePath, "utf8")
   } catch {
-    current = ""
+    return ""
+  }
+}
+
+export const hasExcludeBlock = async ({
+  repoRoot,
+  managedWorktreeRoot,
+}: {
+  readonly repoRoot: string
+  readonly managedWorktreeRoot: string
+}): Promise<boolean> => {
+  const managedExcludeBlock = buildManagedExcludeBlock({ repoRoot, managedWorktreeRoot })
+  if (managedExcludeBlock === null) {
+    return true
   }
+  const current = await readExcludeFile(join(repoRoot, ".git", "info", "exclude"))
+  return current.includes(managedExcludeBlock)
+}
 
+export const ensureExcludeBlock = async ({
+  repoRoot,
+  managedWorktreeRoot,
+}: {
+  readonly repoRoot: string
+  readonly managedWorktreeRoot: string
+}): Promise<void> => {
+  const managedExcludeBlock = buildManagedExcludeBlock({ repoRoot, managedWorktreeRoot })
+  if (managedExcludeBlock === null) {
+    return
+  }
+
+  const excludePath = join(repoRoot, ".git", "info", "exclude")
+  const current = await readExcludeFile(excludePath)
   if (current.includes(managedExcludeBlock)) {
     return
   }
 
   const normalizedCurrent = current.endsWith("\n") || current.length === 0 ? current : `${current}\n`
+  await mkdir(dirname(excludePath), { recursive: true })
   await writeFile(excludePath, `${normalizedCurrent}${managedExcludeBlock}`, "utf8")
 }
 
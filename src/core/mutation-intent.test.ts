@@ -0,0 +1,143 @@
+import { access, mkdir, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { execa } from "execa"
+import { afterEach, describe, expect, it } from "vitest"
+import { cleanupRepoFixtures, createRepoFixture } from "../test-utils/repo-fixture"
+import {
+  appendMutationUndoStep,
+  createMutationIntent,
+  deleteMutationIntent,
+  listMutationIntents,
+  rollbackMutationIntent,
+} from "./mutation-intent"
+
+const git = async (cwd: string, args: readonly string[]): Promise<string> => {
+  const result = await execa("git", [...args], { cwd })
+  return result.stdout
+}
+
+const createGitRepo = async (): Promise<string> => {
+  return createRepoFixture({
+    prefix: "vde-worktree-intent-",
+    setup: async (repoRoot) => {
+      await git(repoRoot, ["init", "-b", "main"])
+      await git(repoRoot, ["config", "user.name", "test-user"])
+      await git(repoRoot, ["config", "user.email", "test@example.com"])
+      await writeFile(join(repoRoot, "README.md"), "# test\n", "utf8")
+      await git(repoRoot, ["add", "."])
+      await git(repoRoot, ["commit", "-m", "initial"])
+    },
+  })
+}
+
+afterEach(cleanupRepoFixtures)
+
+describe("mutation intent", () => {
+  it("persists undo steps and deletes the intent", async () => {
+    const repoRoot = await createGitRepo()
+    const intent = await createMutationIntent({
+      repoRoot,
+      command: "new",
+      name: "new",
+      branch: "feature/a",
+      worktreePath: join(repoRoot, ".worktree", "feature", "a"),
+    })
+    await appendMutationUndoStep({
+      repoRoot,
+      intent,
+      step: { description: "delete created branch", cwd: repoRoot, args: ["branch", "-D", "feature/a"] },
+    })
+
+    const [listed] = await listMutationIntents(repoRoot)
+    expect(listed?.id).toBe(intent.id)
+    expect(listed?.undo).toEqual([
+      { description: "delete created branch", cwd: repoRoot, args: ["branch", "-D", "feature/a"] },
+    ])
+
+    await deleteMutationIntent({ repoRoot, id: intent.id })
+    expect(await listMutationIntents(repoRoot)).toEqual([])
+  })
+
+  it("runs undo steps in reverse order and removes the intent on success", async () => {
+    const repoRoot = await createGitRepo()
+    await git(repoRoot, ["branch", "feature/a"])
+    await git(repoRoot, ["branch", "-m", "feature/a", "feature/b"])
+    let intent = await createMutationIntent({
+      repoRoot,
+      command: "mv",
+      name: "mv",
+      branch: "feature/b",
+      worktreePath: repoRoot,
+    })
+    intent = await appendMutationUndoStep({
+      repoRoot,
+      intent,
+      step: { description: "delete branch", cwd: repoRoot, args: ["branch", "-D", "feature/a"] },
+    })
+    intent = await appendMutationUndoStep({
+      repoRoot,
+      intent,
+      step: { description: "rename branch back", cwd: repoRoot, args: ["branch", "-m", "feature/b", "feature/a"] },
+    })
+
+    expect(await rollbackMutationIntent({ repoRoot, intent })).toEqual([])
+    expect(await git(repoRoot, ["branch", "--list", "feature/*"])).toBe("")
+    expect(await listMutationIntents(repoRoot)).toEqual([])
+  })
+
+  it("keeps only failed steps when rollback is incomplete", async () => {
+    const repoRoot = await createGitRepo()
+    let intent = await createMutationIntent({
+      repoRoot,
+      command: "del",
+      name: "del",
+      branch: "feature/a",
+      worktreePath: repoRoot,
+    })
+    intent = await appendMutationUndoStep({
+      repoRoot,
+      intent,
+      step: { description: "delete missing branch", cwd: repoRoot, args: ["branch", "-D", "feature/missing"] },
+    })
+    intent = await appendMutationUndoStep({
+      repoRoot,
+      intent,
+      step: { description: "create branch", cwd: repoRoot, args: ["branch", "feature/a"] },
+    })
+
+    const failures = await rollbackMutationIntent({ repoRoot, intent })
+
+    expect(failures.map((failure) => failure.step.description)).toEqual(["delete missing branch"])
+    expect(await git(repoRoot, ["branch", "--list", "feature/a"])).toContain("feature/a")
+    const [remaining] = await listMutationIntents(repoRoot)
+    expect(remaining?.undo.map((step) => step.description)).toEqual(["delete missing branch"])
+  })
+
+  it("removes step paths and tolerates git failures when allowed", async () => {
+    const repoRoot = await createGitRepo()
+    const leftoverPath = join(repoRoot, "leftover")
+    await mkdir(join(leftoverPath, "nested"), { recursive: true })
+    let intent = await createMutationIntent({
+      repoRoot,
+      command: "del",
+      name: "del",
+      branch: "feature/a",
+      worktreePath: repoRoot,
+    })
+    intent = await appendMutationUndoStep({
+      repoRoot,
+      intent,
+      step: {
+        description: "discard leftover",
+        cwd: repoRoot,
+        args: ["update-ref", "-d", "refs/heads/feature/missing", "0000000000000000000000000000000000000001"],
+        removePaths: [leftoverPath],
+        allowFailure: true,
+      },
+    })
+
+    expect(await rollbackMutationIntent({ repoRoot, intent })).toEqual([])
+    await expect(access(leftoverPath)).rejects.toThrow()
+    expect(await listMutationIntents(repoRoot)).toEqual([])
+  })
+})
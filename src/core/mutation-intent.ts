@@ -0,0 +1,210 @@
+import { readdir, rm } from "node:fs/promises"
+import { hostname } from "node:os"
+import { join } from "node:path"
+import { runGitCommand } from "../git/exec"
+import { readJsonRecord, writeJsonAtomically } from "./json-storage"
+import { getStateDirectoryPath } from "./paths"
+
+export type MutationUndoStep = {
+  readonly description: string
+  readonly cwd: string
+  readonly args: readonly string[]
+  readonly removePaths?: readonly string[]
+  readonly allowFailure?: boolean
+}
+
+export type MutationIntentRecord = {
+  readonly schemaVersion: 1
+  readonly id: string
+  readonly command: string
+  readonly name: string
+  readonly branch: string | null
+  readonly worktreePath: string
+  readonly pid: number
+  readonly host: string
+  readonly startedAt: string
+  readonly updatedAt: string
+  readonly undo: readonly MutationUndoStep[]
+}
+
+export type MutationRollbackFailure = {
+  readonly step: MutationUndoStep
+  readonly stderr: string
+}
+
+const isMutationUndoStep = (value: unknown): value is MutationUndoStep => {
+  const step = value as Partial<MutationUndoStep> | null
+  return (
+    typeof step === "object" &&
+    step !== null &&
+    typeof step.description === "string" &&
+    typeof step.cwd === "string" &&
+    Array.isArray(step.args) &&
+    step.args.every((arg) => typeof arg === "string") &&
+    (step.removePaths === undefined ||
+      (Array.isArray(step.removePaths) && step.removePaths.every((path) => typeof path === "string"))) &&
+    (step.allowFailure === undefined || typeof step.allowFailure === "boolean")
+  )
+}
+
+const isMutationIntentRecord = (parsed: Partial<MutationIntentRecord>): parsed is MutationIntentRecord => {
+  return (
+    typeof parsed.id === "string" &&
+    typeof parsed.command === "string" &&
+    typeof parsed.name === "string" &&
+    (parsed.branch === null || typeof parsed.branch === "string") &&
+    typeof parsed.worktreePath === "string" &&
+    typeof parsed.pid === "number" &&
+    typeof parsed.host === "string" &&
+    typeof parsed.startedAt === "string" &&
+    typeof parsed.updatedAt === "string" &&
+    Array.isArray(parsed.undo) &&
+    parsed.undo.every(isMutationUndoStep)
+  )
+}
+
+export const getIntentsDirectoryPath = (repoRoot: string): string => {
+  return join(getStateDirectoryPath(repoRoot), "intents")
+}
+
+const intentFilePath = (repoRoot: string, id: string): string => {
+  return join(getIntentsDirectoryPath(repoRoot), `${id}.json`)
+}
+
+const writeMutationIntent = async ({
+  repoRoot,
+  record,
+}: {
+  readonly repoRoot: string
+  readonly record: MutationIntentRecord
+}): Promise<void> => {
+  await writeJsonAtomically({
+    filePath: intentFilePath(repoRoot, record.id),
+    payload: record,
+    ensureDir: true,
+  })
+}
+
+export const createMutationIntent = async ({
+  repoRoot,
+  command,
+  name,
+  branch,
+  worktreePath,
+}: {
+  readonly repoRoot: string
+  readonly command: string
+  readonly name: string
+  readonly branch: string | null
+  readonly worktreePath: string
+}): Promise<MutationIntentRecord> => {
+  const now = new Date().toISOString()
+  const record: MutationIntentRecord = {
+    schemaVersion: 1,
+    id: `${now.replace(/[-:.]/g, "")}-${String(process.pid)}-${name}`,
+    command,
+    name,
+    branch,
+    worktreePath,
+    pid: process.pid,
+    host: hostname(),
+    startedAt: now,
+    updatedAt: now,
+    undo: [],
+  }
+  await writeMutationIntent({ repoRoot, record })
+  return record
+}
+
+export const appendMutationUndoStep = async ({
+  repoRoot,
+  intent,
+  step,
+}: {
+  readonly repoRoot: string
+  readonly intent: MutationIntentRecord
+  readonly step: MutationUndoStep
+}): Promise<MutationIntentRecord> => {
+  const record: MutationIntentRecord = {
+    ...intent,
+    updatedAt: new Date().toISOString(),
+    undo: [...intent.undo, step],
+  }
+  await writeMutationIntent({ repoRoot, record })
+  return record
+}
+
+export const deleteMutationIntent = async ({
+  repoRoot,
+  id,
+}: {
+  readonly repoRoot: string
+  readonly id: string
+}): Promise<void> => {
+  await rm(intentFilePath(repoRoot, id), { force: true })
+}
+
+export const listMutationIntents = async (repoRoot: string): Promise<MutationIntentRecord[]> => {
+  let fileNames: string[]
+  try {
+    fileNames = await readdir(getIntentsDirectoryPath(repoRoot))
+  } catch {
+    return []
+  }
+  const records: MutationIntentRecord[] = []
+  for (const fileName of fileNames.filter((name) => name.endsWith(".json")).sort()) {
+    const parsed = await readJsonRecord<MutationIntentRecord>({
+      path: join(getIntentsDirectoryPath(repoRoot), fileName),
+      schemaVersion: 1,
+      validate: isMutationIntentRecord,
+    })
+    if (parsed.record !== null) {
+      records.push(parsed.record)
+    }
+  }
+  return records
+}
+
+export const rollbackMutationUndoSteps = async (
+  steps: readonly MutationUndoStep[],
+): Promise<MutationRollbackFailure[]> => {
+  const failures: MutationRollbackFailure[] = []
+  for (const step of [...steps].reverse()) {
+    const result = await runGitCommand({
+      cwd: step.cwd,
+      args: step.args,
+      reject: false,
+    })
+    if (result.exitCode !== 0 && step.allowFailure !== true) {
+      failures.push({ step, stderr: result.stderr })
+      continue
+    }
+    for (const path of step.removePaths ?? []) {
+      await rm(path, { recursive: true, force: true })
+    }
+  }
+  return failures
+}
+
+export const rollbackMutationIntent = async ({
+  repoRoot,
+  intent,
+}: {
+  readonly repoRoot: string
+  readonly intent: MutationIntentRecord
+}): Promise<MutationRollbackFailure[]> => {
+  const failures = await rollbackMutationUndoSteps(intent.undo)
+  if (failures.length === 0) {
+    await deleteMutationIntent({ repoRoot, id: intent.id })
+    return failures
+  }
+  await writeMutationIntent({
+    repoRoot,
+    record: {
+      ...intent,
+      updatedAt: new Date().toISOString(),
+      undo: intent.undo.filter((step) => failures.some((failure) => failure.step === step)),
+    },
+  })
+  return failures
+}
@@ -0,0 +1,83 @@
+import { appendFile } from "node:fs/promises"
+import { afterEach, describe, expect, it } from "vitest"
+import { cleanupRepoFixtures, createRepoFixture } from "../test-utils/repo-fixture"
+import {
+  appendOperationJournalEntry,
+  getOperationJournalPath,
+  parseJournalSince,
+  readOperationJournal,
+  type OperationJournalEntry,
+} from "./operation-journal"
+
+const entry = ({
+  command,
+  branch,
+  startedAt,
+}: {
+  readonly command: string
+  readonly branch: string | null
+  readonly startedAt: string
+}): OperationJournalEntry => {
+  return {
+    schemaVersion: 1,
+    command,
+    args: [command],
+    branch,
+    path: null,
+    targets: branch === null ? [] : [{ branch, path: null }],
+    actor: "agent-a",
+    pid: 1,
+    host: "host",
+    startedAt,
+    endedAt: startedAt,
+    outcome: "success",
+    exitCode: 0,
+    errorCode: null,
+  }
+}
+
+afterEach(cleanupRepoFixtures)
+
+describe("operation journal", () => {
+  it("returns an empty list when the journal does not exist", async () => {
+    const repoRoot = await createRepoFixture({ prefix: "vde-worktree-journal-" })
+
+    expect(await readOperationJournal({ repoRoot })).toEqual([])
+  })
+
+  it("appends entries and filters by branch glob and since", async () => {
+    const repoRoot = await createRepoFixture({ prefix: "vde-worktree-journal-" })
+    await appendOperationJournalEntry({
+      repoRoot,
+      entry: entry({ command: "new", branch: "feature/a", startedAt: "2026-03-01T00:00:00.000Z" }),
+    })
+    await appendOperationJournalEntry({
+      repoRoot,
+      entry: entry({ command: "del", branch: "feature/a", startedAt: "2026-03-03T00:00:00.000Z" }),
+    })
+    await appendOperationJournalEntry({
+      repoRoot,
+      entry: entry({ command: "gone", branch: null, startedAt: "2026-03-03T00:00:00.000Z" }),
+    })
+    await appendFile(getOperationJournalPath(repoRoot), "not-json\n", "utf8")
+
+    expect((await readOperationJournal({ repoRoot })).map((item) => item.command)).toEqual(["new", "del", "gone"])
+    expect(
+      (await readOperationJournal({ repoRoot, branchPattern: /^feature\/[^/]*$/ })).map((item) => item.command),
+    ).toEqual(["new", "del"])
+    expect(
+      (await readOperationJournal({ repoRoot, since: Date.parse("2026-03-02T00:00:00.000Z") })).map(
+        (item) => item.command,
+      ),
+    ).toEqual(["del", "gone"])
+  })
+
+  it("parses relative durations and dates for since", () => {
+    const now = Date.parse("2026-03-10T00:00:00.000Z")
+
+    expect(parseJournalSince("2h", now)).toBe(now - 2 * 60 * 60 * 1000)
+    expect(parseJournalSince("7d", now)).toBe(Date.parse("2026-03-03T00:00:00.000Z"))
+    expect(parseJournalSince("2026-03-01", now)).toBe(Date.parse("2026-03-01"))
+    expect(() => parseJournalSince("yesterday", now)).toThrowError(/--since/)
+  })
+})
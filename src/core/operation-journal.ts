@@ -0,0 +1,122 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises"
+import { join } from "node:path"
+import { createCliError } from "./errors"
+import { getLogsDirectoryPath } from "./paths"
+
+const JOURNAL_FILE_NAME = "operations.jsonl"
+const SINCE_UNIT_MS: Readonly<Record<string, number>> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+}
+
+export type OperationOutcome = "success" | "error" | "cancelled"
+
+export type OperationTarget = {
+  readonly branch: string | null
+  readonly path: string | null
+}
+
+export type OperationJournalEntry = {
+  readonly schemaVersion: 1
+  readonly command: string
+  readonly args: readonly string[]
+  readonly branch: string | null
+  readonly path: string | null
+  readonly targets: readonly OperationTarget[]
+  readonly actor: string
+  readonly pid: number
+  readonly host: string
+  readonly startedAt: string
+  readonly endedAt: string
+  readonly outcome: OperationOutcome
+  readonly exitCode: number
+  readonly errorCode: string | null
+}
+
+const isOperationJournalEntry = (parsed: Partial<OperationJournalEntry>): parsed is OperationJournalEntry => {
+  return (
+    parsed.schemaVersion === 1 &&
+    typeof parsed.command === "string" &&
+    Array.isArray(parsed.args) &&
+    Array.isArray(parsed.targets) &&
+    typeof parsed.actor === "string" &&
+    typeof parsed.startedAt === "string" &&
+    typeof parsed.endedAt === "string" &&
+    typeof parsed.outcome === "string"
+  )
+}
+
+export const getOperationJournalPath = (repoRoot: string): string => {
+  return join(getLogsDirectoryPath(repoRoot), JOURNAL_FILE_NAME)
+}
+
+export const appendOperationJournalEntry = async ({
+  repoRoot,
+  entry,
+}: {
+  readonly repoRoot: string
+  readonly entry: OperationJournalEntry
+}): Promise<void> => {
+  await mkdir(getLogsDirectoryPath(repoRoot), { recursive: true })
+  await appendFile(getOperationJournalPath(repoRoot), `${JSON.stringify(entry)}\n`, "utf8")
+}
+
+export const parseJournalSince = (value: string, now: number = Date.now()): number => {
+  const relative = /^(\d+)([mhdw])$/.exec(value)
+  if (relative !== null) {
+    return now - Number.parseInt(relative[1] as string, 10) * (SINCE_UNIT_MS[relative[2] as string] as number)
+  }
+  const absolute = Date.parse(value)
+  if (Number.isNaN(absolute)) {
+    throw createCliError("INVALID_ARGUMENT", {
+      message: "--since must be a duration (e.g. 30m, 12h, 7d, 2w) or a date",
+      details: { value },
+    })
+  }
+  return absolute
+}
+
+export const readOperationJournal = async ({
+  repoRoot,
+  branchPattern,
+  since,
+}: {
+  readonly repoRoot: string
+  readonly branchPattern?: RegExp
+  readonly since?: number
+}): Promise<OperationJournalEntry[]> => {
+  let content: string
+  try {
+    content = await readFile(getOperationJournalPath(repoRoot), "utf8")
+  } catch {
+    return []
+  }
+  const entries: OperationJournalEntry[] = []
+  for (const line of content.split("\n")) {
+    if (line.trim().length === 0) {
+      continue
+    }
+    let parsed: Partial<OperationJournalEntry>
+    try {
+      parsed = JSON.parse(line) as Partial<OperationJournalEntry>
+    } catch {
+      continue
+    }
+    if (isOperationJournalEntry(parsed) !== true) {
+      continue
+    }
+    if (since !== undefined && Date.parse(parsed.startedAt) < since) {
+      continue
+    }
+    if (
+      branchPattern !== undefined &&
+      parsed.targets.some((target) => target.branch !== null && branchPattern.test(target.branch)) !== true
+    ) {
+      continue
+    }
+    entries.push(parsed)
+  }
+  return entries
+}
@@ -1,4 +1,5 @@
 import { createHash } from "node:crypto"
+import { homedir } from "node:os"
 import { dirname, isAbsolute, join, normalize, relative, resolve, sep } from "node:path"
 import { runGitCommand } from "../git/exec"
 import { createCliError } from "./errors"
@@ -80,6 +81,13 @@ export const getHooksDirectoryPath = (repoRoot: string): string => {
   return join(getWorktreeMetaRootPath(repoRoot), "hooks")
 }
 
+export const getUserHooksDirectoryPath = (): string => {
+  const xdgConfigHome = process.env.XDG_CONFIG_HOME
+  const configHome =
+    typeof xdgConfigHome === "string" && xdgConfigHome.length > 0 ? resolve(xdgConfigHome) : join(homedir(), ".config")
+  return join(configHome, "vde", "worktree", "hooks")
+}
+
 export const getLogsDirectoryPath = (repoRoot: string): string => {
   return join(getWorktreeMetaRootPath(repoRoot), "logs")
 }
@@ -3,7 +3,7 @@ import { access, chmod, mkdtemp, mkdir, readFile, rm, symlink, writeFile } from
 import { hostname, tmpdir } from "node:os"
 import { join } from "node:path"
 import { afterEach, describe, expect, it } from "vitest"
-import { acquireRepoLock, readNumberFromEnvOrDefault, withRepoLock } from "./repo-lock"
+import { acquireRepoLock, inspectRepoLock, readNumberFromEnvOrDefault, withRepoLock } from "./repo-lock"
 
 const tempDirs = new Set<string>()
 
@@ -253,6 +253,33 @@ describe("withRepoLock", () => {
   })
 })
 
+describe("inspectRepoLock", () => {
+  it("reports missing, held, and dead-owner locks", async () => {
+    const repoRoot = await createRepoRoot()
+    const lockPath = join(repoRoot, ".vde", "worktree", "state", "repo.lock")
+
+    expect(await inspectRepoLock({ repoRoot })).toEqual({ path: lockPath, exists: false, stale: false, lock: null })
+
+    const handle = await acquireRepoLock({ repoRoot, command: "switch", timeoutMs: 200 })
+    expect(await inspectRepoLock({ repoRoot })).toMatchObject({ exists: true, stale: false })
+    await handle.release()
+
+    await writeFile(
+      lockPath,
+      `${JSON.stringify({
+        schemaVersion: 1,
+        owner: "vde-worktree",
+        command: "old-command",
+        pid: 999_999,
+        host: hostname(),
+        startedAt: new Date().toISOString(),
+      })}\n`,
+      "utf8",
+    )
+    expect(await inspectRepoLock({ repoRoot })).toMatchObject({ exists: true, stale: true })
+  })
+})
+
 describe("readNumberFromEnvOrDefault", () => {
   it("returns raw value only when finite number", () => {
     expect(
@@ -7,7 +7,7 @@ import { createCliError } from "./errors"
 import { parseJsonRecord, writeJsonExclusively } from "./json-storage"
 import { getStateDirectoryPath } from "./paths"
 
-type RepoLockFileSchema = {
+export type RepoLockFileSchema = {
   readonly schemaVersion: 1
   readonly owner: string
   readonly command: string
@@ -33,7 +33,7 @@ const sleep = async (ms: number): Promise<void> => {
   })
 }
 
-const isProcessAlive = (pid: number): boolean => {
+export const isProcessAlive = (pid: number): boolean => {
   if (pid <= 0 || Number.isFinite(pid) !== true) {
     return false
   }
@@ -109,6 +109,41 @@ const canRecoverStaleLock = ({
   return true
 }
 
+export type RepoLockInspection = {
+  readonly path: string
+  readonly exists: boolean
+  readonly stale: boolean
+  readonly lock: RepoLockFileSchema | null
+}
+
+export const inspectRepoLock = async ({
+  repoRoot,
+  staleLockTTLSeconds = DEFAULT_STALE_LOCK_TTL_SECONDS,
+}: {
+  readonly repoRoot: string
+  readonly staleLockTTLSeconds?: number
+}): Promise<RepoLockInspection> => {
+  const path = await lockFilePath(repoRoot)
+  let lockContent: string
+  try {
+    lockContent = await readFile(path, "utf8")
+  } catch {
+    return { path, exists: false, stale: false, lock: null }
+  }
+
+  const parsed = parseJsonRecord<RepoLockFileSchema>({
+    content: lockContent,
+    schemaVersion: 1,
+    validate: isRepoLockFileSchema,
+  })
+  const lock = parsed.record
+  const stale =
+    lock !== null && lock.host === hostname()
+      ? isProcessAlive(lock.pid) !== true
+      : canRecoverStaleLock({ lock, staleLockTTLSeconds })
+  return { path, exists: true, stale, lock }
+}
+
 export const acquireRepoLock = async ({
   repoRoot,
   command,
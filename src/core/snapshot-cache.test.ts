@@ -0,0 +1,111 @@
+import { execFile } from "node:child_process"
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { promisify } from "node:util"
+import { afterEach, describe, expect, it } from "vitest"
+import type { GitWorktree } from "../git/worktree"
+import { getStateDirectoryPath } from "./paths"
+import {
+  computeSnapshotCacheKey,
+  invalidateSnapshotCache,
+  readSnapshotCache,
+  writeSnapshotCache,
+} from "./snapshot-cache"
+import type { WorktreeStatus } from "./worktree-state"
+
+const execFileAsync = promisify(execFile)
+
+const tempDirs = new Set<string>()
+
+const git = async (cwd: string, args: readonly string[]): Promise<string> => {
+  const { stdout } = await execFileAsync("git", [...args], { cwd })
+  return stdout.trim()
+}
+
+const createRepo = async (): Promise<string> => {
+  const repoRoot = await mkdtemp(join(tmpdir(), "vde-worktree-snapshot-cache-"))
+  tempDirs.add(repoRoot)
+  await git(repoRoot, ["init", "-q", "-b", "main"])
+  await git(repoRoot, ["config", "user.email", "test@example.com"])
+  await git(repoRoot, ["config", "user.name", "test"])
+  await writeFile(join(repoRoot, "README.md"), "hello\n", "utf8")
+  await git(repoRoot, ["add", "README.md"])
+  await git(repoRoot, ["commit", "-q", "-m", "init"])
+  return repoRoot
+}
+
+const toGitWorktree = async (repoRoot: string): Promise<GitWorktree> => {
+  return { path: repoRoot, head: await git(repoRoot, ["rev-parse", "HEAD"]), branch: "refs/heads/main" }
+}
+
+const snapshotWorktree = (path: string): WorktreeStatus => {
+  return {
+    branch: "main",
+    path,
+    head: "abc123",
+    parent: null,
+    dirty: false,
+    locked: { value: false, reason: null, owner: null, stale: false, expiresAt: null },
+    merged: { byAncestry: null, byPR: null, overall: null },
+    pr: { status: null, url: null },
+    upstream: { ahead: null, behind: null, remote: null },
+  }
+}
+
+afterEach(async () => {
+  await Promise.all(
+    [...tempDirs].map(async (dir) => {
+      await rm(dir, { recursive: true, force: true })
+    }),
+  )
+  tempDirs.clear()
+})
+
+describe("snapshot cache", () => {
+  it("changes the key when HEAD, refs, or the index change", async () => {
+    const repoRoot = await createRepo()
+    const computeKey = async (): Promise<string> => {
+      return computeSnapshotCacheKey({
+        repoRoot,
+        worktrees: [await toGitWorktree(repoRoot)],
+        baseBranch: "main",
+        prProvider: null,
+      })
+    }
+
+    const initial = await computeKey()
+    expect(await computeKey()).toBe(initial)
+
+    await git(repoRoot, ["branch", "feature/a"])
+    const afterBranch = await computeKey()
+    expect(afterBranch).not.toBe(initial)
+
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    await writeFile(join(repoRoot, "README.md"), "changed\n", "utf8")
+    await git(repoRoot, ["add", "README.md"])
+    const afterStage = await computeKey()
+    expect(afterStage).not.toBe(afterBranch)
+
+    await git(repoRoot, ["commit", "-q", "-m", "change"])
+    expect(await computeKey()).not.toBe(afterStage)
+  })
+
+  it("returns cached worktrees until the key changes, the ttl expires, or it is invalidated", async () => {
+    const repoRoot = await createRepo()
+    const worktrees = [snapshotWorktree(repoRoot)]
+
+    await writeSnapshotCache({ repoRoot, key: "key-1", worktrees })
+    expect(await readSnapshotCache({ repoRoot, key: "key-1" })).toBeNull()
+
+    await mkdir(getStateDirectoryPath(repoRoot), { recursive: true })
+    await writeSnapshotCache({ repoRoot, key: "key-1", worktrees })
+    expect(await readSnapshotCache({ repoRoot, key: "key-1" })).toEqual(worktrees)
+    expect(await readSnapshotCache({ repoRoot, key: "key-2" })).toBeNull()
+    expect(await readSnapshotCache({ repoRoot, key: "key-1", now: Date.now() + 120_000 })).toBeNull()
+
+    await invalidateSnapshotCache(repoRoot)
+    expect(await readSnapshotCache({ repoRoot, key: "key-1" })).toBeNull()
+    await invalidateSnapshotCache(repoRoot)
+  })
+})
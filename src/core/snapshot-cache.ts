@@ -0,0 +1,145 @@
+import { createHash } from "node:crypto"
+import { constants as fsConstants } from "node:fs"
+import { access, readFile, rm, stat } from "node:fs/promises"
+import { isAbsolute, join, resolve } from "node:path"
+import { runGitCommand } from "../git/exec"
+import type { GitWorktree } from "../git/worktree"
+import { DEFAULT_SNAPSHOT_CACHE_TTL_MS } from "./constants"
+import { readJsonRecord, writeJsonAtomically } from "./json-storage"
+import { getStateDirectoryPath } from "./paths"
+import type { WorktreeStatus } from "./worktree-state"
+
+type SnapshotCacheRecord = {
+  readonly schemaVersion: 1
+  readonly key: string
+  readonly createdAt: string
+  readonly worktrees: WorktreeStatus[]
+}
+
+const snapshotCacheFilePath = (repoRoot: string): string => {
+  return join(getStateDirectoryPath(repoRoot), "snapshot-cache.json")
+}
+
+const isSnapshotCacheRecord = (parsed: Partial<SnapshotCacheRecord>): parsed is SnapshotCacheRecord => {
+  return (
+    typeof parsed.key === "string" &&
+    typeof parsed.createdAt === "string" &&
+    Array.isArray(parsed.worktrees) &&
+    parsed.worktrees.every((worktree) => typeof worktree?.path === "string" && typeof worktree.head === "string")
+  )
+}
+
+const resolveWorktreeIndexPath = async (worktreePath: string): Promise<string | null> => {
+  const dotGitPath = join(worktreePath, ".git")
+  try {
+    const dotGit = await stat(dotGitPath)
+    if (dotGit.isDirectory()) {
+      return join(dotGitPath, "index")
+    }
+    const content = await readFile(dotGitPath, "utf8")
+    const gitDir = /^gitdir:\s*(.+)$/m.exec(content)?.[1]?.trim()
+    if (gitDir === undefined || gitDir.length === 0) {
+      return null
+    }
+    return join(isAbsolute(gitDir) ? gitDir : resolve(worktreePath, gitDir), "index")
+  } catch {
+    return null
+  }
+}
+
+const resolveIndexMtimeMs = async (worktreePath: string): Promise<number | null> => {
+  const indexPath = await resolveWorktreeIndexPath(worktreePath)
+  if (indexPath === null) {
+    return null
+  }
+  try {
+    return (await stat(indexPath)).mtimeMs
+  } catch {
+    return null
+  }
+}
+
+export const computeSnapshotCacheKey = async ({
+  repoRoot,
+  worktrees,
+  baseBranch,
+  prProvider,
+}: {
+  readonly repoRoot: string
+  readonly worktrees: readonly GitWorktree[]
+  readonly baseBranch: string | null
+  readonly prProvider: string | null
+}): Promise<string> => {
+  const refs = await runGitCommand({
+    cwd: repoRoot,
+    args: ["for-each-ref", "--format=%(refname) %(objectname)", "refs/heads", "refs/remotes"],
+    reject: false,
+  })
+  const worktreeKeys = await Promise.all(
+    worktrees.map(async (worktree) => ({
+      path: worktree.path,
+      head: worktree.head,
+      branch: worktree.branch,
+      indexMtimeMs: await resolveIndexMtimeMs(worktree.path),
+    })),
+  )
+  return createHash("sha256")
+    .update(JSON.stringify({ baseBranch, prProvider, refs: refs.stdout, worktrees: worktreeKeys }))
+    .digest("hex")
+}
+
+export const readSnapshotCache = async ({
+  repoRoot,
+  key,
+  ttlMs = DEFAULT_SNAPSHOT_CACHE_TTL_MS,
+  now = Date.now(),
+}: {
+  readonly repoRoot: string
+  readonly key: string
+  readonly ttlMs?: number
+  readonly now?: number
+}): Promise<WorktreeStatus[] | null> => {
+  const cache = await readJsonRecord<SnapshotCacheRecord>({
+    path: snapshotCacheFilePath(repoRoot),
+    schemaVersion: 1,
+    validate: isSnapshotCacheRecord,
+  })
+  if (cache.record === null || cache.record.key !== key) {
+    return null
+  }
+  const age = now - Date.parse(cache.record.createdAt)
+  if (Number.isNaN(age) || age < 0 || age > ttlMs) {
+    return null
+  }
+  return cache.record.worktrees
+}
+
+export const writeSnapshotCache = async ({
+  repoRoot,
+  key,
+  worktrees,
+}: {
+  readonly repoRoot: string
+  readonly key: string
+  readonly worktrees: readonly WorktreeStatus[]
+}): Promise<void> => {
+  const stateDirectory = getStateDirectoryPath(repoRoot)
+  try {
+    await access(stateDirectory, fsConstants.F_OK)
+  } catch {
+    return
+  }
+  await writeJsonAtomically({
+    filePath: snapshotCacheFilePath(repoRoot),
+    payload: {
+      schemaVersion: 1,
+      key,
+      createdAt: new Date().toISOString(),
+      worktrees,
+    },
+  })
+}
+
+export const invalidateSnapshotCache = async (repoRoot: string): Promise<void> => {
+  await rm(snapshotCacheFilePath(repoRoot), { force: true })
+}
@@ -0,0 +1,123 @@
+import { constants as fsConstants } from "node:fs"
+import { access } from "node:fs/promises"
+import { branchToWorktreePath, isManagedWorktreePath } from "./paths"
+import type { WorktreeStatus } from "./worktree-state"
+
+export type AdoptCandidate = {
+  readonly branch: string
+  readonly fromPath: string
+  readonly toPath: string
+}
+
+export type AdoptSkippedReason = "detached" | "locked" | "target_exists" | "target_conflict"
+
+export type AdoptSkipped = {
+  readonly branch: string | null
+  readonly fromPath: string
+  readonly toPath: string | null
+  readonly reason: AdoptSkippedReason
+}
+
+export type AdoptPlan = {
+  readonly candidates: AdoptCandidate[]
+  readonly skipped: AdoptSkipped[]
+}
+
+const doesPathExist = async (path: string): Promise<boolean> => {
+  try {
+    await access(path, fsConstants.F_OK)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const planWorktreeAdoption = async ({
+  repoRoot,
+  managedWorktreeRoot,
+  worktreeRoot,
+  worktrees,
+}: {
+  readonly repoRoot: string
+  readonly managedWorktreeRoot: string
+  readonly worktreeRoot: string
+  readonly worktrees: readonly WorktreeStatus[]
+}): Promise<AdoptPlan> => {
+  const candidates: AdoptCandidate[] = []
+  const skipped: AdoptSkipped[] = []
+  const unresolvedCandidates: AdoptCandidate[] = []
+  const sortedWorktrees = [...worktrees].sort((a, b) => a.path.localeCompare(b.path))
+
+  for (const worktree of sortedWorktrees) {
+    if (worktree.path === repoRoot) {
+      continue
+    }
+    if (
+      isManagedWorktreePath({
+        worktreePath: worktree.path,
+        managedWorktreeRoot,
+      })
+    ) {
+      continue
+    }
+    if (worktree.branch === null) {
+      skipped.push({
+        branch: null,
+        fromPath: worktree.path,
+        toPath: null,
+        reason: "detached",
+      })
+      continue
+    }
+    if (worktree.locked.value) {
+      skipped.push({
+        branch: worktree.branch,
+        fromPath: worktree.path,
+        toPath: null,
+        reason: "locked",
+      })
+      continue
+    }
+
+    const toPath = branchToWorktreePath(repoRoot, worktree.branch, worktreeRoot)
+    unresolvedCandidates.push({
+      branch: worktree.branch,
+      fromPath: worktree.path,
+      toPath,
+    })
+  }
+  const uniqueTargetPaths = [...new Set(unresolvedCandidates.map((candidate) => candidate.toPath))]
+  const targetPathExistenceEntries = await Promise.all(
+    uniqueTargetPaths.map(async (path) => {
+      return [path, await doesPathExist(path)] as const
+    }),
+  )
+  const targetPathExistsMap = new Map<string, boolean>(targetPathExistenceEntries)
+  const reservedTargetPaths = new Set<string>()
+
+  for (const candidate of unresolvedCandidates) {
+    if (targetPathExistsMap.get(candidate.toPath) === true) {
+      skipped.push({
+        branch: candidate.branch,
+        fromPath: candidate.fromPath,
+        toPath: candidate.toPath,
+        reason: "target_exists",
+      })
+      continue
+    }
+    if (reservedTargetPaths.has(candidate.toPath)) {
+      skipped.push({
+        branch: candidate.branch,
+        fromPath: candidate.fromPath,
+        toPath: candidate.toPath,
+        reason: "target_conflict",
+      })
+      continue
+    }
+
+    reservedTargetPaths.add(candidate.toPath)
+    candidates.push(candidate)
+  }
+
+  return { candidates, skipped }
+}
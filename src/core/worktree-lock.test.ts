@@ -1,10 +1,20 @@
 import { constants as fsConstants } from "node:fs"
 import { access, mkdir, writeFile } from "node:fs/promises"
+import { hostname } from "node:os"
 import { join } from "node:path"
 import { afterEach, describe, expect, it } from "vitest"
 import { cleanupRepoFixtures, createRepoFixture } from "../test-utils/repo-fixture"
 import { branchToWorktreeId, getLocksDirectoryPath } from "./paths"
-import { deleteWorktreeLock, readWorktreeLock, upsertWorktreeLock } from "./worktree-lock"
+import {
+  deleteWorktreeLock,
+  isWorktreeLockHeldByOtherProcess,
+  isWorktreeLockStale,
+  parseLockDurationSeconds,
+  readWorktreeLock,
+  renewWorktreeLock,
+  runWorktreeLockHeartbeat,
+  upsertWorktreeLock,
+} from "./worktree-lock"
 
 const createRepoRoot = async (): Promise<string> => {
   return createRepoFixture({
@@ -149,4 +159,78 @@ describe("worktree lock", () => {
       }),
     ).resolves.toBeUndefined()
   })
+
+  it("parses lock durations and rejects invalid values", () => {
+    expect(parseLockDurationSeconds({ value: "90", option: "--ttl" })).toBe(90)
+    expect(parseLockDurationSeconds({ value: "30m", option: "--ttl" })).toBe(1800)
+    expect(parseLockDurationSeconds({ value: "2d", option: "--wait" })).toBe(172_800)
+    expect(() => parseLockDurationSeconds({ value: "0s", option: "--ttl" })).toThrowError(/--ttl/)
+    expect(() => parseLockDurationSeconds({ value: "soon", option: "--wait" })).toThrowError(/--wait/)
+  })
+
+  it("detects expired ttl and dead heartbeat owners as stale", () => {
+    const now = Date.parse("2026-03-01T00:00:00.000Z")
+
+    expect(isWorktreeLockStale({ expiresAt: "2026-03-01T00:00:01.000Z" }, now)).toBe(false)
+    expect(isWorktreeLockStale({ expiresAt: "2026-02-28T23:59:59.000Z" }, now)).toBe(true)
+    expect(isWorktreeLockStale({ heartbeat: true, host: hostname(), pid: process.pid }, now)).toBe(false)
+    expect(isWorktreeLockStale({ heartbeat: true, host: hostname(), pid: 999_999 }, now)).toBe(true)
+    expect(isWorktreeLockStale({ heartbeat: false, host: hostname(), pid: 999_999 }, now)).toBe(false)
+    expect(isWorktreeLockStale({ heartbeat: true, host: "elsewhere", pid: 999_999 }, now)).toBe(false)
+  })
+
+  it("detects locks held by another live process on this host", () => {
+    expect(isWorktreeLockHeldByOtherProcess({ host: hostname(), pid: process.ppid })).toBe(true)
+    expect(isWorktreeLockHeldByOtherProcess({ host: hostname(), pid: process.pid })).toBe(false)
+    expect(isWorktreeLockHeldByOtherProcess({ host: hostname(), pid: 999_999 })).toBe(false)
+    expect(isWorktreeLockHeldByOtherProcess({ host: "elsewhere", pid: process.ppid })).toBe(false)
+  })
+
+  it("renews ttl locks and keeps renewing while the heartbeat runs", async () => {
+    const repoRoot = await createRepoRoot()
+    const first = await upsertWorktreeLock({
+      repoRoot,
+      branch: "feature/a",
+      reason: "agent",
+      owner: "codex",
+      ttlSeconds: 60,
+      heartbeat: true,
+    })
+    expect(first.ttlSeconds).toBe(60)
+    expect(Date.parse(first.expiresAt as string)).toBe(Date.parse(first.updatedAt) + 60_000)
+
+    const renewed = await renewWorktreeLock({ repoRoot, branch: "feature/a", ttlSeconds: 120 })
+    expect(renewed?.ttlSeconds).toBe(120)
+    expect(renewed?.createdAt).toBe(first.createdAt)
+    expect(await renewWorktreeLock({ repoRoot, branch: "feature/missing" })).toBeNull()
+
+    const controller = new AbortController()
+    const heartbeat = runWorktreeLockHeartbeat({
+      repoRoot,
+      branch: "feature/a",
+      intervalMs: 10,
+      signal: controller.signal,
+    })
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    controller.abort()
+    await heartbeat
+
+    const latest = await readWorktreeLock({ repoRoot, branch: "feature/a" })
+    expect(Date.parse(latest.record?.updatedAt as string)).toBeGreaterThan(Date.parse(renewed?.updatedAt as string))
+    expect(latest.record?.ttlSeconds).toBe(120)
+  })
+
+  it("stops the heartbeat once the lock is released", async () => {
+    const repoRoot = await createRepoRoot()
+    await upsertWorktreeLock({ repoRoot, branch: "feature/a", reason: "agent", owner: "codex", heartbeat: true })
+    await deleteWorktreeLock({ repoRoot, branch: "feature/a" })
+
+    await runWorktreeLockHeartbeat({
+      repoRoot,
+      branch: "feature/a",
+      intervalMs: 1,
+      signal: new AbortController().signal,
+    })
+    expect((await readWorktreeLock({ repoRoot, branch: "feature/a" })).exists).toBe(false)
+  })
 })
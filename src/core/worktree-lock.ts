@@ -1,8 +1,17 @@
 import { rm } from "node:fs/promises"
 import { hostname } from "node:os"
 import { join } from "node:path"
+import { createCliError } from "./errors"
 import { readJsonRecord, writeJsonAtomically } from "./json-storage"
 import { branchToWorktreeId, getLocksDirectoryPath } from "./paths"
+import { isProcessAlive } from "./repo-lock"
+
+const LOCK_DURATION_UNIT_SECONDS: Readonly<Record<string, number>> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+}
 
 export type WorktreeLockRecord = {
   readonly schemaVersion: 1
@@ -14,6 +23,14 @@ export type WorktreeLockRecord = {
   readonly pid: number
   readonly createdAt: string
   readonly updatedAt: string
+  readonly ttlSeconds?: number | null
+  readonly expiresAt?: string | null
+  readonly heartbeat?: boolean
+}
+
+export type WorktreeLockLiveness = Pick<WorktreeLockRecord, "expiresAt" | "heartbeat"> & {
+  readonly host?: string
+  readonly pid?: number
 }
 
 type ParsedLock = {
@@ -31,7 +48,50 @@ export const isWorktreeLockRecord = (parsed: Partial<WorktreeLockRecord>): parse
     typeof parsed.host === "string" &&
     typeof parsed.pid === "number" &&
     typeof parsed.createdAt === "string" &&
-    typeof parsed.updatedAt === "string"
+    typeof parsed.updatedAt === "string" &&
+    (parsed.ttlSeconds === undefined || parsed.ttlSeconds === null || typeof parsed.ttlSeconds === "number") &&
+    (parsed.expiresAt === undefined || parsed.expiresAt === null || typeof parsed.expiresAt === "string") &&
+    (parsed.heartbeat === undefined || typeof parsed.heartbeat === "boolean")
+  )
+}
+
+export const parseLockDurationSeconds = ({
+  value,
+  option,
+}: {
+  readonly value: string
+  readonly option: string
+}): number => {
+  const matched = /^(\d+)([smhd]?)$/.exec(value)
+  const amount = matched === null ? 0 : Number.parseInt(matched[1] as string, 10)
+  if (matched === null || amount <= 0) {
+    throw createCliError("INVALID_ARGUMENT", {
+      message: `${option} must be a positive duration (e.g. 90s, 30m, 12h, 7d)`,
+      details: { value },
+    })
+  }
+  return amount * (LOCK_DURATION_UNIT_SECONDS[matched[2] === "" ? "s" : (matched[2] as string)] as number)
+}
+
+const resolveExpiresAt = (ttlSeconds: number | null, nowMs: number): string | null => {
+  return ttlSeconds === null ? null : new Date(nowMs + ttlSeconds * 1000).toISOString()
+}
+
+export const isWorktreeLockStale = (lock: WorktreeLockLiveness, nowMs: number = Date.now()): boolean => {
+  if (typeof lock.expiresAt === "string" && Date.parse(lock.expiresAt) <= nowMs) {
+    return true
+  }
+  return (
+    lock.heartbeat === true &&
+    lock.host === hostname() &&
+    typeof lock.pid === "number" &&
+    isProcessAlive(lock.pid) !== true
+  )
+}
+
+export const isWorktreeLockHeldByOtherProcess = (lock: WorktreeLockLiveness): boolean => {
+  return (
+    lock.host === hostname() && typeof lock.pid === "number" && lock.pid !== process.pid && isProcessAlive(lock.pid)
   )
 }
 
@@ -59,14 +119,19 @@ export const upsertWorktreeLock = async ({
   branch,
   reason,
   owner,
+  ttlSeconds = null,
+  heartbeat = false,
 }: {
   readonly repoRoot: string
   readonly branch: string
   readonly reason: string
   readonly owner: string
+  readonly ttlSeconds?: number | null
+  readonly heartbeat?: boolean
 }): Promise<WorktreeLockRecord> => {
   const { path, record } = await readWorktreeLock({ repoRoot, branch })
-  const now = new Date().toISOString()
+  const nowMs = Date.now()
+  const now = new Date(nowMs).toISOString()
   const next: WorktreeLockRecord = {
     schemaVersion: 1,
     branch,
@@ -77,6 +142,9 @@ export const upsertWorktreeLock = async ({
     pid: process.pid,
     createdAt: record?.createdAt ?? now,
     updatedAt: now,
+    ttlSeconds,
+    expiresAt: resolveExpiresAt(ttlSeconds, nowMs),
+    heartbeat,
   }
   await writeJsonAtomically({
     filePath: path,
@@ -85,6 +153,72 @@ export const upsertWorktreeLock = async ({
   return next
 }
 
+export const renewWorktreeLock = async ({
+  repoRoot,
+  branch,
+  ttlSeconds,
+}: {
+  readonly repoRoot: string
+  readonly branch: string
+  readonly ttlSeconds?: number
+}): Promise<WorktreeLockRecord | null> => {
+  const { path, record } = await readWorktreeLock({ repoRoot, branch })
+  if (record === null) {
+    return null
+  }
+  const nowMs = Date.now()
+  const nextTtlSeconds = ttlSeconds ?? record.ttlSeconds ?? null
+  const next: WorktreeLockRecord = {
+    ...record,
+    updatedAt: new Date(nowMs).toISOString(),
+    ttlSeconds: nextTtlSeconds,
+    expiresAt: resolveExpiresAt(nextTtlSeconds, nowMs),
+  }
+  await writeJsonAtomically({
+    filePath: path,
+    payload: next,
+  })
+  return next
+}
+
+const waitForNextBeat = async (intervalMs: number, signal: AbortSignal): Promise<void> => {
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, intervalMs)
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer)
+        resolve()
+      },
+      { once: true },
+    )
+  })
+}
+
+export const runWorktreeLockHeartbeat = async ({
+  repoRoot,
+  branch,
+  intervalMs,
+  signal,
+}: {
+  readonly repoRoot: string
+  readonly branch: string
+  readonly intervalMs: number
+  readonly signal: AbortSignal
+}): Promise<void> => {
+  while (signal.aborted !== true) {
+    await waitForNextBeat(intervalMs, signal)
+    if (signal.aborted) {
+      return
+    }
+    const { record } = await readWorktreeLock({ repoRoot, branch })
+    if (record === null || record.pid !== process.pid) {
+      return
+    }
+    await renewWorktreeLock({ repoRoot, branch })
+  }
+}
+
 export const deleteWorktreeLock = async ({
   repoRoot,
   branch,
@@ -95,3 +229,17 @@ export const deleteWorktreeLock = async ({
   const path = lockFilePath(repoRoot, branch)
   await rm(path, { force: true })
 }
+
+export const restoreWorktreeLock = async ({
+  repoRoot,
+  record,
+}: {
+  readonly repoRoot: string
+  readonly record: WorktreeLockRecord
+}): Promise<void> => {
+  await writeJsonAtomically({
+    filePath: lockFilePath(repoRoot, record.branch),
+    payload: record,
+    ensureDir: true,
+  })
+}
@@ -75,6 +75,37 @@ describe("worktree merge lifecycle", () => {
     expect(third.lastDivergedHead).toBe("def456")
   })
 
+  it("stores parent branch and keeps it when later updates omit it", async () => {
+    const repoRoot = await createRepoRoot()
+    const created = await upsertWorktreeMergeLifecycle({
+      repoRoot,
+      branch: "feature/child",
+      baseBranch: "main",
+      parentBranch: "feature/parent",
+      observedDivergedHead: null,
+    })
+    const refreshed = await upsertWorktreeMergeLifecycle({
+      repoRoot,
+      branch: "feature/child",
+      baseBranch: "main",
+      observedDivergedHead: "abc123",
+    })
+    const reset = await upsertWorktreeMergeLifecycle({
+      repoRoot,
+      branch: "feature/child",
+      baseBranch: "main",
+      parentBranch: null,
+      observedDivergedHead: null,
+    })
+
+    expect(created.parentBranch).toBe("feature/parent")
+    expect(refreshed.parentBranch).toBe("feature/parent")
+    expect(refreshed.lastDivergedHead).toBe("abc123")
+    expect(reset.parentBranch).toBeNull()
+    expect(reset.everDiverged).toBe(false)
+    expect(reset.lastDivergedHead).toBeNull()
+  })
+
   it("ignores legacy schema records and rewrites with schema version 2", async () => {
     const repoRoot = await createRepoRoot()
     const branch = "feature/legacy"
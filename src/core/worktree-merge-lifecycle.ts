@@ -9,6 +9,7 @@ export type WorktreeMergeLifecycleRecord = {
   readonly branch: string
   readonly worktreeId: string
   readonly baseBranch: string
+  readonly parentBranch?: string | null
   readonly everDiverged: boolean
   readonly lastDivergedHead: string | null
   readonly createdAt: string
@@ -39,11 +40,16 @@ const isWorktreeMergeLifecycleRecord = (
   const isLastDivergedHeadValid =
     parsed.lastDivergedHead === null ||
     (typeof parsed.lastDivergedHead === "string" && parsed.lastDivergedHead.length > 0)
+  const isParentBranchValid =
+    parsed.parentBranch === undefined ||
+    parsed.parentBranch === null ||
+    (typeof parsed.parentBranch === "string" && parsed.parentBranch.length > 0)
 
   return (
     typeof parsed.branch === "string" &&
     typeof parsed.worktreeId === "string" &&
     typeof parsed.baseBranch === "string" &&
+    isParentBranchValid &&
     typeof parsed.everDiverged === "boolean" &&
     isLastDivergedHeadValid &&
     typeof parsed.createdAt === "string" &&
@@ -70,11 +76,13 @@ export const upsertWorktreeMergeLifecycle = async ({
   repoRoot,
   branch,
   baseBranch,
+  parentBranch,
   observedDivergedHead,
 }: {
   readonly repoRoot: string
   readonly branch: string
   readonly baseBranch: string
+  readonly parentBranch?: string | null
   readonly observedDivergedHead: string | null
 }): Promise<WorktreeMergeLifecycleRecord> => {
   const normalizedObservedHead =
@@ -87,6 +95,7 @@ export const upsertWorktreeMergeLifecycle = async ({
       branch,
       worktreeId: branchToWorktreeId(branch),
       baseBranch,
+      parentBranch: parentBranch ?? null,
       everDiverged: normalizedObservedHead !== null,
       lastDivergedHead: normalizedObservedHead,
       createdAt: now,
@@ -99,19 +108,23 @@ export const upsertWorktreeMergeLifecycle = async ({
     current.valid &&
     current.record !== null &&
     current.record.baseBranch === baseBranch &&
+    (parentBranch === undefined || parentBranch === (current.record.parentBranch ?? null)) &&
     normalizedObservedHead === null
   ) {
     return current.record
   }
 
   const now = new Date().toISOString()
-  const everDiverged = current.record?.everDiverged === true || normalizedObservedHead !== null
-  const lastDivergedHead = normalizedObservedHead ?? current.record?.lastDivergedHead ?? null
+  const parentChanged = parentBranch !== undefined && parentBranch !== (current.record?.parentBranch ?? null)
+  const everDiverged =
+    (parentChanged !== true && current.record?.everDiverged === true) || normalizedObservedHead !== null
+  const lastDivergedHead = normalizedObservedHead ?? (parentChanged ? null : (current.record?.lastDivergedHead ?? null))
   const next: WorktreeMergeLifecycleRecord = {
     schemaVersion: 2,
     branch,
     worktreeId: branchToWorktreeId(branch),
     baseBranch,
+    parentBranch: parentBranch === undefined ? (current.record?.parentBranch ?? null) : parentBranch,
     everDiverged,
     lastDivergedHead,
     createdAt: current.record?.createdAt ?? now,
@@ -148,6 +161,7 @@ export const moveWorktreeMergeLifecycle = async ({
       branch: toBranch,
       worktreeId: branchToWorktreeId(toBranch),
       baseBranch,
+      parentBranch: null,
       everDiverged: normalizedObservedHead !== null,
       lastDivergedHead: normalizedObservedHead,
       createdAt: now,
@@ -165,6 +179,7 @@ export const moveWorktreeMergeLifecycle = async ({
     branch: toBranch,
     worktreeId: branchToWorktreeId(toBranch),
     baseBranch,
+    parentBranch: source.record?.parentBranch ?? null,
     everDiverged,
     lastDivergedHead,
     createdAt: source.record?.createdAt ?? now,
@@ -193,3 +208,17 @@ export const deleteWorktreeMergeLifecycle = async ({
   const path = lifecycleFilePath(repoRoot, branch)
   await rm(path, { force: true })
 }
+
+export const restoreWorktreeMergeLifecycle = async ({
+  repoRoot,
+  record,
+}: {
+  readonly repoRoot: string
+  readonly record: WorktreeMergeLifecycleRecord
+}): Promise<void> => {
+  await writeJsonAtomically({
+    filePath: lifecycleFilePath(repoRoot, record.branch),
+    payload: record,
+    ensureDir: true,
+  })
+}
@@ -0,0 +1,53 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, describe, expect, it } from "vitest"
+import {
+  deletePoolSpare,
+  getPoolStateDirectoryPath,
+  isPoolWorktreePath,
+  listPoolSpares,
+  writePoolSpare,
+  type PoolSpareRecord,
+} from "./worktree-pool"
+
+const tempDirs = new Set<string>()
+
+afterEach(async () => {
+  await Promise.all([...tempDirs].map(async (dir) => rm(dir, { recursive: true, force: true })))
+  tempDirs.clear()
+})
+
+const spare = (id: string): PoolSpareRecord => {
+  return {
+    schemaVersion: 1,
+    id,
+    path: `/repo/.worktree/.pool/${id}`,
+    head: "abc123",
+    createdAt: "2026-01-01T00:00:00.000Z",
+  }
+}
+
+describe("worktree pool", () => {
+  it("stores spare records and skips invalid files", async () => {
+    const repoRoot = await mkdtemp(join(tmpdir(), "vde-worktree-pool-"))
+    tempDirs.add(repoRoot)
+
+    await writePoolSpare({ repoRoot, record: spare("b") })
+    await writePoolSpare({ repoRoot, record: spare("a") })
+    await writeFile(join(getPoolStateDirectoryPath(repoRoot), "broken.json"), "{", "utf8")
+
+    expect((await listPoolSpares(repoRoot)).map((record) => record.id)).toEqual(["a", "b"])
+
+    await deletePoolSpare({ repoRoot, id: "a" })
+    expect(await listPoolSpares(repoRoot)).toEqual([spare("b")])
+  })
+
+  it("detects paths inside the pool directory", () => {
+    const managedWorktreeRoot = "/repo/.worktree"
+
+    expect(isPoolWorktreePath({ worktreePath: "/repo/.worktree/.pool/a", managedWorktreeRoot })).toBe(true)
+    expect(isPoolWorktreePath({ worktreePath: "/repo/.worktree/.pool", managedWorktreeRoot })).toBe(false)
+    expect(isPoolWorktreePath({ worktreePath: "/repo/.worktree/feature/a", managedWorktreeRoot })).toBe(false)
+  })
+})
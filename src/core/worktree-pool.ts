@@ -0,0 +1,98 @@
+import { randomBytes } from "node:crypto"
+import { readdir, rm } from "node:fs/promises"
+import { join } from "node:path"
+import { readJsonRecord, writeJsonAtomically } from "./json-storage"
+import { getStateDirectoryPath, isManagedWorktreePath } from "./paths"
+
+const POOL_DIRECTORY_NAME = ".pool"
+
+export type PoolSpareRecord = {
+  readonly schemaVersion: 1
+  readonly id: string
+  readonly path: string
+  readonly head: string
+  readonly createdAt: string
+}
+
+const isPoolSpareRecord = (parsed: Partial<PoolSpareRecord>): parsed is PoolSpareRecord => {
+  return (
+    typeof parsed.id === "string" &&
+    typeof parsed.path === "string" &&
+    typeof parsed.head === "string" &&
+    typeof parsed.createdAt === "string"
+  )
+}
+
+export const getPoolStateDirectoryPath = (repoRoot: string): string => {
+  return join(getStateDirectoryPath(repoRoot), "pool")
+}
+
+export const getPoolWorktreeRootPath = (managedWorktreeRoot: string): string => {
+  return join(managedWorktreeRoot, POOL_DIRECTORY_NAME)
+}
+
+export const isPoolWorktreePath = ({
+  worktreePath,
+  managedWorktreeRoot,
+}: {
+  readonly worktreePath: string
+  readonly managedWorktreeRoot: string
+}): boolean => {
+  return isManagedWorktreePath({
+    worktreePath,
+    managedWorktreeRoot: getPoolWorktreeRootPath(managedWorktreeRoot),
+  })
+}
+
+const spareFilePath = (repoRoot: string, id: string): string => {
+  return join(getPoolStateDirectoryPath(repoRoot), `${id}.json`)
+}
+
+export const createPoolSpareId = (): string => {
+  return `${new Date().toISOString().replace(/[-:.]/g, "")}-${randomBytes(3).toString("hex")}`
+}
+
+export const writePoolSpare = async ({
+  repoRoot,
+  record,
+}: {
+  readonly repoRoot: string
+  readonly record: PoolSpareRecord
+}): Promise<void> => {
+  await writeJsonAtomically({
+    filePath: spareFilePath(repoRoot, record.id),
+    payload: record,
+    ensureDir: true,
+  })
+}
+
+export const deletePoolSpare = async ({
+  repoRoot,
+  id,
+}: {
+  readonly repoRoot: string
+  readonly id: string
+}): Promise<void> => {
+  await rm(spareFilePath(repoRoot, id), { force: true })
+}
+
+export const listPoolSpares = async (repoRoot: string): Promise<PoolSpareRecord[]> => {
+  let fileNames: string[]
+  try {
+    fileNames = await readdir(getPoolStateDirectoryPath(repoRoot))
+  } catch {
+    return []
+  }
+  const records: PoolSpareRecord[] = []
+  for (const fileName of fileNames.filter((name) => name.endsWith(".json")).sort()) {
+    const parsed = await readJsonRecord<PoolSpareRecord>({
+      path: join(getPoolStateDirectoryPath(repoRoot), fileName),
+      schemaVersion: 1,
+      validate: isPoolSpareRecord,
+    })
+    if (parsed.record !== null) {
+      records.push(parsed.record)
+    }
+  }
+  return records
+}
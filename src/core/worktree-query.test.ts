@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest"
+import {
+  filterWorktrees,
+  globToRegExp,
+  parseWorktreeFilters,
+  parseWorktreeSort,
+  parseWorktreeWhere,
+  sortWorktrees,
+} from "./worktree-query"
+import type { WorktreeStatus } from "./worktree-state"
+
+const worktree = ({
+  branch,
+  dirty = false,
+  merged = null,
+  owner = null,
+  pr = null,
+  ahead = null,
+}: {
+  readonly branch: string | null
+  readonly dirty?: boolean
+  readonly merged?: boolean | null
+  readonly owner?: string | null
+  readonly pr?: WorktreeStatus["pr"]["status"]
+  readonly ahead?: number | null
+}): WorktreeStatus => {
+  return {
+    branch,
+    path: `/repo/.worktree/${branch ?? "detached"}`,
+    head: "abc",
+    parent: null,
+    dirty,
+    locked: { value: owner !== null, reason: owner !== null ? "busy" : null, owner, stale: false, expiresAt: null },
+    merged: { byAncestry: merged, byPR: null, overall: merged },
+    pr: { status: pr, url: null },
+    upstream: { ahead, behind: null, remote: null },
+  }
+}
+
+describe("worktree filter", () => {
+  it("converts branch globs to anchored patterns", () => {
+    expect(globToRegExp("feature/*").test("feature/a")).toBe(true)
+    expect(globToRegExp("feature/*").test("feature/a/b")).toBe(false)
+    expect(globToRegExp("feature/**").test("feature/a/b")).toBe(true)
+    expect(globToRegExp("**/.env*").test(".env.local")).toBe(true)
+    expect(globToRegExp("apps/**/.env").test("apps/web/api/.env")).toBe(true)
+    expect(globToRegExp("apps/**/.env").test("apps/.env")).toBe(true)
+    expect(globToRegExp("fix-?").test("fix-1")).toBe(true)
+    expect(globToRegExp("a.b").test("axb")).toBe(false)
+  })
+
+  it("combines comma-separated and repeated filters with AND", () => {
+    const worktrees = [
+      worktree({ branch: "main", merged: null }),
+      worktree({ branch: "feature/a", dirty: true, merged: false }),
+      worktree({ branch: "feature/b", merged: true, owner: "codex" }),
+      worktree({ branch: "fix/c", dirty: true, merged: false, owner: "human" }),
+      worktree({ branch: null }),
+    ]
+
+    const select = (...values: string[]): Array<string | null> => {
+      return filterWorktrees({ worktrees, filters: parseWorktreeFilters(values) }).map((entry) => entry.branch)
+    }
+
+    expect(select("dirty")).toEqual(["feature/a", "fix/c"])
+    expect(select("dirty,branch=feature/*")).toEqual(["feature/a"])
+    expect(select("unmerged", "locked")).toEqual(["fix/c"])
+    expect(select("owner=codex")).toEqual(["feature/b"])
+    expect(select("clean", "unlocked")).toEqual(["main", null])
+    expect(select()).toHaveLength(5)
+  })
+
+  it("rejects unknown filter terms", () => {
+    expect(() => parseWorktreeFilters(["stale"])).toThrowError(/Invalid filter: stale/)
+    expect(() => parseWorktreeFilters(["owner="])).toThrowError(/Invalid filter/)
+  })
+
+  it("evaluates --where expressions with precedence, negation and parentheses", () => {
+    const worktrees = [
+      worktree({ branch: "feature/a", dirty: true, owner: "codex", pr: "open" }),
+      worktree({ branch: "feature/b", dirty: true }),
+      worktree({ branch: "fix/c", merged: true, pr: "merged" }),
+      worktree({ branch: "fix/d", dirty: true, owner: "human" }),
+    ]
+
+    const select = (expression: string): Array<string | null> => {
+      return filterWorktrees({ worktrees, filters: [parseWorktreeWhere(expression)] }).map((entry) => entry.branch)
+    }
+
+    expect(select("dirty && !locked")).toEqual(["feature/b"])
+    expect(select("merged || owner=codex && dirty")).toEqual(["feature/a", "fix/c"])
+    expect(select("!(branch=feature/* || pr=merged)")).toEqual(["fix/d"])
+    expect(select("pr=open")).toEqual(["feature/a"])
+    expect(() => parseWorktreeWhere("dirty &&")).toThrowError(/unexpected end of expression/)
+    expect(() => parseWorktreeWhere("(dirty")).toThrowError(/missing closing parenthesis/)
+    expect(() => parseWorktreeWhere("dirty locked")).toThrowError(/unexpected token locked/)
+    expect(() => parseWorktreeWhere("pr=draft")).toThrowError(/Invalid PR status: draft/)
+  })
+
+  it("sorts by key with descending prefix and keeps missing values last", () => {
+    const worktrees = [
+      worktree({ branch: "b", ahead: 9 }),
+      worktree({ branch: "a", ahead: 1 }),
+      worktree({ branch: "c", ahead: null }),
+      worktree({ branch: "d" }),
+    ]
+    const metricsByPath = new Map([
+      ["/repo/.worktree/a", { updatedAt: 30, ahead: null, behind: 1 }],
+      ["/repo/.worktree/b", { updatedAt: 10, ahead: 2, behind: 0 }],
+      ["/repo/.worktree/c", { updatedAt: 20, ahead: 5, behind: 3 }],
+      ["/repo/.worktree/d", { updatedAt: Number.NaN, ahead: 0, behind: null }],
+    ])
+
+    const order = (value: string): Array<string | null> => {
+      return sortWorktrees({ worktrees, sort: parseWorktreeSort(value), metricsByPath }).map((entry) => entry.branch)
+    }
+
+    expect(order("branch")).toEqual(["a", "b", "c", "d"])
+    expect(order("-ahead")).toEqual(["c", "b", "d", "a"])
+    expect(order("ahead")).toEqual(["d", "b", "c", "a"])
+    expect(order("behind")).toEqual(["b", "a", "c", "d"])
+    expect(order("-updatedAt")).toEqual(["a", "c", "b", "d"])
+    expect(order("updatedAt")).toEqual(["b", "c", "a", "d"])
+    expect(() => parseWorktreeSort("size")).toThrowError(/Invalid --sort key: size/)
+  })
+})
@@ -0,0 +1,335 @@
+import { PR_STATUSES, type PrStatus } from "../integrations/pr"
+import { createCliError } from "./errors"
+import type { WorktreeStatus } from "./worktree-state"
+
+export type WorktreeFilter =
+  | { readonly kind: "dirty"; readonly value: boolean }
+  | { readonly kind: "merged"; readonly value: boolean }
+  | { readonly kind: "locked"; readonly value: boolean }
+  | { readonly kind: "owner"; readonly owner: string }
+  | { readonly kind: "branch"; readonly pattern: RegExp }
+  | { readonly kind: "pr"; readonly status: PrStatus }
+  | { readonly kind: "not"; readonly filter: WorktreeFilter }
+  | { readonly kind: "and" | "or"; readonly filters: readonly WorktreeFilter[] }
+
+export const WORKTREE_SORT_KEYS = [
+  "branch",
+  "path",
+  "updatedAt",
+  "dirty",
+  "locked",
+  "merged",
+  "pr",
+  "ahead",
+  "behind",
+] as const
+
+export type WorktreeSortKey = (typeof WORKTREE_SORT_KEYS)[number]
+
+export type WorktreeSort = {
+  readonly key: WorktreeSortKey
+  readonly descending: boolean
+}
+
+export type WorktreeSortMetrics = {
+  readonly updatedAt: number | null
+  readonly ahead: number | null
+  readonly behind: number | null
+}
+
+const FLAG_FILTERS: Readonly<Record<string, WorktreeFilter>> = {
+  dirty: { kind: "dirty", value: true },
+  clean: { kind: "dirty", value: false },
+  merged: { kind: "merged", value: true },
+  unmerged: { kind: "merged", value: false },
+  locked: { kind: "locked", value: true },
+  unlocked: { kind: "locked", value: false },
+}
+
+const escapeRegExp = (value: string): string => {
+  return value.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+}
+
+export const globToRegExp = (glob: string): RegExp => {
+  let source = ""
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index] as string
+    if (char === "*") {
+      if (glob[index + 1] === "*" && glob[index + 2] === "/") {
+        source += "(?:.*/)?"
+        index += 2
+      } else if (glob[index + 1] === "*") {
+        source += ".*"
+        index += 1
+      } else {
+        source += "[^/]*"
+      }
+      continue
+    }
+    if (char === "?") {
+      source += "[^/]"
+      continue
+    }
+    source += escapeRegExp(char)
+  }
+  return new RegExp(`^${source}$`)
+}
+
+export const toPrStatusFilter = (value: string): WorktreeFilter => {
+  const status = PR_STATUSES.find((candidate) => candidate === value)
+  if (status === undefined) {
+    throw createCliError("INVALID_ARGUMENT", {
+      message: `Invalid PR status: ${value}`,
+      details: { value, supported: PR_STATUSES },
+    })
+  }
+  return { kind: "pr", status }
+}
+
+const parseWorktreeFilterTerm = (term: string): WorktreeFilter => {
+  const flag = FLAG_FILTERS[term]
+  if (flag !== undefined) {
+    return flag
+  }
+  const eqIndex = term.indexOf("=")
+  const key = eqIndex >= 0 ? term.slice(0, eqIndex) : ""
+  const value = eqIndex >= 0 ? term.slice(eqIndex + 1) : ""
+  if (key === "owner" && value.length > 0) {
+    return { kind: "owner", owner: value }
+  }
+  if (key === "branch" && value.length > 0) {
+    return { kind: "branch", pattern: globToRegExp(value) }
+  }
+  if (key === "pr" && value.length > 0) {
+    return toPrStatusFilter(value)
+  }
+  throw createCliError("INVALID_ARGUMENT", {
+    message: `Invalid filter: ${term}`,
+    details: {
+      filter: term,
+      supported: [...Object.keys(FLAG_FILTERS), "owner=<name>", "branch=<glob>", "pr=<status>"],
+    },
+  })
+}
+
+export const parseWorktreeFilters = (values: readonly string[]): WorktreeFilter[] => {
+  return values.flatMap((value) => {
+    return value
+      .split(",")
+      .map((term) => term.trim())
+      .filter((term) => term.length > 0)
+      .map(parseWorktreeFilterTerm)
+  })
+}
+
+const tokenizeWhereExpression = (expression: string): string[] => {
+  const tokens: string[] = []
+  let index = 0
+  while (index < expression.length) {
+    const char = expression[index] as string
+    if (/\s/.test(char)) {
+      index += 1
+      continue
+    }
+    const operator = ["&&", "||"].find((candidate) => expression.startsWith(candidate, index))
+    if (operator !== undefined) {
+      tokens.push(operator)
+      index += operator.length
+      continue
+    }
+    if (char === "!" || char === "(" || char === ")") {
+      tokens.push(char)
+      index += 1
+      continue
+    }
+    let end = index
+    while (end < expression.length && /[\s!()&|]/.test(expression[end] as string) !== true) {
+      end += 1
+    }
+    if (end === index) {
+      throw createCliError("INVALID_ARGUMENT", {
+        message: `Invalid --where expression near: ${expression.slice(index)}`,
+        details: { expression },
+      })
+    }
+    tokens.push(expression.slice(index, end))
+    index = end
+  }
+  return tokens
+}
+
+export const parseWorktreeWhere = (expression: string): WorktreeFilter => {
+  const tokens = tokenizeWhereExpression(expression)
+  let position = 0
+  const fail = (message: string): never => {
+    throw createCliError("INVALID_ARGUMENT", {
+      message: `Invalid --where expression: ${message}`,
+      details: { expression },
+    })
+  }
+
+  const parsePrimary = (): WorktreeFilter => {
+    const token = tokens[position]
+    if (token === undefined) {
+      return fail("unexpected end of expression")
+    }
+    position += 1
+    if (token === "!") {
+      return { kind: "not", filter: parsePrimary() }
+    }
+    if (token === "(") {
+      const inner = parseOr()
+      if (tokens[position] !== ")") {
+        return fail("missing closing parenthesis")
+      }
+      position += 1
+      return inner
+    }
+    if (token === ")" || token === "&&" || token === "||") {
+      return fail(`unexpected token ${token}`)
+    }
+    return parseWorktreeFilterTerm(token)
+  }
+
+  const parseAnd = (): WorktreeFilter => {
+    const filters = [parsePrimary()]
+    while (tokens[position] === "&&") {
+      position += 1
+      filters.push(parsePrimary())
+    }
+    return filters.length === 1 ? (filters[0] as WorktreeFilter) : { kind: "and", filters }
+  }
+
+  const parseOr = (): WorktreeFilter => {
+    const filters = [parseAnd()]
+    while (tokens[position] === "||") {
+      position += 1
+      filters.push(parseAnd())
+    }
+    return filters.length === 1 ? (filters[0] as WorktreeFilter) : { kind: "or", filters }
+  }
+
+  const filter = parseOr()
+  if (position < tokens.length) {
+    return fail(`unexpected token ${tokens[position] as string}`)
+  }
+  return filter
+}
+
+const matchesWorktreeFilter = ({
+  worktree,
+  filter,
+}: {
+  readonly worktree: WorktreeStatus
+  readonly filter: WorktreeFilter
+}): boolean => {
+  switch (filter.kind) {
+    case "dirty":
+      return worktree.dirty === filter.value
+    case "merged":
+      return worktree.merged.overall === filter.value
+    case "locked":
+      return worktree.locked.value === filter.value
+    case "owner":
+      return worktree.locked.value && worktree.locked.owner === filter.owner
+    case "branch":
+      return worktree.branch !== null && filter.pattern.test(worktree.branch)
+    case "pr":
+      return worktree.pr.status === filter.status
+    case "not":
+      return matchesWorktreeFilter({ worktree, filter: filter.filter }) !== true
+    case "and":
+      return filter.filters.every((inner) => matchesWorktreeFilter({ worktree, filter: inner }))
+    case "or":
+      return filter.filters.some((inner) => matchesWorktreeFilter({ worktree, filter: inner }))
+  }
+}
+
+export const filterWorktrees = ({
+  worktrees,
+  filters,
+}: {
+  readonly worktrees: readonly WorktreeStatus[]
+  readonly filters: readonly WorktreeFilter[]
+}): WorktreeStatus[] => {
+  return worktrees.filter((worktree) => filters.every((filter) => matchesWorktreeFilter({ worktree, filter })))
+}
+
+export const parseWorktreeSort = (value: string): WorktreeSort => {
+  const descending = value.startsWith("-")
+  const keyName = descending ? value.slice(1) : value
+  const key = WORKTREE_SORT_KEYS.find((candidate) => candidate === keyName)
+  if (key === undefined) {
+    throw createCliError("INVALID_ARGUMENT", {
+      message: `Invalid --sort key: ${value}`,
+      details: { value, supported: WORKTREE_SORT_KEYS },
+    })
+  }
+  return { key, descending }
+}
+
+type SortValue = string | number | null
+
+const toBooleanSortValue = (value: boolean | null): SortValue => {
+  return value === null ? null : value ? 1 : 0
+}
+
+const toNumberSortValue = (value: number | null | undefined): SortValue => {
+  return value === null || value === undefined || Number.isNaN(value) ? null : value
+}
+
+const resolveSortValue = ({
+  worktree,
+  key,
+  metricsByPath,
+}: {
+  readonly worktree: WorktreeStatus
+  readonly key: WorktreeSortKey
+  readonly metricsByPath: ReadonlyMap<string, WorktreeSortMetrics>
+}): SortValue => {
+  switch (key) {
+    case "branch":
+      return worktree.branch
+    case "path":
+      return worktree.path
+    case "updatedAt":
+    case "ahead":
+    case "behind":
+      return toNumberSortValue(metricsByPath.get(worktree.path)?.[key])
+    case "dirty":
+      return toBooleanSortValue(worktree.dirty)
+    case "locked":
+      return toBooleanSortValue(worktree.locked.value)
+    case "merged":
+      return toBooleanSortValue(worktree.merged.overall)
+    case "pr":
+      return worktree.pr.status
+  }
+}
+
+const compareSortValues = (left: SortValue, right: SortValue): number => {
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right
+  }
+  return String(left).localeCompare(String(right))
+}
+
+export const sortWorktrees = ({
+  worktrees,
+  sort,
+  metricsByPath = new Map(),
+}: {
+  readonly worktrees: readonly WorktreeStatus[]
+  readonly sort: WorktreeSort
+  readonly metricsByPath?: ReadonlyMap<string, WorktreeSortMetrics>
+}): WorktreeStatus[] => {
+  const direction = sort.descending ? -1 : 1
+  return [...worktrees].sort((left, right) => {
+    const leftValue = resolveSortValue({ worktree: left, key: sort.key, metricsByPath })
+    const rightValue = resolveSortValue({ worktree: right, key: sort.key, metricsByPath })
+    if (leftValue === null || rightValue === null) {
+      return leftValue === rightValue ? 0 : leftValue === null ? 1 : -1
+    }
+    return compareSortValues(leftValue, rightValue) * direction
+  })
+}
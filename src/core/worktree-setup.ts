@@ -0,0 +1,222 @@
+import { constants as fsConstants } from "node:fs"
+import { access, cp, mkdir, rm, symlink } from "node:fs/promises"
+import { dirname, isAbsolute, relative, resolve } from "node:path"
+import { createInterface } from "node:readline"
+import type { Readable } from "node:stream"
+import { execa } from "execa"
+import type { CopyStrategy, ResolvedConfig, SetupRunStep } from "../config/types"
+import { copyPathWithStrategy, type CopyStats } from "./copy-strategy"
+import { createCliError } from "./errors"
+import { ensurePathInsideRoot, resolveRepoRelativePath } from "./paths"
+
+export type WorktreeSetupResult = {
+  readonly copied: string[]
+  readonly linked: string[]
+  readonly ran: string[][]
+}
+
+export const resolveFileCopyTargets = ({
+  repoRoot,
+  targetWorktreeRoot,
+  relativePath,
+}: {
+  readonly repoRoot: string
+  readonly targetWorktreeRoot: string
+  readonly relativePath: string
+}): {
+  readonly sourcePath: string
+  readonly destinationPath: string
+  readonly relativeFromRoot: string
+} => {
+  const sourcePath = resolveRepoRelativePath({
+    repoRoot,
+    relativePath,
+  })
+  const relativeFromRoot = relative(repoRoot, sourcePath)
+  const destinationPath = ensurePathInsideRoot({
+    rootPath: targetWorktreeRoot,
+    path: resolve(targetWorktreeRoot, relativeFromRoot),
+    message: "Path is outside target worktree root",
+  })
+  return { sourcePath, destinationPath, relativeFromRoot }
+}
+
+const resolveLinkTargetPath = ({
+  sourcePath,
+  destinationPath,
+}: {
+  readonly sourcePath: string
+  readonly destinationPath: string
+}): string => {
+  return relative(dirname(destinationPath), sourcePath)
+}
+
+export const copyIntoWorktree = async ({
+  repoRoot,
+  targetWorktreeRoot,
+  relativePath,
+  strategy,
+}: {
+  readonly repoRoot: string
+  readonly targetWorktreeRoot: string
+  readonly relativePath: string
+  readonly strategy: CopyStrategy
+}): Promise<CopyStats> => {
+  const { sourcePath, destinationPath } = resolveFileCopyTargets({
+    repoRoot,
+    targetWorktreeRoot,
+    relativePath,
+  })
+  await access(sourcePath, fsConstants.F_OK)
+  await mkdir(dirname(destinationPath), { recursive: true })
+  return copyPathWithStrategy({ sourcePath, destinationPath, strategy })
+}
+
+export const linkIntoWorktree = async ({
+  repoRoot,
+  targetWorktreeRoot,
+  relativePath,
+  fallback,
+}: {
+  readonly repoRoot: string
+  readonly targetWorktreeRoot: string
+  readonly relativePath: string
+  readonly fallback: boolean
+}): Promise<"linked" | "copied"> => {
+  const { sourcePath, destinationPath } = resolveFileCopyTargets({
+    repoRoot,
+    targetWorktreeRoot,
+    relativePath,
+  })
+  await access(sourcePath, fsConstants.F_OK)
+  await rm(destinationPath, { recursive: true, force: true })
+  await mkdir(dirname(destinationPath), { recursive: true })
+
+  try {
+    await symlink(resolveLinkTargetPath({ sourcePath, destinationPath }), destinationPath)
+    return "linked"
+  } catch (error) {
+    if (process.platform === "win32" && fallback) {
+      await cp(sourcePath, destinationPath, {
+        recursive: true,
+        force: true,
+        errorOnExist: false,
+        dereference: false,
+      })
+      return "copied"
+    }
+    throw createCliError("INVALID_ARGUMENT", {
+      message: `Failed to create symlink for ${relativePath}`,
+      cause: error,
+    })
+  }
+}
+
+const resolveSetupRunCwd = ({
+  worktreePath,
+  step,
+}: {
+  readonly worktreePath: string
+  readonly step: SetupRunStep
+}): string => {
+  if (step.cwd === null) {
+    return worktreePath
+  }
+  if (isAbsolute(step.cwd)) {
+    throw createCliError("ABSOLUTE_PATH_NOT_ALLOWED", {
+      message: "Absolute path is not allowed",
+      details: { path: step.cwd },
+    })
+  }
+  return ensurePathInsideRoot({
+    rootPath: worktreePath,
+    path: resolve(worktreePath, step.cwd),
+    message: "Setup cwd is outside target worktree root",
+  })
+}
+
+const forwardLines = async ({
+  stream,
+  write,
+}: {
+  readonly stream: Readable | null
+  readonly write: (line: string) => void
+}): Promise<void> => {
+  if (stream === null) {
+    return
+  }
+  for await (const line of createInterface({ input: stream, crlfDelay: Number.POSITIVE_INFINITY })) {
+    write(line)
+  }
+}
+
+export const hasWorktreeSetup = (setup: ResolvedConfig["setup"]): boolean => {
+  return setup.copy.length > 0 || setup.link.length > 0 || setup.run.length > 0
+}
+
+export const runWorktreeSetup = async ({
+  repoRoot,
+  branch,
+  worktreePath,
+  setup,
+  copyStrategy,
+  stderr,
+}: {
+  readonly repoRoot: string
+  readonly branch: string | null
+  readonly worktreePath: string
+  readonly setup: ResolvedConfig["setup"]
+  readonly copyStrategy: CopyStrategy
+  readonly stderr: (line: string) => void
+}): Promise<WorktreeSetupResult> => {
+  for (const relativePath of setup.copy) {
+    await copyIntoWorktree({ repoRoot, targetWorktreeRoot: worktreePath, relativePath, strategy: copyStrategy })
+  }
+  for (const relativePath of setup.link) {
+    await linkIntoWorktree({ repoRoot, targetWorktreeRoot: worktreePath, relativePath, fallback: true })
+  }
+
+  const ran: string[][] = []
+  for (const step of setup.run) {
+    const cwd = resolveSetupRunCwd({ worktreePath, step })
+    const [executable, ...args] = step.cmd
+    const subprocess = execa(executable as string, args, {
+      cwd,
+      env: {
+        ...process.env,
+        WT_REPO_ROOT: repoRoot,
+        WT_ACTION: "setup",
+        WT_BRANCH: branch ?? "",
+        WT_WORKTREE_PATH: worktreePath,
+        WT_TOOL: "vde-worktree",
+      },
+      stdin: "ignore",
+      timeout: step.timeoutMs ?? undefined,
+      reject: false,
+    })
+    await Promise.all([
+      forwardLines({ stream: subprocess.stdout, write: stderr }),
+      forwardLines({ stream: subprocess.stderr, write: stderr }),
+    ])
+    const result = await subprocess
+    if (result.exitCode !== 0 || result.timedOut === true) {
+      throw createCliError("SETUP_FAILED", {
+        message: `Setup command failed: ${step.cmd.join(" ")} (${result.timedOut === true ? "timed out" : `exitCode=${String(result.exitCode ?? "unknown")}`})`,
+        details: {
+          cmd: step.cmd,
+          cwd,
+          exitCode: result.exitCode ?? null,
+          timedOut: result.timedOut === true,
+          stderr: result.stderr ?? "",
+        },
+      })
+    }
+    ran.push([...step.cmd])
+  }
+
+  return {
+    copied: [...setup.copy],
+    linked: [...setup.link],
+    ran,
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { collectStackDescendants, orderWorktreesByStack } from "./worktree-stack"
+
+const node = (
+  branch: string | null,
+  parent: string | null = null,
+): { branch: string | null; parent: string | null } => {
+  return { branch, parent }
+}
+
+describe("worktree stack", () => {
+  it("orders children directly below their parent with depth", () => {
+    const worktrees = [
+      node("main"),
+      node("feature/c", "feature/b"),
+      node("feature/b", "feature/a"),
+      node("other"),
+      node("feature/a"),
+      node(null),
+    ]
+
+    const ordered = orderWorktreesByStack(worktrees).map(({ worktree, depth }) => [worktree.branch, depth])
+
+    expect(ordered).toEqual([
+      ["main", 0],
+      ["other", 0],
+      ["feature/a", 0],
+      ["feature/b", 1],
+      ["feature/c", 2],
+      [null, 0],
+    ])
+  })
+
+  it("treats unknown parents as roots and keeps cyclic records listed", () => {
+    const worktrees = [node("feature/a", "gone"), node("feature/x", "feature/y"), node("feature/y", "feature/x")]
+
+    const ordered = orderWorktreesByStack(worktrees).map(({ worktree, depth }) => [worktree.branch, depth])
+
+    expect(ordered).toEqual([
+      ["feature/a", 0],
+      ["feature/x", 0],
+      ["feature/y", 1],
+    ])
+  })
+
+  it("collects descendants in rebase order", () => {
+    const worktrees = [
+      node("feature/a"),
+      node("feature/c", "feature/b"),
+      node("feature/b", "feature/a"),
+      node("feature/d", "feature/a"),
+    ]
+
+    expect(collectStackDescendants({ worktrees, branch: "feature/a" }).map((worktree) => worktree.branch)).toEqual([
+      "feature/b",
+      "feature/c",
+      "feature/d",
+    ])
+    expect(collectStackDescendants({ worktrees, branch: "feature/c" })).toEqual([])
+    expect(collectStackDescendants({ worktrees, branch: "missing" })).toEqual([])
+  })
+})
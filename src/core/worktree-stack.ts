@@ -0,0 +1,82 @@
+type StackNode = {
+  readonly branch: string | null
+  readonly parent: string | null
+}
+
+export type StackEntry<T extends StackNode> = {
+  readonly worktree: T
+  readonly depth: number
+}
+
+const groupChildrenByParent = <T extends StackNode>(worktrees: readonly T[]): Map<string, T[]> => {
+  const branches = new Set(worktrees.flatMap((worktree) => (worktree.branch === null ? [] : [worktree.branch])))
+  const childrenByParent = new Map<string, T[]>()
+  for (const worktree of worktrees) {
+    if (worktree.parent === null || worktree.parent === worktree.branch || branches.has(worktree.parent) !== true) {
+      continue
+    }
+    const children = childrenByParent.get(worktree.parent) ?? []
+    children.push(worktree)
+    childrenByParent.set(worktree.parent, children)
+  }
+  return childrenByParent
+}
+
+const walkStack = <T extends StackNode>({
+  root,
+  depth,
+  childrenByParent,
+  visited,
+  entries,
+}: {
+  readonly root: T
+  readonly depth: number
+  readonly childrenByParent: ReadonlyMap<string, readonly T[]>
+  readonly visited: Set<T>
+  readonly entries: StackEntry<T>[]
+}): void => {
+  if (visited.has(root)) {
+    return
+  }
+  visited.add(root)
+  entries.push({ worktree: root, depth })
+  if (root.branch === null) {
+    return
+  }
+  for (const child of childrenByParent.get(root.branch) ?? []) {
+    walkStack({ root: child, depth: depth + 1, childrenByParent, visited, entries })
+  }
+}
+
+export const orderWorktreesByStack = <T extends StackNode>(worktrees: readonly T[]): StackEntry<T>[] => {
+  const childrenByParent = groupChildrenByParent(worktrees)
+  const isChild = new Set([...childrenByParent.values()].flat())
+  const visited = new Set<T>()
+  const entries: StackEntry<T>[] = []
+  for (const worktree of worktrees) {
+    if (isChild.has(worktree) !== true) {
+      walkStack({ root: worktree, depth: 0, childrenByParent, visited, entries })
+    }
+  }
+  for (const worktree of worktrees) {
+    walkStack({ root: worktree, depth: 0, childrenByParent, visited, entries })
+  }
+  return entries
+}
+
+export const collectStackDescendants = <T extends StackNode>({
+  worktrees,
+  branch,
+}: {
+  readonly worktrees: readonly T[]
+  readonly branch: string
+}): T[] => {
+  const childrenByParent = groupChildrenByParent(worktrees)
+  const root = worktrees.find((worktree) => worktree.branch === branch)
+  if (root === undefined) {
+    return []
+  }
+  const entries: StackEntry<T>[] = []
+  walkStack({ root, depth: 0, childrenByParent, visited: new Set<T>(), entries })
+  return entries.slice(1).map((entry) => entry.worktree)
+}
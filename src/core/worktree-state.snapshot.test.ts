@@ -6,6 +6,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
 vi.mock("../git/exec", () => {
   return {
     runGitCommand: vi.fn(),
+    doesGitRefExist: vi.fn(),
   }
 })
 
@@ -15,19 +16,22 @@ vi.mock("../git/worktree", () => {
   }
 })
 
-vi.mock("../integrations/gh", () => {
+vi.mock("../integrations/pr", async (importOriginal) => {
   return {
+    ...(await importOriginal<typeof import("../integrations/pr")>()),
     resolvePrStateByBranchBatch: vi.fn(),
   }
 })
 
-import { runGitCommand } from "../git/exec"
+import { doesGitRefExist, runGitCommand } from "../git/exec"
 import { listGitWorktrees, type GitWorktree } from "../git/worktree"
-import { resolvePrStateByBranchBatch } from "../integrations/gh"
+import { resolvePrStateByBranchBatch } from "../integrations/pr"
 import { branchToWorktreeId, getLocksDirectoryPath, getStateDirectoryPath } from "./paths"
+import { upsertWorktreeMergeLifecycle } from "./worktree-merge-lifecycle"
 import { collectWorktreeSnapshot } from "./worktree-state"
 
 const mockedRunGitCommand = vi.mocked(runGitCommand)
+const mockedDoesGitRefExist = vi.mocked(doesGitRefExist)
 const mockedListGitWorktrees = vi.mocked(listGitWorktrees)
 const mockedResolvePrStateByBranchBatch = vi.mocked(resolvePrStateByBranchBatch)
 
@@ -69,6 +73,7 @@ beforeEach(() => {
   mockedRunGitCommand.mockReset()
   mockedListGitWorktrees.mockReset()
   mockedResolvePrStateByBranchBatch.mockReset()
+  mockedDoesGitRefExist.mockReset()
 })
 
 describe("collectWorktreeSnapshot", () => {
@@ -113,7 +118,7 @@ describe("collectWorktreeSnapshot", () => {
       if (cwd === repoRoot && args.join(" ") === "merge-base --is-ancestor feature/a trunk") {
         return gitResult({ exitCode: 1 })
       }
-      if (cwd === worktreePath && args.join(" ") === "status --porcelain") {
+      if (cwd === worktreePath && args.join(" ") === "--no-optional-locks status --porcelain") {
         return gitResult({ stdout: " M README.md\n" })
       }
       if (cwd === worktreePath && args.join(" ") === "rev-parse --abbrev-ref --symbolic-full-name @{upstream}") {
@@ -136,17 +141,21 @@ describe("collectWorktreeSnapshot", () => {
       baseBranch: "trunk",
       branches: ["feature/a"],
       enabled: false,
+      provider: expect.objectContaining({ name: "gh" }),
     })
     expect(snapshot.worktrees).toEqual([
       {
         branch: "feature/a",
         path: worktreePath,
         head: "abc123",
+        parent: null,
         dirty: true,
         locked: {
           value: true,
           reason: "active task",
           owner: "codex",
+          stale: false,
+          expiresAt: null,
         },
         merged: {
           byAncestry: false,
@@ -196,10 +205,10 @@ describe("collectWorktreeSnapshot", () => {
       ]),
     )
     mockedRunGitCommand.mockImplementation(async ({ cwd, args }) => {
-      if (cwd === detachedPath && args.join(" ") === "status --porcelain") {
+      if (cwd === detachedPath && args.join(" ") === "--no-optional-locks status --porcelain") {
         return gitResult({ stdout: "" })
       }
-      if (cwd === featurePath && args.join(" ") === "status --porcelain") {
+      if (cwd === featurePath && args.join(" ") === "--no-optional-locks status --porcelain") {
         return gitResult({ stdout: "" })
       }
       if (cwd === repoRoot && args.join(" ") === "merge-base --is-ancestor feature/b master") {
@@ -224,14 +233,16 @@ describe("collectWorktreeSnapshot", () => {
       baseBranch: "master",
       branches: [null, "feature/b"],
       enabled: true,
+      provider: expect.objectContaining({ name: "gh" }),
     })
 
     expect(snapshot.worktrees[0]).toEqual({
       branch: null,
       path: detachedPath,
       head: "h1",
+      parent: null,
       dirty: false,
-      locked: { value: false, reason: null, owner: null },
+      locked: { value: false, reason: null, owner: null, stale: false, expiresAt: null },
       merged: { byAncestry: null, byPR: null, overall: null },
       pr: { status: null, url: null },
       upstream: { ahead: null, behind: null, remote: null },
@@ -240,8 +251,9 @@ describe("collectWorktreeSnapshot", () => {
       branch: "feature/b",
       path: featurePath,
       head: "h2",
+      parent: null,
       dirty: false,
-      locked: { value: false, reason: null, owner: null },
+      locked: { value: false, reason: null, owner: null, stale: false, expiresAt: null },
       merged: { byAncestry: true, byPR: true, overall: true },
       pr: { status: "merged", url: "https://github.com/example/repo/pull/42" },
       upstream: { ahead: null, behind: null, remote: null },
@@ -275,7 +287,7 @@ describe("collectWorktreeSnapshot", () => {
       ]),
     )
     mockedRunGitCommand.mockImplementation(async ({ cwd, args }) => {
-      if (cwd === worktreePath && args.join(" ") === "status --porcelain") {
+      if (cwd === worktreePath && args.join(" ") === "--no-optional-locks status --porcelain") {
         return gitResult({ stdout: "" })
       }
       if (cwd === repoRoot && args.join(" ") === "merge-base --is-ancestor feature/c main") {
@@ -299,11 +311,14 @@ describe("collectWorktreeSnapshot", () => {
       branch: "feature/c",
       path: worktreePath,
       head: "h3",
+      parent: null,
       dirty: false,
       locked: {
         value: true,
         reason: "invalid lock metadata",
         owner: null,
+        stale: false,
+        expiresAt: null,
       },
       merged: {
         byAncestry: null,
@@ -350,7 +365,7 @@ describe("collectWorktreeSnapshot", () => {
       if (cwd === repoRoot && args.join(" ") === "merge-base --is-ancestor feature/no-gh main") {
         return gitResult({ exitCode: 1 })
       }
-      if (cwd === worktreePath && args.join(" ") === "status --porcelain") {
+      if (cwd === worktreePath && args.join(" ") === "--no-optional-locks status --porcelain") {
         return gitResult({ stdout: "" })
       }
       if (cwd === worktreePath && args.join(" ") === "rev-parse --abbrev-ref --symbolic-full-name @{upstream}") {
@@ -366,6 +381,7 @@ describe("collectWorktreeSnapshot", () => {
       baseBranch: "main",
       branches: ["feature/no-gh"],
       enabled: false,
+      provider: expect.objectContaining({ name: "gh" }),
     })
     expect(snapshot.worktrees[0]?.merged.byPR).toBeNull()
     expect(snapshot.worktrees[0]?.pr.status).toBe("unknown")
@@ -404,7 +420,7 @@ describe("collectWorktreeSnapshot", () => {
       if (cwd === repoRoot && args.join(" ") === "reflog show --format=%H%x09%gs feature/rebase") {
         return gitResult({ stdout: "" })
       }
-      if (cwd === worktreePath && args.join(" ") === "status --porcelain") {
+      if (cwd === worktreePath && args.join(" ") === "--no-optional-locks status --porcelain") {
         return gitResult({ stdout: "" })
       }
       if (cwd === worktreePath && args.join(" ") === "rev-parse --abbrev-ref --symbolic-full-name @{upstream}") {
@@ -455,7 +471,7 @@ describe("collectWorktreeSnapshot", () => {
       if (cwd === repoRoot && args.join(" ") === "merge-base --is-ancestor diverge123 main") {
         return gitResult({ exitCode: 0 })
       }
-      if (cwd === worktreePath && args.join(" ") === "status --porcelain") {
+      if (cwd === worktreePath && args.join(" ") === "--no-optional-locks status --porcelain") {
         return gitResult({ stdout: "" })
       }
       if (cwd === worktreePath && args.join(" ") === "rev-parse --abbrev-ref --symbolic-full-name @{upstream}") {
@@ -470,4 +486,57 @@ describe("collectWorktreeSnapshot", () => {
     expect(beforeMergeSnapshot.worktrees[0]?.merged.overall).toBe(false)
     expect(afterMergeSnapshot.worktrees[0]?.merged.overall).toBe(true)
   })
+  it("looks up PRs of stacked branches against their recorded parent", async () => {
+    const repoRoot = await createRepoRoot()
+    await mkdir(getStateDirectoryPath(repoRoot), { recursive: true })
+    const parentPath = join(repoRoot, ".worktree", "feature", "parent")
+    const childPath = join(repoRoot, ".worktree", "feature", "child")
+    await upsertWorktreeMergeLifecycle({
+      repoRoot,
+      branch: "feature/child",
+      baseBranch: "main",
+      parentBranch: "feature/parent",
+      observedDivergedHead: null,
+    })
+
+    mockedListGitWorktrees.mockResolvedValueOnce([
+      { path: parentPath, head: "p1", branch: "feature/parent" } satisfies GitWorktree,
+      { path: childPath, head: "c1", branch: "feature/child" } satisfies GitWorktree,
+    ])
+    mockedDoesGitRefExist.mockResolvedValue(true)
+    mockedResolvePrStateByBranchBatch.mockImplementation(async ({ baseBranch }) => {
+      return baseBranch === "feature/parent"
+        ? new Map([["feature/child", { status: "merged", url: "https://github.com/example/repo/pull/7" }]])
+        : new Map([["feature/parent", { status: "open", url: "https://github.com/example/repo/pull/6" }]])
+    })
+    mockedRunGitCommand.mockImplementation(async ({ cwd, args }) => {
+      const command = args.join(" ")
+      if (command === "--no-optional-locks status --porcelain") {
+        return gitResult({ stdout: "" })
+      }
+      if (cwd === repoRoot && command.startsWith("merge-base --is-ancestor ")) {
+        return gitResult({ exitCode: 1 })
+      }
+      if (command === "rev-parse --abbrev-ref --symbolic-full-name @{upstream}") {
+        return gitResult({ exitCode: 1 })
+      }
+      throw new Error(`unexpected git command: cwd=${cwd} args=${command}`)
+    })
+
+    const snapshot = await collectWorktreeSnapshot(repoRoot, { baseBranch: "main" })
+
+    expect(mockedResolvePrStateByBranchBatch).toHaveBeenCalledWith(
+      expect.objectContaining({ baseBranch: "main", branches: ["feature/parent"] }),
+    )
+    expect(mockedResolvePrStateByBranchBatch).toHaveBeenCalledWith(
+      expect.objectContaining({ baseBranch: "feature/parent", branches: ["feature/child"] }),
+    )
+    const child = snapshot.worktrees.find((worktree) => worktree.branch === "feature/child")
+    expect(child).toMatchObject({
+      parent: "feature/parent",
+      merged: { byPR: true },
+      pr: { status: "merged", url: "https://github.com/example/repo/pull/7" },
+    })
+    expect(snapshot.worktrees.find((worktree) => worktree.branch === "feature/parent")?.pr.status).toBe("open")
+  })
 })
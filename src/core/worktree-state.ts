@@ -1,10 +1,17 @@
 import { join } from "node:path"
-import { runGitCommand } from "../git/exec"
-import { resolvePrStateByBranchBatch, type PrState, type PrStatus } from "../integrations/gh"
+import { doesGitRefExist, runGitCommand } from "../git/exec"
+import { createGhPrProvider } from "../integrations/gh"
+import { resolvePrStateByBranchBatch, type PrProvider, type PrState, type PrStatus } from "../integrations/pr"
 import { type GitWorktree, listGitWorktrees } from "../git/worktree"
 import { readJsonRecord } from "./json-storage"
 import { branchToWorktreeId, getLocksDirectoryPath } from "./paths"
-import { type WorktreeMergeLifecycleRecord, upsertWorktreeMergeLifecycle } from "./worktree-merge-lifecycle"
+import { computeSnapshotCacheKey, readSnapshotCache, writeSnapshotCache } from "./snapshot-cache"
+import { isWorktreeLockStale, type WorktreeLockLiveness } from "./worktree-lock"
+import {
+  readWorktreeMergeLifecycle,
+  type WorktreeMergeLifecycleRecord,
+  upsertWorktreeMergeLifecycle,
+} from "./worktree-merge-lifecycle"
 
 type LockPayload = {
   readonly schemaVersion: 1
@@ -12,12 +19,14 @@ type LockPayload = {
   readonly worktreeId: string
   readonly reason: string
   readonly owner?: string
-}
+} & WorktreeLockLiveness
 
 export type WorktreeLockState = {
   readonly value: boolean
   readonly reason: string | null
   readonly owner: string | null
+  readonly stale: boolean
+  readonly expiresAt: string | null
 }
 
 export type WorktreeMergedState = {
@@ -41,6 +50,7 @@ export type WorktreeStatus = {
   readonly branch: string | null
   readonly path: string
   readonly head: string
+  readonly parent: string | null
   readonly dirty: boolean
   readonly locked: WorktreeLockState
   readonly merged: WorktreeMergedState
@@ -61,7 +71,7 @@ const isLockPayload = (parsed: Partial<LockPayload>): parsed is LockPayload => {
 const resolveDirty = async (worktreePath: string): Promise<boolean> => {
   const status = await runGitCommand({
     cwd: worktreePath,
-    args: ["status", "--porcelain"],
+    args: ["--no-optional-locks", "status", "--porcelain"],
     reject: false,
   })
   return status.stdout.trim().length > 0
@@ -75,7 +85,7 @@ const resolveLockState = async ({
   readonly branch: string | null
 }): Promise<WorktreeLockState> => {
   if (branch === null) {
-    return { value: false, reason: null, owner: null }
+    return { value: false, reason: null, owner: null, stale: false, expiresAt: null }
   }
 
   const id = branchToWorktreeId(branch)
@@ -86,13 +96,15 @@ const resolveLockState = async ({
     validate: isLockPayload,
   })
   if (lock.exists !== true) {
-    return { value: false, reason: null, owner: null }
+    return { value: false, reason: null, owner: null, stale: false, expiresAt: null }
   }
   if (lock.valid !== true || lock.record === null) {
     return {
       value: true,
       reason: "invalid lock metadata",
       owner: null,
+      stale: false,
+      expiresAt: null,
     }
   }
 
@@ -100,6 +112,8 @@ const resolveLockState = async ({
     value: true,
     reason: lock.record.reason,
     owner: typeof lock.record.owner === "string" && lock.record.owner.length > 0 ? lock.record.owner : null,
+    stale: isWorktreeLockStale(lock.record),
+    expiresAt: typeof lock.record.expiresAt === "string" ? lock.record.expiresAt : null,
   }
 }
 
@@ -114,6 +128,7 @@ type MergeLifecycleRepository = {
 }
 
 type MergeProbeRepository = {
+  readonly hasLocalBranch: (branch: string) => Promise<boolean>
   readonly probeAncestry: (input: { readonly branch: string; readonly baseBranch: string }) => Promise<boolean | null>
   readonly probeLifecycleFromReflog: (input: {
     readonly branch: string
@@ -261,6 +276,9 @@ const createMergeLifecycleRepository = ({ repoRoot }: { readonly repoRoot: strin
 
 const createMergeProbeRepository = ({ repoRoot }: { readonly repoRoot: string }): MergeProbeRepository => {
   return {
+    hasLocalBranch: async (branch): Promise<boolean> => {
+      return doesGitRefExist(repoRoot, `refs/heads/${branch}`)
+    },
     probeAncestry: async ({ branch, baseBranch }): Promise<boolean | null> => {
       const result = await runGitCommand({
         cwd: repoRoot,
@@ -282,16 +300,49 @@ const createMergeProbeRepository = ({ repoRoot }: { readonly repoRoot: string })
   }
 }
 
+const resolveParentBranch = async ({
+  repoRoot,
+  branch,
+}: {
+  readonly repoRoot: string
+  readonly branch: string | null
+}): Promise<string | null> => {
+  if (branch === null) {
+    return null
+  }
+  const lifecycle = await readWorktreeMergeLifecycle({ repoRoot, branch })
+  return lifecycle.valid ? (lifecycle.record?.parentBranch ?? null) : null
+}
+
+const resolveMergeTarget = async ({
+  repoRoot,
+  parentBranch,
+  baseBranch,
+}: {
+  readonly repoRoot: string
+  readonly parentBranch: string | null
+  readonly baseBranch: string | null
+}): Promise<string | null> => {
+  if (baseBranch === null) {
+    return null
+  }
+  return parentBranch !== null && (await createMergeProbeRepository({ repoRoot }).hasLocalBranch(parentBranch))
+    ? parentBranch
+    : baseBranch
+}
+
 const resolveMergedState = async ({
   repoRoot,
   branch,
   head,
+  mergeTarget,
   baseBranch,
   prStateByBranch,
 }: {
   readonly repoRoot: string
   readonly branch: string | null
   readonly head: string
+  readonly mergeTarget: string | null
   readonly baseBranch: string | null
   readonly prStateByBranch: ReadonlyMap<string, PrState>
 }): Promise<WorktreeMergedState> => {
@@ -302,7 +353,8 @@ const resolveMergedState = async ({
   const mergeProbeRepository = createMergeProbeRepository({ repoRoot })
   const mergeLifecycleRepository = createMergeLifecycleRepository({ repoRoot })
 
-  const byAncestry = baseBranch === null ? null : await mergeProbeRepository.probeAncestry({ branch, baseBranch })
+  const byAncestry =
+    mergeTarget === null ? null : await mergeProbeRepository.probeAncestry({ branch, baseBranch: mergeTarget })
 
   const byPR = resolveMergedByPr({
     branch,
@@ -311,7 +363,7 @@ const resolveMergedState = async ({
   })
 
   let byLifecycle: boolean | null = null
-  if (baseBranch !== null) {
+  if (baseBranch !== null && mergeTarget !== null) {
     const lifecycle = await mergeLifecycleRepository.upsert({
       branch,
       baseBranch,
@@ -323,14 +375,14 @@ const resolveMergedState = async ({
       if (hasLifecycleDivergedHead(lifecycle)) {
         byLifecycle = await mergeProbeRepository.probeAncestry({
           branch: lifecycle.lastDivergedHead,
-          baseBranch,
+          baseBranch: mergeTarget,
         })
       } else if (byPR === true) {
         byLifecycle = null
       } else {
         const probe = await mergeProbeRepository.probeLifecycleFromReflog({
           branch,
-          baseBranch,
+          baseBranch: mergeTarget,
         })
         byLifecycle = probe.merged
         if (probe.divergedHead !== null) {
@@ -433,21 +485,79 @@ const resolveUpstreamState = async (worktreePath: string): Promise<WorktreeUpstr
   }
 }
 
+type WorktreeMergeTarget = {
+  readonly worktree: GitWorktree
+  readonly parent: string | null
+  readonly mergeTarget: string | null
+}
+
+const resolvePrStateByMergeTarget = async ({
+  repoRoot,
+  baseBranch,
+  targets,
+  enabled,
+  provider,
+}: {
+  readonly repoRoot: string
+  readonly baseBranch: string | null
+  readonly targets: readonly WorktreeMergeTarget[]
+  readonly enabled: boolean
+  readonly provider: PrProvider
+}): Promise<ReadonlyMap<string, PrState>> => {
+  const branchesByParent = new Map<string, string[]>()
+  for (const { worktree, mergeTarget } of targets) {
+    if (mergeTarget !== null && mergeTarget !== baseBranch && worktree.branch !== null) {
+      branchesByParent.set(mergeTarget, [...(branchesByParent.get(mergeTarget) ?? []), worktree.branch])
+    }
+  }
+  const prStateByBranch = new Map(
+    await resolvePrStateByBranchBatch({
+      repoRoot,
+      baseBranch,
+      branches: targets
+        .filter(({ mergeTarget }) => mergeTarget === null || mergeTarget === baseBranch)
+        .map(({ worktree }) => worktree.branch),
+      enabled,
+      provider,
+    }),
+  )
+  for (const [parent, branches] of branchesByParent) {
+    const parentStates = await resolvePrStateByBranchBatch({
+      repoRoot,
+      baseBranch: parent,
+      branches,
+      enabled,
+      provider,
+    })
+    for (const [branch, state] of parentStates) {
+      prStateByBranch.set(branch, state)
+    }
+  }
+  return prStateByBranch
+}
+
 const enrichWorktree = async ({
   repoRoot,
-  worktree,
+  target: { worktree, parent, mergeTarget },
   baseBranch,
   prStateByBranch,
 }: {
   readonly repoRoot: string
-  readonly worktree: GitWorktree
+  readonly target: WorktreeMergeTarget
   readonly baseBranch: string | null
   readonly prStateByBranch: ReadonlyMap<string, PrState>
 }): Promise<WorktreeStatus> => {
   const [dirty, locked, merged, upstream] = await Promise.all([
     resolveDirty(worktree.path),
     resolveLockState({ repoRoot, branch: worktree.branch }),
-    resolveMergedState({ repoRoot, branch: worktree.branch, head: worktree.head, baseBranch, prStateByBranch }),
+    resolveMergedState({
+      repoRoot,
+      branch: worktree.branch,
+      head: worktree.head,
+      mergeTarget,
+      baseBranch,
+      prStateByBranch,
+    }),
     resolveUpstreamState(worktree.path),
   ])
   const pr = resolveWorktreePrState({
@@ -460,6 +570,7 @@ const enrichWorktree = async ({
     branch: worktree.branch,
     path: worktree.path,
     head: worktree.head,
+    parent,
     dirty,
     locked,
     merged,
@@ -468,6 +579,20 @@ const enrichWorktree = async ({
   }
 }
 
+const refreshCachedWorktree = async ({
+  repoRoot,
+  worktree,
+}: {
+  readonly repoRoot: string
+  readonly worktree: WorktreeStatus
+}): Promise<WorktreeStatus> => {
+  const [dirty, locked] = await Promise.all([
+    resolveDirty(worktree.path),
+    resolveLockState({ repoRoot, branch: worktree.branch }),
+  ])
+  return { ...worktree, dirty, locked }
+}
+
 export type WorktreeSnapshot = {
   readonly repoRoot: string
   readonly baseBranch: string | null
@@ -478,24 +603,61 @@ type CollectWorktreeSnapshotOptions = {
   readonly baseBranch?: string | null
   readonly ghEnabled?: boolean
   readonly noGh?: boolean
+  readonly prProvider?: PrProvider
+  readonly cache?: boolean
 }
 
 export const collectWorktreeSnapshot = async (
   repoRoot: string,
-  { baseBranch = null, ghEnabled = true, noGh = false }: CollectWorktreeSnapshotOptions = {},
+  {
+    baseBranch = null,
+    ghEnabled = true,
+    noGh = false,
+    prProvider = createGhPrProvider(),
+    cache = false,
+  }: CollectWorktreeSnapshotOptions = {},
 ): Promise<WorktreeSnapshot> => {
+  const prEnabled = ghEnabled && noGh !== true
   const worktrees = await listGitWorktrees(repoRoot)
-  const prStateByBranch = await resolvePrStateByBranchBatch({
+  const computeCacheKey = async (): Promise<string> => {
+    return computeSnapshotCacheKey({
+      repoRoot,
+      worktrees,
+      baseBranch,
+      prProvider: prEnabled ? prProvider.name : null,
+    })
+  }
+  if (cache) {
+    const cached = await readSnapshotCache({ repoRoot, key: await computeCacheKey() })
+    if (cached !== null) {
+      return {
+        repoRoot,
+        baseBranch,
+        worktrees: await Promise.all(cached.map(async (worktree) => refreshCachedWorktree({ repoRoot, worktree }))),
+      }
+    }
+  }
+  const targets = await Promise.all(
+    worktrees.map(async (worktree): Promise<WorktreeMergeTarget> => {
+      const parent = await resolveParentBranch({ repoRoot, branch: worktree.branch })
+      return { worktree, parent, mergeTarget: await resolveMergeTarget({ repoRoot, parentBranch: parent, baseBranch }) }
+    }),
+  )
+  const prStateByBranch = await resolvePrStateByMergeTarget({
     repoRoot,
     baseBranch,
-    branches: worktrees.map((worktree) => worktree.branch),
-    enabled: ghEnabled && noGh !== true,
+    targets,
+    enabled: prEnabled,
+    provider: prProvider,
   })
   const enriched = await Promise.all(
-    worktrees.map(async (worktree) => {
-      return enrichWorktree({ repoRoot, worktree, baseBranch, prStateByBranch })
+    targets.map(async (target) => {
+      return enrichWorktree({ repoRoot, target, baseBranch, prStateByBranch })
     }),
   )
+  if (cache) {
+    await writeSnapshotCache({ repoRoot, key: await computeCacheKey(), worktrees: enriched })
+  }
 
   return {
     repoRoot,
@@ -0,0 +1,110 @@
+import { readFile, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { execa } from "execa"
+import { afterEach, describe, expect, it } from "vitest"
+import { cleanupRepoFixtures, createRepoFixture } from "../test-utils/repo-fixture"
+import {
+  findWorktreeTrashEntry,
+  listWorktreeTrash,
+  moveWorktreeToTrash,
+  removeWorktreeTrashEntry,
+  resolveWorktreeTrashPatchPath,
+} from "./worktree-trash"
+
+const git = async (cwd: string, args: readonly string[]): Promise<string> => {
+  const result = await execa("git", [...args], { cwd })
+  return result.stdout
+}
+
+const createGitRepo = async (): Promise<string> => {
+  return createRepoFixture({
+    prefix: "vde-worktree-trash-",
+    setup: async (repoRoot) => {
+      await git(repoRoot, ["init", "-b", "main"])
+      await git(repoRoot, ["config", "user.name", "test-user"])
+      await git(repoRoot, ["config", "user.email", "test@example.com"])
+      await writeFile(join(repoRoot, "README.md"), "# test\n", "utf8")
+      await git(repoRoot, ["add", "."])
+      await git(repoRoot, ["commit", "-m", "initial"])
+      await writeFile(join(repoRoot, ".git", "info", "exclude"), ".vde/\n", "utf8")
+    },
+  })
+}
+
+afterEach(cleanupRepoFixtures)
+
+describe("worktree trash", () => {
+  it("records head only when the worktree is clean", async () => {
+    const repoRoot = await createGitRepo()
+    const head = await git(repoRoot, ["rev-parse", "HEAD"])
+
+    const record = await moveWorktreeToTrash({
+      repoRoot,
+      branch: "main",
+      worktreePath: repoRoot,
+      lock: null,
+      lifecycle: null,
+      command: "del",
+    })
+
+    expect(record.head).toBe(head)
+    expect(record.snapshot).toBeNull()
+    expect(record.patchFile).toBeNull()
+    expect(await git(repoRoot, ["rev-parse", `refs/vde-worktree/trash/${record.id}`])).toBe(head)
+  })
+
+  it("captures tracked and untracked changes without touching the index", async () => {
+    const repoRoot = await createGitRepo()
+    await writeFile(join(repoRoot, "README.md"), "# changed\n", "utf8")
+    await writeFile(join(repoRoot, "notes.txt"), "draft\n", "utf8")
+
+    const record = await moveWorktreeToTrash({
+      repoRoot,
+      branch: "feature/a",
+      worktreePath: repoRoot,
+      lock: null,
+      lifecycle: null,
+      command: "del",
+    })
+
+    expect(record.snapshot).not.toBeNull()
+    expect(await git(repoRoot, ["status", "--porcelain"])).toBe(" M README.md\n?? notes.txt")
+    const patchPath = resolveWorktreeTrashPatchPath({ repoRoot, record })
+    const patch = await readFile(patchPath as string, "utf8")
+    expect(patch).toContain("+# changed")
+    expect(patch).toContain("notes.txt")
+  })
+
+  it("lists newest first, finds by id or branch, and removes entries", async () => {
+    const repoRoot = await createGitRepo()
+    const older = await moveWorktreeToTrash({
+      repoRoot,
+      branch: "feature/a",
+      worktreePath: repoRoot,
+      lock: null,
+      lifecycle: null,
+      command: "del",
+      now: new Date("2026-03-01T00:00:00.000Z"),
+    })
+    const newer = await moveWorktreeToTrash({
+      repoRoot,
+      branch: "feature/a",
+      worktreePath: repoRoot,
+      lock: null,
+      lifecycle: null,
+      command: "gone",
+      now: new Date("2026-03-02T00:00:00.000Z"),
+    })
+
+    expect((await listWorktreeTrash(repoRoot)).map((entry) => entry.id)).toEqual([newer.id, older.id])
+    expect((await findWorktreeTrashEntry({ repoRoot, query: "feature/a" }))?.id).toBe(newer.id)
+    expect((await findWorktreeTrashEntry({ repoRoot, query: older.id }))?.id).toBe(older.id)
+    expect(await findWorktreeTrashEntry({ repoRoot, query: "feature/missing" })).toBeNull()
+
+    await removeWorktreeTrashEntry({ repoRoot, id: newer.id })
+    expect((await listWorktreeTrash(repoRoot)).map((entry) => entry.id)).toEqual([older.id])
+    expect(await git(repoRoot, ["for-each-ref", "--format=%(refname)", "refs/vde-worktree/trash"])).toBe(
+      `refs/vde-worktree/trash/${older.id}`,
+    )
+  })
+})
@@ -0,0 +1,215 @@
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { runGitCommand } from "../git/exec"
+import { readJsonRecord, writeJsonAtomically } from "./json-storage"
+import type { MutationUndoStep } from "./mutation-intent"
+import { branchToWorktreeId, getStateDirectoryPath } from "./paths"
+import type { WorktreeLockRecord } from "./worktree-lock"
+import type { WorktreeMergeLifecycleRecord } from "./worktree-merge-lifecycle"
+
+const TRASH_REF_PREFIX = "refs/vde-worktree/trash"
+const TRASH_ENTRY_FILE = "entry.json"
+const TRASH_PATCH_FILE = "changes.patch"
+const SNAPSHOT_IDENTITY_ENV = {
+  GIT_AUTHOR_NAME: "vde-worktree",
+  GIT_AUTHOR_EMAIL: "vde-worktree@localhost",
+  GIT_COMMITTER_NAME: "vde-worktree",
+  GIT_COMMITTER_EMAIL: "vde-worktree@localhost",
+} as const
+
+export type WorktreeTrashRecord = {
+  readonly schemaVersion: 1
+  readonly id: string
+  readonly branch: string
+  readonly worktreePath: string
+  readonly head: string
+  readonly snapshot: string | null
+  readonly patchFile: string | null
+  readonly lock: WorktreeLockRecord | null
+  readonly lifecycle: WorktreeMergeLifecycleRecord | null
+  readonly command: string
+  readonly deletedAt: string
+}
+
+const isWorktreeTrashRecord = (parsed: Partial<WorktreeTrashRecord>): parsed is WorktreeTrashRecord => {
+  return (
+    typeof parsed.id === "string" &&
+    typeof parsed.branch === "string" &&
+    typeof parsed.worktreePath === "string" &&
+    typeof parsed.head === "string" &&
+    (parsed.snapshot === null || typeof parsed.snapshot === "string") &&
+    (parsed.patchFile === null || typeof parsed.patchFile === "string") &&
+    (parsed.lock === null || typeof parsed.lock === "object") &&
+    (parsed.lifecycle === null || typeof parsed.lifecycle === "object") &&
+    typeof parsed.command === "string" &&
+    typeof parsed.deletedAt === "string"
+  )
+}
+
+export const getTrashDirectoryPath = (repoRoot: string): string => {
+  return join(getStateDirectoryPath(repoRoot), "trash")
+}
+
+const trashEntryDirectoryPath = (repoRoot: string, id: string): string => {
+  return join(getTrashDirectoryPath(repoRoot), id)
+}
+
+const trashRefName = (id: string): string => {
+  return `${TRASH_REF_PREFIX}/${id}`
+}
+
+const captureUncommittedSnapshot = async ({
+  worktreePath,
+  head,
+  branch,
+}: {
+  readonly worktreePath: string
+  readonly head: string
+  readonly branch: string
+}): Promise<string | null> => {
+  const indexDir = await mkdtemp(join(tmpdir(), "vde-worktree-trash-"))
+  const env = { GIT_INDEX_FILE: join(indexDir, "index") }
+  try {
+    await runGitCommand({ cwd: worktreePath, args: ["read-tree", head], env })
+    await runGitCommand({ cwd: worktreePath, args: ["add", "-A"], env })
+    const tree = (await runGitCommand({ cwd: worktreePath, args: ["write-tree"], env })).stdout.trim()
+    const headTree = (await runGitCommand({ cwd: worktreePath, args: ["rev-parse", `${head}^{tree}`] })).stdout.trim()
+    if (tree === headTree) {
+      return null
+    }
+    const commit = await runGitCommand({
+      cwd: worktreePath,
+      args: ["commit-tree", tree, "-p", head, "-m", `vw trash: ${branch}`],
+      env: SNAPSHOT_IDENTITY_ENV,
+    })
+    return commit.stdout.trim()
+  } finally {
+    await rm(indexDir, { recursive: true, force: true })
+  }
+}
+
+export const moveWorktreeToTrash = async ({
+  repoRoot,
+  branch,
+  worktreePath,
+  lock,
+  lifecycle,
+  command,
+  now = new Date(),
+}: {
+  readonly repoRoot: string
+  readonly branch: string
+  readonly worktreePath: string
+  readonly lock: WorktreeLockRecord | null
+  readonly lifecycle: WorktreeMergeLifecycleRecord | null
+  readonly command: string
+  readonly now?: Date
+}): Promise<WorktreeTrashRecord> => {
+  const deletedAt = now.toISOString()
+  const id = `${deletedAt.replace(/[-:.]/g, "")}-${branchToWorktreeId(branch)}`
+  const entryDir = trashEntryDirectoryPath(repoRoot, id)
+  await mkdir(entryDir, { recursive: true })
+
+  const head = (await runGitCommand({ cwd: worktreePath, args: ["rev-parse", "HEAD"] })).stdout.trim()
+  const snapshot = await captureUncommittedSnapshot({
+    worktreePath,
+    head,
+    branch,
+  })
+  let patchFile: string | null = null
+  if (snapshot !== null) {
+    const diff = await runGitCommand({ cwd: repoRoot, args: ["diff", "--binary", head, snapshot] })
+    patchFile = TRASH_PATCH_FILE
+    await writeFile(join(entryDir, patchFile), `${diff.stdout}\n`, "utf8")
+  }
+  await runGitCommand({ cwd: repoRoot, args: ["update-ref", trashRefName(id), snapshot ?? head] })
+
+  const record: WorktreeTrashRecord = {
+    schemaVersion: 1,
+    id,
+    branch,
+    worktreePath,
+    head,
+    snapshot,
+    patchFile,
+    lock,
+    lifecycle,
+    command,
+    deletedAt,
+  }
+  await writeJsonAtomically({
+    filePath: join(entryDir, TRASH_ENTRY_FILE),
+    payload: record,
+  })
+  return record
+}
+
+export const listWorktreeTrash = async (repoRoot: string): Promise<WorktreeTrashRecord[]> => {
+  let ids: string[]
+  try {
+    ids = await readdir(getTrashDirectoryPath(repoRoot))
+  } catch {
+    return []
+  }
+  const records: WorktreeTrashRecord[] = []
+  for (const id of ids) {
+    const parsed = await readJsonRecord<WorktreeTrashRecord>({
+      path: join(trashEntryDirectoryPath(repoRoot, id), TRASH_ENTRY_FILE),
+      schemaVersion: 1,
+      validate: isWorktreeTrashRecord,
+    })
+    if (parsed.record !== null) {
+      records.push(parsed.record)
+    }
+  }
+  return records.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt) || b.id.localeCompare(a.id))
+}
+
+export const findWorktreeTrashEntry = async ({
+  repoRoot,
+  query,
+}: {
+  readonly repoRoot: string
+  readonly query: string
+}): Promise<WorktreeTrashRecord | null> => {
+  const records = await listWorktreeTrash(repoRoot)
+  return records.find((record) => record.id === query) ?? records.find((record) => record.branch === query) ?? null
+}
+
+export const resolveWorktreeTrashPatchPath = ({
+  repoRoot,
+  record,
+}: {
+  readonly repoRoot: string
+  readonly record: WorktreeTrashRecord
+}): string | null => {
+  return record.patchFile === null ? null : join(trashEntryDirectoryPath(repoRoot, record.id), record.patchFile)
+}
+
+export const removeWorktreeTrashEntry = async ({
+  repoRoot,
+  id,
+}: {
+  readonly repoRoot: string
+  readonly id: string
+}): Promise<void> => {
+  await runGitCommand({ cwd: repoRoot, args: ["update-ref", "-d", trashRefName(id)], reject: false })
+  await rm(trashEntryDirectoryPath(repoRoot, id), { recursive: true, force: true })
+}
+
+export const createDiscardTrashEntryUndoStep = ({
+  repoRoot,
+  id,
+}: {
+  readonly repoRoot: string
+  readonly id: string
+}): MutationUndoStep => {
+  return {
+    description: "discard trash entry",
+    cwd: repoRoot,
+    args: ["update-ref", "-d", trashRefName(id)],
+    removePaths: [trashEntryDirectoryPath(repoRoot, id)],
+    allowFailure: true,
+  }
+}
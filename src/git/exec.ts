@@ -12,6 +12,7 @@ export type RunGitCommandInput = {
   readonly cwd: string
   readonly args: readonly string[]
   readonly reject?: boolean
+  readonly env?: NodeJS.ProcessEnv
 }
 
 export type RunGitCommandOutput = {
@@ -20,11 +21,17 @@ export type RunGitCommandOutput = {
   readonly exitCode: number
 }
 
-export const runGitCommand = async ({ cwd, args, reject = true }: RunGitCommandInput): Promise<RunGitCommandOutput> => {
+export const runGitCommand = async ({
+  cwd,
+  args,
+  reject = true,
+  env,
+}: RunGitCommandInput): Promise<RunGitCommandOutput> => {
   try {
     const result = await execa("git", [...args], {
       cwd,
       reject,
+      ...(env === undefined ? {} : { env }),
     })
     return {
       stdout: result.stdout,
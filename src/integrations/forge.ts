@@ -0,0 +1,25 @@
+import type { ForgeProvider } from "../config/types"
+import { createGhPrProvider } from "./gh"
+import { createGlabPrProvider } from "./glab"
+import { createCommandPrProvider } from "./pr-command"
+import type { PrProvider } from "./pr"
+import { createTeaPrProvider } from "./tea"
+
+export const createPrProvider = ({
+  provider,
+  command,
+}: {
+  readonly provider: ForgeProvider
+  readonly command: readonly string[]
+}): PrProvider => {
+  switch (provider) {
+    case "gh":
+      return createGhPrProvider()
+    case "glab":
+      return createGlabPrProvider()
+    case "tea":
+      return createTeaPrProvider()
+    case "command":
+      return createCommandPrProvider({ command })
+  }
+}
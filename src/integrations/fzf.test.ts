@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest"
-import { selectPathWithFzf } from "./fzf"
+import { selectPathsWithFzf, selectPathWithFzf } from "./fzf"
 
 describe("selectPathWithFzf", () => {
   it("returns selected path", async () => {
@@ -134,3 +134,50 @@ describe("selectPathWithFzf", () => {
     })
   })
 })
+
+describe("selectPathsWithFzf", () => {
+  it("runs fzf in multi mode and returns every selected line", async () => {
+    const result = await selectPathsWithFzf({
+      candidates: ["/repo/.worktree/a", "/repo/.worktree/b", "/repo/.worktree/c"],
+      preselectAll: true,
+      isInteractive: () => true,
+      checkFzfAvailability: async () => true,
+      runFzf: async ({ args }) => {
+        expect(args).toContain("--multi")
+        expect(args).toContain("--bind=load:select-all")
+        return { stdout: "/repo/.worktree/a\n/repo/.worktree/c\n" }
+      },
+    })
+
+    expect(result).toEqual({
+      status: "selected",
+      paths: ["/repo/.worktree/a", "/repo/.worktree/c"],
+    })
+  })
+
+  it("does not preselect candidates by default", async () => {
+    const result = await selectPathsWithFzf({
+      candidates: ["/repo/.worktree/a"],
+      isInteractive: () => true,
+      checkFzfAvailability: async () => true,
+      runFzf: async ({ args }) => {
+        expect(args).toContain("--multi")
+        expect(args).not.toContain("--bind=load:select-all")
+        return { stdout: "" }
+      },
+    })
+
+    expect(result).toEqual({ status: "cancelled" })
+  })
+
+  it("rejects selections outside the candidate list", async () => {
+    await expect(
+      selectPathsWithFzf({
+        candidates: ["/repo/.worktree/a"],
+        isInteractive: () => true,
+        checkFzfAvailability: async () => true,
+        runFzf: async () => ({ stdout: "/repo/.worktree/a\n/repo/.worktree/z\n" }),
+      }),
+    ).rejects.toThrow("not in the candidate list")
+  })
+})
@@ -93,6 +93,15 @@ export type SelectPathWithFzfResult =
       readonly status: "cancelled"
     }
 
+export type SelectPathsWithFzfResult =
+  | {
+      readonly status: "selected"
+      readonly paths: string[]
+    }
+  | {
+      readonly status: "cancelled"
+    }
+
 export type SelectPathWithFzfInput = {
   readonly candidates: ReadonlyArray<string>
   readonly prompt?: string
@@ -107,6 +116,10 @@ export type SelectPathWithFzfInput = {
   readonly runFzf?: (input: RunFzfInput) => Promise<RunFzfResult>
 }
 
+export type SelectPathsWithFzfInput = SelectPathWithFzfInput & {
+  readonly preselectAll?: boolean
+}
+
 const sanitizeCandidate = (value: string): string => value.replace(/[\r\n]+/g, " ").trim()
 const stripAnsi = (value: string): string => value.replace(ANSI_ESCAPE_SEQUENCE_REGEX, "")
 const stripTrailingNewlines = (value: string): string => value.replace(/[\r\n]+$/g, "")
@@ -239,7 +252,7 @@ const isTmuxUnknownOptionError = (error: unknown): boolean => {
   return /unknown option.*--tmux|--tmux.*unknown option/i.test(text)
 }
 
-export const selectPathWithFzf = async ({
+const runFzfSelection = async ({
   candidates,
   prompt = "worktree> ",
   surface = "inline",
@@ -251,7 +264,9 @@ export const selectPathWithFzf = async ({
   checkFzfAvailability = defaultCheckFzfAvailability,
   checkFzfTmuxSupport = defaultCheckFzfTmuxSupport,
   runFzf = defaultRunFzf,
-}: SelectPathWithFzfInput): Promise<SelectPathWithFzfResult> => {
+  multi,
+  preselectAll = false,
+}: SelectPathsWithFzfInput & { readonly multi: boolean }): Promise<string[] | null> => {
   if (candidates.length === 0) {
     throw new FzfInvalidArgumentError("No candidates provided for fzf selection")
   }
@@ -261,7 +276,8 @@ export const selectPathWithFzf = async ({
   }
 
   await ensureFzfAvailable(checkFzfAvailability)
-  const baseArgs = buildFzfArgs({ prompt, fzfExtraArgs })
+  const selectionArgs = multi ? ["--multi", ...(preselectAll ? ["--bind=load:select-all"] : [])] : []
+  const baseArgs = [...buildFzfArgs({ prompt, fzfExtraArgs }), ...selectionArgs]
   const tryTmuxPopup = await shouldTryTmuxPopup({
     surface,
     env,
@@ -275,7 +291,7 @@ export const selectPathWithFzf = async ({
 
   const candidateSet = new Set(input.split("\n").map((candidate) => stripAnsi(candidate)))
 
-  const runWithValidation = async (fzfArgs: string[]): Promise<SelectPathWithFzfResult> => {
+  const runWithValidation = async (fzfArgs: string[]): Promise<string[] | null> => {
     const result = await runFzf({
       args: fzfArgs,
       input,
@@ -283,19 +299,17 @@ export const selectPathWithFzf = async ({
       env,
     })
 
-    const selectedPath = stripAnsi(stripTrailingNewlines(result.stdout))
-    if (selectedPath.length === 0) {
-      return { status: "cancelled" }
+    const output = stripAnsi(stripTrailingNewlines(result.stdout))
+    if (output.length === 0) {
+      return null
     }
 
-    if (!candidateSet.has(selectedPath)) {
+    const selectedPaths = multi ? output.split("\n").filter((line) => line.length > 0) : [output]
+    if (selectedPaths.some((selectedPath) => !candidateSet.has(selectedPath))) {
       throw new FzfInvalidSelectionError("fzf returned a value that is not in the candidate list")
     }
 
-    return {
-      status: "selected",
-      path: selectedPath,
-    }
+    return selectedPaths
   }
 
   try {
@@ -307,15 +321,37 @@ export const selectPathWithFzf = async ({
       } catch (fallbackError) {
         const fallbackExecaError = fallbackError as ExecaLikeError
         if (fallbackExecaError.exitCode === 130) {
-          return { status: "cancelled" }
+          return null
         }
         throw fallbackError
       }
     }
     const execaError = error as ExecaLikeError
     if (execaError.exitCode === 130) {
-      return { status: "cancelled" }
+      return null
     }
     throw error
   }
 }
+
+export const selectPathWithFzf = async (input: SelectPathWithFzfInput): Promise<SelectPathWithFzfResult> => {
+  const selectedPaths = await runFzfSelection({ ...input, multi: false })
+  if (selectedPaths === null) {
+    return { status: "cancelled" }
+  }
+  return {
+    status: "selected",
+    path: selectedPaths[0] as string,
+  }
+}
+
+export const selectPathsWithFzf = async (input: SelectPathsWithFzfInput): Promise<SelectPathsWithFzfResult> => {
+  const selectedPaths = await runFzfSelection({ ...input, multi: true })
+  if (selectedPaths === null) {
+    return { status: "cancelled" }
+  }
+  return {
+    status: "selected",
+    paths: selectedPaths,
+  }
+}
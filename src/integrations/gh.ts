@@ -1,4 +1,13 @@
 import { execa } from "execa"
+import {
+  parseJsonArray,
+  resolvePrStateByBranchBatch as resolvePrStateByBranchBatchWithProvider,
+  toOptionalString,
+  type PrProvider,
+  type PrRecord,
+  type PrState,
+  type PrStatus,
+} from "./pr"
 
 type GhCommandRunnerInput = {
   readonly cwd: string
@@ -53,12 +62,6 @@ type ResolvePrByBranchBatchInput = {
   readonly runGh?: GhCommandRunner
 }
 
-export type PrStatus = "none" | "open" | "merged" | "closed_unmerged" | "unknown"
-export type PrState = {
-  readonly status: PrStatus
-  readonly url: string | null
-}
-
 type PrSummary = {
   readonly headRefName?: string | null
   readonly state?: string | null
@@ -87,49 +90,6 @@ const defaultRunGh: GhCommandRunner = async ({ cwd, args }) => {
   }
 }
 
-const toTargetBranches = ({
-  branches,
-  baseBranch,
-}: {
-  readonly branches: readonly (string | null)[]
-  readonly baseBranch: string
-}): string[] => {
-  const uniqueBranches = new Set<string>()
-  for (const branch of branches) {
-    if (typeof branch !== "string" || branch.length === 0) {
-      continue
-    }
-    if (branch === baseBranch) {
-      continue
-    }
-    uniqueBranches.add(branch)
-  }
-  return [...uniqueBranches]
-}
-
-const buildUnknownPrStateMap = (branches: readonly string[]): Map<string, PrState> => {
-  return new Map(
-    branches.map((branch) => [
-      branch,
-      {
-        status: "unknown",
-        url: null,
-      },
-    ]),
-  )
-}
-
-const parseUpdatedAtMillis = (value: unknown): number => {
-  if (typeof value !== "string" || value.length === 0) {
-    return Number.NEGATIVE_INFINITY
-  }
-  const parsed = Date.parse(value)
-  if (Number.isNaN(parsed)) {
-    return Number.NEGATIVE_INFINITY
-  }
-  return parsed
-}
-
 const toPrStatus = (record: PrSummary): PrStatus => {
   if (typeof record.mergedAt === "string" && record.mergedAt.length > 0) {
     return "merged"
@@ -147,144 +107,83 @@ const toPrStatus = (record: PrSummary): PrStatus => {
   return "unknown"
 }
 
-const toPrUrl = (record: PrSummary): string | null => {
-  if (typeof record.url === "string" && record.url.length > 0) {
-    return record.url
-  }
-  return null
-}
-
-const parsePrStateByBranch = ({
-  raw,
-  targetBranches,
-}: {
-  readonly raw: string
-  readonly targetBranches: readonly string[]
-}): Map<string, PrState> | null => {
-  try {
-    const parsed = JSON.parse(raw) as unknown
-    if (Array.isArray(parsed) !== true) {
-      return null
-    }
-    const targetBranchSet = new Set(targetBranches)
-    const records = parsed as PrSummary[]
-    const latestByBranch = new Map<
-      string,
-      { updatedAtMillis: number; index: number; status: PrStatus; url: string | null }
-    >()
-
-    for (const [index, record] of records.entries()) {
-      if (typeof record?.headRefName !== "string" || record.headRefName.length === 0) {
-        continue
-      }
-      if (targetBranchSet.has(record.headRefName) !== true) {
-        continue
-      }
-      const updatedAtMillis = parseUpdatedAtMillis(record.updatedAt)
-      const status = toPrStatus(record)
-      const url = toPrUrl(record)
-      const current = latestByBranch.get(record.headRefName)
-      if (
-        current === undefined ||
-        updatedAtMillis > current.updatedAtMillis ||
-        (updatedAtMillis === current.updatedAtMillis && index > current.index)
-      ) {
-        latestByBranch.set(record.headRefName, {
-          updatedAtMillis,
-          index,
-          status,
-          url,
-        })
-      }
-    }
-
-    const result = new Map<string, PrState>()
-    for (const branch of targetBranches) {
-      const latest = latestByBranch.get(branch)
-      if (latest === undefined) {
-        result.set(branch, {
-          status: "none",
-          url: null,
-        })
-        continue
-      }
-      result.set(branch, {
-        status: latest.status,
-        url: latest.url,
-      })
-    }
-    return result
-  } catch {
+const toPrRecords = (raw: string): PrRecord[] | null => {
+  const parsed = parseJsonArray(raw)
+  if (parsed === null) {
     return null
   }
+  return (parsed as PrSummary[]).flatMap((record) => {
+    if (typeof record?.headRefName !== "string" || record.headRefName.length === 0) {
+      return []
+    }
+    return [
+      {
+        branch: record.headRefName,
+        status: toPrStatus(record),
+        url: toOptionalString(record.url),
+        updatedAt: toOptionalString(record.updatedAt),
+      },
+    ]
+  })
 }
 
-export const resolvePrStateByBranchBatch = async ({
-  repoRoot,
-  baseBranch,
-  branches,
-  enabled = true,
-  runGh = defaultRunGh,
-}: ResolvePrByBranchBatchInput): Promise<ReadonlyMap<string, PrState>> => {
-  if (baseBranch === null) {
-    return new Map()
-  }
-
-  const targetBranches = toTargetBranches({ branches, baseBranch })
-  if (targetBranches.length === 0) {
-    return new Map()
-  }
-  if (enabled !== true) {
-    return buildUnknownPrStateMap(targetBranches)
-  }
-
-  try {
-    const searchQuery = targetBranches.map((branch) => `head:${branch}`).join(" OR ")
-    const result = await runGh({
-      cwd: repoRoot,
-      args: [
+export const createGhPrProvider = ({ runGh = defaultRunGh }: { readonly runGh?: GhCommandRunner } = {}): PrProvider => {
+  return {
+    name: "gh",
+    actions: {
+      command: "gh",
+      createArgs: ({ branch, baseBranch, body, interactive }): string[] => [
         "pr",
-        "list",
-        "--state",
-        "all",
+        "create",
         "--base",
         baseBranch,
-        "--search",
-        searchQuery,
-        "--limit",
-        "1000",
-        "--json",
-        "headRefName,state,mergedAt,updatedAt,url",
+        "--head",
+        branch,
+        ...(interactive ? [] : ["--fill"]),
+        ...(body === null ? [] : ["--body", body]),
       ],
-    })
-    if (result.exitCode !== 0) {
-      throw new GhCommandError({
-        exitCode: result.exitCode,
-        stderr: result.stderr,
+      viewArgs: ({ branch, web }): string[] => ["pr", "view", branch, ...(web ? ["--web"] : [])],
+    },
+    listPullRequests: async ({ repoRoot, baseBranch, branches }): Promise<readonly PrRecord[] | null> => {
+      const searchQuery = branches.map((branch) => `head:${branch}`).join(" OR ")
+      const result = await runGh({
+        cwd: repoRoot,
+        args: [
+          "pr",
+          "list",
+          "--state",
+          "all",
+          "--base",
+          baseBranch,
+          "--search",
+          searchQuery,
+          "--limit",
+          "1000",
+          "--json",
+          "headRefName,state,mergedAt,updatedAt,url",
+        ],
       })
-    }
-
-    const prStatusByBranch = parsePrStateByBranch({
-      raw: result.stdout,
-      targetBranches,
-    })
-    if (prStatusByBranch === null) {
-      return buildUnknownPrStateMap(targetBranches)
-    }
-
-    return prStatusByBranch
-  } catch (error) {
-    if (error instanceof GhUnavailableError || error instanceof GhCommandError) {
-      return buildUnknownPrStateMap(targetBranches)
-    }
-    const execaError = error as ExecaLikeError
-    if (execaError.code === "ENOENT") {
-      return buildUnknownPrStateMap(targetBranches)
-    }
-    return buildUnknownPrStateMap(targetBranches)
+      if (result.exitCode !== 0) {
+        throw new GhCommandError({
+          exitCode: result.exitCode,
+          stderr: result.stderr,
+        })
+      }
+      return toPrRecords(result.stdout)
+    },
   }
 }
 
+export const resolvePrStateByBranchBatch = async ({
+  runGh,
+  ...input
+}: ResolvePrByBranchBatchInput): Promise<ReadonlyMap<string, PrState>> => {
+  return resolvePrStateByBranchBatchWithProvider({
+    ...input,
+    provider: createGhPrProvider({ runGh }),
+  })
+}
+
 export const resolvePrStatusByBranchBatch = async (
   input: ResolvePrByBranchBatchInput,
 ): Promise<ReadonlyMap<string, PrStatus>> => {
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from "vitest"
+import { createGlabPrProvider } from "./glab"
+import { resolvePrStateByBranchBatch } from "./pr"
+
+describe("createGlabPrProvider", () => {
+  it("maps merge request states and prefers the latest record per branch", async () => {
+    const runGlab = vi.fn(async () => ({
+      exitCode: 0,
+      stdout: JSON.stringify([
+        {
+          source_branch: "feature/open",
+          state: "opened",
+          merged_at: null,
+          updated_at: "2026-02-10T10:00:00Z",
+          web_url: "https://gitlab.example.com/group/repo/-/merge_requests/1",
+        },
+        {
+          source_branch: "feature/merged",
+          state: "merged",
+          merged_at: "2026-02-10T11:00:00Z",
+          updated_at: "2026-02-10T11:00:00Z",
+          web_url: "https://gitlab.example.com/group/repo/-/merge_requests/2",
+        },
+        {
+          source_branch: "feature/closed",
+          state: "closed",
+          merged_at: null,
+          updated_at: "2026-02-10T12:00:00Z",
+          web_url: "https://gitlab.example.com/group/repo/-/merge_requests/3",
+        },
+        {
+          source_branch: "feature/open",
+          state: "closed",
+          merged_at: null,
+          updated_at: "2026-02-09T00:00:00Z",
+          web_url: "https://gitlab.example.com/group/repo/-/merge_requests/0",
+        },
+      ]),
+      stderr: "",
+    }))
+
+    const result = await resolvePrStateByBranchBatch({
+      repoRoot: "/repo",
+      baseBranch: "main",
+      branches: ["main", "feature/open", "feature/merged", "feature/closed", "feature/none"],
+      provider: createGlabPrProvider({ runGlab }),
+    })
+
+    expect(Object.fromEntries(result)).toEqual({
+      "feature/open": { status: "open", url: "https://gitlab.example.com/group/repo/-/merge_requests/1" },
+      "feature/merged": { status: "merged", url: "https://gitlab.example.com/group/repo/-/merge_requests/2" },
+      "feature/closed": { status: "closed_unmerged", url: "https://gitlab.example.com/group/repo/-/merge_requests/3" },
+      "feature/none": { status: "none", url: null },
+    })
+    expect(runGlab).toHaveBeenCalledWith({
+      cwd: "/repo",
+      args: ["mr", "list", "--all", "--target-branch", "main", "--per-page", "100", "--output", "json"],
+    })
+  })
+
+  it("returns unknown states when glab fails", async () => {
+    const result = await resolvePrStateByBranchBatch({
+      repoRoot: "/repo",
+      baseBranch: "main",
+      branches: ["feature/foo"],
+      provider: createGlabPrProvider({
+        runGlab: async () => ({ exitCode: 1, stdout: "", stderr: "not authenticated" }),
+      }),
+    })
+
+    expect(result.get("feature/foo")).toEqual({ status: "unknown", url: null })
+  })
+})
@@ -0,0 +1,86 @@
+import {
+  createPrCommandRunner,
+  parseJsonArray,
+  runPrCommand,
+  toOptionalString,
+  type PrCommandRunner,
+  type PrProvider,
+  type PrRecord,
+  type PrStatus,
+} from "./pr"
+
+type MergeRequestSummary = {
+  readonly source_branch?: string | null
+  readonly state?: string | null
+  readonly merged_at?: string | null
+  readonly updated_at?: string | null
+  readonly web_url?: string | null
+}
+
+const toPrStatus = (record: MergeRequestSummary): PrStatus => {
+  if (typeof record.merged_at === "string" && record.merged_at.length > 0) {
+    return "merged"
+  }
+  const state = typeof record.state === "string" ? record.state.toLowerCase() : ""
+  if (state === "merged") {
+    return "merged"
+  }
+  if (state === "opened" || state === "locked") {
+    return "open"
+  }
+  if (state === "closed") {
+    return "closed_unmerged"
+  }
+  return "unknown"
+}
+
+const toPrRecords = (raw: string): PrRecord[] | null => {
+  const parsed = parseJsonArray(raw)
+  if (parsed === null) {
+    return null
+  }
+  return (parsed as MergeRequestSummary[]).flatMap((record) => {
+    if (typeof record?.source_branch !== "string" || record.source_branch.length === 0) {
+      return []
+    }
+    return [
+      {
+        branch: record.source_branch,
+        status: toPrStatus(record),
+        url: toOptionalString(record.web_url),
+        updatedAt: toOptionalString(record.updated_at),
+      },
+    ]
+  })
+}
+
+export const createGlabPrProvider = ({
+  runGlab = createPrCommandRunner("glab"),
+}: { readonly runGlab?: PrCommandRunner } = {}): PrProvider => {
+  return {
+    name: "glab",
+    actions: {
+      command: "glab",
+      createArgs: ({ branch, baseBranch, body, interactive }): string[] => [
+        "mr",
+        "create",
+        "--source-branch",
+        branch,
+        "--target-branch",
+        baseBranch,
+        ...(interactive ? [] : ["--fill", "--yes"]),
+        ...(body === null ? [] : ["--description", body]),
+      ],
+      viewArgs: ({ branch, web }): string[] => ["mr", "view", branch, ...(web ? ["--web"] : [])],
+    },
+    listPullRequests: async ({ repoRoot, baseBranch }): Promise<readonly PrRecord[] | null> => {
+      const stdout = await runPrCommand({
+        command: "glab",
+        runCommand: runGlab,
+        cwd: repoRoot,
+        args: ["mr", "list", "--all", "--target-branch", baseBranch, "--per-page", "100", "--output", "json"],
+      })
+      return toPrRecords(stdout)
+    },
+  }
+}
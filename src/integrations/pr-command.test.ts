@@ -0,0 +1,99 @@
+import { chmod, mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { resolvePrStateByBranchBatch } from "./pr"
+import { createCommandPrProvider } from "./pr-command"
+
+const tempDirs = new Set<string>()
+
+afterEach(async () => {
+  await Promise.all(
+    [...tempDirs].map(async (dir) => {
+      await rm(dir, { recursive: true, force: true })
+    }),
+  )
+  tempDirs.clear()
+})
+
+describe("createCommandPrProvider", () => {
+  it("passes branches on stdin and reads normalized records", async () => {
+    const runCommand = vi.fn(async () => ({
+      exitCode: 0,
+      stdout: JSON.stringify([
+        { branch: "feature/open", status: "open", url: "https://forge.example.com/pr/1" },
+        { branch: "feature/odd", status: "draft" },
+        { status: "merged" },
+      ]),
+      stderr: "",
+    }))
+
+    const result = await resolvePrStateByBranchBatch({
+      repoRoot: "/repo",
+      baseBranch: "main",
+      branches: ["feature/open", "feature/odd", "feature/none"],
+      provider: createCommandPrProvider({ command: ["./pr-status", "--all"], runCommand }),
+    })
+
+    expect(Object.fromEntries(result)).toEqual({
+      "feature/open": { status: "open", url: "https://forge.example.com/pr/1" },
+      "feature/odd": { status: "unknown", url: null },
+      "feature/none": { status: "none", url: null },
+    })
+    expect(runCommand).toHaveBeenCalledWith({
+      cwd: "/repo",
+      args: ["--all"],
+      input: `${JSON.stringify({ baseBranch: "main", branches: ["feature/open", "feature/odd", "feature/none"] })}\n`,
+    })
+  })
+
+  it("runs the configured script from the repository root", async () => {
+    const repoRoot = await mkdtemp(join(tmpdir(), "vde-worktree-pr-command-"))
+    tempDirs.add(repoRoot)
+    await writeFile(
+      join(repoRoot, "pr-status.sh"),
+      [
+        "#!/usr/bin/env node",
+        'let raw = ""',
+        'process.stdin.on("data", (chunk) => { raw += chunk })',
+        'process.stdin.on("end", () => {',
+        "  const { branches } = JSON.parse(raw)",
+        '  console.log(JSON.stringify(branches.map((branch) => ({ branch, status: "merged" }))))',
+        "})",
+        "",
+      ].join("\n"),
+      "utf8",
+    )
+    await chmod(join(repoRoot, "pr-status.sh"), 0o755)
+
+    const result = await resolvePrStateByBranchBatch({
+      repoRoot,
+      baseBranch: "main",
+      branches: ["feature/foo"],
+      provider: createCommandPrProvider({ command: ["./pr-status.sh"] }),
+    })
+
+    expect(result.get("feature/foo")).toEqual({ status: "merged", url: null })
+  })
+
+  it("returns unknown states when the command is missing or fails", async () => {
+    const missing = await resolvePrStateByBranchBatch({
+      repoRoot: tmpdir(),
+      baseBranch: "main",
+      branches: ["feature/foo"],
+      provider: createCommandPrProvider({ command: ["vde-worktree-missing-pr-command"] }),
+    })
+    expect(missing.get("feature/foo")).toEqual({ status: "unknown", url: null })
+
+    const failed = await resolvePrStateByBranchBatch({
+      repoRoot: "/repo",
+      baseBranch: "main",
+      branches: ["feature/foo"],
+      provider: createCommandPrProvider({
+        command: ["./pr-status"],
+        runCommand: async () => ({ exitCode: 2, stdout: "", stderr: "boom" }),
+      }),
+    })
+    expect(failed.get("feature/foo")).toEqual({ status: "unknown", url: null })
+  })
+})
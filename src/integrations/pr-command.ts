@@ -0,0 +1,66 @@
+import {
+  createPrCommandRunner,
+  parseJsonArray,
+  PR_STATUSES,
+  runPrCommand,
+  toOptionalString,
+  type PrCommandRunner,
+  type PrProvider,
+  type PrRecord,
+  type PrStatus,
+} from "./pr"
+
+type CommandPrSummary = {
+  readonly branch?: string | null
+  readonly status?: string | null
+  readonly url?: string | null
+  readonly updatedAt?: string | null
+}
+
+const toPrStatus = (value: unknown): PrStatus => {
+  return PR_STATUSES.find((status) => status === value) ?? "unknown"
+}
+
+const toPrRecords = (raw: string): PrRecord[] | null => {
+  const parsed = parseJsonArray(raw)
+  if (parsed === null) {
+    return null
+  }
+  return (parsed as CommandPrSummary[]).flatMap((record) => {
+    if (typeof record?.branch !== "string" || record.branch.length === 0) {
+      return []
+    }
+    return [
+      {
+        branch: record.branch,
+        status: toPrStatus(record.status),
+        url: toOptionalString(record.url),
+        updatedAt: toOptionalString(record.updatedAt),
+      },
+    ]
+  })
+}
+
+export const createCommandPrProvider = ({
+  command,
+  runCommand,
+}: {
+  readonly command: readonly string[]
+  readonly runCommand?: PrCommandRunner
+}): PrProvider => {
+  const [file = "", ...args] = command
+  const runner = runCommand ?? createPrCommandRunner(file)
+  return {
+    name: `command:${command.join(" ")}`,
+    listPullRequests: async ({ repoRoot, baseBranch, branches }): Promise<readonly PrRecord[] | null> => {
+      const stdout = await runPrCommand({
+        command: file,
+        runCommand: runner,
+        cwd: repoRoot,
+        args,
+        input: `${JSON.stringify({ baseBranch, branches })}\n`,
+      })
+      return toPrRecords(stdout)
+    },
+  }
+}
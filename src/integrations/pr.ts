@@ -0,0 +1,288 @@
+import { execa } from "execa"
+
+export type PrStatus = "none" | "open" | "merged" | "closed_unmerged" | "unknown"
+export type PrState = {
+  readonly status: PrStatus
+  readonly url: string | null
+}
+
+export type PrRecord = {
+  readonly branch: string
+  readonly status: PrStatus
+  readonly url: string | null
+  readonly updatedAt: string | null
+}
+
+export type PrListInput = {
+  readonly repoRoot: string
+  readonly baseBranch: string
+  readonly branches: readonly string[]
+}
+
+export type PrCreateInput = {
+  readonly branch: string
+  readonly baseBranch: string
+  readonly body: string | null
+  readonly interactive: boolean
+}
+
+export type PrViewInput = {
+  readonly branch: string
+  readonly web: boolean
+}
+
+export type PrActions = {
+  readonly command: string
+  readonly createArgs: (input: PrCreateInput) => string[]
+  readonly viewArgs?: (input: PrViewInput) => string[]
+}
+
+export type PrProvider = {
+  readonly name: string
+  readonly listPullRequests: (input: PrListInput) => Promise<readonly PrRecord[] | null>
+  readonly actions?: PrActions
+}
+
+export type PrCommandRunnerInput = {
+  readonly cwd: string
+  readonly args: readonly string[]
+  readonly input?: string
+}
+
+export type PrCommandRunnerOutput = {
+  readonly exitCode: number
+  readonly stdout: string
+  readonly stderr: string
+}
+
+export type PrCommandRunner = (input: PrCommandRunnerInput) => Promise<PrCommandRunnerOutput>
+
+type ExecaLikeError = Error & {
+  readonly code?: string
+}
+
+export const PR_STATUSES: readonly PrStatus[] = ["none", "open", "merged", "closed_unmerged", "unknown"]
+
+export class PrProviderUnavailableError extends Error {
+  readonly code = "PR_PROVIDER_UNAVAILABLE"
+
+  constructor(message: string) {
+    super(message)
+    this.name = "PrProviderUnavailableError"
+  }
+}
+
+export class PrCommandError extends Error {
+  readonly code = "PR_COMMAND_FAILED"
+  readonly details: {
+    readonly command: string
+    readonly exitCode: number
+    readonly stderr: string
+  }
+
+  constructor({
+    command,
+    exitCode,
+    stderr,
+  }: {
+    readonly command: string
+    readonly exitCode: number
+    readonly stderr: string
+  }) {
+    super(`${command} command failed with exitCode=${String(exitCode)}`)
+    this.name = "PrCommandError"
+    this.details = {
+      command,
+      exitCode,
+      stderr,
+    }
+  }
+}
+
+export const createPrCommandRunner = (command: string): PrCommandRunner => {
+  return async ({ cwd, args, input }) => {
+    try {
+      const result = await execa(command, [...args], {
+        cwd,
+        reject: false,
+        ...(input === undefined ? { stdin: "ignore" as const } : { input }),
+      })
+      return {
+        exitCode: result.exitCode ?? 0,
+        stdout: result.stdout,
+        stderr: result.stderr,
+      }
+    } catch (error) {
+      const execaError = error as ExecaLikeError
+      if (execaError.code === "ENOENT") {
+        throw new PrProviderUnavailableError(`${command} command not found`)
+      }
+      throw error
+    }
+  }
+}
+
+export const runPrCommand = async ({
+  command,
+  runCommand,
+  cwd,
+  args,
+  input,
+}: {
+  readonly command: string
+  readonly runCommand: PrCommandRunner
+  readonly cwd: string
+  readonly args: readonly string[]
+  readonly input?: string
+}): Promise<string> => {
+  const result = await runCommand(input === undefined ? { cwd, args } : { cwd, args, input })
+  if (result.exitCode !== 0) {
+    throw new PrCommandError({
+      command,
+      exitCode: result.exitCode,
+      stderr: result.stderr,
+    })
+  }
+  return result.stdout
+}
+
+export const parseJsonArray = (raw: string): unknown[] | null => {
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return Array.isArray(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+export const toOptionalString = (value: unknown): string | null => {
+  return typeof value === "string" && value.length > 0 ? value : null
+}
+
+const toTargetBranches = ({
+  branches,
+  baseBranch,
+}: {
+  readonly branches: readonly (string | null)[]
+  readonly baseBranch: string
+}): string[] => {
+  const uniqueBranches = new Set<string>()
+  for (const branch of branches) {
+    if (typeof branch !== "string" || branch.length === 0) {
+      continue
+    }
+    if (branch === baseBranch) {
+      continue
+    }
+    uniqueBranches.add(branch)
+  }
+  return [...uniqueBranches]
+}
+
+const buildUnknownPrStateMap = (branches: readonly string[]): Map<string, PrState> => {
+  return new Map(
+    branches.map((branch) => [
+      branch,
+      {
+        status: "unknown",
+        url: null,
+      },
+    ]),
+  )
+}
+
+const parseUpdatedAtMillis = (value: string | null): number => {
+  if (value === null || value.length === 0) {
+    return Number.NEGATIVE_INFINITY
+  }
+  const parsed = Date.parse(value)
+  if (Number.isNaN(parsed)) {
+    return Number.NEGATIVE_INFINITY
+  }
+  return parsed
+}
+
+const selectLatestPrStateByBranch = ({
+  records,
+  targetBranches,
+}: {
+  readonly records: readonly PrRecord[]
+  readonly targetBranches: readonly string[]
+}): Map<string, PrState> => {
+  const targetBranchSet = new Set(targetBranches)
+  const latestByBranch = new Map<string, { updatedAtMillis: number; index: number; state: PrState }>()
+
+  for (const [index, record] of records.entries()) {
+    if (targetBranchSet.has(record.branch) !== true) {
+      continue
+    }
+    const updatedAtMillis = parseUpdatedAtMillis(record.updatedAt)
+    const current = latestByBranch.get(record.branch)
+    if (
+      current === undefined ||
+      updatedAtMillis > current.updatedAtMillis ||
+      (updatedAtMillis === current.updatedAtMillis && index > current.index)
+    ) {
+      latestByBranch.set(record.branch, {
+        updatedAtMillis,
+        index,
+        state: {
+          status: record.status,
+          url: record.url,
+        },
+      })
+    }
+  }
+
+  const result = new Map<string, PrState>()
+  for (const branch of targetBranches) {
+    result.set(
+      branch,
+      latestByBranch.get(branch)?.state ?? {
+        status: "none",
+        url: null,
+      },
+    )
+  }
+  return result
+}
+
+export const resolvePrStateByBranchBatch = async ({
+  repoRoot,
+  baseBranch,
+  branches,
+  enabled = true,
+  provider,
+}: {
+  readonly repoRoot: string
+  readonly baseBranch: string | null
+  readonly branches: readonly (string | null)[]
+  readonly enabled?: boolean
+  readonly provider: PrProvider
+}): Promise<ReadonlyMap<string, PrState>> => {
+  if (baseBranch === null) {
+    return new Map()
+  }
+
+  const targetBranches = toTargetBranches({ branches, baseBranch })
+  if (targetBranches.length === 0) {
+    return new Map()
+  }
+  if (enabled !== true) {
+    return buildUnknownPrStateMap(targetBranches)
+  }
+
+  try {
+    const records = await provider.listPullRequests({
+      repoRoot,
+      baseBranch,
+      branches: targetBranches,
+    })
+    if (records === null) {
+      return buildUnknownPrStateMap(targetBranches)
+    }
+    return selectLatestPrStateByBranch({ records, targetBranches })
+  } catch {
+    return buildUnknownPrStateMap(targetBranches)
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest"
+import { resolvePrStateByBranchBatch } from "./pr"
+import { createTeaPrProvider } from "./tea"
+
+describe("createTeaPrProvider", () => {
+  it("maps pull states and ignores pulls targeting other base branches", async () => {
+    const runTea = vi.fn(async () => ({
+      exitCode: 0,
+      stdout: JSON.stringify([
+        {
+          index: "3",
+          state: "open",
+          head: "feature/open",
+          base: "main",
+          url: "https://gitea.example.com/org/repo/pulls/3",
+          updated: "2026-02-10T10:00:00Z",
+        },
+        {
+          index: "2",
+          state: "merged",
+          head: "feature/merged",
+          base: "main",
+          url: "https://gitea.example.com/org/repo/pulls/2",
+          updated: "2026-02-10T09:00:00Z",
+        },
+        {
+          index: "1",
+          state: "closed",
+          head: "feature/closed",
+          base: "main",
+          url: "https://gitea.example.com/org/repo/pulls/1",
+          updated: "2026-02-10T08:00:00Z",
+        },
+        {
+          index: "4",
+          state: "open",
+          head: "feature/none",
+          base: "release",
+          url: "https://gitea.example.com/org/repo/pulls/4",
+          updated: "2026-02-10T11:00:00Z",
+        },
+      ]),
+      stderr: "",
+    }))
+
+    const result = await resolvePrStateByBranchBatch({
+      repoRoot: "/repo",
+      baseBranch: "main",
+      branches: ["feature/open", "feature/merged", "feature/closed", "feature/none"],
+      provider: createTeaPrProvider({ runTea }),
+    })
+
+    expect(Object.fromEntries(result)).toEqual({
+      "feature/open": { status: "open", url: "https://gitea.example.com/org/repo/pulls/3" },
+      "feature/merged": { status: "merged", url: "https://gitea.example.com/org/repo/pulls/2" },
+      "feature/closed": { status: "closed_unmerged", url: "https://gitea.example.com/org/repo/pulls/1" },
+      "feature/none": { status: "none", url: null },
+    })
+    expect(runTea).toHaveBeenCalledWith({
+      cwd: "/repo",
+      args: [
+        "pulls",
+        "list",
+        "--state",
+        "all",
+        "--limit",
+        "1000",
+        "--output",
+        "json",
+        "--fields",
+        "index,state,head,base,url,updated",
+      ],
+    })
+  })
+
+  it("returns unknown states on invalid JSON", async () => {
+    const result = await resolvePrStateByBranchBatch({
+      repoRoot: "/repo",
+      baseBranch: "main",
+      branches: ["feature/foo"],
+      provider: createTeaPrProvider({
+        runTea: async () => ({ exitCode: 0, stdout: "No pull requests", stderr: "" }),
+      }),
+    })
+
+    expect(result.get("feature/foo")).toEqual({ status: "unknown", url: null })
+  })
+})
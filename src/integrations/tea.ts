@@ -0,0 +1,92 @@
+import {
+  createPrCommandRunner,
+  parseJsonArray,
+  runPrCommand,
+  toOptionalString,
+  type PrCommandRunner,
+  type PrProvider,
+  type PrRecord,
+  type PrStatus,
+} from "./pr"
+
+type PullSummary = {
+  readonly head?: string | null
+  readonly base?: string | null
+  readonly state?: string | null
+  readonly updated?: string | null
+  readonly url?: string | null
+}
+
+const toPrStatus = (record: PullSummary): PrStatus => {
+  const state = typeof record.state === "string" ? record.state.toLowerCase() : ""
+  if (state === "merged") {
+    return "merged"
+  }
+  if (state === "open") {
+    return "open"
+  }
+  if (state === "closed") {
+    return "closed_unmerged"
+  }
+  return "unknown"
+}
+
+const toPrRecords = ({ raw, baseBranch }: { readonly raw: string; readonly baseBranch: string }): PrRecord[] | null => {
+  const parsed = parseJsonArray(raw)
+  if (parsed === null) {
+    return null
+  }
+  return (parsed as PullSummary[]).flatMap((record) => {
+    if (typeof record?.head !== "string" || record.head.length === 0 || record.base !== baseBranch) {
+      return []
+    }
+    return [
+      {
+        branch: record.head,
+        status: toPrStatus(record),
+        url: toOptionalString(record.url),
+        updatedAt: toOptionalString(record.updated),
+      },
+    ]
+  })
+}
+
+export const createTeaPrProvider = ({
+  runTea = createPrCommandRunner("tea"),
+}: { readonly runTea?: PrCommandRunner } = {}): PrProvider => {
+  return {
+    name: "tea",
+    actions: {
+      command: "tea",
+      createArgs: ({ branch, baseBranch, body }): string[] => [
+        "pulls",
+        "create",
+        "--head",
+        branch,
+        "--base",
+        baseBranch,
+        ...(body === null ? [] : ["--description", body]),
+      ],
+    },
+    listPullRequests: async ({ repoRoot, baseBranch }): Promise<readonly PrRecord[] | null> => {
+      const stdout = await runPrCommand({
+        command: "tea",
+        runCommand: runTea,
+        cwd: repoRoot,
+        args: [
+          "pulls",
+          "list",
+          "--state",
+          "all",
+          "--limit",
+          "1000",
+          "--output",
+          "json",
+          "--fields",
+          "index,state,head,base,url,updated",
+        ],
+      })
+      return toPrRecords({ raw: stdout, baseBranch })
+    },
+  }
+}
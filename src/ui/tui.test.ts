@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest"
+import { formatTuiTableLines, initialTuiState, reduceTuiInput, type TuiRow } from "./tui"
+
+const rows: TuiRow[] = [
+  { branch: "main", path: "/repo", cells: ["* main", "clean"] },
+  { branch: "feature/foo", path: "/repo/.worktree/feature/foo", cells: ["  feature/foo", "dirty"] },
+  { branch: null, path: "/repo/.worktree/detached", cells: ["  (detached)", "clean"] },
+]
+
+describe("reduceTuiInput", () => {
+  it("moves selection within row bounds", () => {
+    const down = reduceTuiInput({ state: initialTuiState, input: "j", key: {}, rows })
+    expect(down.state.selectedIndex).toBe(1)
+
+    const bottom = reduceTuiInput({
+      state: { ...initialTuiState, selectedIndex: 2 },
+      input: "",
+      key: { downArrow: true },
+      rows,
+    })
+    expect(bottom.state.selectedIndex).toBe(2)
+
+    const top = reduceTuiInput({ state: initialTuiState, input: "k", key: {}, rows })
+    expect(top.state.selectedIndex).toBe(0)
+  })
+
+  it("emits action effects for the selected branch", () => {
+    const state = { ...initialTuiState, selectedIndex: 1 }
+
+    expect(reduceTuiInput({ state, input: "l", key: {}, rows }).effect).toEqual({
+      kind: "action",
+      action: "lock",
+      branch: "feature/foo",
+    })
+    expect(reduceTuiInput({ state, input: "a", key: {}, rows }).effect).toEqual({
+      kind: "action",
+      action: "absorb",
+      branch: "feature/foo",
+    })
+  })
+
+  it("requires confirmation before del", () => {
+    const state = { ...initialTuiState, selectedIndex: 1 }
+    const confirm = reduceTuiInput({ state, input: "d", key: {}, rows })
+    expect(confirm.effect).toEqual({ kind: "none" })
+    expect(confirm.state.mode).toEqual({ kind: "confirm", branch: "feature/foo" })
+
+    const cancelled = reduceTuiInput({ state: confirm.state, input: "n", key: {}, rows })
+    expect(cancelled.effect).toEqual({ kind: "none" })
+    expect(cancelled.state.message).toBe("del: cancelled")
+
+    const accepted = reduceTuiInput({ state: confirm.state, input: "y", key: {}, rows })
+    expect(accepted.effect).toEqual({ kind: "action", action: "del", branch: "feature/foo" })
+  })
+
+  it("rejects branch actions on detached worktrees", () => {
+    const result = reduceTuiInput({ state: { ...initialTuiState, selectedIndex: 2 }, input: "u", key: {}, rows })
+    expect(result.effect).toEqual({ kind: "none" })
+    expect(result.state.message).toBe("unlock: selected worktree has no branch")
+  })
+
+  it("collects prompt input for switch and exec", () => {
+    let state = reduceTuiInput({ state: initialTuiState, input: "s", key: {}, rows }).state
+    for (const input of "feature/barr") {
+      state = reduceTuiInput({ state, input, key: {}, rows }).state
+    }
+    state = reduceTuiInput({ state, input: "", key: { backspace: true }, rows }).state
+    expect(reduceTuiInput({ state, input: "", key: { return: true }, rows }).effect).toEqual({
+      kind: "action",
+      action: "switch",
+      branch: "feature/bar",
+    })
+
+    state = reduceTuiInput({ state: { ...initialTuiState, selectedIndex: 1 }, input: "x", key: {}, rows }).state
+    state = reduceTuiInput({ state, input: "pnpm  test", key: {}, rows }).state
+    expect(reduceTuiInput({ state, input: "", key: { return: true }, rows }).effect).toEqual({
+      kind: "exec",
+      branch: "feature/foo",
+      argv: ["pnpm", "test"],
+    })
+  })
+
+  it("parses shell-style quoting in the exec prompt", () => {
+    const submitExec = (value: string): ReturnType<typeof reduceTuiInput> => {
+      let state = reduceTuiInput({ state: { ...initialTuiState, selectedIndex: 1 }, input: "x", key: {}, rows }).state
+      state = reduceTuiInput({ state, input: value, key: {}, rows }).state
+      return reduceTuiInput({ state, input: "", key: { return: true }, rows })
+    }
+
+    expect(submitExec(`git commit -m "two words" --author='A B' a\\ b ""`).effect).toEqual({
+      kind: "exec",
+      branch: "feature/foo",
+      argv: ["git", "commit", "-m", "two words", "--author=A B", "a b", ""],
+    })
+    expect(submitExec(`echo "say \\"hi\\" \\n" 'it\\s'`).effect).toMatchObject({
+      argv: ["echo", 'say "hi" \\n', "it\\s"],
+    })
+    const unterminated = submitExec(`git commit -m "oops`)
+    expect(unterminated.effect).toEqual({ kind: "none" })
+    expect(unterminated.state.message).toBe("exec: unterminated quote")
+  })
+
+  it("quits on q and escape", () => {
+    expect(reduceTuiInput({ state: initialTuiState, input: "q", key: {}, rows }).effect).toEqual({ kind: "quit" })
+    expect(reduceTuiInput({ state: initialTuiState, input: "", key: { escape: true }, rows }).effect).toEqual({
+      kind: "quit",
+    })
+  })
+})
+
+describe("formatTuiTableLines", () => {
+  it("aligns cells by display width", () => {
+    expect(formatTuiTableLines({ columns: ["branch", "dirty"], rows })).toEqual([
+      "branch         dirty",
+      "* main         clean",
+      "  feature/foo  dirty",
+      "  (detached)   clean",
+    ])
+  })
+})
@@ -0,0 +1,425 @@
+import { Box, Text, render, useApp, useInput, type Key } from "ink"
+import { createElement as h, useCallback, useEffect, useState, type ReactElement } from "react"
+import stringWidth from "string-width"
+
+const ENTER_ALTERNATE_SCREEN = "\u001b[?1049h"
+const LEAVE_ALTERNATE_SCREEN = "\u001b[?1049l"
+
+export type TuiAction = "switch" | "del" | "lock" | "unlock" | "absorb"
+
+export type TuiRow = {
+  readonly branch: string | null
+  readonly path: string
+  readonly cells: readonly string[]
+}
+
+export type TuiDashboard = {
+  readonly repoRoot: string
+  readonly baseBranch: string | null
+  readonly columns: readonly string[]
+  readonly rows: readonly TuiRow[]
+}
+
+export type TuiActionRequest = {
+  readonly action: TuiAction
+  readonly branch: string
+}
+
+export type TuiActionResult = {
+  readonly ok: boolean
+  readonly message: string
+}
+
+export type TuiExecRequest = {
+  readonly branch: string
+  readonly argv: readonly string[]
+}
+
+type TuiMode =
+  | { readonly kind: "browse" }
+  | {
+      readonly kind: "prompt"
+      readonly target: "switch" | "exec"
+      readonly branch: string | null
+      readonly value: string
+    }
+  | { readonly kind: "confirm"; readonly branch: string }
+
+export type TuiState = {
+  readonly selectedIndex: number
+  readonly mode: TuiMode
+  readonly message: string | null
+}
+
+export type TuiKey = Partial<Pick<Key, "upArrow" | "downArrow" | "return" | "escape" | "backspace" | "delete" | "ctrl">>
+
+export type TuiEffect =
+  | { readonly kind: "none" }
+  | { readonly kind: "quit" }
+  | { readonly kind: "refresh" }
+  | ({ readonly kind: "action" } & TuiActionRequest)
+  | ({ readonly kind: "exec" } & TuiExecRequest)
+
+type TuiTransition = {
+  readonly state: TuiState
+  readonly effect: TuiEffect
+}
+
+export const TUI_KEY_HELP = "↑/k ↓/j move  r refresh  s switch  d del  l lock  u unlock  a absorb  x exec  q quit"
+
+export const initialTuiState: TuiState = {
+  selectedIndex: 0,
+  mode: { kind: "browse" },
+  message: null,
+}
+
+const clampIndex = ({ index, rowCount }: { readonly index: number; readonly rowCount: number }): number => {
+  if (rowCount <= 0) {
+    return 0
+  }
+  return Math.min(Math.max(index, 0), rowCount - 1)
+}
+
+const stay = (state: TuiState): TuiTransition => {
+  return { state, effect: { kind: "none" } }
+}
+
+const DOUBLE_QUOTE_ESCAPABLE = new Set(['"', "\\", "$", "`"])
+
+const splitCommandLine = (value: string): string[] | null => {
+  const argv: string[] = []
+  let current: string | null = null
+  let quote: "'" | '"' | null = null
+  for (let index = 0; index < value.length; index += 1) {
+    const char = value[index] as string
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null
+      } else {
+        current = `${current ?? ""}${char}`
+      }
+      continue
+    }
+    if (char === "\\" && index + 1 < value.length) {
+      const next = value[index + 1] as string
+      if (quote === null || DOUBLE_QUOTE_ESCAPABLE.has(next)) {
+        current = `${current ?? ""}${next}`
+        index += 1
+        continue
+      }
+    }
+    if (quote === '"') {
+      if (char === '"') {
+        quote = null
+      } else {
+        current = `${current ?? ""}${char}`
+      }
+      continue
+    }
+    if (char === "'" || char === '"') {
+      quote = char
+      current = current ?? ""
+      continue
+    }
+    if (/\s/.test(char)) {
+      if (current !== null) {
+        argv.push(current)
+        current = null
+      }
+      continue
+    }
+    current = `${current ?? ""}${char}`
+  }
+  if (quote !== null) {
+    return null
+  }
+  if (current !== null) {
+    argv.push(current)
+  }
+  return argv
+}
+
+const reducePromptInput = ({
+  state,
+  mode,
+  input,
+  key,
+}: {
+  readonly state: TuiState
+  readonly mode: Extract<TuiMode, { kind: "prompt" }>
+  readonly input: string
+  readonly key: TuiKey
+}): TuiTransition => {
+  if (key.escape === true) {
+    return stay({ ...state, mode: { kind: "browse" }, message: null })
+  }
+  if (key.backspace === true || key.delete === true) {
+    return stay({ ...state, mode: { ...mode, value: mode.value.slice(0, -1) } })
+  }
+  if (key.return !== true) {
+    if (key.ctrl === true || input.length === 0) {
+      return stay(state)
+    }
+    return stay({ ...state, mode: { ...mode, value: `${mode.value}${input}` } })
+  }
+
+  const value = mode.value.trim()
+  const browseState: TuiState = { ...state, mode: { kind: "browse" } }
+  if (value.length === 0) {
+    return stay({ ...browseState, message: `${mode.target}: input is empty` })
+  }
+  if (mode.target === "switch") {
+    return {
+      state: { ...browseState, message: null },
+      effect: { kind: "action", action: "switch", branch: value },
+    }
+  }
+  if (mode.branch === null) {
+    return stay({ ...browseState, message: "exec: selected worktree has no branch" })
+  }
+  const argv = splitCommandLine(value)
+  if (argv === null) {
+    return stay({ ...browseState, message: "exec: unterminated quote" })
+  }
+  return {
+    state: { ...browseState, message: null },
+    effect: { kind: "exec", branch: mode.branch, argv },
+  }
+}
+
+export const reduceTuiInput = ({
+  state,
+  input,
+  key,
+  rows,
+}: {
+  readonly state: TuiState
+  readonly input: string
+  readonly key: TuiKey
+  readonly rows: readonly TuiRow[]
+}): TuiTransition => {
+  const mode = state.mode
+  if (mode.kind === "prompt") {
+    return reducePromptInput({ state, mode, input, key })
+  }
+  if (mode.kind === "confirm") {
+    const browseState: TuiState = { ...state, mode: { kind: "browse" } }
+    if (input === "y" || input === "Y") {
+      return {
+        state: { ...browseState, message: null },
+        effect: { kind: "action", action: "del", branch: mode.branch },
+      }
+    }
+    return stay({ ...browseState, message: "del: cancelled" })
+  }
+
+  if (input === "q" || key.escape === true || (key.ctrl === true && input === "c")) {
+    return { state, effect: { kind: "quit" } }
+  }
+  if (key.upArrow === true || input === "k") {
+    return stay({ ...state, selectedIndex: clampIndex({ index: state.selectedIndex - 1, rowCount: rows.length }) })
+  }
+  if (key.downArrow === true || input === "j") {
+    return stay({ ...state, selectedIndex: clampIndex({ index: state.selectedIndex + 1, rowCount: rows.length }) })
+  }
+  if (input === "r") {
+    return { state, effect: { kind: "refresh" } }
+  }
+  if (input === "s") {
+    return stay({ ...state, mode: { kind: "prompt", target: "switch", branch: null, value: "" }, message: null })
+  }
+
+  const selected = rows[clampIndex({ index: state.selectedIndex, rowCount: rows.length })]
+  if (input === "x") {
+    if (selected === undefined) {
+      return stay(state)
+    }
+    return stay({
+      ...state,
+      mode: { kind: "prompt", target: "exec", branch: selected.branch, value: "" },
+      message: null,
+    })
+  }
+
+  const action: TuiAction | null =
+    input === "d" ? "del" : input === "l" ? "lock" : input === "u" ? "unlock" : input === "a" ? "absorb" : null
+  if (action === null || selected === undefined) {
+    return stay(state)
+  }
+  if (selected.branch === null) {
+    return stay({ ...state, message: `${action}: selected worktree has no branch` })
+  }
+  if (action === "del") {
+    return stay({ ...state, mode: { kind: "confirm", branch: selected.branch }, message: null })
+  }
+  return {
+    state: { ...state, message: null },
+    effect: { kind: "action", action, branch: selected.branch },
+  }
+}
+
+const padCell = ({ value, width }: { readonly value: string; readonly width: number }): string => {
+  return `${value}${" ".repeat(Math.max(0, width - stringWidth(value)))}`
+}
+
+export const formatTuiTableLines = ({
+  columns,
+  rows,
+}: {
+  readonly columns: readonly string[]
+  readonly rows: readonly TuiRow[]
+}): string[] => {
+  const widths = columns.map((column, index) => {
+    return rows.reduce((width, row) => Math.max(width, stringWidth(row.cells[index] ?? "")), stringWidth(column))
+  })
+  const formatLine = (cells: readonly string[]): string => {
+    return widths
+      .map((width, index) => padCell({ value: cells[index] ?? "", width }))
+      .join("  ")
+      .trimEnd()
+  }
+  return [formatLine(columns), ...rows.map((row) => formatLine(row.cells))]
+}
+
+const renderFooter = (mode: TuiMode): string => {
+  if (mode.kind === "prompt") {
+    const label = mode.target === "switch" ? "switch branch" : `exec in ${mode.branch ?? "(detached)"}`
+    return `${label}> ${mode.value}`
+  }
+  if (mode.kind === "confirm") {
+    return `delete ${mode.branch}? (y/N)`
+  }
+  return TUI_KEY_HELP
+}
+
+const toErrorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : String(error)
+}
+
+type TuiExitOutcome = { readonly kind: "quit" } | ({ readonly kind: "exec" } & TuiExecRequest)
+
+type TuiAppProps = {
+  readonly loadDashboard: () => Promise<TuiDashboard>
+  readonly runAction: (request: TuiActionRequest) => Promise<TuiActionResult>
+  readonly refreshIntervalMs: number
+  readonly initialState: TuiState
+  readonly onExit: (outcome: TuiExitOutcome, state: TuiState) => void
+}
+
+const TuiApp = ({ loadDashboard, runAction, refreshIntervalMs, initialState, onExit }: TuiAppProps): ReactElement => {
+  const { exit } = useApp()
+  const [dashboard, setDashboard] = useState<TuiDashboard | null>(null)
+  const [state, setState] = useState<TuiState>(initialState)
+  const [busy, setBusy] = useState(false)
+
+  const refresh = useCallback(async (): Promise<void> => {
+    try {
+      setDashboard(await loadDashboard())
+    } catch (error) {
+      setState((current) => ({ ...current, message: toErrorMessage(error) }))
+    }
+  }, [loadDashboard])
+
+  useEffect(() => {
+    void refresh()
+    const timer = setInterval(() => {
+      void refresh()
+    }, refreshIntervalMs)
+    return (): void => {
+      clearInterval(timer)
+    }
+  }, [refresh, refreshIntervalMs])
+
+  useInput((input, key) => {
+    if (busy) {
+      return
+    }
+    const { state: nextState, effect } = reduceTuiInput({ state, input, key, rows: dashboard?.rows ?? [] })
+    setState(nextState)
+    if (effect.kind === "quit" || effect.kind === "exec") {
+      onExit(effect, nextState)
+      exit()
+      return
+    }
+    if (effect.kind === "refresh") {
+      void refresh()
+      return
+    }
+    if (effect.kind === "action") {
+      setBusy(true)
+      setState({ ...nextState, message: `${effect.action} ${effect.branch}...` })
+      void runAction({ action: effect.action, branch: effect.branch })
+        .catch((error: unknown): TuiActionResult => ({ ok: false, message: toErrorMessage(error) }))
+        .then(async (result) => {
+          setState((current) => ({ ...current, message: result.message }))
+          await refresh()
+        })
+        .finally(() => {
+          setBusy(false)
+        })
+    }
+  })
+
+  if (dashboard === null) {
+    return h(Text, null, state.message ?? "Loading worktrees...")
+  }
+
+  const selectedIndex = clampIndex({ index: state.selectedIndex, rowCount: dashboard.rows.length })
+  const [headerLine, ...rowLines] = formatTuiTableLines({ columns: dashboard.columns, rows: dashboard.rows })
+  return h(
+    Box,
+    { flexDirection: "column" },
+    h(Text, { bold: true }, `vde-worktree  ${dashboard.repoRoot}  (base: ${dashboard.baseBranch ?? "-"})`),
+    h(Text, null, ""),
+    h(Text, { bold: true, underline: true }, headerLine ?? ""),
+    ...rowLines.map((line, index) =>
+      h(Text, { key: dashboard.rows[index]?.path ?? String(index), inverse: index === selectedIndex }, line),
+    ),
+    h(Text, null, ""),
+    h(Text, { dimColor: state.message === null }, state.message ?? " "),
+    h(Text, { color: state.mode.kind === "browse" ? "gray" : "yellow" }, renderFooter(state.mode)),
+  )
+}
+
+export const runWorktreeTui = async ({
+  loadDashboard,
+  runAction,
+  runExec,
+  refreshIntervalMs,
+}: {
+  readonly loadDashboard: () => Promise<TuiDashboard>
+  readonly runAction: (request: TuiActionRequest) => Promise<TuiActionResult>
+  readonly runExec: (request: TuiExecRequest) => Promise<number>
+  readonly refreshIntervalMs: number
+}): Promise<void> => {
+  let state = initialTuiState
+  for (;;) {
+    const exitHolder: { outcome: TuiExitOutcome } = { outcome: { kind: "quit" } }
+    process.stdout.write(ENTER_ALTERNATE_SCREEN)
+    try {
+      const instance = render(
+        h(TuiApp, {
+          loadDashboard,
+          runAction,
+          refreshIntervalMs,
+          initialState: state,
+          onExit: (outcome, lastState) => {
+            exitHolder.outcome = outcome
+            state = lastState
+          },
+        }),
+        { exitOnCtrlC: false },
+      )
+      await instance.waitUntilExit()
+    } finally {
+      process.stdout.write(LEAVE_ALTERNATE_SCREEN)
+    }
+
+    const outcome = exitHolder.outcome
+    if (outcome.kind === "quit") {
+      return
+    }
+    const exitCode = await runExec({ branch: outcome.branch, argv: outcome.argv })
+    state = { ...state, message: `exec ${outcome.branch}: exit ${String(exitCode)}` }
+  }
+}
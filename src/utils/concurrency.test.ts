@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest"
+import { mapWithConcurrency } from "./concurrency"
+
+describe("mapWithConcurrency", () => {
+  it("keeps result order and never exceeds the concurrency limit", async () => {
+    let running = 0
+    let peak = 0
+    const results = await mapWithConcurrency({
+      items: [30, 10, 20, 5, 15],
+      concurrency: 2,
+      task: async (delay, index) => {
+        running += 1
+        peak = Math.max(peak, running)
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        running -= 1
+        return `${String(index)}:${String(delay)}`
+      },
+    })
+
+    expect(results).toEqual(["0:30", "1:10", "2:20", "3:5", "4:15"])
+    expect(peak).toBe(2)
+  })
+
+  it("returns empty results for empty input", async () => {
+    expect(await mapWithConcurrency({ items: [], concurrency: 4, task: async () => 1 })).toEqual([])
+  })
+})
@@ -0,0 +1,21 @@
+export const mapWithConcurrency = async <T, R>({
+  items,
+  concurrency,
+  task,
+}: {
+  readonly items: readonly T[]
+  readonly concurrency: number
+  readonly task: (item: T, index: number) => Promise<R>
+}): Promise<R[]> => {
+  const results = new Array<R>(items.length)
+  let nextIndex = 0
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex
+      nextIndex += 1
+      results[index] = await task(items[index] as T, index)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker))
+  return results
+}
@@ -1,7 +1,10 @@
 import { defineConfig } from "tsdown"
 
 export default defineConfig({
-  entry: ["./src/index.ts"],
+  entry: {
+    index: "./src/index.ts",
+    api: "./src/api/index.ts",
+  },
   tsconfig: "tsconfig.app.json",
   format: "esm",
   platform: "node",